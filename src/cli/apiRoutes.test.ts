@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { handleApiRequest } from './apiRoutes';
+import { validateFormFields } from '../components/formSchemas';
+import { getMaterialPresetInputs } from '../domain/pipeline/materials';
+import trackSuite from '../domain/pipeline/golden/cases/track.json';
+import gridSuite from '../domain/pipeline/golden/cases/grid.json';
+
+const post = (path: string, body: unknown) => handleApiRequest('POST', path, JSON.stringify(body));
+const errorOf = (body: unknown) => (body as { error: { code: string; issues?: { path: string }[] } }).error;
+
+const trackInputs = trackSuite.cases[0].inputs;
+const gridInputs = gridSuite.cases[0].inputs;
+
+describe('POST /calculate', () => {
+  it('runs a valid configuration', () => {
+    const { status, body } = post('/calculate', { type: 'TRACK', inputs: trackInputs });
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ type: 'TRACK', pass: expect.any(Boolean), results: expect.any(Object) });
+  });
+
+  it('answers field-level issues instead of engine errors', () => {
+    const { totalLoad: _, ...withoutLoad } = gridInputs;
+    const { status, body } = post('/calculate', { type: 'GRID', inputs: { ...withoutLoad, pipeWT: -1, trailer: true } });
+    expect(status).toBe(400);
+    expect(errorOf(body).code).toBe('VALIDATION_ERROR');
+    expect(errorOf(body).issues.map(i => i.path).sort()).toEqual(['inputs', 'inputs.pipeWT', 'inputs.totalLoad']);
+
+    const missing = post('/calculate', { type: 'GRID', inputs: withoutLoad });
+    expect(errorOf(missing.body).issues).toEqual([{ path: 'inputs.totalLoad', message: 'Required when loadType is TOTAL_LOAD' }]);
+  });
+
+  it('applies the same field rules as the calculator forms', () => {
+    const unnamed = post('/calculate', { type: 'TRACK', inputs: { ...trackInputs, calculationName: '' } });
+    expect(errorOf(unnamed.body).issues).toEqual([{ path: 'inputs.calculationName', message: 'Name is required' }]);
+    expect(validateFormFields('TRACK', { calculationName: '' }).issues).toEqual(['calculationName: Name is required']);
+
+    // Both accept a material without a design temperature (no SMYS derating)
+    const material = getMaterialPresetInputs('STAINLESS_STEEL', 'EN');
+    expect(post('/calculate', { type: 'TRACK', inputs: { ...trackInputs, material } }).status).toBe(200);
+    expect(validateFormFields('TRACK', { calculationName: 'Stainless', material }).issues).toEqual([]);
+  });
+
+  it('answers engine validation errors with the input fields', () => {
+    const { status, body } = post('/calculate', { type: 'TRACK', inputs: { ...trackInputs, pipeWT: 20 } });
+    expect(status).toBe(422);
+    expect(errorOf(body)).toMatchObject({ code: 'CALCULATION_ERROR', issues: [{ path: 'inputs.pipeWT' }] });
+  });
+
+  it('rejects unknown calculation types and malformed JSON', () => {
+    expect(errorOf(post('/calculate', { type: 'BOAT', inputs: trackInputs }).body).issues[0].path).toBe('type');
+    const { status, body } = handleApiRequest('POST', '/calculate', '{"type":');
+    expect(status).toBe(400);
+    expect(errorOf(body).code).toBe('INVALID_JSON');
+  });
+});
+
+describe('POST /sensitivity', () => {
+  it('sweeps a parameter of the base configuration', () => {
+    const { status, body } = post('/sensitivity', {
+      base: { type: 'TRACK', inputs: trackInputs },
+      parameter: 'depthCover',
+      sweep: { mode: 'absolute', min: 3, max: 9, step: 1 },
+    });
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ parameter: 'depthCover', unit: 'ft' });
+    expect((body as { points: { parameterValue: number }[] }).points.map(p => p.parameterValue)).toEqual([3, 4, 5, 6, 7, 8, 9]);
+  });
+
+  it('rejects parameters the engine does not sweep and oversized sweeps', () => {
+    const base = { type: 'TRACK', inputs: trackInputs };
+    expect(errorOf(post('/sensitivity', { base, parameter: 'axleSpacing', sweep: { mode: 'percentage' } }).body).issues[0].path).toBe('parameter');
+    expect(errorOf(post('/sensitivity', { base, parameter: 'depthCover', sweep: { mode: 'absolute', step: 1e-6 } }).body).issues[0].path).toBe('sweep');
+  });
+});
+
+describe('routing', () => {
+  it('serves the presets', () => {
+    const { status, body } = handleApiRequest('GET', '/presets', '');
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      pipeSizes: expect.arrayContaining([expect.objectContaining({ nps: '36', wallThicknesses: expect.any(Array) })]),
+      steelGrades: expect.arrayContaining([expect.objectContaining({ label: 'X52' })]),
+      vehicles: expect.any(Array),
+    });
+  });
+
+  it('answers unknown paths and wrong methods', () => {
+    expect(handleApiRequest('GET', '/calc', '').status).toBe(404);
+    const response = handleApiRequest('GET', '/calculate', '');
+    expect(response.status).toBe(405);
+    expect(response.headers).toEqual({ Allow: 'POST' });
+  });
+});
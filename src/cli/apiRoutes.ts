@@ -0,0 +1,195 @@
+/**
+ * Local HTTP API routes
+ *   POST /calculate    { type, inputs }                      -> { type, pass, results }
+ *   POST /sensitivity  { base: { type, inputs }, parameter, sweep } -> { parameter, unit, points }
+ *   GET  /presets      pipe sizes, steel grades, vehicles and sensitivity parameters
+ * Request bodies are validated against the engine input schemas; every failure
+ * is answered with { error: { code, message, issues? } }.
+ */
+
+import { z } from 'zod';
+import { CalculationMode } from '../types/calculation';
+import { computeSurfaceLoad, isPassingCalculation, SurfaceLoadInputs } from '../domain/pipeline/computeSurfaceLoad';
+import { surfaceLoadInputsSchema, formatInputIssues, InputIssue } from '../domain/pipeline/inputSchemas';
+import { InputValidationError } from '../domain/pipeline/inputValidation';
+import { generateSensitivitySweep, SENSITIVITY_PARAMETERS } from '../domain/pipeline/sensitivity';
+import { PIPE_SIZES, STEEL_GRADES, WALL_THICKNESS_BY_NPS } from '../domain/pipeline/pipePresets';
+import { VEHICLE_LIBRARY } from '../domain/pipeline/vehicleLibrary';
+
+export type ApiErrorCode =
+  | 'INVALID_JSON'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'VALIDATION_ERROR'
+  | 'CALCULATION_ERROR'
+  | 'NOT_FOUND'
+  | 'METHOD_NOT_ALLOWED'
+  | 'INTERNAL_ERROR';
+
+export interface ApiError {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    issues?: InputIssue[]; // field-level validation issues
+  };
+}
+
+export interface ApiResponse {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+// Upper bound on sweep steps before generateSensitivitySweep samples them down to 200 points
+const MAX_SWEEP_STEPS = 10000;
+
+const sweepSchema = z.discriminatedUnion('mode', [
+  z.object({
+    mode: z.literal('percentage'),
+    percentRange: z.number().positive().max(100).optional(), // ±%, defaults to 20
+    percentStep: z.number().positive().optional(), // %, defaults to 5
+  }).strict(),
+  z.object({
+    mode: z.literal('absolute'),
+    min: z.number().optional(), // defaults to 0.5 x base value
+    max: z.number().optional(), // defaults to 1.5 x base value
+    step: z.number().positive().optional(), // defaults to 1/20 of the range
+  }).strict(),
+]);
+
+const sensitivityRequestSchema = z.object({
+  base: surfaceLoadInputsSchema,
+  parameter: z.string(),
+  sweep: sweepSchema,
+}).strict();
+
+// Sensitivity analysis names the track engine PIPELINE_TRACK
+function calculationMode(type: SurfaceLoadInputs['type']): CalculationMode {
+  return type === 'TRACK' ? 'PIPELINE_TRACK' : type;
+}
+
+export function errorResponse(status: number, code: ApiErrorCode, message: string, issues?: InputIssue[]): ApiResponse {
+  const body: ApiError = { error: { code, message, ...(issues ? { issues } : {}) } };
+  return { status, body };
+}
+
+function validationError(issues: InputIssue[]): ApiResponse {
+  return errorResponse(400, 'VALIDATION_ERROR', 'Request body failed validation', issues);
+}
+
+// Engine input validation errors keep their fields
+function calculationError(error: unknown, prefix = 'inputs'): ApiResponse {
+  if (error instanceof InputValidationError) {
+    const issues = error.errors.map(e => ({ path: e.field ? `${prefix}.${e.field}` : prefix, message: e.message }));
+    return errorResponse(422, 'CALCULATION_ERROR', 'Inputs cannot be evaluated', issues);
+  }
+  return errorResponse(422, 'CALCULATION_ERROR', error instanceof Error ? error.message : String(error));
+}
+
+/**
+ * Pipe, grade and vehicle libraries plus the sensitivity parameters
+ */
+export function getPresets() {
+  return {
+    pipeSizes: PIPE_SIZES.filter(p => p.nps !== 'CUSTOM').map(p => ({
+      ...p,
+      wallThicknesses: WALL_THICKNESS_BY_NPS[p.nps] ?? [],
+    })),
+    steelGrades: STEEL_GRADES.filter(g => g.grade !== 'CUSTOM'),
+    vehicles: VEHICLE_LIBRARY,
+    sensitivityParameters: SENSITIVITY_PARAMETERS,
+  };
+}
+
+function handleCalculate(body: unknown): ApiResponse {
+  const parsed = surfaceLoadInputsSchema.safeParse(body);
+  if (!parsed.success) {
+    return validationError(formatInputIssues(parsed.error));
+  }
+
+  const config = parsed.data as SurfaceLoadInputs;
+  try {
+    const result = computeSurfaceLoad(config);
+    return { status: 200, body: { type: result.type, pass: isPassingCalculation(result), results: result.results } };
+  } catch (error) {
+    return calculationError(error);
+  }
+}
+
+function handleSensitivity(body: unknown): ApiResponse {
+  const parsed = sensitivityRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return validationError(formatInputIssues(parsed.error));
+  }
+
+  const base = parsed.data.base as SurfaceLoadInputs;
+  const { parameter, sweep } = parsed.data;
+  const mode = calculationMode(base.type);
+  const definition = SENSITIVITY_PARAMETERS.find(p => p.key === parameter && p.modes.includes(mode));
+  if (!definition) {
+    const supported = SENSITIVITY_PARAMETERS.filter(p => p.modes.includes(mode)).map(p => p.key);
+    return validationError([{ path: 'parameter', message: `Not a sensitivity parameter for ${base.type} (${supported.join(', ')})` }]);
+  }
+  const baseValue = (base.inputs as unknown as Record<string, unknown>)[parameter];
+  if (typeof baseValue !== 'number') {
+    return validationError([{ path: `base.inputs.${parameter}`, message: 'Required for the sensitivity sweep' }]);
+  }
+
+  // Same defaults as generateSensitivitySweep, checked before the sweep is generated
+  let steps: number;
+  if (sweep.mode === 'absolute') {
+    const min = sweep.min ?? baseValue * 0.5;
+    const max = sweep.max ?? baseValue * 1.5;
+    if (max < min) {
+      return validationError([{ path: 'sweep.max', message: 'Must not be less than sweep.min' }]);
+    }
+    steps = sweep.step !== undefined ? (max - min) / sweep.step : 20;
+  } else {
+    const { percentRange = 20, percentStep = 5 } = sweep as { percentRange?: number; percentStep?: number };
+    steps = 2 * percentRange / percentStep;
+  }
+  if (steps > MAX_SWEEP_STEPS) {
+    return validationError([{ path: 'sweep', message: `Sweep has more than ${MAX_SWEEP_STEPS} steps` }]);
+  }
+
+  try {
+    const points = generateSensitivitySweep(base.inputs, parameter, { mode: sweep.mode ?? 'percentage', ...sweep }, mode);
+    const unit = base.inputs.unitsSystem === 'SI' ? definition.unitSI : definition.unit;
+    return { status: 200, body: { parameter, label: definition.label, unit, points } };
+  } catch (error) {
+    return calculationError(error, 'base.inputs');
+  }
+}
+
+const ROUTES: Record<string, { method: 'GET' | 'POST'; handle: (body: unknown) => ApiResponse }> = {
+  '/calculate': { method: 'POST', handle: handleCalculate },
+  '/sensitivity': { method: 'POST', handle: handleSensitivity },
+  '/presets': { method: 'GET', handle: () => ({ status: 200, body: getPresets() }) },
+};
+
+/**
+ * Route one request (path without the query string, raw request body)
+ */
+export function handleApiRequest(method: string, path: string, rawBody: string): ApiResponse {
+  const route = ROUTES[path];
+  if (!route) {
+    return errorResponse(404, 'NOT_FOUND', `No route for ${path} (${Object.keys(ROUTES).join(', ')})`);
+  }
+  if (method !== route.method) {
+    return { ...errorResponse(405, 'METHOD_NOT_ALLOWED', `${path} accepts ${route.method}`), headers: { Allow: route.method } };
+  }
+
+  let body: unknown;
+  if (route.method === 'POST') {
+    try {
+      body = JSON.parse(rawBody);
+    } catch (error) {
+      return errorResponse(400, 'INVALID_JSON', `Request body is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  try {
+    return route.handle(body);
+  } catch (error) {
+    return errorResponse(500, 'INTERNAL_ERROR', error instanceof Error ? error.message : String(error));
+  }
+}
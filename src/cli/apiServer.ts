@@ -0,0 +1,95 @@
+/**
+ * Local HTTP API server
+ *   npm run api -- [--port 8787]
+ * Listens on 127.0.0.1 only (PORT environment variable or --port, default 8787)
+ * and serves the routes in apiRoutes.ts as JSON.
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { ApiResponse, errorResponse, handleApiRequest } from './apiRoutes';
+
+const USAGE = 'Usage: npm run api -- [--port <port>]';
+const HOST = '127.0.0.1';
+const DEFAULT_PORT = 8787;
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+function parsePort(args: string[]): number {
+  let value = process.env.PORT;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--port') {
+      value = args[++i];
+    } else {
+      throw new Error(`Unexpected argument "${args[i]}"`);
+    }
+  }
+
+  if (value === undefined) return DEFAULT_PORT;
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port "${value}"`);
+  }
+  return port;
+}
+
+function readBody(req: IncomingMessage): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= MAX_BODY_BYTES) chunks.push(chunk);
+    });
+    req.on('end', () => resolve(size > MAX_BODY_BYTES ? null : Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function send(res: ServerResponse, response: ApiResponse): void {
+  res.writeHead(response.status, { ...CORS_HEADERS, 'Content-Type': 'application/json', ...response.headers });
+  res.end(JSON.stringify(response.body) + '\n');
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS);
+    res.end();
+    return;
+  }
+
+  const path = (req.url ?? '/').split('?')[0];
+  const body = await readBody(req);
+  const response = body === null
+    ? errorResponse(413, 'PAYLOAD_TOO_LARGE', `Request body exceeds ${MAX_BODY_BYTES} bytes`)
+    : handleApiRequest(req.method ?? 'GET', path, body);
+  send(res, response);
+  console.error(`${req.method} ${path} ${response.status}`);
+}
+
+function main(): void {
+  let port: number;
+  try {
+    port = parsePort(process.argv.slice(2));
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    console.error(USAGE);
+    process.exitCode = 2;
+    return;
+  }
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch(error => {
+      send(res, errorResponse(500, 'INTERNAL_ERROR', error instanceof Error ? error.message : String(error)));
+    });
+  });
+  server.listen(port, HOST, () => {
+    console.error(`Pipeline crossing API listening on http://${HOST}:${port}`);
+  });
+}
+
+main();
@@ -0,0 +1,95 @@
+/**
+ * Headless batch runner
+ *   npm run batch -- <crossings.json|crossings.csv> [--out results.json|results.csv] [--format json|csv]
+ * Results go to stdout (JSON) unless --out is given; the format follows the
+ * output file extension unless --format is set.
+ * Exit code: 0 all crossings pass, 1 any crossing fails or errors, 2 bad usage or input file.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { extname } from 'path';
+import {
+  parseBatchCSV,
+  parseBatchJSON,
+  runBatch,
+  summarizeBatch,
+  exportBatchToCSV,
+} from '../domain/pipeline/batch';
+
+const USAGE = 'Usage: npm run batch -- <crossings.json|crossings.csv> [--out <results.json|results.csv>] [--format json|csv]';
+
+interface CliOptions {
+  inputPath: string;
+  outputPath?: string;
+  format: 'json' | 'csv';
+}
+
+function parseArgs(args: string[]): CliOptions {
+  let inputPath: string | undefined;
+  let outputPath: string | undefined;
+  let format: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--out') {
+      outputPath = args[++i];
+    } else if (args[i] === '--format') {
+      format = args[++i];
+    } else if (!inputPath) {
+      inputPath = args[i];
+    } else {
+      throw new Error(`Unexpected argument "${args[i]}"`);
+    }
+  }
+
+  if (!inputPath) {
+    throw new Error('Missing input file');
+  }
+  format ??= outputPath && extname(outputPath).toLowerCase() === '.csv' ? 'csv' : 'json';
+  if (format !== 'json' && format !== 'csv') {
+    throw new Error(`Unknown format "${format}"`);
+  }
+
+  return { inputPath, outputPath, format };
+}
+
+function main(): number {
+  let options: CliOptions;
+  let text: string;
+  try {
+    options = parseArgs(process.argv.slice(2));
+    text = readFileSync(options.inputPath, 'utf8');
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    console.error(USAGE);
+    return 2;
+  }
+
+  let configs;
+  try {
+    configs = extname(options.inputPath).toLowerCase() === '.csv' ? parseBatchCSV(text) : parseBatchJSON(text);
+  } catch (error) {
+    console.error(`${options.inputPath}: ${error instanceof Error ? error.message : String(error)}`);
+    return 2;
+  }
+
+  const rows = runBatch(configs);
+  const summary = summarizeBatch(rows);
+  const output = options.format === 'csv'
+    ? exportBatchToCSV(rows) + '\n'
+    : JSON.stringify({ summary, results: rows }, null, 2) + '\n';
+
+  if (options.outputPath) {
+    writeFileSync(options.outputPath, output);
+  } else {
+    process.stdout.write(output);
+  }
+
+  for (const row of rows.filter(r => !r.pass)) {
+    console.error(`${row.error !== undefined ? 'ERROR' : 'FAIL'} #${row.index} ${row.name}${row.error ? `: ${row.error}` : ` (${row.governingCheck}, ${row.governingPct?.toFixed(1)}% ${row.governingBasis === 'LIMIT' ? 'of limit' : 'SMYS'})`}`);
+  }
+  console.error(`${summary.passed}/${summary.total} crossings pass${summary.errors > 0 ? `, ${summary.errors} error(s)` : ''}`);
+
+  return summary.failed > 0 ? 1 : 0;
+}
+
+process.exitCode = main();
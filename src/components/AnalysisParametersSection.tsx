@@ -2,9 +2,14 @@ import { UseFormRegister, FieldErrors, UseFormWatch, UseFormSetValue } from "rea
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { PavementType, VehicleClass, EquivStressMethod, CodeCheck, UnitsSystem } from "@/domain/pipeline/types";
+import { PavementType, VehicleClass, EquivStressMethod, CodeCheck, UnitsSystem, LongSeamWeldType, LongitudinalBendingMethod, PressureKernel } from "@/domain/pipeline/types";
 import { getCodeLabel, getCodeDescription, CODE_PROFILES } from "@/domain/pipeline/codeProfiles";
+import { B318DesignFields } from "@/components/B318DesignFields";
+import { Z662DesignFields } from "@/components/Z662DesignFields";
+import { PRESSURE_KERNELS, getPressureKernel } from "@/domain/pipeline/pressureKernels";
+import { LONG_SEAM_WELD_LABELS } from "@/domain/pipeline/fatigueCheck";
 
 interface AnalysisParametersSectionProps {
   register: UseFormRegister<any>;
@@ -12,6 +17,8 @@ interface AnalysisParametersSectionProps {
   watch: UseFormWatch<any>;
   setValue: UseFormSetValue<any>;
   unitsSystem: UnitsSystem;
+  showVehicleClass?: boolean; // hide vehicle class / pavement for modes with a fixed impact factor
+  showVbaParity?: boolean; // hide strict VBA parity for modes without a legacy spreadsheet sheet
 }
 
 export const AnalysisParametersSection = ({ 
@@ -19,7 +26,9 @@ export const AnalysisParametersSection = ({
   errors, 
   watch, 
   setValue, 
-  unitsSystem 
+  unitsSystem,
+  showVehicleClass = true,
+  showVbaParity = true
 }: AnalysisParametersSectionProps) => {
   const unitLabels = unitsSystem === "EN" 
     ? { pressure: "psi" }
@@ -34,83 +43,228 @@ export const AnalysisParametersSection = ({
         <CardDescription>Impact factors, stress methods, and code checks</CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
+        {showVehicleClass && (
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="vehicleClass">Vehicle Class *</Label>
+              <Select
+                value={watch("vehicleClass")}
+                onValueChange={(v) => setValue("vehicleClass", v as VehicleClass)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="HIGHWAY">Highway</SelectItem>
+                  <SelectItem value="FARM">Farm / Construction</SelectItem>
+                  <SelectItem value="TRACK">Track</SelectItem>
+                  <SelectItem value="RAIL">Rail</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="pavementType">Pavement Type *</Label>
+              <Select
+                value={watch("pavementType")}
+                onValueChange={(v) => setValue("pavementType", v as PavementType)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="RIGID">Rigid</SelectItem>
+                  <SelectItem value="FLEXIBLE">Flexible</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
         <div className="grid gap-4 md:grid-cols-2">
           <div className="space-y-2">
-            <Label htmlFor="vehicleClass">Vehicle Class *</Label>
+            <Label htmlFor="equivStressMethod">Equivalent Stress Method *</Label>
             <Select
-              value={watch("vehicleClass")}
-              onValueChange={(v) => setValue("vehicleClass", v as VehicleClass)}
+              value={watch("equivStressMethod")}
+              onValueChange={(v) => setValue("equivStressMethod", v as EquivStressMethod)}
             >
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="HIGHWAY">Highway</SelectItem>
-                <SelectItem value="FARM">Farm / Construction</SelectItem>
-                <SelectItem value="TRACK">Track</SelectItem>
+                <SelectItem value="TRESCA">Tresca</SelectItem>
+                <SelectItem value="VON_MISES">Von Mises</SelectItem>
               </SelectContent>
             </Select>
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="pavementType">Pavement Type *</Label>
+            <Label htmlFor="codeCheck">Code Check *</Label>
             <Select
-              value={watch("pavementType")}
-              onValueChange={(v) => setValue("pavementType", v as PavementType)}
+              value={watch("codeCheck")}
+              onValueChange={(v) => setValue("codeCheck", v as CodeCheck)}
             >
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="RIGID">Rigid</SelectItem>
-                <SelectItem value="FLEXIBLE">Flexible</SelectItem>
+                <SelectItem value="B31_4">{getCodeLabel('B31_4')}</SelectItem>
+                <SelectItem value="B31_8">{getCodeLabel('B31_8')}</SelectItem>
+                <SelectItem value="CSA_Z662">{getCodeLabel('CSA_Z662')}</SelectItem>
+                <SelectItem value="USER_DEFINED">User Defined</SelectItem>
               </SelectContent>
             </Select>
+            {codeCheck === "B31_8" && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Hoop limit F × E × T from the location class below; {CODE_PROFILES.B31_8.longLimitPct}% SMYS for Longitudinal and Equivalent stresses.
+              </p>
+            )}
+            {codeCheck === "CSA_Z662" && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Hoop limit F × L × J × T (Clause 4.3.5); restrained pipe longitudinal, combined (Clause 4.8) and Annex C biaxial limits 90% SMYS × T.
+              </p>
+            )}
+            {codeCheck === "B31_4" && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Default limits: {CODE_PROFILES[codeCheck as keyof typeof CODE_PROFILES]?.hoopLimitPct}% SMYS for Hoop, Longitudinal, and Equivalent stresses. 
+                Choose 'User Defined' to customize.
+              </p>
+            )}
           </div>
         </div>
 
-        <div className="grid gap-4 md:grid-cols-2">
+        {codeCheck === "B31_8" && (
+          <B318DesignFields register={register} errors={errors} watch={watch} setValue={setValue} unitsSystem={unitsSystem} />
+        )}
+
+        {codeCheck === "CSA_Z662" && (
+          <Z662DesignFields register={register} errors={errors} watch={watch} setValue={setValue} unitsSystem={unitsSystem} />
+        )}
+
+        <div className="grid gap-4 md:grid-cols-3">
           <div className="space-y-2">
-            <Label htmlFor="equivStressMethod">Equivalent Stress Method *</Label>
+            <Label htmlFor="longSeamWeldType">Longitudinal Seam Weld</Label>
             <Select
-              value={watch("equivStressMethod")}
-              onValueChange={(v) => setValue("equivStressMethod", v as EquivStressMethod)}
+              value={watch("longSeamWeldType")}
+              onValueChange={(v) => setValue("longSeamWeldType", v as LongSeamWeldType)}
             >
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="TRESCA">Tresca</SelectItem>
-                <SelectItem value="VON_MISES">Von Mises</SelectItem>
+                {(Object.keys(LONG_SEAM_WELD_LABELS) as LongSeamWeldType[]).map((weldType) => (
+                  <SelectItem key={weldType} value={weldType}>{LONG_SEAM_WELD_LABELS[weldType]}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
+            <p className="text-xs text-muted-foreground mt-1">
+              Sets the seam endurance limit for the API RP 1102 fatigue check
+            </p>
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="codeCheck">Code Check *</Label>
+            <Label htmlFor="deflectionLagFactor">Deflection Lag Factor (D<sub>L</sub>)</Label>
+            <Input
+              id="deflectionLagFactor"
+              type="number"
+              step="0.05"
+              {...register("deflectionLagFactor", { valueAsNumber: true })}
+            />
+            {errors.deflectionLagFactor && (
+              <p className="text-xs text-destructive">{String(errors.deflectionLagFactor.message)}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="deflectionLimitPct">Deflection Limit (% OD)</Label>
+            <Input
+              id="deflectionLimitPct"
+              type="number"
+              step="0.5"
+              {...register("deflectionLimitPct", { valueAsNumber: true })}
+            />
+            {errors.deflectionLimitPct && (
+              <p className="text-xs text-destructive">{String(errors.deflectionLimitPct.message)}</p>
+            )}
+            <p className="text-xs text-muted-foreground mt-1">
+              Modified Iowa ΔY/D check
+            </p>
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="internalVacuum">Internal Vacuum ({unitLabels.pressure})</Label>
+            <Input
+              id="internalVacuum"
+              type="number"
+              step="any"
+              {...register("internalVacuum", { valueAsNumber: true })}
+            />
+            {errors.internalVacuum && (
+              <p className="text-xs text-destructive">{String(errors.internalVacuum.message)}</p>
+            )}
+            <p className="text-xs text-muted-foreground mt-1">
+              AWWA M11 ring buckling check
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="longitudinalBendingMethod">Longitudinal Bending</Label>
             <Select
-              value={watch("codeCheck")}
-              onValueChange={(v) => setValue("codeCheck", v as CodeCheck)}
+              value={watch("longitudinalBendingMethod")}
+              onValueChange={(v) => setValue("longitudinalBendingMethod", v as LongitudinalBendingMethod)}
             >
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="B31_4">{getCodeLabel('B31_4')}</SelectItem>
-                <SelectItem value="B31_8">{getCodeLabel('B31_8')}</SelectItem>
-                <SelectItem value="CSA_Z662">{getCodeLabel('CSA_Z662')}</SelectItem>
-                <SelectItem value="USER_DEFINED">User Defined</SelectItem>
+                <SelectItem value="EQUIVALENT_LOAD">Equivalent Circular Load (VBA)</SelectItem>
+                <SelectItem value="BOUSSINESQ_PROFILE">Boussinesq Profile (Hetényi Beam)</SelectItem>
               </SelectContent>
             </Select>
-            {codeCheck !== "USER_DEFINED" && (
-              <p className="text-xs text-muted-foreground mt-1">
-                Default limits: {CODE_PROFILES[codeCheck as keyof typeof CODE_PROFILES]?.hoopLimitPct}% SMYS for Hoop, Longitudinal, and Equivalent stresses. 
-                Choose 'User Defined' to customize.
-              </p>
-            )}
+            <p className="text-xs text-muted-foreground mt-1">
+              Beam-on-elastic-foundation moment from the pressure along the pipe
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="pressureKernel">Pressure Kernel</Label>
+            <Select
+              value={watch("pressureKernel")}
+              onValueChange={(v) => setValue("pressureKernel", v as PressureKernel)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(PRESSURE_KERNELS).map((k) => (
+                  <SelectItem key={k.kernel} value={k.kernel}>{k.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-1">
+              {getPressureKernel(watch("pressureKernel")).description}
+            </p>
           </div>
         </div>
 
+        {showVbaParity && (
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="strictVbaParity">Strict VBA Parity</Label>
+              <p className="text-xs text-muted-foreground">
+                Reproduce the legacy spreadsheet: VBA E' coefficients, Rankine Trap Door, VBA bending march and soil minus live low cases for tracks; impact factor applied twice in axial bending for axle and grid loads
+              </p>
+            </div>
+            <Switch
+              id="strictVbaParity"
+              checked={!!watch("strictVbaParity")}
+              onCheckedChange={(checked) => setValue("strictVbaParity", checked)}
+            />
+          </div>
+        )}
+
         {codeCheck === "USER_DEFINED" && (
           <div className="space-y-4">
             <p className="text-sm text-muted-foreground">
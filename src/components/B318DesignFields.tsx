@@ -0,0 +1,81 @@
+import { UseFormRegister, FieldErrors, FieldValues, UseFormWatch, UseFormSetValue } from "react-hook-form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LocationClass, RoadCrossing, UnitsSystem } from "@/domain/pipeline/types";
+import { LOCATION_CLASS_LABELS, ROAD_CROSSING_LABELS } from "@/domain/pipeline/codeProfiles";
+
+interface B318DesignFieldsProps {
+  register: UseFormRegister<FieldValues>;
+  errors: FieldErrors<FieldValues>;
+  watch: UseFormWatch<FieldValues>;
+  setValue: UseFormSetValue<FieldValues>;
+  unitsSystem: UnitsSystem;
+}
+
+export const B318DesignFields = ({
+  register,
+  errors,
+  watch,
+  setValue,
+  unitsSystem
+}: B318DesignFieldsProps) => {
+  const temperatureUnit = unitsSystem === "EN" ? "°F" : "°C";
+  const casingEnabled = watch("casing.enabled");
+
+  return (
+    <div className="space-y-2">
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor="b318Design.locationClass">Location Class</Label>
+          <Select
+            value={watch("b318Design.locationClass")}
+            onValueChange={(v) => setValue("b318Design.locationClass", v as LocationClass)}
+          >
+            <SelectTrigger id="b318Design.locationClass">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(LOCATION_CLASS_LABELS) as LocationClass[]).map((locationClass) => (
+                <SelectItem key={locationClass} value={locationClass}>{LOCATION_CLASS_LABELS[locationClass]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="b318Design.roadCrossing">Crossing</Label>
+          <Select
+            value={watch("b318Design.roadCrossing")}
+            onValueChange={(v) => setValue("b318Design.roadCrossing", v as RoadCrossing)}
+          >
+            <SelectTrigger id="b318Design.roadCrossing">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(ROAD_CROSSING_LABELS) as RoadCrossing[]).map((roadCrossing) => (
+                <SelectItem key={roadCrossing} value={roadCrossing}>{ROAD_CROSSING_LABELS[roadCrossing]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="b318Design.designTemperature">Design Temperature ({temperatureUnit})</Label>
+          <Input
+            id="b318Design.designTemperature"
+            type="number"
+            step="any"
+            {...register("b318Design.designTemperature", { valueAsNumber: true })}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Hoop limit F × E × T: design factor F by location class (Table 841.1.6-2 {casingEnabled ? "cased" : "uncased"} crossing rows), joint factor E from the seam weld and temperature factor T above 250 °F.
+      </p>
+      {errors.b318Design && (
+        <p className="text-sm text-destructive">Design temperature must be a number</p>
+      )}
+    </div>
+  );
+};
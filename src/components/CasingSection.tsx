@@ -0,0 +1,77 @@
+import { UseFormRegister, FieldErrors, FieldValues, UseFormWatch, UseFormSetValue } from "react-hook-form";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { UnitsSystem } from "@/domain/pipeline/types";
+
+interface CasingSectionProps {
+  register: UseFormRegister<FieldValues>;
+  errors: FieldErrors<FieldValues>;
+  watch: UseFormWatch<FieldValues>;
+  setValue: UseFormSetValue<FieldValues>;
+  unitsSystem: UnitsSystem;
+}
+
+export const CasingSection = ({
+  register,
+  errors,
+  watch,
+  setValue,
+  unitsSystem
+}: CasingSectionProps) => {
+  const unitLabels = unitsSystem === "EN"
+    ? { length: "in", depth: "ft", smys: "psi", density: "lb/ft³" }
+    : { length: "mm", depth: "m", smys: "MPa", density: "kg/m³" };
+
+  const enabled = watch("casing.enabled");
+
+  const numberField = (name: string, label: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={`casing.${name}`}>{label}</Label>
+      <Input
+        id={`casing.${name}`}
+        type="number"
+        step="any"
+        {...register(`casing.${name}`, { valueAsNumber: true })}
+      />
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Cased Crossing</CardTitle>
+            <CardDescription>Surface load on the casing; the pipe above is the carrier on spacers inside it</CardDescription>
+          </div>
+          <Switch
+            id="casing-toggle"
+            checked={!!enabled}
+            onCheckedChange={(checked) => setValue("casing.enabled", checked)}
+          />
+        </div>
+      </CardHeader>
+      {enabled && (
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            {numberField("casingOD", `Casing OD (${unitLabels.length})`)}
+            {numberField("casingWT", `Casing Wall Thickness (${unitLabels.length})`)}
+            {numberField("casingSMYS", `Casing SMYS (${unitLabels.smys})`)}
+          </div>
+          <div className="grid gap-4 md:grid-cols-2">
+            {numberField("spacerSpacing", `Spacer Spacing (${unitLabels.depth})`)}
+            {numberField("contentDensity", `Carrier Contents Density (${unitLabels.density})`)}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            The casing is analysed unpressurized under the soil and surface loads. The carrier is checked for MOP, thermal stress and its self weight spanning between spacers; use 0 contents density for gas.
+          </p>
+          {errors.casing && (
+            <p className="text-sm text-destructive">Casing dimensions, SMYS and spacer spacing must be positive and the contents density not negative</p>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,76 @@
+import { UseFormRegister, FieldErrors, FieldValues, UseFormWatch, UseFormSetValue } from "react-hook-form";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { UnitsSystem } from "@/domain/pipeline/types";
+
+interface GroundwaterSectionProps {
+  register: UseFormRegister<FieldValues>;
+  errors: FieldErrors<FieldValues>;
+  watch: UseFormWatch<FieldValues>;
+  setValue: UseFormSetValue<FieldValues>;
+  unitsSystem: UnitsSystem;
+}
+
+export const GroundwaterSection = ({
+  register,
+  errors,
+  watch,
+  setValue,
+  unitsSystem
+}: GroundwaterSectionProps) => {
+  const unitLabels = unitsSystem === "EN"
+    ? { depth: "ft", density: "lb/ft³" }
+    : { depth: "m", density: "kg/m³" };
+
+  const enabled = watch("groundwater.enabled");
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Groundwater</CardTitle>
+            <CardDescription>Submerged soil weight, hydrostatic pressure and flotation of the empty pipe</CardDescription>
+          </div>
+          <Switch
+            id="groundwater-toggle"
+            checked={!!enabled}
+            onCheckedChange={(checked) => setValue("groundwater.enabled", checked)}
+          />
+        </div>
+      </CardHeader>
+      {enabled && (
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="groundwater.waterTableDepth">Water Table Depth Below Grade ({unitLabels.depth})</Label>
+              <Input
+                id="groundwater.waterTableDepth"
+                type="number"
+                step="any"
+                {...register("groundwater.waterTableDepth", { valueAsNumber: true })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="groundwater.saturatedSoilDensity">Saturated Soil Density ({unitLabels.density})</Label>
+              <Input
+                id="groundwater.saturatedSoilDensity"
+                type="number"
+                step="any"
+                {...register("groundwater.saturatedSoilDensity", { valueAsNumber: true })}
+              />
+            </div>
+          </div>
+          {errors.groundwater && (
+            <p className="text-sm text-destructive">Water table depth must be zero or positive and the saturated density positive</p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Soil below the water table is taken at its submerged weight (saturated - water); the dry soil density applies above it.
+          </p>
+        </CardContent>
+      )}
+    </Card>
+  );
+};
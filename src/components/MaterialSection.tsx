@@ -0,0 +1,125 @@
+import { UseFormRegister, FieldErrors, FieldValues, UseFormWatch, UseFormSetValue } from "react-hook-form";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MaterialDeratingPoint, MaterialPreset, UnitsSystem } from "@/domain/pipeline/types";
+import { MATERIAL_PRESETS, getMaterialPresetInputs } from "@/domain/pipeline/materials";
+
+interface MaterialSectionProps {
+  register: UseFormRegister<FieldValues>;
+  errors: FieldErrors<FieldValues>;
+  watch: UseFormWatch<FieldValues>;
+  setValue: UseFormSetValue<FieldValues>;
+  unitsSystem: UnitsSystem;
+}
+
+export const MaterialSection = ({
+  register,
+  errors,
+  watch,
+  setValue,
+  unitsSystem
+}: MaterialSectionProps) => {
+  const unitLabels = unitsSystem === "EN"
+    ? { modulus: "psi", expansion: "10⁻⁶/°F", temp: "°F" }
+    : { modulus: "MPa", expansion: "10⁻⁶/°C", temp: "°C" };
+
+  const enabled = watch("material.enabled");
+  const preset = watch("material.preset") as MaterialPreset;
+  const derating = watch("material.smysDerating") as MaterialDeratingPoint[] | undefined;
+
+  // Presets fill in their properties; Custom keeps the values for editing
+  const handlePresetChange = (value: MaterialPreset) => {
+    if (value === "CUSTOM") {
+      setValue("material.preset", value);
+      return;
+    }
+    setValue("material", {
+      ...getMaterialPresetInputs(value, unitsSystem),
+      designTemperature: watch("material.designTemperature"),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Pipe Material</CardTitle>
+            <CardDescription>Elastic modulus, Poisson's ratio, thermal expansion and SMYS derating (carbon steel when off)</CardDescription>
+          </div>
+          <Switch
+            id="material-toggle"
+            checked={!!enabled}
+            onCheckedChange={(checked) => setValue("material.enabled", checked)}
+          />
+        </div>
+      </CardHeader>
+      {enabled && (
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="material.preset">Material</Label>
+            <Select value={preset} onValueChange={(v) => handlePresetChange(v as MaterialPreset)}>
+              <SelectTrigger id="material.preset">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MATERIAL_PRESETS.map(m => (
+                  <SelectItem key={m.preset} value={m.preset}>{m.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="material.elasticModulus">Elastic Modulus E ({unitLabels.modulus})</Label>
+              <Input
+                id="material.elasticModulus"
+                type="number"
+                step="any"
+                {...register("material.elasticModulus", { valueAsNumber: true })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="material.poissonRatio">Poisson's Ratio ν</Label>
+              <Input
+                id="material.poissonRatio"
+                type="number"
+                step="any"
+                {...register("material.poissonRatio", { valueAsNumber: true })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="material.thermalExpansion">Thermal Expansion α ({unitLabels.expansion})</Label>
+              <Input
+                id="material.thermalExpansion"
+                type="number"
+                step="any"
+                {...register("material.thermalExpansion", { valueAsNumber: true })}
+              />
+            </div>
+          </div>
+          {!!derating?.length && (
+            <div className="space-y-2">
+              <Label htmlFor="material.designTemperature">Design Metal Temperature ({unitLabels.temp})</Label>
+              <Input
+                id="material.designTemperature"
+                type="number"
+                step="any"
+                {...register("material.designTemperature", { valueAsNumber: true })}
+              />
+              <p className="text-xs text-muted-foreground">
+                SMYS is derated with the yield strength ratios {derating.map(p => `${p.factor} at ${p.temperature}${unitLabels.temp}`).join(", ")}, held at the end values outside that range.
+              </p>
+            </div>
+          )}
+          {errors.material && (
+            <p className="text-sm text-destructive">Elastic modulus and thermal expansion must be positive and Poisson's ratio between 0 and 0.5</p>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,434 @@
+import { useState } from "react";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Calculator as CalcIcon, Plus, Trash2 } from "lucide-react";
+import { MultiAxleInputs, AxleDefinition, UnitsSystem, BeddingAngleDeg } from "@/domain/pipeline/typesMultiAxle";
+import { PipeSelector } from "./PipelineTrackForm/PipeSelector";
+import { AnalysisParametersSection } from "./AnalysisParametersSection";
+import { GroundwaterSection } from "./GroundwaterSection";
+import { MaterialSection } from "./MaterialSection";
+import { PlasticPipeSection } from "./PlasticPipeSection";
+import { CasingSection } from "./CasingSection";
+import { SoilProfileSection } from "./SoilProfileSection";
+import { PavementSection } from "./PavementSection";
+import { PositionSearchSection } from "./PositionSearchSection";
+import { VehicleSelector } from "./VehicleSelector";
+import { convertFormValue } from "@/domain/pipeline/unitConversions";
+import { DEFAULT_AXLE_EN, MULTI_AXLE_DEFAULTS, MultiAxleFormData, multiAxleSchema, toMultiAxleInputs } from "./formSchemas/multiAxle";
+
+interface MultiAxleFormProps {
+  onCalculate: (inputs: MultiAxleInputs) => void;
+}
+
+export const MultiAxleForm = ({ onCalculate }: MultiAxleFormProps) => {
+  const [unitsSystem, setUnitsSystem] = useState<UnitsSystem>("EN");
+
+  const { register, handleSubmit, watch, setValue, control, formState: { errors } } = useForm<MultiAxleFormData>({
+    resolver: zodResolver(multiAxleSchema),
+    defaultValues: MULTI_AXLE_DEFAULTS,
+  });
+
+  const { fields, append, remove } = useFieldArray({ control, name: "axles" });
+
+  const contactPatchMode = watch("contactPatchMode");
+  const axles = watch("axles");
+
+  const onSubmit = (data: MultiAxleFormData) => {
+    onCalculate(toMultiAxleInputs(data));
+  };
+
+  const addAxle = () => {
+    const newAxle: AxleDefinition = unitsSystem === "EN" ? DEFAULT_AXLE_EN : {
+      spacing: convertFormValue(DEFAULT_AXLE_EN.spacing, "EN", "SI", 'depth') ?? DEFAULT_AXLE_EN.spacing,
+      load: convertFormValue(DEFAULT_AXLE_EN.load, "EN", "SI", 'force') ?? DEFAULT_AXLE_EN.load,
+      tiresPerAxle: DEFAULT_AXLE_EN.tiresPerAxle,
+      tireWidth: convertFormValue(DEFAULT_AXLE_EN.tireWidth, "EN", "SI", 'length') ?? DEFAULT_AXLE_EN.tireWidth,
+      tireLength: convertFormValue(DEFAULT_AXLE_EN.tireLength, "EN", "SI", 'length'),
+      tirePressure: convertFormValue(DEFAULT_AXLE_EN.tirePressure, "EN", "SI", 'tirePressure'),
+      dualSpacing: convertFormValue(DEFAULT_AXLE_EN.dualSpacing, "EN", "SI", 'length'),
+    };
+    append({ ...newAxle });
+  };
+
+  const toggleUnits = (checked: boolean) => {
+    const newSystem: UnitsSystem = checked ? "SI" : "EN";
+    const oldSystem = unitsSystem;
+    
+    const currentValues = watch();
+    setValue("pipeOD", convertFormValue(currentValues.pipeOD, oldSystem, newSystem, 'length') ?? currentValues.pipeOD);
+    setValue("pipeWT", convertFormValue(currentValues.pipeWT, oldSystem, newSystem, 'length') ?? currentValues.pipeWT);
+    setValue("MOP", convertFormValue(currentValues.MOP, oldSystem, newSystem, 'pressure') ?? currentValues.MOP);
+    setValue("SMYS", convertFormValue(currentValues.SMYS, oldSystem, newSystem, 'smys') ?? currentValues.SMYS);
+    setValue("deltaT", convertFormValue(currentValues.deltaT, oldSystem, newSystem, 'temp') ?? currentValues.deltaT);
+    setValue("soilDensity", convertFormValue(currentValues.soilDensity, oldSystem, newSystem, 'density') ?? currentValues.soilDensity);
+    setValue("depthCover", convertFormValue(currentValues.depthCover, oldSystem, newSystem, 'depth') ?? currentValues.depthCover);
+    setValue("internalVacuum", convertFormValue(currentValues.internalVacuum, oldSystem, newSystem, 'pressure') ?? currentValues.internalVacuum);
+    if (currentValues.groundwater) {
+      setValue("groundwater.waterTableDepth", convertFormValue(currentValues.groundwater.waterTableDepth, oldSystem, newSystem, 'depth') ?? currentValues.groundwater.waterTableDepth);
+      setValue("groundwater.saturatedSoilDensity", convertFormValue(currentValues.groundwater.saturatedSoilDensity, oldSystem, newSystem, 'density') ?? currentValues.groundwater.saturatedSoilDensity);
+    }
+    if (currentValues.material) {
+      setValue("material.elasticModulus", convertFormValue(currentValues.material.elasticModulus, oldSystem, newSystem, 'smys') ?? currentValues.material.elasticModulus);
+      setValue("material.thermalExpansion", convertFormValue(currentValues.material.thermalExpansion, oldSystem, newSystem, 'expansion') ?? currentValues.material.thermalExpansion);
+      setValue("material.designTemperature", convertFormValue(currentValues.material.designTemperature, oldSystem, newSystem, 'temp') ?? currentValues.material.designTemperature);
+      currentValues.material.smysDerating?.forEach((point, i) => {
+        setValue(`material.smysDerating.${i}.temperature`, convertFormValue(point.temperature, oldSystem, newSystem, 'temp') ?? point.temperature);
+      });
+    }
+    if (currentValues.plasticPipe) {
+      setValue("plasticPipe.shortTermModulus", convertFormValue(currentValues.plasticPipe.shortTermModulus, oldSystem, newSystem, 'smys') ?? currentValues.plasticPipe.shortTermModulus);
+      setValue("plasticPipe.longTermModulus", convertFormValue(currentValues.plasticPipe.longTermModulus, oldSystem, newSystem, 'smys') ?? currentValues.plasticPipe.longTermModulus);
+      setValue("plasticPipe.hydrostaticDesignBasis", convertFormValue(currentValues.plasticPipe.hydrostaticDesignBasis, oldSystem, newSystem, 'smys') ?? currentValues.plasticPipe.hydrostaticDesignBasis);
+      setValue("plasticPipe.allowableCompressiveStress", convertFormValue(currentValues.plasticPipe.allowableCompressiveStress, oldSystem, newSystem, 'smys') ?? currentValues.plasticPipe.allowableCompressiveStress);
+      setValue("plasticPipe.density", convertFormValue(currentValues.plasticPipe.density, oldSystem, newSystem, 'density') ?? currentValues.plasticPipe.density);
+    }
+    if (currentValues.casing) {
+      setValue("casing.casingOD", convertFormValue(currentValues.casing.casingOD, oldSystem, newSystem, 'length') ?? currentValues.casing.casingOD);
+      setValue("casing.casingWT", convertFormValue(currentValues.casing.casingWT, oldSystem, newSystem, 'length') ?? currentValues.casing.casingWT);
+      setValue("casing.casingSMYS", convertFormValue(currentValues.casing.casingSMYS, oldSystem, newSystem, 'smys') ?? currentValues.casing.casingSMYS);
+      setValue("casing.spacerSpacing", convertFormValue(currentValues.casing.spacerSpacing, oldSystem, newSystem, 'depth') ?? currentValues.casing.spacerSpacing);
+      setValue("casing.contentDensity", convertFormValue(currentValues.casing.contentDensity, oldSystem, newSystem, 'density') ?? currentValues.casing.contentDensity);
+    }
+    if (currentValues.b318Design) {
+      setValue("b318Design.designTemperature", convertFormValue(currentValues.b318Design.designTemperature, oldSystem, newSystem, 'temp') ?? currentValues.b318Design.designTemperature);
+    }
+    if (currentValues.z662Design) {
+      setValue("z662Design.designTemperature", convertFormValue(currentValues.z662Design.designTemperature, oldSystem, newSystem, 'temp') ?? currentValues.z662Design.designTemperature);
+    }
+    currentValues.soilProfile?.layers.forEach((layer, i) => {
+      setValue(`soilProfile.layers.${i}.thickness`, convertFormValue(layer.thickness, oldSystem, newSystem, 'depth') ?? layer.thickness);
+      setValue(`soilProfile.layers.${i}.unitWeight`, convertFormValue(layer.unitWeight, oldSystem, newSystem, 'density') ?? layer.unitWeight);
+    });
+    if (currentValues.pavement) {
+      setValue("pavement.slabThickness", convertFormValue(currentValues.pavement.slabThickness, oldSystem, newSystem, 'length') ?? currentValues.pavement.slabThickness);
+      setValue("pavement.slabModulus", convertFormValue(currentValues.pavement.slabModulus, oldSystem, newSystem, 'smys') ?? currentValues.pavement.slabModulus);
+      setValue("pavement.subgradeReaction", convertFormValue(currentValues.pavement.subgradeReaction, oldSystem, newSystem, 'subgradeReaction') ?? currentValues.pavement.subgradeReaction);
+      setValue("pavement.asphaltThickness", convertFormValue(currentValues.pavement.asphaltThickness, oldSystem, newSystem, 'length') ?? currentValues.pavement.asphaltThickness);
+      setValue("pavement.asphaltModulus", convertFormValue(currentValues.pavement.asphaltModulus, oldSystem, newSystem, 'smys') ?? currentValues.pavement.asphaltModulus);
+      setValue("pavement.baseThickness", convertFormValue(currentValues.pavement.baseThickness, oldSystem, newSystem, 'length') ?? currentValues.pavement.baseThickness);
+      setValue("pavement.baseModulus", convertFormValue(currentValues.pavement.baseModulus, oldSystem, newSystem, 'smys') ?? currentValues.pavement.baseModulus);
+      setValue("pavement.subgradeModulus", convertFormValue(currentValues.pavement.subgradeModulus, oldSystem, newSystem, 'smys') ?? currentValues.pavement.subgradeModulus);
+    }
+    setValue("laneOffset", convertFormValue(currentValues.laneOffset, oldSystem, newSystem, 'depth') ?? currentValues.laneOffset);
+    setValue("axleWidth", convertFormValue(currentValues.axleWidth, oldSystem, newSystem, 'length') ?? currentValues.axleWidth);
+    if (currentValues.positionSearch) {
+      setValue("positionSearch.alongPipeRange", convertFormValue(currentValues.positionSearch.alongPipeRange, oldSystem, newSystem, 'depth') ?? currentValues.positionSearch.alongPipeRange);
+      setValue("positionSearch.acrossPipeRange", convertFormValue(currentValues.positionSearch.acrossPipeRange, oldSystem, newSystem, 'depth') ?? currentValues.positionSearch.acrossPipeRange);
+      setValue("positionSearch.stepSize", convertFormValue(currentValues.positionSearch.stepSize, oldSystem, newSystem, 'depth') ?? currentValues.positionSearch.stepSize);
+    }
+    
+    // Axle list
+    currentValues.axles.forEach((axle, i) => {
+      setValue(`axles.${i}.spacing`, convertFormValue(axle.spacing, oldSystem, newSystem, 'depth') ?? axle.spacing);
+      setValue(`axles.${i}.load`, convertFormValue(axle.load, oldSystem, newSystem, 'force') ?? axle.load);
+      setValue(`axles.${i}.tireWidth`, convertFormValue(axle.tireWidth, oldSystem, newSystem, 'length') ?? axle.tireWidth);
+      setValue(`axles.${i}.tireLength`, convertFormValue(axle.tireLength, oldSystem, newSystem, 'length'));
+      setValue(`axles.${i}.tirePressure`, convertFormValue(axle.tirePressure, oldSystem, newSystem, 'tirePressure'));
+      setValue(`axles.${i}.dualSpacing`, convertFormValue(axle.dualSpacing, oldSystem, newSystem, 'length'));
+    });
+    
+    if (currentValues.ePrimeUserDefined) {
+      setValue("ePrimeUserDefined", convertFormValue(currentValues.ePrimeUserDefined, oldSystem, newSystem, 'pressure'));
+    }
+    if (currentValues.soilCohesion) {
+      setValue("soilCohesion", convertFormValue(currentValues.soilCohesion, oldSystem, newSystem, 'pressure') ?? 0);
+    }
+    
+    setUnitsSystem(newSystem);
+    setValue("unitsSystem", newSystem);
+  };
+
+  const unitLabels = unitsSystem === "EN" 
+    ? { length: "in", depth: "ft", pressure: "psi", smys: "psi", density: "lb/ft³", force: "lb", temp: "°F" }
+    : { length: "mm", depth: "m", pressure: "kPa", smys: "MPa", density: "kg/m³", force: "kg", temp: "°C" };
+
+  const totalLoad = (axles || []).reduce((sum, axle) => sum + (Number(axle?.load) || 0), 0);
+  const wheelbase = (axles || []).slice(1).reduce((sum, axle) => sum + (Number(axle?.spacing) || 0), 0);
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Unit System</CardTitle>
+              <CardDescription>Select measurement system</CardDescription>
+            </div>
+            <div className="flex items-center gap-3">
+              <Label htmlFor="units-toggle-multi" className="text-sm font-medium">
+                {unitsSystem === "EN" ? "English" : "Metric"}
+              </Label>
+              <Switch id="units-toggle-multi" checked={unitsSystem === "SI"} onCheckedChange={toggleUnits} />
+            </div>
+          </div>
+        </CardHeader>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Calculation Name</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Input placeholder="e.g., Heavy Haul Crossing Analysis" {...register("calculationName")} />
+          {errors.calculationName && <p className="text-sm text-destructive mt-1">{errors.calculationName.message}</p>}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Pipeline Properties</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {/* Pipe Selection with Presets */}
+          <PipeSelector
+            register={register}
+            setValue={setValue}
+            watch={watch}
+            errors={errors}
+            unitsSystem={unitsSystem}
+          />
+
+          {/* MOP, ΔT, Soil Density */}
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label>MOP ({unitLabels.pressure})</Label>
+              <Input type="number" step="any" {...register("MOP", { valueAsNumber: true })} />
+            </div>
+            <div className="space-y-2">
+              <Label>ΔT ({unitLabels.temp})</Label>
+              <Input type="number" step="any" {...register("deltaT", { valueAsNumber: true })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Soil Density ({unitLabels.density})</Label>
+              <Input type="number" step="any" {...register("soilDensity", { valueAsNumber: true })} />
+            </div>
+          </div>
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Cover Depth ({unitLabels.depth})</Label>
+              <Input type="number" step="any" {...register("depthCover", { valueAsNumber: true })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Bedding Angle (°)</Label>
+              <Select value={watch("beddingAngleDeg")?.toString()} onValueChange={(v) => setValue("beddingAngleDeg", parseInt(v) as BeddingAngleDeg)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {[0, 30, 60, 90, 120, 150, 180].map((angle) => (
+                    <SelectItem key={angle} value={angle.toString()}>{angle}°</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Kr</Label>
+              <Input type="number" step="any" {...register("kr", { valueAsNumber: true })} />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <VehicleSelector
+        mode="MULTI_AXLE"
+        setValue={setValue}
+        watch={watch}
+        unitsSystem={unitsSystem}
+      />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Multi-Axle Vehicle Properties</CardTitle>
+          <CardDescription>Axles are listed front to rear; spacing is measured from the previous axle</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Vehicle Name</Label>
+              <Input placeholder="e.g., Crane Carrier" {...register("vehicleName")} />
+            </div>
+            <div className="space-y-2">
+              <Label>Axle Width ({unitLabels.length})</Label>
+              <Input type="number" step="any" {...register("axleWidth", { valueAsNumber: true })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Lane Offset ({unitLabels.depth})</Label>
+              <Input type="number" step="any" {...register("laneOffset", { valueAsNumber: true })} />
+            </div>
+          </div>
+
+          {/* Contact Patch Mode Toggle */}
+          <div className="flex items-center justify-between p-4 border rounded-lg bg-muted/20">
+            <Label htmlFor="contact-mode-multi" className="text-sm font-medium">Contact Patch Method</Label>
+            <div className="flex items-center gap-3">
+              <span className="text-sm text-muted-foreground">
+                {contactPatchMode === "MANUAL" ? "Manual Entry" : "From Tire Pressure"}
+              </span>
+              <Switch 
+                id="contact-mode-multi"
+                checked={contactPatchMode === "AUTO"} 
+                onCheckedChange={(checked) => setValue("contactPatchMode", checked ? "AUTO" : "MANUAL")} 
+              />
+            </div>
+          </div>
+
+          {fields.map((field, index) => (
+            <div key={field.id} className="space-y-3 p-4 border rounded-lg">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-medium">Axle {index + 1}{index === 0 ? " (Front)" : ""}</h4>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => remove(index)}
+                  disabled={fields.length <= 1}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="space-y-2">
+                  <Label>Spacing ({unitLabels.depth})</Label>
+                  <Input
+                    type="number"
+                    step="any"
+                    disabled={index === 0}
+                    {...register(`axles.${index}.spacing`, { valueAsNumber: true })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Axle Load ({unitLabels.force})</Label>
+                  <Input type="number" step="any" {...register(`axles.${index}.load`, { valueAsNumber: true })} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Tires Per Axle</Label>
+                  <Select
+                    value={watch(`axles.${index}.tiresPerAxle`)?.toString()}
+                    onValueChange={(v) => setValue(`axles.${index}.tiresPerAxle`, parseInt(v))}
+                  >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="2">2 (Single)</SelectItem>
+                      <SelectItem value="4">4 (Dual)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="space-y-2">
+                  <Label>Tire Width ({unitLabels.length})</Label>
+                  <Input type="number" step="any" {...register(`axles.${index}.tireWidth`, { valueAsNumber: true })} />
+                </div>
+                {contactPatchMode === "MANUAL" ? (
+                  <div className="space-y-2">
+                    <Label>Tire Length ({unitLabels.length})</Label>
+                    <Input type="number" step="any" {...register(`axles.${index}.tireLength`, { valueAsNumber: true })} />
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <Label>Tire Pressure ({unitLabels.pressure})</Label>
+                    <Input type="number" step="any" {...register(`axles.${index}.tirePressure`, { valueAsNumber: true })} />
+                  </div>
+                )}
+                {watch(`axles.${index}.tiresPerAxle`) === 4 && (
+                  <div className="space-y-2">
+                    <Label>Dual Spacing ({unitLabels.length})</Label>
+                    <Input type="number" step="any" {...register(`axles.${index}.dualSpacing`, { valueAsNumber: true })} />
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+
+          {errors.axles && (
+            <p className="text-sm text-destructive">Check axle entries - loads and tire sizes must be positive</p>
+          )}
+
+          <div className="flex items-center justify-between">
+            <Button type="button" variant="outline" onClick={addAxle}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Axle
+            </Button>
+            <div className="text-sm text-muted-foreground">
+              {fields.length} axles · Total <span className="font-mono">{totalLoad.toFixed(0)} {unitLabels.force}</span> · Wheelbase <span className="font-mono">{wheelbase.toFixed(2)} {unitLabels.depth}</span>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <PositionSearchSection
+        register={register}
+        errors={errors}
+        watch={watch}
+        setValue={setValue}
+        unitsSystem={unitsSystem}
+      />
+
+      <SoilProfileSection
+        register={register}
+        errors={errors}
+        watch={watch}
+        setValue={setValue}
+        unitsSystem={unitsSystem}
+      />
+
+      <PavementSection
+        register={register}
+        errors={errors}
+        watch={watch}
+        setValue={setValue}
+        unitsSystem={unitsSystem}
+      />
+
+      <MaterialSection
+        register={register}
+        errors={errors}
+        watch={watch}
+        setValue={setValue}
+        unitsSystem={unitsSystem}
+      />
+
+      <PlasticPipeSection
+        register={register}
+        errors={errors}
+        watch={watch}
+        setValue={setValue}
+        unitsSystem={unitsSystem}
+      />
+
+      <CasingSection
+        register={register}
+        errors={errors}
+        watch={watch}
+        setValue={setValue}
+        unitsSystem={unitsSystem}
+      />
+
+      <GroundwaterSection
+        register={register}
+        errors={errors}
+        watch={watch}
+        setValue={setValue}
+        unitsSystem={unitsSystem}
+      />
+
+      <AnalysisParametersSection
+        register={register}
+        errors={errors}
+        watch={watch}
+        setValue={setValue}
+        unitsSystem={unitsSystem}
+        showVbaParity={false}
+      />
+
+      <Button type="submit" className="w-full" size="lg">
+        <CalcIcon className="w-5 h-5 mr-2" />
+        Calculate Multi-Axle Vehicle Loading
+      </Button>
+    </form>
+  );
+};
@@ -0,0 +1,96 @@
+import { UseFormRegister, FieldErrors, FieldValues, UseFormWatch, UseFormSetValue } from "react-hook-form";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { UnitsSystem } from "@/domain/pipeline/types";
+
+interface PavementSectionProps {
+  register: UseFormRegister<FieldValues>;
+  errors: FieldErrors<FieldValues>;
+  watch: UseFormWatch<FieldValues>;
+  setValue: UseFormSetValue<FieldValues>;
+  unitsSystem: UnitsSystem;
+}
+
+export const PavementSection = ({
+  register,
+  errors,
+  watch,
+  setValue,
+  unitsSystem
+}: PavementSectionProps) => {
+  const unitLabels = unitsSystem === "EN"
+    ? { length: "in", modulus: "psi", reaction: "pci" }
+    : { length: "mm", modulus: "MPa", reaction: "MPa/m" };
+
+  const enabled = watch("pavement.enabled");
+  const pavementType = watch("pavementType");
+
+  const field = (name: string, label: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={`pavement.${name}`}>{label}</Label>
+      <Input
+        id={`pavement.${name}`}
+        type="number"
+        step="any"
+        {...register(`pavement.${name}`, { valueAsNumber: true })}
+      />
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Pavement Load Spread</CardTitle>
+            <CardDescription>Carry wheel and track loads through the pavement to the top of subgrade</CardDescription>
+          </div>
+          <Switch
+            id="pavement-toggle"
+            checked={!!enabled}
+            onCheckedChange={(checked) => setValue("pavement.enabled", checked)}
+          />
+        </div>
+      </CardHeader>
+      {enabled && (
+        <CardContent className="space-y-4">
+          {pavementType === "RIGID" ? (
+            <>
+              <div className="grid gap-4 md:grid-cols-3">
+                {field("slabThickness", `Slab Thickness (${unitLabels.length})`)}
+                {field("slabModulus", `Concrete Modulus (${unitLabels.modulus})`)}
+                {field("subgradeReaction", `Subgrade Reaction k (${unitLabels.reaction})`)}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Rigid: Westergaard slab on a dense liquid subgrade spreads each load over the radius of relative stiffness.
+              </p>
+            </>
+          ) : (
+            <>
+              <div className="grid gap-4 md:grid-cols-2">
+                {field("asphaltThickness", `Asphalt Thickness (${unitLabels.length})`)}
+                {field("asphaltModulus", `Asphalt Modulus (${unitLabels.modulus})`)}
+                {field("baseThickness", `Base Course Thickness (${unitLabels.length})`)}
+                {field("baseModulus", `Base Course Modulus (${unitLabels.modulus})`)}
+              </div>
+              <div className="grid gap-4 md:grid-cols-2">
+                {field("subgradeModulus", `Subgrade Modulus (${unitLabels.modulus})`)}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Flexible: asphalt and base are converted to an equivalent subgrade thickness (Odemark).
+              </p>
+            </>
+          )}
+          {errors.pavement && (
+            <p className="text-sm text-destructive">Pavement thicknesses must be zero or positive and moduli positive</p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Pavement is part of the depth of cover; select the pavement type under Analysis Parameters.
+          </p>
+        </CardContent>
+      )}
+    </Card>
+  );
+};
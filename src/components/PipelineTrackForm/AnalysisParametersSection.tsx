@@ -3,8 +3,11 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { PavementType, VehicleClass, EquivStressMethod, CodeCheck, UnitsSystem } from "@/domain/pipeline/types";
+import { PavementType, VehicleClass, EquivStressMethod, CodeCheck, UnitsSystem, LongSeamWeldType } from "@/domain/pipeline/types";
 import { getCodeLabel, getCodeDescription, CODE_PROFILES } from "@/domain/pipeline/codeProfiles";
+import { B318DesignFields } from "@/components/B318DesignFields";
+import { Z662DesignFields } from "@/components/Z662DesignFields";
+import { LONG_SEAM_WELD_LABELS } from "@/domain/pipeline/fatigueCheck";
 
 interface AnalysisParametersSectionProps {
   register: UseFormRegister<any>;
@@ -48,6 +51,7 @@ export const AnalysisParametersSection = ({
                 <SelectItem value="HIGHWAY">Highway</SelectItem>
                 <SelectItem value="FARM">Farm / Construction</SelectItem>
                 <SelectItem value="TRACK">Track</SelectItem>
+                <SelectItem value="RAIL">Rail</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -102,7 +106,17 @@ export const AnalysisParametersSection = ({
                 <SelectItem value="USER_DEFINED">User Defined</SelectItem>
               </SelectContent>
             </Select>
-            {codeCheck !== "USER_DEFINED" && (
+            {codeCheck === "B31_8" && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Hoop limit F × E × T from the location class below; {CODE_PROFILES.B31_8.longLimitPct}% SMYS for Longitudinal and Equivalent stresses.
+              </p>
+            )}
+            {codeCheck === "CSA_Z662" && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Hoop limit F × L × J × T (Clause 4.3.5); restrained pipe longitudinal, combined (Clause 4.8) and Annex C biaxial limits 90% SMYS × T.
+              </p>
+            )}
+            {codeCheck === "B31_4" && (
               <p className="text-xs text-muted-foreground mt-1">
                 Default limits: {CODE_PROFILES[codeCheck as keyof typeof CODE_PROFILES]?.hoopLimitPct}% SMYS for Hoop, Longitudinal, and Equivalent stresses. 
                 Choose 'User Defined' to customize.
@@ -111,6 +125,83 @@ export const AnalysisParametersSection = ({
           </div>
         </div>
 
+        {codeCheck === "B31_8" && (
+          <B318DesignFields register={register} errors={errors} watch={watch} setValue={setValue} unitsSystem={unitsSystem} />
+        )}
+
+        {codeCheck === "CSA_Z662" && (
+          <Z662DesignFields register={register} errors={errors} watch={watch} setValue={setValue} unitsSystem={unitsSystem} />
+        )}
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="longSeamWeldType">Longitudinal Seam Weld</Label>
+            <Select
+              value={watch("longSeamWeldType")}
+              onValueChange={(v) => setValue("longSeamWeldType", v as LongSeamWeldType)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(LONG_SEAM_WELD_LABELS) as LongSeamWeldType[]).map((weldType) => (
+                  <SelectItem key={weldType} value={weldType}>{LONG_SEAM_WELD_LABELS[weldType]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-1">
+              Sets the seam endurance limit for the API RP 1102 fatigue check
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="deflectionLagFactor">Deflection Lag Factor (D<sub>L</sub>)</Label>
+            <Input
+              id="deflectionLagFactor"
+              type="number"
+              step="0.05"
+              {...register("deflectionLagFactor", { valueAsNumber: true })}
+            />
+            {errors.deflectionLagFactor && (
+              <p className="text-xs text-destructive">{String(errors.deflectionLagFactor.message)}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="deflectionLimitPct">Deflection Limit (% OD)</Label>
+            <Input
+              id="deflectionLimitPct"
+              type="number"
+              step="0.5"
+              {...register("deflectionLimitPct", { valueAsNumber: true })}
+            />
+            {errors.deflectionLimitPct && (
+              <p className="text-xs text-destructive">{String(errors.deflectionLimitPct.message)}</p>
+            )}
+            <p className="text-xs text-muted-foreground mt-1">
+              Modified Iowa ΔY/D check
+            </p>
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="internalVacuum">Internal Vacuum ({unitLabels.pressure})</Label>
+            <Input
+              id="internalVacuum"
+              type="number"
+              step="any"
+              {...register("internalVacuum", { valueAsNumber: true })}
+            />
+            {errors.internalVacuum && (
+              <p className="text-xs text-destructive">{String(errors.internalVacuum.message)}</p>
+            )}
+            <p className="text-xs text-muted-foreground mt-1">
+              AWWA M11 ring buckling check
+            </p>
+          </div>
+        </div>
+
         {codeCheck === "USER_DEFINED" && (
           <div className="space-y-4">
             <p className="text-sm text-muted-foreground">
@@ -1,60 +1,26 @@
 import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { Calculator as CalcIcon } from "lucide-react";
-import { 
-  PipelineTrackInputs, 
-  UnitsSystem,
-  BeddingAngleDeg,
-  Compaction
-} from "@/domain/pipeline/types";
+import { PipelineTrackInputs, UnitsSystem } from "@/domain/pipeline/types";
 import { convertFormValue } from "@/domain/pipeline/unitConversions";
+import { PIPELINE_TRACK_DEFAULTS, PipelineFormData, pipelineSchema, toPipelineTrackInputs } from "../formSchemas/pipelineTrack";
 import { PipelineInputsSection } from "./PipelineInputsSection";
 import { SoilLoadSection } from "./SoilLoadSection";
 import { TrackVehicleSection } from "./TrackVehicleSection";
 import { AnalysisParametersSection } from "../AnalysisParametersSection";
-
-const pipelineSchema = z.object({
-  calculationName: z.string().min(1, "Name is required"),
-  unitsSystem: z.enum(["EN", "SI"]),
-  pipeOD: z.number().positive(),
-  pipeWT: z.number().positive(),
-  MOP: z.number().min(0),
-  SMYS: z.number().positive(),
-  deltaT: z.number(),
-  soilDensity: z.number().positive(),
-  depthCover: z.number().min(0),
-  beddingAngleDeg: z.number(),
-  soilLoadMethod: z.enum(["PRISM", "TRAP_DOOR"]),
-  frictionAngleDeg: z.number().min(0).max(90),
-  soilCohesion: z.number().min(0),
-  kr: z.number().positive(),
-  ePrimeMethod: z.enum(["LOOKUP", "USER_DEFINED"]),
-  ePrimeUserDefined: z.number().positive().optional(),
-  soilType: z.enum(["FINE", "COARSE_WITH_FINES", "COARSE_NO_FINES"]).optional(),
-  compaction: z.number().optional(),
-  trackSeparation: z.number().positive(),
-  trackLength: z.number().positive(),
-  trackVehicleWeight: z.number().positive(),
-  trackWidth: z.number().positive(),
-  pavementType: z.enum(["RIGID", "FLEXIBLE"]),
-  vehicleClass: z.enum(["HIGHWAY", "FARM", "TRACK"]),
-  equivStressMethod: z.enum(["TRESCA", "VON_MISES"]),
-  codeCheck: z.enum(["B31_4", "B31_8", "CSA_Z662", "USER_DEFINED"]),
-  userDefinedLimits: z.object({
-    hoopLimitPct: z.number().min(0).max(100),
-    longLimitPct: z.number().min(0).max(100),
-    equivLimitPct: z.number().min(0).max(100),
-  }).optional(),
-});
-
-type PipelineFormData = z.infer<typeof pipelineSchema>;
+import { GroundwaterSection } from "../GroundwaterSection";
+import { MaterialSection } from "../MaterialSection";
+import { PlasticPipeSection } from "../PlasticPipeSection";
+import { CasingSection } from "../CasingSection";
+import { SoilProfileSection } from "../SoilProfileSection";
+import { PavementSection } from "../PavementSection";
+import { VehicleSelector } from "../VehicleSelector";
 
 interface PipelineTrackFormProps {
   onCalculate: (inputs: PipelineTrackInputs) => void;
@@ -62,77 +28,14 @@ interface PipelineTrackFormProps {
 
 export const PipelineTrackForm = ({ onCalculate }: PipelineTrackFormProps) => {
   const [unitsSystem, setUnitsSystem] = useState<UnitsSystem>("EN");
-  
-  const defaultValues: PipelineFormData = {
-    calculationName: "",
-    unitsSystem: "EN",
-    pipeOD: 36,
-    pipeWT: 0.5,
-    MOP: 1000,
-    SMYS: 52000,
-    deltaT: 0,
-    soilDensity: 120,
-    depthCover: 4,
-    beddingAngleDeg: 90,
-    soilLoadMethod: "PRISM",
-    frictionAngleDeg: 30,
-    soilCohesion: 0,
-    kr: 1,
-    ePrimeMethod: "LOOKUP",
-    soilType: "COARSE_WITH_FINES",
-    compaction: 90,
-    trackSeparation: 72,
-    trackLength: 120,
-    trackVehicleWeight: 100000,
-    trackWidth: 24,
-    pavementType: "FLEXIBLE",
-    vehicleClass: "TRACK",
-    equivStressMethod: "VON_MISES",
-    codeCheck: "B31_4",
-  };
 
   const { register, handleSubmit, watch, setValue, formState: { errors } } = useForm<PipelineFormData>({
     resolver: zodResolver(pipelineSchema),
-    defaultValues,
+    defaultValues: PIPELINE_TRACK_DEFAULTS,
   });
 
   const onSubmit = (data: PipelineFormData) => {
-    const inputs: PipelineTrackInputs = {
-      calculationName: data.calculationName,
-      unitsSystem: data.unitsSystem,
-      pipeOD: data.pipeOD,
-      pipeWT: data.pipeWT,
-      MOP: data.MOP,
-      SMYS: data.SMYS,
-      deltaT: data.deltaT,
-      soilDensity: data.soilDensity,
-      depthCover: data.depthCover,
-      beddingAngleDeg: data.beddingAngleDeg as BeddingAngleDeg,
-      soilLoadMethod: data.soilLoadMethod,
-      frictionAngleDeg: data.frictionAngleDeg,
-      soilCohesion: data.soilCohesion,
-      kr: data.kr,
-      ePrimeMethod: data.ePrimeMethod,
-      ePrimeUserDefined: data.ePrimeUserDefined,
-      soilType: data.soilType,
-      compaction: data.compaction as Compaction | undefined,
-      trackSeparation: data.trackSeparation,
-      trackLength: data.trackLength,
-      trackVehicleWeight: data.trackVehicleWeight,
-      trackWidth: data.trackWidth,
-      pavementType: data.pavementType,
-      vehicleClass: data.vehicleClass,
-      equivStressMethod: data.equivStressMethod,
-      codeCheck: data.codeCheck,
-      ...(data.userDefinedLimits && 
-        data.userDefinedLimits.hoopLimitPct !== undefined && 
-        data.userDefinedLimits.longLimitPct !== undefined && 
-        data.userDefinedLimits.equivLimitPct !== undefined
-        ? { userDefinedLimits: data.userDefinedLimits as { hoopLimitPct: number; longLimitPct: number; equivLimitPct: number } }
-        : {}
-      ),
-    };
-    onCalculate(inputs);
+    onCalculate(toPipelineTrackInputs(data));
   };
 
   const toggleUnits = (checked: boolean) => {
@@ -148,6 +51,53 @@ export const PipelineTrackForm = ({ onCalculate }: PipelineTrackFormProps) => {
     setValue("deltaT", convertFormValue(currentValues.deltaT, oldSystem, newSystem, 'temp') ?? currentValues.deltaT);
     setValue("soilDensity", convertFormValue(currentValues.soilDensity, oldSystem, newSystem, 'density') ?? currentValues.soilDensity);
     setValue("depthCover", convertFormValue(currentValues.depthCover, oldSystem, newSystem, 'depth') ?? currentValues.depthCover);
+    setValue("internalVacuum", convertFormValue(currentValues.internalVacuum, oldSystem, newSystem, 'pressure') ?? currentValues.internalVacuum);
+    if (currentValues.groundwater) {
+      setValue("groundwater.waterTableDepth", convertFormValue(currentValues.groundwater.waterTableDepth, oldSystem, newSystem, 'depth') ?? currentValues.groundwater.waterTableDepth);
+      setValue("groundwater.saturatedSoilDensity", convertFormValue(currentValues.groundwater.saturatedSoilDensity, oldSystem, newSystem, 'density') ?? currentValues.groundwater.saturatedSoilDensity);
+    }
+    if (currentValues.material) {
+      setValue("material.elasticModulus", convertFormValue(currentValues.material.elasticModulus, oldSystem, newSystem, 'smys') ?? currentValues.material.elasticModulus);
+      setValue("material.thermalExpansion", convertFormValue(currentValues.material.thermalExpansion, oldSystem, newSystem, 'expansion') ?? currentValues.material.thermalExpansion);
+      setValue("material.designTemperature", convertFormValue(currentValues.material.designTemperature, oldSystem, newSystem, 'temp') ?? currentValues.material.designTemperature);
+      currentValues.material.smysDerating?.forEach((point, i) => {
+        setValue(`material.smysDerating.${i}.temperature`, convertFormValue(point.temperature, oldSystem, newSystem, 'temp') ?? point.temperature);
+      });
+    }
+    if (currentValues.plasticPipe) {
+      setValue("plasticPipe.shortTermModulus", convertFormValue(currentValues.plasticPipe.shortTermModulus, oldSystem, newSystem, 'smys') ?? currentValues.plasticPipe.shortTermModulus);
+      setValue("plasticPipe.longTermModulus", convertFormValue(currentValues.plasticPipe.longTermModulus, oldSystem, newSystem, 'smys') ?? currentValues.plasticPipe.longTermModulus);
+      setValue("plasticPipe.hydrostaticDesignBasis", convertFormValue(currentValues.plasticPipe.hydrostaticDesignBasis, oldSystem, newSystem, 'smys') ?? currentValues.plasticPipe.hydrostaticDesignBasis);
+      setValue("plasticPipe.allowableCompressiveStress", convertFormValue(currentValues.plasticPipe.allowableCompressiveStress, oldSystem, newSystem, 'smys') ?? currentValues.plasticPipe.allowableCompressiveStress);
+      setValue("plasticPipe.density", convertFormValue(currentValues.plasticPipe.density, oldSystem, newSystem, 'density') ?? currentValues.plasticPipe.density);
+    }
+    if (currentValues.casing) {
+      setValue("casing.casingOD", convertFormValue(currentValues.casing.casingOD, oldSystem, newSystem, 'length') ?? currentValues.casing.casingOD);
+      setValue("casing.casingWT", convertFormValue(currentValues.casing.casingWT, oldSystem, newSystem, 'length') ?? currentValues.casing.casingWT);
+      setValue("casing.casingSMYS", convertFormValue(currentValues.casing.casingSMYS, oldSystem, newSystem, 'smys') ?? currentValues.casing.casingSMYS);
+      setValue("casing.spacerSpacing", convertFormValue(currentValues.casing.spacerSpacing, oldSystem, newSystem, 'depth') ?? currentValues.casing.spacerSpacing);
+      setValue("casing.contentDensity", convertFormValue(currentValues.casing.contentDensity, oldSystem, newSystem, 'density') ?? currentValues.casing.contentDensity);
+    }
+    if (currentValues.b318Design) {
+      setValue("b318Design.designTemperature", convertFormValue(currentValues.b318Design.designTemperature, oldSystem, newSystem, 'temp') ?? currentValues.b318Design.designTemperature);
+    }
+    if (currentValues.z662Design) {
+      setValue("z662Design.designTemperature", convertFormValue(currentValues.z662Design.designTemperature, oldSystem, newSystem, 'temp') ?? currentValues.z662Design.designTemperature);
+    }
+    currentValues.soilProfile?.layers.forEach((layer, i) => {
+      setValue(`soilProfile.layers.${i}.thickness`, convertFormValue(layer.thickness, oldSystem, newSystem, 'depth') ?? layer.thickness);
+      setValue(`soilProfile.layers.${i}.unitWeight`, convertFormValue(layer.unitWeight, oldSystem, newSystem, 'density') ?? layer.unitWeight);
+    });
+    if (currentValues.pavement) {
+      setValue("pavement.slabThickness", convertFormValue(currentValues.pavement.slabThickness, oldSystem, newSystem, 'length') ?? currentValues.pavement.slabThickness);
+      setValue("pavement.slabModulus", convertFormValue(currentValues.pavement.slabModulus, oldSystem, newSystem, 'smys') ?? currentValues.pavement.slabModulus);
+      setValue("pavement.subgradeReaction", convertFormValue(currentValues.pavement.subgradeReaction, oldSystem, newSystem, 'subgradeReaction') ?? currentValues.pavement.subgradeReaction);
+      setValue("pavement.asphaltThickness", convertFormValue(currentValues.pavement.asphaltThickness, oldSystem, newSystem, 'length') ?? currentValues.pavement.asphaltThickness);
+      setValue("pavement.asphaltModulus", convertFormValue(currentValues.pavement.asphaltModulus, oldSystem, newSystem, 'smys') ?? currentValues.pavement.asphaltModulus);
+      setValue("pavement.baseThickness", convertFormValue(currentValues.pavement.baseThickness, oldSystem, newSystem, 'length') ?? currentValues.pavement.baseThickness);
+      setValue("pavement.baseModulus", convertFormValue(currentValues.pavement.baseModulus, oldSystem, newSystem, 'smys') ?? currentValues.pavement.baseModulus);
+      setValue("pavement.subgradeModulus", convertFormValue(currentValues.pavement.subgradeModulus, oldSystem, newSystem, 'smys') ?? currentValues.pavement.subgradeModulus);
+    }
     setValue("trackSeparation", convertFormValue(currentValues.trackSeparation, oldSystem, newSystem, 'length') ?? currentValues.trackSeparation);
     setValue("trackLength", convertFormValue(currentValues.trackLength, oldSystem, newSystem, 'length') ?? currentValues.trackLength);
     setValue("trackVehicleWeight", convertFormValue(currentValues.trackVehicleWeight, oldSystem, newSystem, 'force') ?? currentValues.trackVehicleWeight);
@@ -222,12 +172,67 @@ export const PipelineTrackForm = ({ onCalculate }: PipelineTrackFormProps) => {
         unitsSystem={unitsSystem}
       />
 
+      <VehicleSelector
+        mode="PIPELINE_TRACK"
+        setValue={setValue}
+        watch={watch}
+        unitsSystem={unitsSystem}
+      />
+
       <TrackVehicleSection 
         register={register} 
         errors={errors} 
         unitsSystem={unitsSystem}
       />
 
+      <SoilProfileSection
+        register={register}
+        errors={errors}
+        watch={watch}
+        setValue={setValue}
+        unitsSystem={unitsSystem}
+      />
+
+      <PavementSection
+        register={register}
+        errors={errors}
+        watch={watch}
+        setValue={setValue}
+        unitsSystem={unitsSystem}
+      />
+
+      <MaterialSection
+        register={register}
+        errors={errors}
+        watch={watch}
+        setValue={setValue}
+        unitsSystem={unitsSystem}
+      />
+
+      <PlasticPipeSection
+        register={register}
+        errors={errors}
+        watch={watch}
+        setValue={setValue}
+        unitsSystem={unitsSystem}
+      />
+
+      <CasingSection
+        register={register}
+        errors={errors}
+        watch={watch}
+        setValue={setValue}
+        unitsSystem={unitsSystem}
+      />
+
+      <GroundwaterSection
+        register={register}
+        errors={errors}
+        watch={watch}
+        setValue={setValue}
+        unitsSystem={unitsSystem}
+      />
+
       <AnalysisParametersSection 
         register={register} 
         errors={errors} 
@@ -0,0 +1,108 @@
+import { UseFormRegister, FieldErrors, FieldValues, UseFormWatch, UseFormSetValue } from "react-hook-form";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PlasticPipeMaterial, UnitsSystem } from "@/domain/pipeline/types";
+import { PLASTIC_PIPE_PRESETS, getPlasticPipePresetInputs } from "@/domain/pipeline/plasticPipe";
+
+interface PlasticPipeSectionProps {
+  register: UseFormRegister<FieldValues>;
+  errors: FieldErrors<FieldValues>;
+  watch: UseFormWatch<FieldValues>;
+  setValue: UseFormSetValue<FieldValues>;
+  unitsSystem: UnitsSystem;
+}
+
+export const PlasticPipeSection = ({
+  register,
+  errors,
+  watch,
+  setValue,
+  unitsSystem
+}: PlasticPipeSectionProps) => {
+  const unitLabels = unitsSystem === "EN"
+    ? { stress: "psi", density: "lb/ft³", length: "in" }
+    : { stress: "MPa", density: "kg/m³", length: "mm" };
+
+  const enabled = watch("plasticPipe.enabled");
+  const material = watch("plasticPipe.material") as PlasticPipeMaterial;
+  const dimensionRatio = watch("plasticPipe.dimensionRatio") as number;
+  const pipeOD = watch("pipeOD") as number;
+
+  // Presets fill in their properties; Custom keeps the values for editing
+  const handleMaterialChange = (value: PlasticPipeMaterial) => {
+    if (value === "CUSTOM") {
+      setValue("plasticPipe.material", value);
+      return;
+    }
+    setValue("plasticPipe", getPlasticPipePresetInputs(value, unitsSystem));
+  };
+
+  const numberField = (name: string, label: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={`plasticPipe.${name}`}>{label}</Label>
+      <Input
+        id={`plasticPipe.${name}`}
+        type="number"
+        step="any"
+        {...register(`plasticPipe.${name}`, { valueAsNumber: true })}
+      />
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Flexible Plastic Pipe</CardTitle>
+            <CardDescription>PE or PVC pipe checked to AWWA M55 / PPI instead of the steel stress checks</CardDescription>
+          </div>
+          <Switch
+            id="plastic-pipe-toggle"
+            checked={!!enabled}
+            onCheckedChange={(checked) => setValue("plasticPipe.enabled", checked)}
+          />
+        </div>
+      </CardHeader>
+      {enabled && (
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="plasticPipe.material">Material</Label>
+              <Select value={material} onValueChange={(v) => handleMaterialChange(v as PlasticPipeMaterial)}>
+                <SelectTrigger id="plasticPipe.material">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PLASTIC_PIPE_PRESETS.map(p => (
+                    <SelectItem key={p.material} value={p.material}>{p.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {numberField("dimensionRatio", "Dimension Ratio DR (OD / t)")}
+          </div>
+          <div className="grid gap-4 md:grid-cols-3">
+            {numberField("shortTermModulus", `Short-Term Modulus (${unitLabels.stress})`)}
+            {numberField("longTermModulus", `Long-Term Modulus (${unitLabels.stress})`)}
+            {numberField("allowableCompressiveStress", `Allowable Compressive Stress (${unitLabels.stress})`)}
+            {numberField("hydrostaticDesignBasis", `HDB / MRS (${unitLabels.stress})`)}
+            {numberField("designFactor", "Design Factor")}
+            {numberField("density", `Density (${unitLabels.density})`)}
+          </div>
+          {pipeOD > 0 && dimensionRatio > 2 && (
+            <p className="text-xs text-muted-foreground">
+              Wall thickness OD / DR = {(pipeOD / dimensionRatio).toFixed(3)} {unitLabels.length}; the steel wall thickness and SMYS are not used.
+            </p>
+          )}
+          {errors.plasticPipe && (
+            <p className="text-sm text-destructive">Dimension ratio must be greater than 2, the moduli, HDB, compressive stress and density positive and the design factor at most 1</p>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
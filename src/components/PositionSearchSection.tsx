@@ -0,0 +1,85 @@
+import { UseFormRegister, FieldErrors, FieldValues, UseFormWatch, UseFormSetValue } from "react-hook-form";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { UnitsSystem } from "@/domain/pipeline/types";
+
+interface PositionSearchSectionProps {
+  register: UseFormRegister<FieldValues>;
+  errors: FieldErrors<FieldValues>;
+  watch: UseFormWatch<FieldValues>;
+  setValue: UseFormSetValue<FieldValues>;
+  unitsSystem: UnitsSystem;
+}
+
+export const PositionSearchSection = ({
+  register,
+  errors,
+  watch,
+  setValue,
+  unitsSystem
+}: PositionSearchSectionProps) => {
+  const unitLabels = unitsSystem === "EN"
+    ? { depth: "ft" }
+    : { depth: "m" };
+
+  const enabled = watch("positionSearch.enabled");
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Critical Position Search</CardTitle>
+            <CardDescription>March the vehicle along and across the pipe to find the governing position</CardDescription>
+          </div>
+          <Switch
+            id="position-search-toggle"
+            checked={!!enabled}
+            onCheckedChange={(checked) => setValue("positionSearch.enabled", checked)}
+          />
+        </div>
+      </CardHeader>
+      {enabled && (
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="positionSearch.alongPipeRange">Range Along Pipe (± {unitLabels.depth})</Label>
+              <Input
+                id="positionSearch.alongPipeRange"
+                type="number"
+                step="any"
+                {...register("positionSearch.alongPipeRange", { valueAsNumber: true })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="positionSearch.acrossPipeRange">Range Across Pipe (± {unitLabels.depth})</Label>
+              <Input
+                id="positionSearch.acrossPipeRange"
+                type="number"
+                step="any"
+                {...register("positionSearch.acrossPipeRange", { valueAsNumber: true })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="positionSearch.stepSize">Step Size ({unitLabels.depth})</Label>
+              <Input
+                id="positionSearch.stepSize"
+                type="number"
+                step="any"
+                {...register("positionSearch.stepSize", { valueAsNumber: true })}
+              />
+            </div>
+          </div>
+          {errors.positionSearch && (
+            <p className="text-sm text-destructive">Ranges must be zero or positive and the step size positive</p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Offsets are measured from the reference position (axles symmetric about the pipe at the lane offset).
+          </p>
+        </CardContent>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,139 @@
+import { PressureMapSummary } from "@/domain/pipeline/types";
+
+interface PressureContourMapProps {
+  map: PressureMapSummary;
+  lengthUnit: string;
+  pressureUnit: string;
+}
+
+const PLOT_SIZE = 520; // px along the longer side
+const MARGIN = { left: 56, right: 16, top: 16, bottom: 44 };
+
+// Blue (low) to red (high)
+const pressureColor = (t: number) => `hsl(${Math.round(240 * (1 - t))}, 85%, 55%)`;
+
+// Round a tick step to 1, 2 or 5 x 10^n
+const niceStep = (range: number, ticks: number) => {
+  const raw = range / ticks;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const normalized = raw / magnitude;
+  return (normalized < 1.5 ? 1 : normalized < 3.5 ? 2 : normalized < 7.5 ? 5 : 10) * magnitude;
+};
+
+const buildTicks = (min: number, max: number) => {
+  const step = niceStep(max - min, 6);
+  const ticks: number[] = [];
+  for (let v = Math.ceil(min / step) * step; v <= max + step * 1e-6; v += step) {
+    ticks.push(Number(v.toFixed(6)));
+  }
+  return ticks;
+};
+
+export const PressureContourMap = ({ map, lengthUnit, pressureUnit }: PressureContourMapProps) => {
+  const spacing = map.x.length > 1 ? map.x[1] - map.x[0] : map.y.length > 1 ? map.y[1] - map.y[0] : 1;
+  const minX = map.x[0] - spacing / 2;
+  const maxX = map.x[map.x.length - 1] + spacing / 2;
+  const minY = map.y[0] - spacing / 2;
+  const maxY = map.y[map.y.length - 1] + spacing / 2;
+
+  const scale = PLOT_SIZE / Math.max(maxX - minX, maxY - minY);
+  const plotWidth = (maxX - minX) * scale;
+  const plotHeight = (maxY - minY) * scale;
+  const width = MARGIN.left + plotWidth + MARGIN.right;
+  const height = MARGIN.top + plotHeight + MARGIN.bottom;
+
+  // +Y is drawn upwards
+  const sx = (x: number) => MARGIN.left + (x - minX) * scale;
+  const sy = (y: number) => MARGIN.top + (maxY - y) * scale;
+
+  const allPressures = map.pressures.flat();
+  const minPressure = Math.min(...allPressures);
+  const range = map.maxPressure - minPressure || 1;
+  const cellSize = spacing * scale;
+
+  return (
+    <div className="space-y-3">
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto max-w-2xl mx-auto">
+        {map.y.map((y, iY) =>
+          map.x.map((x, iX) => {
+            const p = map.pressures[iY][iX];
+            return (
+              <rect
+                key={`${iX}-${iY}`}
+                x={sx(x - spacing / 2)}
+                y={sy(y + spacing / 2)}
+                width={cellSize + 0.5}
+                height={cellSize + 0.5}
+                fill={pressureColor((p - minPressure) / range)}
+              >
+                <title>{`X ${x.toFixed(2)} ${lengthUnit}, Y ${y.toFixed(2)} ${lengthUnit}: ${p.toFixed(3)} ${pressureUnit}`}</title>
+              </rect>
+            );
+          })
+        )}
+
+        {/* Load footprints */}
+        {map.footprints.map((f, i) => (
+          <rect
+            key={`footprint-${i}`}
+            x={sx(f.x - f.width / 2)}
+            y={sy(f.y + f.length / 2)}
+            width={f.width * scale}
+            height={f.length * scale}
+            fill="none"
+            stroke="white"
+            strokeWidth={1.5}
+          />
+        ))}
+
+        {/* Pipe centerline */}
+        <line x1={sx(minX)} y1={sy(0)} x2={sx(maxX)} y2={sy(0)} stroke="black" strokeWidth={2} strokeDasharray="8 4" />
+        <text x={sx(minX) + 4} y={sy(0) - 4} fontSize={11} fill="black">Pipe centerline</text>
+
+        {/* Max pressure location */}
+        <circle cx={sx(map.maxX)} cy={sy(map.maxY)} r={6} fill="none" stroke="black" strokeWidth={2} />
+        <line x1={sx(map.maxX) - 9} y1={sy(map.maxY)} x2={sx(map.maxX) + 9} y2={sy(map.maxY)} stroke="black" strokeWidth={1} />
+        <line x1={sx(map.maxX)} y1={sy(map.maxY) - 9} x2={sx(map.maxX)} y2={sy(map.maxY) + 9} stroke="black" strokeWidth={1} />
+
+        {/* Axes */}
+        <rect x={MARGIN.left} y={MARGIN.top} width={plotWidth} height={plotHeight} fill="none" className="stroke-border" />
+        {buildTicks(minX, maxX).map(x => (
+          <g key={`tx-${x}`}>
+            <line x1={sx(x)} y1={MARGIN.top + plotHeight} x2={sx(x)} y2={MARGIN.top + plotHeight + 4} className="stroke-muted-foreground" />
+            <text x={sx(x)} y={MARGIN.top + plotHeight + 16} fontSize={11} textAnchor="middle" className="fill-muted-foreground">{x}</text>
+          </g>
+        ))}
+        {buildTicks(minY, maxY).map(y => (
+          <g key={`ty-${y}`}>
+            <line x1={MARGIN.left - 4} y1={sy(y)} x2={MARGIN.left} y2={sy(y)} className="stroke-muted-foreground" />
+            <text x={MARGIN.left - 6} y={sy(y) + 4} fontSize={11} textAnchor="end" className="fill-muted-foreground">{y}</text>
+          </g>
+        ))}
+        <text x={MARGIN.left + plotWidth / 2} y={height - 8} fontSize={12} textAnchor="middle" className="fill-foreground">
+          Along pipe X ({lengthUnit})
+        </text>
+        <text
+          x={14}
+          y={MARGIN.top + plotHeight / 2}
+          fontSize={12}
+          textAnchor="middle"
+          transform={`rotate(-90 14 ${MARGIN.top + plotHeight / 2})`}
+          className="fill-foreground"
+        >
+          Across pipe Y ({lengthUnit})
+        </text>
+      </svg>
+
+      <div className="max-w-md mx-auto">
+        <div
+          className="h-3 rounded"
+          style={{ background: `linear-gradient(to right, ${[0, 0.25, 0.5, 0.75, 1].map(pressureColor).join(', ')})` }}
+        />
+        <div className="flex justify-between text-xs text-muted-foreground mt-1">
+          <span>{minPressure.toFixed(3)} {pressureUnit}</span>
+          <span>{map.maxPressure.toFixed(3)} {pressureUnit}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
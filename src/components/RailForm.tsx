@@ -0,0 +1,309 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Calculator as CalcIcon } from "lucide-react";
+import { RailInputs, UnitsSystem, BeddingAngleDeg } from "@/domain/pipeline/typesRail";
+import { PipeSelector } from "./PipelineTrackForm/PipeSelector";
+import { AnalysisParametersSection } from "./AnalysisParametersSection";
+import { GroundwaterSection } from "./GroundwaterSection";
+import { MaterialSection } from "./MaterialSection";
+import { PlasticPipeSection } from "./PlasticPipeSection";
+import { CasingSection } from "./CasingSection";
+import { SoilProfileSection } from "./SoilProfileSection";
+import { PositionSearchSection } from "./PositionSearchSection";
+import { convertFormValue } from "@/domain/pipeline/unitConversions";
+import { RAIL_DEFAULTS, RailFormData, railSchema, toRailInputs } from "./formSchemas/rail";
+
+interface RailFormProps {
+  onCalculate: (inputs: RailInputs) => void;
+}
+
+export const RailForm = ({ onCalculate }: RailFormProps) => {
+  const [unitsSystem, setUnitsSystem] = useState<UnitsSystem>("EN");
+
+  const { register, handleSubmit, watch, setValue, formState: { errors } } = useForm<RailFormData>({
+    resolver: zodResolver(railSchema),
+    defaultValues: RAIL_DEFAULTS,
+  });
+
+  const onSubmit = (data: RailFormData) => {
+    onCalculate(toRailInputs(data));
+  };
+
+  const toggleUnits = (checked: boolean) => {
+    const newSystem: UnitsSystem = checked ? "SI" : "EN";
+    const oldSystem = unitsSystem;
+    
+    const currentValues = watch();
+    setValue("pipeOD", convertFormValue(currentValues.pipeOD, oldSystem, newSystem, 'length') ?? currentValues.pipeOD);
+    setValue("pipeWT", convertFormValue(currentValues.pipeWT, oldSystem, newSystem, 'length') ?? currentValues.pipeWT);
+    setValue("MOP", convertFormValue(currentValues.MOP, oldSystem, newSystem, 'pressure') ?? currentValues.MOP);
+    setValue("SMYS", convertFormValue(currentValues.SMYS, oldSystem, newSystem, 'smys') ?? currentValues.SMYS);
+    setValue("deltaT", convertFormValue(currentValues.deltaT, oldSystem, newSystem, 'temp') ?? currentValues.deltaT);
+    setValue("soilDensity", convertFormValue(currentValues.soilDensity, oldSystem, newSystem, 'density') ?? currentValues.soilDensity);
+    setValue("depthCover", convertFormValue(currentValues.depthCover, oldSystem, newSystem, 'depth') ?? currentValues.depthCover);
+    setValue("internalVacuum", convertFormValue(currentValues.internalVacuum, oldSystem, newSystem, 'pressure') ?? currentValues.internalVacuum);
+    if (currentValues.groundwater) {
+      setValue("groundwater.waterTableDepth", convertFormValue(currentValues.groundwater.waterTableDepth, oldSystem, newSystem, 'depth') ?? currentValues.groundwater.waterTableDepth);
+      setValue("groundwater.saturatedSoilDensity", convertFormValue(currentValues.groundwater.saturatedSoilDensity, oldSystem, newSystem, 'density') ?? currentValues.groundwater.saturatedSoilDensity);
+    }
+    if (currentValues.material) {
+      setValue("material.elasticModulus", convertFormValue(currentValues.material.elasticModulus, oldSystem, newSystem, 'smys') ?? currentValues.material.elasticModulus);
+      setValue("material.thermalExpansion", convertFormValue(currentValues.material.thermalExpansion, oldSystem, newSystem, 'expansion') ?? currentValues.material.thermalExpansion);
+      setValue("material.designTemperature", convertFormValue(currentValues.material.designTemperature, oldSystem, newSystem, 'temp') ?? currentValues.material.designTemperature);
+      currentValues.material.smysDerating?.forEach((point, i) => {
+        setValue(`material.smysDerating.${i}.temperature`, convertFormValue(point.temperature, oldSystem, newSystem, 'temp') ?? point.temperature);
+      });
+    }
+    if (currentValues.plasticPipe) {
+      setValue("plasticPipe.shortTermModulus", convertFormValue(currentValues.plasticPipe.shortTermModulus, oldSystem, newSystem, 'smys') ?? currentValues.plasticPipe.shortTermModulus);
+      setValue("plasticPipe.longTermModulus", convertFormValue(currentValues.plasticPipe.longTermModulus, oldSystem, newSystem, 'smys') ?? currentValues.plasticPipe.longTermModulus);
+      setValue("plasticPipe.hydrostaticDesignBasis", convertFormValue(currentValues.plasticPipe.hydrostaticDesignBasis, oldSystem, newSystem, 'smys') ?? currentValues.plasticPipe.hydrostaticDesignBasis);
+      setValue("plasticPipe.allowableCompressiveStress", convertFormValue(currentValues.plasticPipe.allowableCompressiveStress, oldSystem, newSystem, 'smys') ?? currentValues.plasticPipe.allowableCompressiveStress);
+      setValue("plasticPipe.density", convertFormValue(currentValues.plasticPipe.density, oldSystem, newSystem, 'density') ?? currentValues.plasticPipe.density);
+    }
+    if (currentValues.casing) {
+      setValue("casing.casingOD", convertFormValue(currentValues.casing.casingOD, oldSystem, newSystem, 'length') ?? currentValues.casing.casingOD);
+      setValue("casing.casingWT", convertFormValue(currentValues.casing.casingWT, oldSystem, newSystem, 'length') ?? currentValues.casing.casingWT);
+      setValue("casing.casingSMYS", convertFormValue(currentValues.casing.casingSMYS, oldSystem, newSystem, 'smys') ?? currentValues.casing.casingSMYS);
+      setValue("casing.spacerSpacing", convertFormValue(currentValues.casing.spacerSpacing, oldSystem, newSystem, 'depth') ?? currentValues.casing.spacerSpacing);
+      setValue("casing.contentDensity", convertFormValue(currentValues.casing.contentDensity, oldSystem, newSystem, 'density') ?? currentValues.casing.contentDensity);
+    }
+    if (currentValues.b318Design) {
+      setValue("b318Design.designTemperature", convertFormValue(currentValues.b318Design.designTemperature, oldSystem, newSystem, 'temp') ?? currentValues.b318Design.designTemperature);
+    }
+    if (currentValues.z662Design) {
+      setValue("z662Design.designTemperature", convertFormValue(currentValues.z662Design.designTemperature, oldSystem, newSystem, 'temp') ?? currentValues.z662Design.designTemperature);
+    }
+    currentValues.soilProfile?.layers.forEach((layer, i) => {
+      setValue(`soilProfile.layers.${i}.thickness`, convertFormValue(layer.thickness, oldSystem, newSystem, 'depth') ?? layer.thickness);
+      setValue(`soilProfile.layers.${i}.unitWeight`, convertFormValue(layer.unitWeight, oldSystem, newSystem, 'density') ?? layer.unitWeight);
+    });
+    setValue("axleSpacing", convertFormValue(currentValues.axleSpacing, oldSystem, newSystem, 'depth') ?? currentValues.axleSpacing);
+    setValue("trackOffset", convertFormValue(currentValues.trackOffset, oldSystem, newSystem, 'depth') ?? currentValues.trackOffset);
+    setValue("tieLength", convertFormValue(currentValues.tieLength, oldSystem, newSystem, 'length') ?? currentValues.tieLength);
+    setValue("tieWidth", convertFormValue(currentValues.tieWidth, oldSystem, newSystem, 'length') ?? currentValues.tieWidth);
+    setValue("tieSpacing", convertFormValue(currentValues.tieSpacing, oldSystem, newSystem, 'length') ?? currentValues.tieSpacing);
+    if (currentValues.positionSearch) {
+      setValue("positionSearch.alongPipeRange", convertFormValue(currentValues.positionSearch.alongPipeRange, oldSystem, newSystem, 'depth') ?? currentValues.positionSearch.alongPipeRange);
+      setValue("positionSearch.acrossPipeRange", convertFormValue(currentValues.positionSearch.acrossPipeRange, oldSystem, newSystem, 'depth') ?? currentValues.positionSearch.acrossPipeRange);
+      setValue("positionSearch.stepSize", convertFormValue(currentValues.positionSearch.stepSize, oldSystem, newSystem, 'depth') ?? currentValues.positionSearch.stepSize);
+    }
+    
+    if (currentValues.ePrimeUserDefined) {
+      setValue("ePrimeUserDefined", convertFormValue(currentValues.ePrimeUserDefined, oldSystem, newSystem, 'pressure'));
+    }
+    if (currentValues.soilCohesion) {
+      setValue("soilCohesion", convertFormValue(currentValues.soilCohesion, oldSystem, newSystem, 'pressure') ?? 0);
+    }
+    
+    setUnitsSystem(newSystem);
+    setValue("unitsSystem", newSystem);
+  };
+
+  const unitLabels = unitsSystem === "EN" 
+    ? { length: "in", depth: "ft", pressure: "psi", smys: "psi", density: "lb/ft³", force: "lb", temp: "°F" }
+    : { length: "mm", depth: "m", pressure: "kPa", smys: "MPa", density: "kg/m³", force: "kg", temp: "°C" };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Unit System</CardTitle>
+              <CardDescription>Select measurement system</CardDescription>
+            </div>
+            <div className="flex items-center gap-3">
+              <Label htmlFor="units-toggle-rail" className="text-sm font-medium">
+                {unitsSystem === "EN" ? "English" : "Metric"}
+              </Label>
+              <Switch id="units-toggle-rail" checked={unitsSystem === "SI"} onCheckedChange={toggleUnits} />
+            </div>
+          </div>
+        </CardHeader>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Calculation Name</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Input placeholder="e.g., Mainline Rail Crossing" {...register("calculationName")} />
+          {errors.calculationName && <p className="text-sm text-destructive mt-1">{errors.calculationName.message}</p>}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Pipeline Properties</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {/* Pipe Selection with Presets */}
+          <PipeSelector
+            register={register}
+            setValue={setValue}
+            watch={watch}
+            errors={errors}
+            unitsSystem={unitsSystem}
+          />
+
+          {/* MOP, ΔT, Soil Density */}
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label>MOP ({unitLabels.pressure})</Label>
+              <Input type="number" step="any" {...register("MOP", { valueAsNumber: true })} />
+            </div>
+            <div className="space-y-2">
+              <Label>ΔT ({unitLabels.temp})</Label>
+              <Input type="number" step="any" {...register("deltaT", { valueAsNumber: true })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Soil Density ({unitLabels.density})</Label>
+              <Input type="number" step="any" {...register("soilDensity", { valueAsNumber: true })} />
+            </div>
+          </div>
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Cover Depth Below Tie Base ({unitLabels.depth})</Label>
+              <Input type="number" step="any" {...register("depthCover", { valueAsNumber: true })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Bedding Angle (°)</Label>
+              <Select value={watch("beddingAngleDeg")?.toString()} onValueChange={(v) => setValue("beddingAngleDeg", parseInt(v) as BeddingAngleDeg)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {[0, 30, 60, 90, 120, 150, 180].map((angle) => (
+                    <SelectItem key={angle} value={angle.toString()}>{angle}°</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Kr</Label>
+              <Input type="number" step="any" {...register("kr", { valueAsNumber: true })} />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rail Loading</CardTitle>
+          <CardDescription>Cooper E-series driver axles distributed through the ties (impact factor 1.75, API RP 1102)</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Cooper Rating (E)</Label>
+              <Select value={watch("cooperRating")?.toString()} onValueChange={(v) => setValue("cooperRating", parseInt(v))}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {[60, 72, 80, 90].map((rating) => (
+                    <SelectItem key={rating} value={rating.toString()}>E{rating}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Driver axle load: {((watch("cooperRating") || 0) * 1000).toLocaleString()} lb</p>
+            </div>
+            <div className="space-y-2">
+              <Label>Number of Axles</Label>
+              <Input type="number" step="1" {...register("numberOfAxles", { valueAsNumber: true })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Axle Spacing ({unitLabels.depth})</Label>
+              <Input type="number" step="any" {...register("axleSpacing", { valueAsNumber: true })} />
+            </div>
+          </div>
+          <div className="grid gap-4 md:grid-cols-4">
+            <div className="space-y-2">
+              <Label>Tie Length ({unitLabels.length})</Label>
+              <Input type="number" step="any" {...register("tieLength", { valueAsNumber: true })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Tie Width ({unitLabels.length})</Label>
+              <Input type="number" step="any" {...register("tieWidth", { valueAsNumber: true })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Tie Spacing ({unitLabels.length})</Label>
+              <Input type="number" step="any" {...register("tieSpacing", { valueAsNumber: true })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Track Offset ({unitLabels.depth})</Label>
+              <Input type="number" step="any" {...register("trackOffset", { valueAsNumber: true })} />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <PositionSearchSection
+        register={register}
+        errors={errors}
+        watch={watch}
+        setValue={setValue}
+        unitsSystem={unitsSystem}
+      />
+
+      <SoilProfileSection
+        register={register}
+        errors={errors}
+        watch={watch}
+        setValue={setValue}
+        unitsSystem={unitsSystem}
+      />
+
+      <MaterialSection
+        register={register}
+        errors={errors}
+        watch={watch}
+        setValue={setValue}
+        unitsSystem={unitsSystem}
+      />
+
+      <PlasticPipeSection
+        register={register}
+        errors={errors}
+        watch={watch}
+        setValue={setValue}
+        unitsSystem={unitsSystem}
+      />
+
+      <CasingSection
+        register={register}
+        errors={errors}
+        watch={watch}
+        setValue={setValue}
+        unitsSystem={unitsSystem}
+      />
+
+      <GroundwaterSection
+        register={register}
+        errors={errors}
+        watch={watch}
+        setValue={setValue}
+        unitsSystem={unitsSystem}
+      />
+
+      <AnalysisParametersSection
+        register={register}
+        errors={errors}
+        watch={watch}
+        setValue={setValue}
+        unitsSystem={unitsSystem}
+        showVehicleClass={false}
+        showVbaParity={false}
+      />
+
+      <Button type="submit" className="w-full" size="lg">
+        <CalcIcon className="w-5 h-5 mr-2" />
+        Calculate Rail Crossing Loading
+      </Button>
+    </form>
+  );
+};
@@ -0,0 +1,167 @@
+import { UseFormRegister, FieldErrors, FieldValues, UseFormWatch, UseFormSetValue } from "react-hook-form";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Plus, Trash2 } from "lucide-react";
+import { SoilLayerInputs, SoilType, UnitsSystem } from "@/domain/pipeline/types";
+
+interface SoilProfileSectionProps {
+  register: UseFormRegister<FieldValues>;
+  errors: FieldErrors<FieldValues>;
+  watch: UseFormWatch<FieldValues>;
+  setValue: UseFormSetValue<FieldValues>;
+  unitsSystem: UnitsSystem;
+}
+
+export const SoilProfileSection = ({
+  register,
+  errors,
+  watch,
+  setValue,
+  unitsSystem
+}: SoilProfileSectionProps) => {
+  const unitLabels = unitsSystem === "EN"
+    ? { depth: "ft", density: "lb/ft³" }
+    : { depth: "m", density: "kg/m³" };
+
+  const enabled = watch("soilProfile.enabled");
+  const layers: SoilLayerInputs[] = watch("soilProfile.layers") || [];
+  const totalThickness = layers.slice(0, -1).reduce((sum, layer) => sum + (Number(layer?.thickness) || 0), 0);
+
+  const addLayer = () => {
+    const last = layers[layers.length - 1];
+    setValue("soilProfile.layers", [
+      ...layers,
+      {
+        name: `Layer ${layers.length + 1}`,
+        thickness: last?.thickness ?? (unitsSystem === "EN" ? 2 : 0.6),
+        unitWeight: last?.unitWeight ?? (unitsSystem === "EN" ? 120 : 1922),
+        soilType: last?.soilType ?? "COARSE_WITH_FINES",
+        compaction: last?.compaction ?? 90,
+      },
+    ]);
+  };
+
+  const removeLayer = (index: number) => {
+    setValue("soilProfile.layers", layers.filter((_, i) => i !== index));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Layered Soil Profile</CardTitle>
+            <CardDescription>Soil layers from grade down; replaces the single soil density and E' soil type</CardDescription>
+          </div>
+          <Switch
+            id="soil-profile-toggle"
+            checked={!!enabled}
+            onCheckedChange={(checked) => setValue("soilProfile.enabled", checked)}
+          />
+        </div>
+      </CardHeader>
+      {enabled && (
+        <CardContent className="space-y-4">
+          {layers.map((_, index) => (
+            <div key={index} className="space-y-3 p-4 border rounded-lg">
+              <div className="flex items-center justify-between">
+                <Input
+                  className="max-w-xs"
+                  {...register(`soilProfile.layers.${index}.name`)}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeLayer(index)}
+                  disabled={layers.length <= 1}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+              <div className="grid gap-4 md:grid-cols-4">
+                <div className="space-y-2">
+                  <Label>Thickness ({unitLabels.depth})</Label>
+                  <Input
+                    type="number"
+                    step="any"
+                    {...register(`soilProfile.layers.${index}.thickness`, { valueAsNumber: true })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Unit Weight ({unitLabels.density})</Label>
+                  <Input type="number" step="any" {...register(`soilProfile.layers.${index}.unitWeight`, { valueAsNumber: true })} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Soil Type</Label>
+                  <Select
+                    value={watch(`soilProfile.layers.${index}.soilType`)}
+                    onValueChange={(v) => setValue(`soilProfile.layers.${index}.soilType`, v as SoilType)}
+                  >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="FINE">Fine</SelectItem>
+                      <SelectItem value="COARSE_WITH_FINES">Coarse with Fines</SelectItem>
+                      <SelectItem value="COARSE_NO_FINES">Coarse no Fines</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Compaction (%)</Label>
+                  <Select
+                    value={watch(`soilProfile.layers.${index}.compaction`)?.toString()}
+                    onValueChange={(v) => setValue(`soilProfile.layers.${index}.compaction`, parseInt(v))}
+                  >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {[80, 85, 90, 95, 100].map((comp) => (
+                        <SelectItem key={comp} value={comp.toString()}>
+                          {comp}%
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </div>
+          ))}
+
+          {errors.soilProfile && (
+            <p className="text-sm text-destructive">Check layer entries - thicknesses and unit weights must be positive</p>
+          )}
+
+          <div className="flex items-center justify-between">
+            <Button type="button" variant="outline" onClick={addLayer}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Layer
+            </Button>
+            <div className="text-sm text-muted-foreground">
+              {layers.length} layers · Last layer extends below <span className="font-mono">{totalThickness.toFixed(2)} {unitLabels.depth}</span>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="soil-profile-load-spread">Load Spread Through Layers</Label>
+              <p className="text-xs text-muted-foreground">
+                Live load is evaluated at the Odemark equivalent depth of the layers above the pipe
+              </p>
+            </div>
+            <Switch
+              id="soil-profile-load-spread"
+              checked={!!watch("soilProfile.loadSpread")}
+              onCheckedChange={(checked) => setValue("soilProfile.loadSpread", checked)}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            E' is looked up for the layer at the pipe springline unless a user-defined E' is selected.
+          </p>
+        </CardContent>
+      )}
+    </Card>
+  );
+};
@@ -1,7 +1,6 @@
 import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -9,65 +8,19 @@ import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { Calculator as CalcIcon } from "lucide-react";
-import { ThreeAxleInputs, UnitsSystem, SoilLoadMethod, EPrimeMethod, BeddingAngleDeg, EquivStressMethod, CodeCheck, SoilType, Compaction, PavementType, VehicleClass } from "@/domain/pipeline/types3Axle";
+import { ThreeAxleInputs, UnitsSystem, BeddingAngleDeg, SoilLoadMethod, EPrimeMethod, EquivStressMethod, CodeCheck, SoilType, PavementType, VehicleClass } from "@/domain/pipeline/types3Axle";
 import { PipeSelector } from "./PipelineTrackForm/PipeSelector";
 import { AnalysisParametersSection } from "./AnalysisParametersSection";
+import { GroundwaterSection } from "./GroundwaterSection";
+import { MaterialSection } from "./MaterialSection";
+import { PlasticPipeSection } from "./PlasticPipeSection";
+import { CasingSection } from "./CasingSection";
+import { SoilProfileSection } from "./SoilProfileSection";
+import { PavementSection } from "./PavementSection";
+import { PositionSearchSection } from "./PositionSearchSection";
+import { VehicleSelector } from "./VehicleSelector";
 import { convertFormValue } from "@/domain/pipeline/unitConversions";
-
-const threeAxleSchema = z.object({
-  calculationName: z.string().min(1, "Name is required"),
-  unitsSystem: z.enum(["EN", "SI"]),
-  pipeOD: z.number().positive(),
-  pipeWT: z.number().positive(),
-  MOP: z.number().min(0),
-  SMYS: z.number().positive(),
-  deltaT: z.number(),
-  soilDensity: z.number().positive(),
-  depthCover: z.number().min(0),
-  beddingAngleDeg: z.number(),
-  soilLoadMethod: z.enum(["PRISM", "TRAP_DOOR"]),
-  frictionAngleDeg: z.number().min(0).max(90),
-  soilCohesion: z.number().min(0),
-  kr: z.number().positive(),
-  ePrimeMethod: z.enum(["LOOKUP", "USER_DEFINED"]),
-  ePrimeUserDefined: z.number().positive().optional(),
-  soilType: z.enum(["FINE", "COARSE_WITH_FINES", "COARSE_NO_FINES"]).optional(),
-  compaction: z.number().optional(),
-  axle1To2Spacing: z.number().positive(),
-  axle2To3Spacing: z.number().positive(),
-  axle1Load: z.number().positive(),
-  axle2Load: z.number().positive(),
-  axle3Load: z.number().positive(),
-  contactPatchMode: z.enum(["MANUAL", "AUTO"]),
-  // Axle 1 tire properties
-  axle1TireWidth: z.number().positive(),
-  axle1TireLength: z.number().positive(),
-  axle1TirePressure: z.number().positive().optional(),
-  axle1TiresPerAxle: z.number().int().positive().optional(),
-  // Axle 2 tire properties
-  axle2TireWidth: z.number().positive(),
-  axle2TireLength: z.number().positive(),
-  axle2TirePressure: z.number().positive().optional(),
-  axle2TiresPerAxle: z.number().int().positive().optional(),
-  // Axle 3 tire properties
-  axle3TireWidth: z.number().positive(),
-  axle3TireLength: z.number().positive(),
-  axle3TirePressure: z.number().positive().optional(),
-  axle3TiresPerAxle: z.number().int().positive().optional(),
-  axleWidth: z.number().positive(),
-  laneOffset: z.number(),
-  pavementType: z.enum(["RIGID", "FLEXIBLE"]),
-  vehicleClass: z.enum(["HIGHWAY", "FARM", "TRACK"]),
-  equivStressMethod: z.enum(["TRESCA", "VON_MISES"]),
-  codeCheck: z.enum(["B31_4", "B31_8", "CSA_Z662", "USER_DEFINED"]),
-  userDefinedLimits: z.object({
-    hoopLimitPct: z.number().min(0).max(100),
-    longLimitPct: z.number().min(0).max(100),
-    equivLimitPct: z.number().min(0).max(100),
-  }).optional(),
-});
-
-type ThreeAxleFormData = z.infer<typeof threeAxleSchema>;
+import { THREE_AXLE_DEFAULTS, ThreeAxleFormData, threeAxleSchema, toThreeAxleInputs } from "./formSchemas/threeAxle";
 
 interface ThreeAxleFormProps {
   onCalculate: (inputs: ThreeAxleInputs) => void;
@@ -75,57 +28,10 @@ interface ThreeAxleFormProps {
 
 export const ThreeAxleForm = ({ onCalculate }: ThreeAxleFormProps) => {
   const [unitsSystem, setUnitsSystem] = useState<UnitsSystem>("EN");
-  
-  const defaultValues: ThreeAxleFormData = {
-    calculationName: "",
-    unitsSystem: "EN",
-    pipeOD: 36,
-    pipeWT: 0.5,
-    MOP: 1000,
-    SMYS: 52000,
-    deltaT: 0,
-    soilDensity: 120,
-    depthCover: 4,
-    beddingAngleDeg: 90,
-    soilLoadMethod: "PRISM",
-    frictionAngleDeg: 30,
-    soilCohesion: 0,
-    kr: 1,
-    ePrimeMethod: "LOOKUP",
-    soilType: "COARSE_WITH_FINES",
-    compaction: 90,
-    axle1To2Spacing: 12,
-    axle2To3Spacing: 4,
-    axle1Load: 12000,
-    axle2Load: 17000,
-    axle3Load: 17000,
-    contactPatchMode: "MANUAL",
-    // Axle 1 defaults
-    axle1TireWidth: 8,
-    axle1TireLength: 10,
-    axle1TirePressure: 80,
-    axle1TiresPerAxle: 2,
-    // Axle 2 defaults
-    axle2TireWidth: 8,
-    axle2TireLength: 10,
-    axle2TirePressure: 80,
-    axle2TiresPerAxle: 4,
-    // Axle 3 defaults
-    axle3TireWidth: 8,
-    axle3TireLength: 10,
-    axle3TirePressure: 80,
-    axle3TiresPerAxle: 4,
-    axleWidth: 72,
-    laneOffset: 0,
-    pavementType: "FLEXIBLE",
-    vehicleClass: "HIGHWAY",
-    equivStressMethod: "VON_MISES",
-    codeCheck: "B31_4",
-  };
 
   const { register, handleSubmit, watch, setValue, formState: { errors } } = useForm<ThreeAxleFormData>({
     resolver: zodResolver(threeAxleSchema),
-    defaultValues,
+    defaultValues: THREE_AXLE_DEFAULTS,
   });
 
   const ePrimeMethod = watch("ePrimeMethod");
@@ -134,61 +40,7 @@ export const ThreeAxleForm = ({ onCalculate }: ThreeAxleFormProps) => {
   const contactPatchMode = watch("contactPatchMode");
 
   const onSubmit = (data: ThreeAxleFormData) => {
-    const inputs: ThreeAxleInputs = {
-      calculationName: data.calculationName,
-      unitsSystem: data.unitsSystem,
-      pipeOD: data.pipeOD,
-      pipeWT: data.pipeWT,
-      MOP: data.MOP,
-      SMYS: data.SMYS,
-      deltaT: data.deltaT,
-      soilDensity: data.soilDensity,
-      depthCover: data.depthCover,
-      beddingAngleDeg: data.beddingAngleDeg as BeddingAngleDeg,
-      soilLoadMethod: data.soilLoadMethod,
-      frictionAngleDeg: data.frictionAngleDeg,
-      soilCohesion: data.soilCohesion,
-      kr: data.kr,
-      ePrimeMethod: data.ePrimeMethod,
-      ePrimeUserDefined: data.ePrimeUserDefined,
-      soilType: data.soilType,
-      compaction: data.compaction as Compaction | undefined,
-      axle1To2Spacing: data.axle1To2Spacing,
-      axle2To3Spacing: data.axle2To3Spacing,
-      axle1Load: data.axle1Load,
-      axle2Load: data.axle2Load,
-      axle3Load: data.axle3Load,
-      contactPatchMode: data.contactPatchMode,
-      // Axle 1 tire properties
-      axle1TireWidth: data.axle1TireWidth,
-      axle1TireLength: data.axle1TireLength,
-      axle1TirePressure: data.axle1TirePressure,
-      axle1TiresPerAxle: data.axle1TiresPerAxle,
-      // Axle 2 tire properties
-      axle2TireWidth: data.axle2TireWidth,
-      axle2TireLength: data.axle2TireLength,
-      axle2TirePressure: data.axle2TirePressure,
-      axle2TiresPerAxle: data.axle2TiresPerAxle,
-      // Axle 3 tire properties
-      axle3TireWidth: data.axle3TireWidth,
-      axle3TireLength: data.axle3TireLength,
-      axle3TirePressure: data.axle3TirePressure,
-      axle3TiresPerAxle: data.axle3TiresPerAxle,
-      axleWidth: data.axleWidth,
-      laneOffset: data.laneOffset,
-      pavementType: data.pavementType,
-      vehicleClass: data.vehicleClass,
-      equivStressMethod: data.equivStressMethod,
-      codeCheck: data.codeCheck,
-      ...(data.userDefinedLimits && 
-        data.userDefinedLimits.hoopLimitPct !== undefined && 
-        data.userDefinedLimits.longLimitPct !== undefined && 
-        data.userDefinedLimits.equivLimitPct !== undefined
-        ? { userDefinedLimits: data.userDefinedLimits as { hoopLimitPct: number; longLimitPct: number; equivLimitPct: number } }
-        : {}
-      ),
-    };
-    onCalculate(inputs);
+    onCalculate(toThreeAxleInputs(data));
   };
 
   const toggleUnits = (checked: boolean) => {
@@ -203,9 +55,61 @@ export const ThreeAxleForm = ({ onCalculate }: ThreeAxleFormProps) => {
     setValue("deltaT", convertFormValue(currentValues.deltaT, oldSystem, newSystem, 'temp') ?? currentValues.deltaT);
     setValue("soilDensity", convertFormValue(currentValues.soilDensity, oldSystem, newSystem, 'density') ?? currentValues.soilDensity);
     setValue("depthCover", convertFormValue(currentValues.depthCover, oldSystem, newSystem, 'depth') ?? currentValues.depthCover);
+    setValue("internalVacuum", convertFormValue(currentValues.internalVacuum, oldSystem, newSystem, 'pressure') ?? currentValues.internalVacuum);
+    if (currentValues.groundwater) {
+      setValue("groundwater.waterTableDepth", convertFormValue(currentValues.groundwater.waterTableDepth, oldSystem, newSystem, 'depth') ?? currentValues.groundwater.waterTableDepth);
+      setValue("groundwater.saturatedSoilDensity", convertFormValue(currentValues.groundwater.saturatedSoilDensity, oldSystem, newSystem, 'density') ?? currentValues.groundwater.saturatedSoilDensity);
+    }
+    if (currentValues.material) {
+      setValue("material.elasticModulus", convertFormValue(currentValues.material.elasticModulus, oldSystem, newSystem, 'smys') ?? currentValues.material.elasticModulus);
+      setValue("material.thermalExpansion", convertFormValue(currentValues.material.thermalExpansion, oldSystem, newSystem, 'expansion') ?? currentValues.material.thermalExpansion);
+      setValue("material.designTemperature", convertFormValue(currentValues.material.designTemperature, oldSystem, newSystem, 'temp') ?? currentValues.material.designTemperature);
+      currentValues.material.smysDerating?.forEach((point, i) => {
+        setValue(`material.smysDerating.${i}.temperature`, convertFormValue(point.temperature, oldSystem, newSystem, 'temp') ?? point.temperature);
+      });
+    }
+    if (currentValues.plasticPipe) {
+      setValue("plasticPipe.shortTermModulus", convertFormValue(currentValues.plasticPipe.shortTermModulus, oldSystem, newSystem, 'smys') ?? currentValues.plasticPipe.shortTermModulus);
+      setValue("plasticPipe.longTermModulus", convertFormValue(currentValues.plasticPipe.longTermModulus, oldSystem, newSystem, 'smys') ?? currentValues.plasticPipe.longTermModulus);
+      setValue("plasticPipe.hydrostaticDesignBasis", convertFormValue(currentValues.plasticPipe.hydrostaticDesignBasis, oldSystem, newSystem, 'smys') ?? currentValues.plasticPipe.hydrostaticDesignBasis);
+      setValue("plasticPipe.allowableCompressiveStress", convertFormValue(currentValues.plasticPipe.allowableCompressiveStress, oldSystem, newSystem, 'smys') ?? currentValues.plasticPipe.allowableCompressiveStress);
+      setValue("plasticPipe.density", convertFormValue(currentValues.plasticPipe.density, oldSystem, newSystem, 'density') ?? currentValues.plasticPipe.density);
+    }
+    if (currentValues.casing) {
+      setValue("casing.casingOD", convertFormValue(currentValues.casing.casingOD, oldSystem, newSystem, 'length') ?? currentValues.casing.casingOD);
+      setValue("casing.casingWT", convertFormValue(currentValues.casing.casingWT, oldSystem, newSystem, 'length') ?? currentValues.casing.casingWT);
+      setValue("casing.casingSMYS", convertFormValue(currentValues.casing.casingSMYS, oldSystem, newSystem, 'smys') ?? currentValues.casing.casingSMYS);
+      setValue("casing.spacerSpacing", convertFormValue(currentValues.casing.spacerSpacing, oldSystem, newSystem, 'depth') ?? currentValues.casing.spacerSpacing);
+      setValue("casing.contentDensity", convertFormValue(currentValues.casing.contentDensity, oldSystem, newSystem, 'density') ?? currentValues.casing.contentDensity);
+    }
+    if (currentValues.b318Design) {
+      setValue("b318Design.designTemperature", convertFormValue(currentValues.b318Design.designTemperature, oldSystem, newSystem, 'temp') ?? currentValues.b318Design.designTemperature);
+    }
+    if (currentValues.z662Design) {
+      setValue("z662Design.designTemperature", convertFormValue(currentValues.z662Design.designTemperature, oldSystem, newSystem, 'temp') ?? currentValues.z662Design.designTemperature);
+    }
+    currentValues.soilProfile?.layers.forEach((layer, i) => {
+      setValue(`soilProfile.layers.${i}.thickness`, convertFormValue(layer.thickness, oldSystem, newSystem, 'depth') ?? layer.thickness);
+      setValue(`soilProfile.layers.${i}.unitWeight`, convertFormValue(layer.unitWeight, oldSystem, newSystem, 'density') ?? layer.unitWeight);
+    });
+    if (currentValues.pavement) {
+      setValue("pavement.slabThickness", convertFormValue(currentValues.pavement.slabThickness, oldSystem, newSystem, 'length') ?? currentValues.pavement.slabThickness);
+      setValue("pavement.slabModulus", convertFormValue(currentValues.pavement.slabModulus, oldSystem, newSystem, 'smys') ?? currentValues.pavement.slabModulus);
+      setValue("pavement.subgradeReaction", convertFormValue(currentValues.pavement.subgradeReaction, oldSystem, newSystem, 'subgradeReaction') ?? currentValues.pavement.subgradeReaction);
+      setValue("pavement.asphaltThickness", convertFormValue(currentValues.pavement.asphaltThickness, oldSystem, newSystem, 'length') ?? currentValues.pavement.asphaltThickness);
+      setValue("pavement.asphaltModulus", convertFormValue(currentValues.pavement.asphaltModulus, oldSystem, newSystem, 'smys') ?? currentValues.pavement.asphaltModulus);
+      setValue("pavement.baseThickness", convertFormValue(currentValues.pavement.baseThickness, oldSystem, newSystem, 'length') ?? currentValues.pavement.baseThickness);
+      setValue("pavement.baseModulus", convertFormValue(currentValues.pavement.baseModulus, oldSystem, newSystem, 'smys') ?? currentValues.pavement.baseModulus);
+      setValue("pavement.subgradeModulus", convertFormValue(currentValues.pavement.subgradeModulus, oldSystem, newSystem, 'smys') ?? currentValues.pavement.subgradeModulus);
+    }
     setValue("axle1To2Spacing", convertFormValue(currentValues.axle1To2Spacing, oldSystem, newSystem, 'depth') ?? currentValues.axle1To2Spacing);
     setValue("axle2To3Spacing", convertFormValue(currentValues.axle2To3Spacing, oldSystem, newSystem, 'depth') ?? currentValues.axle2To3Spacing);
     setValue("laneOffset", convertFormValue(currentValues.laneOffset, oldSystem, newSystem, 'depth') ?? currentValues.laneOffset);
+    if (currentValues.positionSearch) {
+      setValue("positionSearch.alongPipeRange", convertFormValue(currentValues.positionSearch.alongPipeRange, oldSystem, newSystem, 'depth') ?? currentValues.positionSearch.alongPipeRange);
+      setValue("positionSearch.acrossPipeRange", convertFormValue(currentValues.positionSearch.acrossPipeRange, oldSystem, newSystem, 'depth') ?? currentValues.positionSearch.acrossPipeRange);
+      setValue("positionSearch.stepSize", convertFormValue(currentValues.positionSearch.stepSize, oldSystem, newSystem, 'depth') ?? currentValues.positionSearch.stepSize);
+    }
     setValue("axle1Load", convertFormValue(currentValues.axle1Load, oldSystem, newSystem, 'force') ?? currentValues.axle1Load);
     setValue("axle2Load", convertFormValue(currentValues.axle2Load, oldSystem, newSystem, 'force') ?? currentValues.axle2Load);
     setValue("axle3Load", convertFormValue(currentValues.axle3Load, oldSystem, newSystem, 'force') ?? currentValues.axle3Load);
@@ -309,7 +213,7 @@ export const ThreeAxleForm = ({ onCalculate }: ThreeAxleFormProps) => {
             </div>
             <div className="space-y-2">
               <Label>Bedding Angle (°)</Label>
-              <Select value={watch("beddingAngleDeg")?.toString()} onValueChange={(v) => setValue("beddingAngleDeg", parseInt(v))}>
+              <Select value={watch("beddingAngleDeg")?.toString()} onValueChange={(v) => setValue("beddingAngleDeg", parseInt(v) as BeddingAngleDeg)}>
                 <SelectTrigger><SelectValue /></SelectTrigger>
                 <SelectContent>
                   {[0, 30, 60, 90, 120, 150, 180].map((angle) => (
@@ -326,6 +230,13 @@ export const ThreeAxleForm = ({ onCalculate }: ThreeAxleFormProps) => {
         </CardContent>
       </Card>
 
+      <VehicleSelector
+        mode="3_AXLE"
+        setValue={setValue}
+        watch={watch}
+        unitsSystem={unitsSystem}
+      />
+
       <Card>
         <CardHeader>
           <CardTitle>3-Axle Vehicle Properties</CardTitle>
@@ -509,6 +420,62 @@ export const ThreeAxleForm = ({ onCalculate }: ThreeAxleFormProps) => {
         </CardContent>
       </Card>
 
+      <PositionSearchSection
+        register={register}
+        errors={errors}
+        watch={watch}
+        setValue={setValue}
+        unitsSystem={unitsSystem}
+      />
+
+      <SoilProfileSection
+        register={register}
+        errors={errors}
+        watch={watch}
+        setValue={setValue}
+        unitsSystem={unitsSystem}
+      />
+
+      <PavementSection
+        register={register}
+        errors={errors}
+        watch={watch}
+        setValue={setValue}
+        unitsSystem={unitsSystem}
+      />
+
+      <MaterialSection
+        register={register}
+        errors={errors}
+        watch={watch}
+        setValue={setValue}
+        unitsSystem={unitsSystem}
+      />
+
+      <PlasticPipeSection
+        register={register}
+        errors={errors}
+        watch={watch}
+        setValue={setValue}
+        unitsSystem={unitsSystem}
+      />
+
+      <CasingSection
+        register={register}
+        errors={errors}
+        watch={watch}
+        setValue={setValue}
+        unitsSystem={unitsSystem}
+      />
+
+      <GroundwaterSection
+        register={register}
+        errors={errors}
+        watch={watch}
+        setValue={setValue}
+        unitsSystem={unitsSystem}
+      />
+
       <AnalysisParametersSection
         register={register}
         errors={errors}
@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { UseFormSetValue, UseFormWatch, FieldValues } from "react-hook-form";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Save, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { UnitsSystem } from "@/domain/pipeline/types";
+import { AxleDefinition } from "@/domain/pipeline/typesMultiAxle";
+import { convertFormValue } from "@/domain/pipeline/unitConversions";
+import {
+  VEHICLE_LIBRARY,
+  VEHICLE_CATEGORY_LABELS,
+  VehicleCategory,
+  VehicleFormMode,
+  VehiclePreset,
+  isVehicleCompatible,
+  getVehiclePreset,
+  getVehicleFormValues,
+  getAxleSpacingField,
+  AXLE_FIELD_PREFIXES,
+  convertAxle,
+} from "@/domain/pipeline/vehicleLibrary";
+import { vehicleStorage } from "@/utils/storage";
+
+interface VehicleSelectorProps {
+  mode: VehicleFormMode;
+  setValue: UseFormSetValue<FieldValues>;
+  watch: UseFormWatch<FieldValues>;
+  unitsSystem: UnitsSystem;
+}
+
+export function VehicleSelector({ mode, setValue, watch, unitsSystem }: VehicleSelectorProps) {
+  const { toast } = useToast();
+  const [customVehicles, setCustomVehicles] = useState<VehiclePreset[]>(() => vehicleStorage.getVehicles());
+  const [selectedId, setSelectedId] = useState<string>("CUSTOM");
+  const [customName, setCustomName] = useState("");
+
+  const available = [...VEHICLE_LIBRARY, ...customVehicles].filter(v => isVehicleCompatible(v, mode));
+  const categories = Object.keys(VEHICLE_CATEGORY_LABELS) as VehicleCategory[];
+  const selected = selectedId !== "CUSTOM" ? getVehiclePreset(selectedId, customVehicles) : null;
+
+  const applyVehicle = (vehicle: VehiclePreset) => {
+    Object.entries(getVehicleFormValues(vehicle, mode, unitsSystem)).forEach(([field, value]) => setValue(field, value));
+  };
+
+  const handleVehicleChange = (id: string) => {
+    setSelectedId(id);
+    if (id === "CUSTOM") return;
+    const vehicle = getVehiclePreset(id, customVehicles);
+    if (vehicle) {
+      applyVehicle(vehicle);
+    }
+  };
+
+  // Build a vehicle definition (ENGLISH units) from the current form values
+  const readCurrentVehicle = (name: string): VehiclePreset => {
+    const values = watch();
+    const base = {
+      id: `CUSTOM_${Date.now()}`,
+      label: name,
+      category: (selected?.category ?? (mode === 'PIPELINE_TRACK' ? "CONSTRUCTION" : "HIGHWAY")) as VehicleCategory,
+      vehicleClass: values.vehicleClass,
+    };
+
+    if (mode === 'PIPELINE_TRACK') {
+      return {
+        ...base,
+        track: {
+          vehicleWeight_lb: convertFormValue(values.trackVehicleWeight, unitsSystem, 'EN', 'force') ?? values.trackVehicleWeight,
+          trackSeparation_ft: convertFormValue(values.trackSeparation, unitsSystem, 'EN', 'depth') ?? values.trackSeparation,
+          trackLength_ft: convertFormValue(values.trackLength, unitsSystem, 'EN', 'depth') ?? values.trackLength,
+          trackWidth_in: convertFormValue(values.trackWidth, unitsSystem, 'EN', 'length') ?? values.trackWidth,
+        },
+      };
+    }
+
+    const axles: AxleDefinition[] = mode === 'MULTI_AXLE'
+      ? values.axles
+      : AXLE_FIELD_PREFIXES[mode].map((prefix, i) => ({
+          spacing: i > 0 ? values[getAxleSpacingField(mode, i)] : 0,
+          load: values[`${prefix}Load`],
+          tiresPerAxle: values[`${prefix}TiresPerAxle`] ?? 2,
+          tireWidth: values[`${prefix}TireWidth`],
+          tireLength: values[`${prefix}TireLength`],
+          tirePressure: values[`${prefix}TirePressure`],
+        }));
+
+    return {
+      ...base,
+      axles: axles.map(axle => convertAxle(axle, unitsSystem, 'EN')),
+      axleWidth_in: convertFormValue(values.axleWidth, unitsSystem, 'EN', 'length'),
+    };
+  };
+
+  const handleSave = () => {
+    const name = customName.trim();
+    if (!name) {
+      toast({
+        title: "Name Required",
+        description: "Enter a name for the custom vehicle",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const vehicle = readCurrentVehicle(name);
+    vehicleStorage.saveVehicle(vehicle);
+    setCustomVehicles(vehicleStorage.getVehicles());
+    setSelectedId(vehicle.id);
+    setCustomName("");
+    toast({
+      title: "Vehicle Saved",
+      description: `${name} added to custom vehicles`,
+    });
+  };
+
+  const handleDelete = () => {
+    if (!selected?.custom) return;
+    vehicleStorage.deleteVehicle(selected.id);
+    setCustomVehicles(vehicleStorage.getVehicles());
+    setSelectedId("CUSTOM");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Vehicle Library</CardTitle>
+        <CardDescription>Load a standard or saved vehicle, or save the current entries as a custom vehicle</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor={`vehicle-select-${mode}`}>Vehicle</Label>
+          <div className="flex gap-2">
+            <Select value={selectedId} onValueChange={handleVehicleChange}>
+              <SelectTrigger id={`vehicle-select-${mode}`}>
+                <SelectValue placeholder="Select vehicle..." />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="CUSTOM">Manual Entry</SelectItem>
+                {categories.map((category) => {
+                  const vehicles = available.filter(v => v.category === category && !v.custom);
+                  if (vehicles.length === 0) return null;
+                  return (
+                    <SelectGroup key={category}>
+                      <SelectLabel>{VEHICLE_CATEGORY_LABELS[category]}</SelectLabel>
+                      {vehicles.map((vehicle) => (
+                        <SelectItem key={vehicle.id} value={vehicle.id}>{vehicle.label}</SelectItem>
+                      ))}
+                    </SelectGroup>
+                  );
+                })}
+                {available.some(v => v.custom) && (
+                  <SelectGroup>
+                    <SelectLabel>Custom Vehicles</SelectLabel>
+                    {available.filter(v => v.custom).map((vehicle) => (
+                      <SelectItem key={vehicle.id} value={vehicle.id}>{vehicle.label}</SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
+              </SelectContent>
+            </Select>
+            {selected?.custom && (
+              <Button type="button" variant="outline" size="icon" onClick={handleDelete}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+          {selected?.notes && (
+            <p className="text-xs text-muted-foreground">{selected.notes}</p>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            placeholder="Custom vehicle name"
+            value={customName}
+            onChange={(e) => setCustomName(e.target.value)}
+          />
+          <Button type="button" variant="outline" onClick={handleSave}>
+            <Save className="w-4 h-4 mr-2" />
+            Save Vehicle
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,81 @@
+import { UseFormRegister, FieldErrors, FieldValues, UseFormWatch, UseFormSetValue } from "react-hook-form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { UnitsSystem, Z662Crossing, Z662LocationClass } from "@/domain/pipeline/types";
+import { Z662_LOCATION_CLASS_LABELS, Z662_CROSSING_LABELS } from "@/domain/pipeline/csaZ662";
+
+interface Z662DesignFieldsProps {
+  register: UseFormRegister<FieldValues>;
+  errors: FieldErrors<FieldValues>;
+  watch: UseFormWatch<FieldValues>;
+  setValue: UseFormSetValue<FieldValues>;
+  unitsSystem: UnitsSystem;
+}
+
+export const Z662DesignFields = ({
+  register,
+  errors,
+  watch,
+  setValue,
+  unitsSystem
+}: Z662DesignFieldsProps) => {
+  const temperatureUnit = unitsSystem === "EN" ? "°F" : "°C";
+  const casingEnabled = watch("casing.enabled");
+
+  return (
+    <div className="space-y-2">
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor="z662Design.locationClass">Class Location</Label>
+          <Select
+            value={watch("z662Design.locationClass")}
+            onValueChange={(v) => setValue("z662Design.locationClass", v as Z662LocationClass)}
+          >
+            <SelectTrigger id="z662Design.locationClass">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(Z662_LOCATION_CLASS_LABELS) as Z662LocationClass[]).map((locationClass) => (
+                <SelectItem key={locationClass} value={locationClass}>{Z662_LOCATION_CLASS_LABELS[locationClass]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="z662Design.crossing">Crossing</Label>
+          <Select
+            value={watch("z662Design.crossing")}
+            onValueChange={(v) => setValue("z662Design.crossing", v as Z662Crossing)}
+          >
+            <SelectTrigger id="z662Design.crossing">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(Z662_CROSSING_LABELS) as Z662Crossing[]).map((crossing) => (
+                <SelectItem key={crossing} value={crossing}>{Z662_CROSSING_LABELS[crossing]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="z662Design.designTemperature">Design Temperature ({temperatureUnit})</Label>
+          <Input
+            id="z662Design.designTemperature"
+            type="number"
+            step="any"
+            {...register("z662Design.designTemperature", { valueAsNumber: true })}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Hoop limit F × L × J × T: design factor 0.8, location factor L from Table 4.2 ({casingEnabled ? "cased crossings use the general row" : "gas, non-sour"}), joint factor J from the seam weld and temperature factor T above 120 °C.
+      </p>
+      {errors.z662Design && (
+        <p className="text-sm text-destructive">Design temperature must be a number</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,216 @@
+/**
+ * Grid load form - schema, default values and mapping to the engine inputs
+ * (shared by the calculator form and the batch import page)
+ */
+
+import { z } from "zod";
+import { GridLoadInputs } from "@/domain/pipeline/typesGrid";
+import { GroundwaterInputs, MaterialInputs, PlasticPipeInputs, CasingInputs, B318DesignInputs, Z662DesignInputs, SoilProfileInputs, PavementInputs } from "@/domain/pipeline/types";
+import { pipeAndSoilFields, roadVehicleFields, analysisFields, vbaParityFields, optionalSectionFields, pavementSchema, userDefinedLimitsSchema } from "@/domain/pipeline/inputSchemas";
+
+export const gridLoadSchema = z.object({
+  ...pipeAndSoilFields,
+  loadType: z.enum(["TOTAL_LOAD", "UNIFORM_PRESSURE"]),
+  totalLoad: z.number().positive().optional(),
+  uniformPressure: z.number().positive().optional(),
+  gridLength: z.number().positive(),
+  gridWidth: z.number().positive(),
+  gridOffsetX: z.number(),
+  gridOffsetY: z.number(),
+  gridDivisionsX: z.number().int().min(1).max(50),
+  gridDivisionsY: z.number().int().min(1).max(50),
+  ...roadVehicleFields,
+  ...analysisFields,
+  ...vbaParityFields,
+  ...optionalSectionFields,
+  pavement: pavementSchema.optional(),
+  userDefinedLimits: userDefinedLimitsSchema.optional(),
+});
+
+export type GridLoadFormData = z.infer<typeof gridLoadSchema>;
+
+export const GRID_LOAD_DEFAULTS: GridLoadFormData = {
+  calculationName: "",
+  unitsSystem: "EN",
+  pipeOD: 36,
+  pipeWT: 0.5,
+  MOP: 1000,
+  SMYS: 52000,
+  deltaT: 0,
+  soilDensity: 120,
+  depthCover: 4,
+  beddingAngleDeg: 90,
+  soilLoadMethod: "PRISM",
+  frictionAngleDeg: 30,
+  soilCohesion: 0,
+  kr: 1,
+  ePrimeMethod: "LOOKUP",
+  soilType: "COARSE_WITH_FINES",
+  compaction: 90,
+  loadType: "TOTAL_LOAD",
+  totalLoad: 50000,
+  gridLength: 20,
+  gridWidth: 10,
+  gridOffsetX: 0,
+  gridOffsetY: 0,
+  gridDivisionsX: 10,
+  gridDivisionsY: 10,
+  pavementType: "FLEXIBLE",
+  vehicleClass: "FARM",
+  equivStressMethod: "VON_MISES",
+  codeCheck: "B31_4",
+  longSeamWeldType: "ERW",
+  longitudinalBendingMethod: "EQUIVALENT_LOAD",
+  pressureKernel: "BOUSSINESQ_POINT",
+  strictVbaParity: false,
+  deflectionLagFactor: 1.5,
+  deflectionLimitPct: 3,
+  internalVacuum: 0,
+  groundwater: {
+    enabled: false,
+    waterTableDepth: 3,
+    saturatedSoilDensity: 130,
+  },
+  material: {
+    enabled: false,
+    preset: "CARBON_STEEL",
+    elasticModulus: 30000000,
+    poissonRatio: 0.3,
+    thermalExpansion: 6.5,
+    designTemperature: 70,
+  },
+  plasticPipe: {
+    enabled: false,
+    material: "PE4710",
+    dimensionRatio: 11,
+    shortTermModulus: 130000,
+    longTermModulus: 29000,
+    hydrostaticDesignBasis: 1600,
+    designFactor: 0.32,
+    allowableCompressiveStress: 1150,
+    density: 59.6,
+  },
+  casing: {
+    enabled: false,
+    casingOD: 42,
+    casingWT: 0.5,
+    casingSMYS: 35000,
+    spacerSpacing: 10,
+    contentDensity: 0,
+  },
+  b318Design: {
+    locationClass: "CLASS_1_DIV_1",
+    roadCrossing: "NONE",
+    designTemperature: 70,
+  },
+  z662Design: {
+    locationClass: "CLASS_1",
+    crossing: "NONE",
+    designTemperature: 70,
+  },
+  soilProfile: {
+    enabled: false,
+    loadSpread: false,
+    layers: [
+      { name: "Base Course", thickness: 1, unitWeight: 135, soilType: "COARSE_NO_FINES", compaction: 95 },
+      { name: "Native Fill", thickness: 2, unitWeight: 120, soilType: "FINE", compaction: 85 },
+      { name: "Embedment", thickness: 2, unitWeight: 125, soilType: "COARSE_WITH_FINES", compaction: 90 },
+    ],
+  },
+  pavement: {
+    enabled: false,
+    slabThickness: 8,
+    slabModulus: 4000000,
+    subgradeReaction: 100,
+    asphaltThickness: 4,
+    asphaltModulus: 500000,
+    baseThickness: 8,
+    baseModulus: 30000,
+    subgradeModulus: 7500,
+  },
+};
+
+/**
+ * Form values to engine inputs (optional sections only when enabled)
+ */
+export function toGridLoadInputs(data: GridLoadFormData): GridLoadInputs {
+  return {
+    calculationName: data.calculationName,
+    unitsSystem: data.unitsSystem,
+    pipeOD: data.pipeOD,
+    pipeWT: data.pipeWT,
+    MOP: data.MOP,
+    SMYS: data.SMYS,
+    deltaT: data.deltaT,
+    soilDensity: data.soilDensity,
+    depthCover: data.depthCover,
+    beddingAngleDeg: data.beddingAngleDeg,
+    soilLoadMethod: data.soilLoadMethod,
+    frictionAngleDeg: data.frictionAngleDeg,
+    soilCohesion: data.soilCohesion,
+    kr: data.kr,
+    ePrimeMethod: data.ePrimeMethod,
+    ePrimeUserDefined: data.ePrimeUserDefined,
+    soilType: data.soilType,
+    compaction: data.compaction,
+    loadType: data.loadType,
+    totalLoad: data.totalLoad,
+    uniformPressure: data.uniformPressure,
+    gridLength: data.gridLength,
+    gridWidth: data.gridWidth,
+    gridOffsetX: data.gridOffsetX,
+    gridOffsetY: data.gridOffsetY,
+    gridDivisionsX: data.gridDivisionsX,
+    gridDivisionsY: data.gridDivisionsY,
+    pavementType: data.pavementType,
+    vehicleClass: data.vehicleClass,
+    equivStressMethod: data.equivStressMethod,
+    codeCheck: data.codeCheck,
+    longSeamWeldType: data.longSeamWeldType,
+    longitudinalBendingMethod: data.longitudinalBendingMethod,
+    pressureKernel: data.pressureKernel,
+    strictVbaParity: data.strictVbaParity,
+    deflectionLagFactor: data.deflectionLagFactor,
+    deflectionLimitPct: data.deflectionLimitPct,
+    internalVacuum: data.internalVacuum,
+    ...(data.groundwater?.enabled
+      ? { groundwater: data.groundwater as GroundwaterInputs }
+      : {}
+    ),
+    ...(data.material?.enabled
+      ? { material: data.material as MaterialInputs }
+      : {}
+    ),
+    ...(data.plasticPipe?.enabled
+      ? { plasticPipe: data.plasticPipe as PlasticPipeInputs }
+      : {}
+    ),
+    ...(data.casing?.enabled
+      ? { casing: data.casing as CasingInputs }
+      : {}
+    ),
+    ...(data.codeCheck === "B31_8" && data.b318Design
+      ? { b318Design: data.b318Design as B318DesignInputs }
+      : {}
+    ),
+    ...(data.codeCheck === "CSA_Z662" && data.z662Design
+      ? { z662Design: data.z662Design as Z662DesignInputs }
+      : {}
+    ),
+    ...(data.soilProfile?.enabled
+      ? { soilProfile: data.soilProfile as SoilProfileInputs }
+      : {}
+    ),
+    ...(data.pavement?.enabled
+      ? { pavement: data.pavement as PavementInputs }
+      : {}
+    ),
+    ...(data.userDefinedLimits && 
+      data.userDefinedLimits.hoopLimitPct !== undefined && 
+      data.userDefinedLimits.longLimitPct !== undefined && 
+      data.userDefinedLimits.equivLimitPct !== undefined
+      ? { userDefinedLimits: data.userDefinedLimits as { hoopLimitPct: number; longLimitPct: number; equivLimitPct: number } }
+      : {}
+    ),
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Calculator form schemas by calculation type
+ * The batch import validates register rows against the same schemas, default
+ * values and input mapping as the calculator forms.
+ */
+
+import { z } from "zod";
+import { SurfaceLoadInputs } from "@/domain/pipeline/computeSurfaceLoad";
+import { CrossingType } from "@/domain/pipeline/crossingRegister";
+import { PIPELINE_TRACK_DEFAULTS, pipelineSchema, toPipelineTrackInputs } from "./pipelineTrack";
+import { TWO_AXLE_DEFAULTS, twoAxleSchema, toTwoAxleInputs } from "./twoAxle";
+import { THREE_AXLE_DEFAULTS, threeAxleSchema, toThreeAxleInputs } from "./threeAxle";
+import { GRID_LOAD_DEFAULTS, gridLoadSchema, toGridLoadInputs } from "./gridLoad";
+import { MULTI_AXLE_DEFAULTS, multiAxleSchema, toMultiAxleInputs } from "./multiAxle";
+import { RAIL_DEFAULTS, railSchema, toRailInputs } from "./rail";
+
+export interface FormValidation {
+  config: SurfaceLoadInputs | null; // engine inputs when the values pass the form schema
+  issues: string[]; // "field: message" per schema issue
+}
+
+const FORM_SCHEMAS: Record<CrossingType, z.AnyZodObject> = {
+  TRACK: pipelineSchema,
+  '2_AXLE': twoAxleSchema,
+  '3_AXLE': threeAxleSchema,
+  GRID: gridLoadSchema,
+  MULTI_AXLE: multiAxleSchema,
+  RAIL: railSchema,
+};
+
+/**
+ * Top-level form field names of a calculation type
+ */
+export function getFormFieldNames(type: CrossingType): string[] {
+  return Object.keys(FORM_SCHEMAS[type].shape);
+}
+
+/**
+ * Form defaults with the given fields set (dotted names set nested fields)
+ */
+function withFields<T>(defaults: T, fields: Record<string, unknown>): unknown {
+  const values: Record<string, unknown> = structuredClone(defaults) as Record<string, unknown>;
+  for (const [name, value] of Object.entries(fields)) {
+    const path = name.split(".");
+    let target = values;
+    for (const key of path.slice(0, -1)) {
+      if (typeof target[key] !== "object" || target[key] === null) target[key] = {};
+      target = target[key] as Record<string, unknown>;
+    }
+    target[path[path.length - 1]] = value;
+  }
+  return values;
+}
+
+function validate<T>(
+  schema: z.ZodType<T>,
+  defaults: T,
+  fields: Record<string, unknown>,
+  toConfig: (data: T) => SurfaceLoadInputs
+): FormValidation {
+  const parsed = schema.safeParse(withFields(defaults, fields));
+  if (!parsed.success) {
+    return {
+      config: null,
+      issues: parsed.error.issues.map(issue => `${issue.path.join(".") || "row"}: ${issue.message}`),
+    };
+  }
+  return { config: toConfig(parsed.data), issues: [] };
+}
+
+/**
+ * Validate form field values for a calculation type (unset fields take the form defaults)
+ */
+export function validateFormFields(type: CrossingType, fields: Record<string, unknown>): FormValidation {
+  switch (type) {
+    case 'TRACK':
+      return validate(pipelineSchema, PIPELINE_TRACK_DEFAULTS, fields, data => ({ type, inputs: toPipelineTrackInputs(data) }));
+    case '2_AXLE':
+      return validate(twoAxleSchema, TWO_AXLE_DEFAULTS, fields, data => ({ type, inputs: toTwoAxleInputs(data) }));
+    case '3_AXLE':
+      return validate(threeAxleSchema, THREE_AXLE_DEFAULTS, fields, data => ({ type, inputs: toThreeAxleInputs(data) }));
+    case 'GRID':
+      return validate(gridLoadSchema, GRID_LOAD_DEFAULTS, fields, data => ({ type, inputs: toGridLoadInputs(data) }));
+    case 'MULTI_AXLE':
+      return validate(multiAxleSchema, MULTI_AXLE_DEFAULTS, fields, data => ({ type, inputs: toMultiAxleInputs(data) }));
+    case 'RAIL':
+      return validate(railSchema, RAIL_DEFAULTS, fields, data => ({ type, inputs: toRailInputs(data) }));
+  }
+}
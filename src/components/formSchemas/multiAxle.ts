@@ -0,0 +1,241 @@
+/**
+ * Multi-axle vehicle form - schema, default values and mapping to the engine inputs
+ * (shared by the calculator form and the batch import page)
+ */
+
+import { z } from "zod";
+import { MultiAxleInputs, AxleDefinition } from "@/domain/pipeline/typesMultiAxle";
+import { PositionSearchInputs, GroundwaterInputs, MaterialInputs, PlasticPipeInputs, CasingInputs, B318DesignInputs, Z662DesignInputs, SoilProfileInputs, PavementInputs } from "@/domain/pipeline/types";
+import { pipeAndSoilFields, positionSearchSchema, roadVehicleFields, analysisFields, optionalSectionFields, pavementSchema, userDefinedLimitsSchema } from "@/domain/pipeline/inputSchemas";
+
+const axleSchema = z.object({
+  spacing: z.number().min(0),
+  load: z.number().positive(),
+  tiresPerAxle: z.number().int().positive(),
+  tireWidth: z.number().positive(),
+  tireLength: z.number().positive().optional(),
+  tirePressure: z.number().positive().optional(),
+  dualSpacing: z.number().positive().optional(),
+});
+
+export const multiAxleSchema = z.object({
+  ...pipeAndSoilFields,
+  vehicleName: z.string().optional(),
+  axles: z.array(axleSchema).min(1, "At least one axle is required"),
+  contactPatchMode: z.enum(["MANUAL", "AUTO"]),
+  axleWidth: z.number().positive(),
+  laneOffset: z.number(),
+  positionSearch: positionSearchSchema.optional(),
+  ...roadVehicleFields,
+  ...analysisFields,
+  ...optionalSectionFields,
+  pavement: pavementSchema.optional(),
+  userDefinedLimits: userDefinedLimitsSchema.optional(),
+});
+
+export type MultiAxleFormData = z.infer<typeof multiAxleSchema>;
+
+// Default new axle (EN units) - tandem dual-tire axle
+export const DEFAULT_AXLE_EN: AxleDefinition = {
+  spacing: 4.5,
+  load: 17000,
+  tiresPerAxle: 4,
+  tireWidth: 8,
+  tireLength: 10,
+  tirePressure: 80,
+  dualSpacing: 13,
+};
+
+// Default: 5-axle tractor-trailer (steer, drive tandem, trailer tandem)
+export const MULTI_AXLE_DEFAULTS: MultiAxleFormData = {
+  calculationName: "",
+  unitsSystem: "EN",
+  pipeOD: 36,
+  pipeWT: 0.5,
+  MOP: 1000,
+  SMYS: 52000,
+  deltaT: 0,
+  soilDensity: 120,
+  depthCover: 4,
+  beddingAngleDeg: 90,
+  soilLoadMethod: "PRISM",
+  frictionAngleDeg: 30,
+  soilCohesion: 0,
+  kr: 1,
+  ePrimeMethod: "LOOKUP",
+  soilType: "COARSE_WITH_FINES",
+  compaction: 90,
+  vehicleName: "5-Axle Tractor-Trailer",
+  axles: [
+    { spacing: 0, load: 12000, tiresPerAxle: 2, tireWidth: 8, tireLength: 10, tirePressure: 100 },
+    { ...DEFAULT_AXLE_EN, spacing: 14 },
+    { ...DEFAULT_AXLE_EN },
+    { ...DEFAULT_AXLE_EN, spacing: 30 },
+    { ...DEFAULT_AXLE_EN },
+  ],
+  contactPatchMode: "MANUAL",
+  axleWidth: 72,
+  laneOffset: 0,
+  positionSearch: {
+    enabled: false,
+    alongPipeRange: 10,
+    acrossPipeRange: 40,
+    stepSize: 1,
+  },
+  pavementType: "FLEXIBLE",
+  vehicleClass: "HIGHWAY",
+  equivStressMethod: "VON_MISES",
+  codeCheck: "B31_4",
+  longSeamWeldType: "ERW",
+  longitudinalBendingMethod: "EQUIVALENT_LOAD",
+  pressureKernel: "BOUSSINESQ_POINT",
+  deflectionLagFactor: 1.5,
+  deflectionLimitPct: 3,
+  internalVacuum: 0,
+  groundwater: {
+    enabled: false,
+    waterTableDepth: 3,
+    saturatedSoilDensity: 130,
+  },
+  material: {
+    enabled: false,
+    preset: "CARBON_STEEL",
+    elasticModulus: 30000000,
+    poissonRatio: 0.3,
+    thermalExpansion: 6.5,
+    designTemperature: 70,
+  },
+  plasticPipe: {
+    enabled: false,
+    material: "PE4710",
+    dimensionRatio: 11,
+    shortTermModulus: 130000,
+    longTermModulus: 29000,
+    hydrostaticDesignBasis: 1600,
+    designFactor: 0.32,
+    allowableCompressiveStress: 1150,
+    density: 59.6,
+  },
+  casing: {
+    enabled: false,
+    casingOD: 42,
+    casingWT: 0.5,
+    casingSMYS: 35000,
+    spacerSpacing: 10,
+    contentDensity: 0,
+  },
+  b318Design: {
+    locationClass: "CLASS_1_DIV_1",
+    roadCrossing: "NONE",
+    designTemperature: 70,
+  },
+  z662Design: {
+    locationClass: "CLASS_1",
+    crossing: "NONE",
+    designTemperature: 70,
+  },
+  soilProfile: {
+    enabled: false,
+    loadSpread: false,
+    layers: [
+      { name: "Base Course", thickness: 1, unitWeight: 135, soilType: "COARSE_NO_FINES", compaction: 95 },
+      { name: "Native Fill", thickness: 2, unitWeight: 120, soilType: "FINE", compaction: 85 },
+      { name: "Embedment", thickness: 2, unitWeight: 125, soilType: "COARSE_WITH_FINES", compaction: 90 },
+    ],
+  },
+  pavement: {
+    enabled: false,
+    slabThickness: 8,
+    slabModulus: 4000000,
+    subgradeReaction: 100,
+    asphaltThickness: 4,
+    asphaltModulus: 500000,
+    baseThickness: 8,
+    baseModulus: 30000,
+    subgradeModulus: 7500,
+  },
+};
+
+/**
+ * Form values to engine inputs (optional sections only when enabled)
+ */
+export function toMultiAxleInputs(data: MultiAxleFormData): MultiAxleInputs {
+  return {
+    calculationName: data.calculationName,
+    unitsSystem: data.unitsSystem,
+    pipeOD: data.pipeOD,
+    pipeWT: data.pipeWT,
+    MOP: data.MOP,
+    SMYS: data.SMYS,
+    deltaT: data.deltaT,
+    soilDensity: data.soilDensity,
+    depthCover: data.depthCover,
+    beddingAngleDeg: data.beddingAngleDeg,
+    soilLoadMethod: data.soilLoadMethod,
+    frictionAngleDeg: data.frictionAngleDeg,
+    soilCohesion: data.soilCohesion,
+    kr: data.kr,
+    ePrimeMethod: data.ePrimeMethod,
+    ePrimeUserDefined: data.ePrimeUserDefined,
+    soilType: data.soilType,
+    compaction: data.compaction,
+    vehicleName: data.vehicleName,
+    axles: data.axles as AxleDefinition[],
+    contactPatchMode: data.contactPatchMode,
+    axleWidth: data.axleWidth,
+    laneOffset: data.laneOffset,
+    ...(data.positionSearch?.enabled
+      ? { positionSearch: data.positionSearch as PositionSearchInputs }
+      : {}
+    ),
+    pavementType: data.pavementType,
+    vehicleClass: data.vehicleClass,
+    equivStressMethod: data.equivStressMethod,
+    codeCheck: data.codeCheck,
+    longSeamWeldType: data.longSeamWeldType,
+    longitudinalBendingMethod: data.longitudinalBendingMethod,
+    pressureKernel: data.pressureKernel,
+    deflectionLagFactor: data.deflectionLagFactor,
+    deflectionLimitPct: data.deflectionLimitPct,
+    internalVacuum: data.internalVacuum,
+    ...(data.groundwater?.enabled
+      ? { groundwater: data.groundwater as GroundwaterInputs }
+      : {}
+    ),
+    ...(data.material?.enabled
+      ? { material: data.material as MaterialInputs }
+      : {}
+    ),
+    ...(data.plasticPipe?.enabled
+      ? { plasticPipe: data.plasticPipe as PlasticPipeInputs }
+      : {}
+    ),
+    ...(data.casing?.enabled
+      ? { casing: data.casing as CasingInputs }
+      : {}
+    ),
+    ...(data.codeCheck === "B31_8" && data.b318Design
+      ? { b318Design: data.b318Design as B318DesignInputs }
+      : {}
+    ),
+    ...(data.codeCheck === "CSA_Z662" && data.z662Design
+      ? { z662Design: data.z662Design as Z662DesignInputs }
+      : {}
+    ),
+    ...(data.soilProfile?.enabled
+      ? { soilProfile: data.soilProfile as SoilProfileInputs }
+      : {}
+    ),
+    ...(data.pavement?.enabled
+      ? { pavement: data.pavement as PavementInputs }
+      : {}
+    ),
+    ...(data.userDefinedLimits && 
+      data.userDefinedLimits.hoopLimitPct !== undefined && 
+      data.userDefinedLimits.longLimitPct !== undefined && 
+      data.userDefinedLimits.equivLimitPct !== undefined
+      ? { userDefinedLimits: data.userDefinedLimits as { hoopLimitPct: number; longLimitPct: number; equivLimitPct: number } }
+      : {}
+    ),
+  };
+}
@@ -0,0 +1,201 @@
+/**
+ * Pipeline track form - schema, default values and mapping to the engine inputs
+ * (shared by the calculator form and the batch import page)
+ */
+
+import { z } from "zod";
+import { PipelineTrackInputs, GroundwaterInputs, MaterialInputs, PlasticPipeInputs, CasingInputs, B318DesignInputs, Z662DesignInputs, SoilProfileInputs, PavementInputs } from "@/domain/pipeline/types";
+import { pipeAndSoilFields, roadVehicleFields, analysisFields, vbaParityFields, optionalSectionFields, pavementSchema, userDefinedLimitsSchema } from "@/domain/pipeline/inputSchemas";
+
+export const pipelineSchema = z.object({
+  ...pipeAndSoilFields,
+  trackSeparation: z.number().positive(),
+  trackLength: z.number().positive(),
+  trackVehicleWeight: z.number().positive(),
+  trackWidth: z.number().positive(),
+  ...roadVehicleFields,
+  ...analysisFields,
+  ...vbaParityFields,
+  ...optionalSectionFields,
+  pavement: pavementSchema.optional(),
+  userDefinedLimits: userDefinedLimitsSchema.optional(),
+});
+
+export type PipelineFormData = z.infer<typeof pipelineSchema>;
+
+export const PIPELINE_TRACK_DEFAULTS: PipelineFormData = {
+  calculationName: "",
+  unitsSystem: "EN",
+  pipeOD: 36,
+  pipeWT: 0.5,
+  MOP: 1000,
+  SMYS: 52000,
+  deltaT: 0,
+  soilDensity: 120,
+  depthCover: 4,
+  beddingAngleDeg: 90,
+  soilLoadMethod: "PRISM",
+  frictionAngleDeg: 30,
+  soilCohesion: 0,
+  kr: 1,
+  ePrimeMethod: "LOOKUP",
+  soilType: "COARSE_WITH_FINES",
+  compaction: 90,
+  trackSeparation: 72,
+  trackLength: 120,
+  trackVehicleWeight: 100000,
+  trackWidth: 24,
+  pavementType: "FLEXIBLE",
+  vehicleClass: "TRACK",
+  equivStressMethod: "VON_MISES",
+  codeCheck: "B31_4",
+  longSeamWeldType: "ERW",
+  longitudinalBendingMethod: "EQUIVALENT_LOAD",
+  pressureKernel: "BOUSSINESQ_POINT",
+  strictVbaParity: false,
+  deflectionLagFactor: 1.5,
+  deflectionLimitPct: 3,
+  internalVacuum: 0,
+  groundwater: {
+    enabled: false,
+    waterTableDepth: 3,
+    saturatedSoilDensity: 130,
+  },
+  material: {
+    enabled: false,
+    preset: "CARBON_STEEL",
+    elasticModulus: 30000000,
+    poissonRatio: 0.3,
+    thermalExpansion: 6.5,
+    designTemperature: 70,
+  },
+  plasticPipe: {
+    enabled: false,
+    material: "PE4710",
+    dimensionRatio: 11,
+    shortTermModulus: 130000,
+    longTermModulus: 29000,
+    hydrostaticDesignBasis: 1600,
+    designFactor: 0.32,
+    allowableCompressiveStress: 1150,
+    density: 59.6,
+  },
+  casing: {
+    enabled: false,
+    casingOD: 42,
+    casingWT: 0.5,
+    casingSMYS: 35000,
+    spacerSpacing: 10,
+    contentDensity: 0,
+  },
+  b318Design: {
+    locationClass: "CLASS_1_DIV_1",
+    roadCrossing: "NONE",
+    designTemperature: 70,
+  },
+  z662Design: {
+    locationClass: "CLASS_1",
+    crossing: "NONE",
+    designTemperature: 70,
+  },
+  soilProfile: {
+    enabled: false,
+    loadSpread: false,
+    layers: [
+      { name: "Base Course", thickness: 1, unitWeight: 135, soilType: "COARSE_NO_FINES", compaction: 95 },
+      { name: "Native Fill", thickness: 2, unitWeight: 120, soilType: "FINE", compaction: 85 },
+      { name: "Embedment", thickness: 2, unitWeight: 125, soilType: "COARSE_WITH_FINES", compaction: 90 },
+    ],
+  },
+  pavement: {
+    enabled: false,
+    slabThickness: 8,
+    slabModulus: 4000000,
+    subgradeReaction: 100,
+    asphaltThickness: 4,
+    asphaltModulus: 500000,
+    baseThickness: 8,
+    baseModulus: 30000,
+    subgradeModulus: 7500,
+  },
+};
+
+/**
+ * Form values to engine inputs (optional sections only when enabled)
+ */
+export function toPipelineTrackInputs(data: PipelineFormData): PipelineTrackInputs {
+  return {
+    calculationName: data.calculationName,
+    unitsSystem: data.unitsSystem,
+    pipeOD: data.pipeOD,
+    pipeWT: data.pipeWT,
+    MOP: data.MOP,
+    SMYS: data.SMYS,
+    deltaT: data.deltaT,
+    soilDensity: data.soilDensity,
+    depthCover: data.depthCover,
+    beddingAngleDeg: data.beddingAngleDeg,
+    soilLoadMethod: data.soilLoadMethod,
+    frictionAngleDeg: data.frictionAngleDeg,
+    soilCohesion: data.soilCohesion,
+    kr: data.kr,
+    ePrimeMethod: data.ePrimeMethod,
+    ePrimeUserDefined: data.ePrimeUserDefined,
+    soilType: data.soilType,
+    compaction: data.compaction,
+    trackSeparation: data.trackSeparation,
+    trackLength: data.trackLength,
+    trackVehicleWeight: data.trackVehicleWeight,
+    trackWidth: data.trackWidth,
+    pavementType: data.pavementType,
+    vehicleClass: data.vehicleClass,
+    equivStressMethod: data.equivStressMethod,
+    codeCheck: data.codeCheck,
+    longSeamWeldType: data.longSeamWeldType,
+    longitudinalBendingMethod: data.longitudinalBendingMethod,
+    pressureKernel: data.pressureKernel,
+    strictVbaParity: data.strictVbaParity,
+    deflectionLagFactor: data.deflectionLagFactor,
+    deflectionLimitPct: data.deflectionLimitPct,
+    internalVacuum: data.internalVacuum,
+    ...(data.groundwater?.enabled
+      ? { groundwater: data.groundwater as GroundwaterInputs }
+      : {}
+    ),
+    ...(data.material?.enabled
+      ? { material: data.material as MaterialInputs }
+      : {}
+    ),
+    ...(data.plasticPipe?.enabled
+      ? { plasticPipe: data.plasticPipe as PlasticPipeInputs }
+      : {}
+    ),
+    ...(data.casing?.enabled
+      ? { casing: data.casing as CasingInputs }
+      : {}
+    ),
+    ...(data.codeCheck === "B31_8" && data.b318Design
+      ? { b318Design: data.b318Design as B318DesignInputs }
+      : {}
+    ),
+    ...(data.codeCheck === "CSA_Z662" && data.z662Design
+      ? { z662Design: data.z662Design as Z662DesignInputs }
+      : {}
+    ),
+    ...(data.soilProfile?.enabled
+      ? { soilProfile: data.soilProfile as SoilProfileInputs }
+      : {}
+    ),
+    ...(data.pavement?.enabled
+      ? { pavement: data.pavement as PavementInputs }
+      : {}
+    ),
+    ...(data.userDefinedLimits && 
+      data.userDefinedLimits.hoopLimitPct !== undefined && 
+      data.userDefinedLimits.longLimitPct !== undefined && 
+      data.userDefinedLimits.equivLimitPct !== undefined
+      ? { userDefinedLimits: data.userDefinedLimits as { hoopLimitPct: number; longLimitPct: number; equivLimitPct: number } }
+      : {}
+    ),
+  };
+}
@@ -0,0 +1,199 @@
+/**
+ * Rail crossing form - schema, default values and mapping to the engine inputs
+ * (shared by the calculator form and the batch import page)
+ */
+
+import { z } from "zod";
+import { RailInputs } from "@/domain/pipeline/typesRail";
+import { PositionSearchInputs, GroundwaterInputs, MaterialInputs, PlasticPipeInputs, CasingInputs, B318DesignInputs, Z662DesignInputs, SoilProfileInputs } from "@/domain/pipeline/types";
+import { pipeAndSoilFields, positionSearchSchema, analysisFields, optionalSectionFields, userDefinedLimitsSchema } from "@/domain/pipeline/inputSchemas";
+
+export const railSchema = z.object({
+  ...pipeAndSoilFields,
+  cooperRating: z.number().positive(),
+  numberOfAxles: z.number().int().positive(),
+  axleSpacing: z.number().positive(),
+  tieLength: z.number().positive(),
+  tieWidth: z.number().positive(),
+  tieSpacing: z.number().positive(),
+  trackOffset: z.number(),
+  positionSearch: positionSearchSchema.optional(),
+  ...analysisFields,
+  ...optionalSectionFields,
+  userDefinedLimits: userDefinedLimitsSchema.optional(),
+});
+
+export type RailFormData = z.infer<typeof railSchema>;
+
+// Defaults: Cooper E80 driver axles on standard timber ties, 6 ft below tie base
+export const RAIL_DEFAULTS: RailFormData = {
+  calculationName: "",
+  unitsSystem: "EN",
+  pipeOD: 36,
+  pipeWT: 0.5,
+  MOP: 1000,
+  SMYS: 52000,
+  deltaT: 0,
+  soilDensity: 120,
+  depthCover: 6,
+  beddingAngleDeg: 90,
+  soilLoadMethod: "PRISM",
+  frictionAngleDeg: 30,
+  soilCohesion: 0,
+  kr: 1,
+  ePrimeMethod: "LOOKUP",
+  soilType: "COARSE_WITH_FINES",
+  compaction: 90,
+  cooperRating: 80,
+  numberOfAxles: 4,
+  axleSpacing: 5,
+  tieLength: 102,
+  tieWidth: 9,
+  tieSpacing: 19.5,
+  trackOffset: 0,
+  positionSearch: {
+    enabled: false,
+    alongPipeRange: 10,
+    acrossPipeRange: 20,
+    stepSize: 1,
+  },
+  equivStressMethod: "VON_MISES",
+  codeCheck: "B31_4",
+  longSeamWeldType: "ERW",
+  longitudinalBendingMethod: "EQUIVALENT_LOAD",
+  pressureKernel: "BOUSSINESQ_POINT",
+  deflectionLagFactor: 1.5,
+  deflectionLimitPct: 3,
+  internalVacuum: 0,
+  groundwater: {
+    enabled: false,
+    waterTableDepth: 3,
+    saturatedSoilDensity: 130,
+  },
+  material: {
+    enabled: false,
+    preset: "CARBON_STEEL",
+    elasticModulus: 30000000,
+    poissonRatio: 0.3,
+    thermalExpansion: 6.5,
+    designTemperature: 70,
+  },
+  plasticPipe: {
+    enabled: false,
+    material: "PE4710",
+    dimensionRatio: 11,
+    shortTermModulus: 130000,
+    longTermModulus: 29000,
+    hydrostaticDesignBasis: 1600,
+    designFactor: 0.32,
+    allowableCompressiveStress: 1150,
+    density: 59.6,
+  },
+  casing: {
+    enabled: false,
+    casingOD: 42,
+    casingWT: 0.5,
+    casingSMYS: 35000,
+    spacerSpacing: 10,
+    contentDensity: 0,
+  },
+  b318Design: {
+    locationClass: "CLASS_1_DIV_1",
+    roadCrossing: "NONE",
+    designTemperature: 70,
+  },
+  z662Design: {
+    locationClass: "CLASS_1",
+    crossing: "NONE",
+    designTemperature: 70,
+  },
+  soilProfile: {
+    enabled: false,
+    loadSpread: false,
+    layers: [
+      { name: "Base Course", thickness: 1, unitWeight: 135, soilType: "COARSE_NO_FINES", compaction: 95 },
+      { name: "Native Fill", thickness: 2, unitWeight: 120, soilType: "FINE", compaction: 85 },
+      { name: "Embedment", thickness: 2, unitWeight: 125, soilType: "COARSE_WITH_FINES", compaction: 90 },
+    ],
+  },
+};
+
+/**
+ * Form values to engine inputs (optional sections only when enabled)
+ */
+export function toRailInputs(data: RailFormData): RailInputs {
+  return {
+    calculationName: data.calculationName,
+    unitsSystem: data.unitsSystem,
+    pipeOD: data.pipeOD,
+    pipeWT: data.pipeWT,
+    MOP: data.MOP,
+    SMYS: data.SMYS,
+    deltaT: data.deltaT,
+    soilDensity: data.soilDensity,
+    depthCover: data.depthCover,
+    beddingAngleDeg: data.beddingAngleDeg,
+    soilLoadMethod: data.soilLoadMethod,
+    frictionAngleDeg: data.frictionAngleDeg,
+    soilCohesion: data.soilCohesion,
+    kr: data.kr,
+    ePrimeMethod: data.ePrimeMethod,
+    ePrimeUserDefined: data.ePrimeUserDefined,
+    soilType: data.soilType,
+    compaction: data.compaction,
+    cooperRating: data.cooperRating,
+    numberOfAxles: data.numberOfAxles,
+    axleSpacing: data.axleSpacing,
+    tieLength: data.tieLength,
+    tieWidth: data.tieWidth,
+    tieSpacing: data.tieSpacing,
+    trackOffset: data.trackOffset,
+    ...(data.positionSearch?.enabled
+      ? { positionSearch: data.positionSearch as PositionSearchInputs }
+      : {}
+    ),
+    equivStressMethod: data.equivStressMethod,
+    codeCheck: data.codeCheck,
+    longSeamWeldType: data.longSeamWeldType,
+    longitudinalBendingMethod: data.longitudinalBendingMethod,
+    pressureKernel: data.pressureKernel,
+    deflectionLagFactor: data.deflectionLagFactor,
+    deflectionLimitPct: data.deflectionLimitPct,
+    internalVacuum: data.internalVacuum,
+    ...(data.groundwater?.enabled
+      ? { groundwater: data.groundwater as GroundwaterInputs }
+      : {}
+    ),
+    ...(data.material?.enabled
+      ? { material: data.material as MaterialInputs }
+      : {}
+    ),
+    ...(data.plasticPipe?.enabled
+      ? { plasticPipe: data.plasticPipe as PlasticPipeInputs }
+      : {}
+    ),
+    ...(data.casing?.enabled
+      ? { casing: data.casing as CasingInputs }
+      : {}
+    ),
+    ...(data.codeCheck === "B31_8" && data.b318Design
+      ? { b318Design: data.b318Design as B318DesignInputs }
+      : {}
+    ),
+    ...(data.codeCheck === "CSA_Z662" && data.z662Design
+      ? { z662Design: data.z662Design as Z662DesignInputs }
+      : {}
+    ),
+    ...(data.soilProfile?.enabled
+      ? { soilProfile: data.soilProfile as SoilProfileInputs }
+      : {}
+    ),
+    ...(data.userDefinedLimits && 
+      data.userDefinedLimits.hoopLimitPct !== undefined && 
+      data.userDefinedLimits.longLimitPct !== undefined && 
+      data.userDefinedLimits.equivLimitPct !== undefined
+      ? { userDefinedLimits: data.userDefinedLimits as { hoopLimitPct: number; longLimitPct: number; equivLimitPct: number } }
+      : {}
+    ),
+  };
+}
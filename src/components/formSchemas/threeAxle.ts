@@ -0,0 +1,270 @@
+/**
+ * 3-axle vehicle form - schema, default values and mapping to the engine inputs
+ * (shared by the calculator form and the batch import page)
+ */
+
+import { z } from "zod";
+import { ThreeAxleInputs } from "@/domain/pipeline/types3Axle";
+import { PositionSearchInputs, GroundwaterInputs, MaterialInputs, PlasticPipeInputs, CasingInputs, B318DesignInputs, Z662DesignInputs, SoilProfileInputs, PavementInputs } from "@/domain/pipeline/types";
+import { pipeAndSoilFields, positionSearchSchema, roadVehicleFields, analysisFields, vbaParityFields, optionalSectionFields, pavementSchema, userDefinedLimitsSchema } from "@/domain/pipeline/inputSchemas";
+
+export const threeAxleSchema = z.object({
+  ...pipeAndSoilFields,
+  axle1To2Spacing: z.number().positive(),
+  axle2To3Spacing: z.number().positive(),
+  axle1Load: z.number().positive(),
+  axle2Load: z.number().positive(),
+  axle3Load: z.number().positive(),
+  contactPatchMode: z.enum(["MANUAL", "AUTO"]),
+  // Axle 1 tire properties
+  axle1TireWidth: z.number().positive(),
+  axle1TireLength: z.number().positive(),
+  axle1TirePressure: z.number().positive().optional(),
+  axle1TiresPerAxle: z.number().int().positive().optional(),
+  // Axle 2 tire properties
+  axle2TireWidth: z.number().positive(),
+  axle2TireLength: z.number().positive(),
+  axle2TirePressure: z.number().positive().optional(),
+  axle2TiresPerAxle: z.number().int().positive().optional(),
+  // Axle 3 tire properties
+  axle3TireWidth: z.number().positive(),
+  axle3TireLength: z.number().positive(),
+  axle3TirePressure: z.number().positive().optional(),
+  axle3TiresPerAxle: z.number().int().positive().optional(),
+  axleWidth: z.number().positive(),
+  laneOffset: z.number(),
+  positionSearch: positionSearchSchema.optional(),
+  ...roadVehicleFields,
+  ...analysisFields,
+  ...vbaParityFields,
+  ...optionalSectionFields,
+  pavement: pavementSchema.optional(),
+  userDefinedLimits: userDefinedLimitsSchema.optional(),
+});
+
+export type ThreeAxleFormData = z.infer<typeof threeAxleSchema>;
+
+export const THREE_AXLE_DEFAULTS: ThreeAxleFormData = {
+  calculationName: "",
+  unitsSystem: "EN",
+  pipeOD: 36,
+  pipeWT: 0.5,
+  MOP: 1000,
+  SMYS: 52000,
+  deltaT: 0,
+  soilDensity: 120,
+  depthCover: 4,
+  beddingAngleDeg: 90,
+  soilLoadMethod: "PRISM",
+  frictionAngleDeg: 30,
+  soilCohesion: 0,
+  kr: 1,
+  ePrimeMethod: "LOOKUP",
+  soilType: "COARSE_WITH_FINES",
+  compaction: 90,
+  axle1To2Spacing: 12,
+  axle2To3Spacing: 4,
+  axle1Load: 12000,
+  axle2Load: 17000,
+  axle3Load: 17000,
+  contactPatchMode: "MANUAL",
+  // Axle 1 defaults
+  axle1TireWidth: 8,
+  axle1TireLength: 10,
+  axle1TirePressure: 80,
+  axle1TiresPerAxle: 2,
+  // Axle 2 defaults
+  axle2TireWidth: 8,
+  axle2TireLength: 10,
+  axle2TirePressure: 80,
+  axle2TiresPerAxle: 4,
+  // Axle 3 defaults
+  axle3TireWidth: 8,
+  axle3TireLength: 10,
+  axle3TirePressure: 80,
+  axle3TiresPerAxle: 4,
+  axleWidth: 72,
+  laneOffset: 0,
+  positionSearch: {
+    enabled: false,
+    alongPipeRange: 10,
+    acrossPipeRange: 20,
+    stepSize: 1,
+  },
+  pavementType: "FLEXIBLE",
+  vehicleClass: "HIGHWAY",
+  equivStressMethod: "VON_MISES",
+  codeCheck: "B31_4",
+  longSeamWeldType: "ERW",
+  longitudinalBendingMethod: "EQUIVALENT_LOAD",
+  pressureKernel: "BOUSSINESQ_POINT",
+  strictVbaParity: false,
+  deflectionLagFactor: 1.5,
+  deflectionLimitPct: 3,
+  internalVacuum: 0,
+  groundwater: {
+    enabled: false,
+    waterTableDepth: 3,
+    saturatedSoilDensity: 130,
+  },
+  material: {
+    enabled: false,
+    preset: "CARBON_STEEL",
+    elasticModulus: 30000000,
+    poissonRatio: 0.3,
+    thermalExpansion: 6.5,
+    designTemperature: 70,
+  },
+  plasticPipe: {
+    enabled: false,
+    material: "PE4710",
+    dimensionRatio: 11,
+    shortTermModulus: 130000,
+    longTermModulus: 29000,
+    hydrostaticDesignBasis: 1600,
+    designFactor: 0.32,
+    allowableCompressiveStress: 1150,
+    density: 59.6,
+  },
+  casing: {
+    enabled: false,
+    casingOD: 42,
+    casingWT: 0.5,
+    casingSMYS: 35000,
+    spacerSpacing: 10,
+    contentDensity: 0,
+  },
+  b318Design: {
+    locationClass: "CLASS_1_DIV_1",
+    roadCrossing: "NONE",
+    designTemperature: 70,
+  },
+  z662Design: {
+    locationClass: "CLASS_1",
+    crossing: "NONE",
+    designTemperature: 70,
+  },
+  soilProfile: {
+    enabled: false,
+    loadSpread: false,
+    layers: [
+      { name: "Base Course", thickness: 1, unitWeight: 135, soilType: "COARSE_NO_FINES", compaction: 95 },
+      { name: "Native Fill", thickness: 2, unitWeight: 120, soilType: "FINE", compaction: 85 },
+      { name: "Embedment", thickness: 2, unitWeight: 125, soilType: "COARSE_WITH_FINES", compaction: 90 },
+    ],
+  },
+  pavement: {
+    enabled: false,
+    slabThickness: 8,
+    slabModulus: 4000000,
+    subgradeReaction: 100,
+    asphaltThickness: 4,
+    asphaltModulus: 500000,
+    baseThickness: 8,
+    baseModulus: 30000,
+    subgradeModulus: 7500,
+  },
+};
+
+/**
+ * Form values to engine inputs (optional sections only when enabled)
+ */
+export function toThreeAxleInputs(data: ThreeAxleFormData): ThreeAxleInputs {
+  return {
+    calculationName: data.calculationName,
+    unitsSystem: data.unitsSystem,
+    pipeOD: data.pipeOD,
+    pipeWT: data.pipeWT,
+    MOP: data.MOP,
+    SMYS: data.SMYS,
+    deltaT: data.deltaT,
+    soilDensity: data.soilDensity,
+    depthCover: data.depthCover,
+    beddingAngleDeg: data.beddingAngleDeg,
+    soilLoadMethod: data.soilLoadMethod,
+    frictionAngleDeg: data.frictionAngleDeg,
+    soilCohesion: data.soilCohesion,
+    kr: data.kr,
+    ePrimeMethod: data.ePrimeMethod,
+    ePrimeUserDefined: data.ePrimeUserDefined,
+    soilType: data.soilType,
+    compaction: data.compaction,
+    axle1To2Spacing: data.axle1To2Spacing,
+    axle2To3Spacing: data.axle2To3Spacing,
+    axle1Load: data.axle1Load,
+    axle2Load: data.axle2Load,
+    axle3Load: data.axle3Load,
+    contactPatchMode: data.contactPatchMode,
+    // Axle 1 tire properties
+    axle1TireWidth: data.axle1TireWidth,
+    axle1TireLength: data.axle1TireLength,
+    axle1TirePressure: data.axle1TirePressure,
+    axle1TiresPerAxle: data.axle1TiresPerAxle,
+    // Axle 2 tire properties
+    axle2TireWidth: data.axle2TireWidth,
+    axle2TireLength: data.axle2TireLength,
+    axle2TirePressure: data.axle2TirePressure,
+    axle2TiresPerAxle: data.axle2TiresPerAxle,
+    // Axle 3 tire properties
+    axle3TireWidth: data.axle3TireWidth,
+    axle3TireLength: data.axle3TireLength,
+    axle3TirePressure: data.axle3TirePressure,
+    axle3TiresPerAxle: data.axle3TiresPerAxle,
+    axleWidth: data.axleWidth,
+    laneOffset: data.laneOffset,
+    ...(data.positionSearch?.enabled
+      ? { positionSearch: data.positionSearch as PositionSearchInputs }
+      : {}
+    ),
+    pavementType: data.pavementType,
+    vehicleClass: data.vehicleClass,
+    equivStressMethod: data.equivStressMethod,
+    codeCheck: data.codeCheck,
+    longSeamWeldType: data.longSeamWeldType,
+    longitudinalBendingMethod: data.longitudinalBendingMethod,
+    pressureKernel: data.pressureKernel,
+    strictVbaParity: data.strictVbaParity,
+    deflectionLagFactor: data.deflectionLagFactor,
+    deflectionLimitPct: data.deflectionLimitPct,
+    internalVacuum: data.internalVacuum,
+    ...(data.groundwater?.enabled
+      ? { groundwater: data.groundwater as GroundwaterInputs }
+      : {}
+    ),
+    ...(data.material?.enabled
+      ? { material: data.material as MaterialInputs }
+      : {}
+    ),
+    ...(data.plasticPipe?.enabled
+      ? { plasticPipe: data.plasticPipe as PlasticPipeInputs }
+      : {}
+    ),
+    ...(data.casing?.enabled
+      ? { casing: data.casing as CasingInputs }
+      : {}
+    ),
+    ...(data.codeCheck === "B31_8" && data.b318Design
+      ? { b318Design: data.b318Design as B318DesignInputs }
+      : {}
+    ),
+    ...(data.codeCheck === "CSA_Z662" && data.z662Design
+      ? { z662Design: data.z662Design as Z662DesignInputs }
+      : {}
+    ),
+    ...(data.soilProfile?.enabled
+      ? { soilProfile: data.soilProfile as SoilProfileInputs }
+      : {}
+    ),
+    ...(data.pavement?.enabled
+      ? { pavement: data.pavement as PavementInputs }
+      : {}
+    ),
+    ...(data.userDefinedLimits && 
+      data.userDefinedLimits.hoopLimitPct !== undefined && 
+      data.userDefinedLimits.longLimitPct !== undefined && 
+      data.userDefinedLimits.equivLimitPct !== undefined
+      ? { userDefinedLimits: data.userDefinedLimits as { hoopLimitPct: number; longLimitPct: number; equivLimitPct: number } }
+      : {}
+    ),
+  };
+}
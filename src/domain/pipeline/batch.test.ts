@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { parseBatchCSV, parseCSV, runBatch, summarizeBatch } from './batch';
+import trackSuite from './golden/cases/track.json';
+import { getPlasticPipePresetInputs } from './plasticPipe';
+import { trackInputs } from './testFixtures';
+import { PipelineTrackInputs } from './types';
+
+describe('batch CSV parsing', () => {
+  it('handles quoted cells and blank lines', () => {
+    expect(parseCSV('a,b\r\n"x, ""y""",2\n\n')).toEqual([['a', 'b'], ['x, "y"', '2']]);
+  });
+
+  it('builds nested inputs and skips empty cells', () => {
+    const [crossing] = parseBatchCSV('type,calculationName,depthCover,userDefinedLimits.hoopLimitPct,soilType\nTRACK,"A, 1",6,60,\n');
+    expect(crossing).toEqual({
+      type: 'TRACK',
+      inputs: { calculationName: 'A, 1', depthCover: 6, userDefinedLimits: { hoopLimitPct: 60 } },
+    });
+  });
+
+  it('rejects unknown crossing types with the row number', () => {
+    expect(() => parseBatchCSV('type,depthCover\nBOAT,6\n')).toThrow('CSV row 2');
+  });
+});
+
+describe('runBatch', () => {
+  it('reports engine errors per crossing and keeps going', () => {
+    const inputs = trackSuite.cases[0].inputs as PipelineTrackInputs;
+    const rows = runBatch([
+      { type: 'TRACK', inputs },
+      { type: 'GRID', inputs: { ...inputs, loadType: 'TOTAL_LOAD' } as never },
+    ]);
+
+    expect(rows[0]).toMatchObject({ pass: true, governingCheck: 'Hoop at MOP' });
+    expect(rows[0].error).toBeUndefined();
+    expect(rows[1].error).toBeDefined();
+    expect(summarizeBatch(rows)).toEqual({ total: 2, passed: 1, failed: 1, errors: 1 });
+  });
+
+  it('governs a cased crossing by the carrier against its own SMYS', () => {
+    // Barlow 1500 psi x 36 in / (2 x 0.5 in) = 54000 psi, 103.8% of the X52 carrier
+    const casing = { enabled: true, casingOD: 42, casingWT: 0.625, casingSMYS: 35000, spacerSpacing: 10, contentDensity: 0 };
+    const [row] = runBatch([{ type: 'TRACK', inputs: { ...trackInputs, MOP: 1500, casing } }]);
+
+    expect(row).toMatchObject({ pass: false, governingBasis: 'SMYS', governingCheck: 'Carrier hoop' });
+    expect(row.governingPct).toBeCloseTo(54000 / 52000 * 100, 6);
+  });
+
+  it('reports a plastic pipe against its own limits', () => {
+    const [row] = runBatch([{ type: 'TRACK', inputs: { ...trackInputs, MOP: 100, plasticPipe: getPlasticPipePresetInputs('PE4710', 'EN') } }]);
+
+    expect(row.governingBasis).toBe('LIMIT');
+    expect(row.governingCheck).toMatch(/^Plastic /);
+    expect(row.governingPct).toBeLessThan(100);
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * Batch calculations - many crossings through the unified entry point
+ * Crossings are read from JSON (an array of SurfaceLoadInputs) or CSV (one row per
+ * crossing, a `type` column plus one column per input field, dotted names for nested
+ * fields and JSON cells for arrays), run through computeSurfaceLoad and summarized
+ * as pass/fail, governing %SMYS (% of limit for plastic pipe) and controlling location.
+ */
+
+import { computeSurfaceLoad, isPassingCalculation, SurfaceLoadInputs, SurfaceLoadResults } from './computeSurfaceLoad';
+
+export const SURFACE_LOAD_TYPES: SurfaceLoadInputs['type'][] = ['TRACK', '2_AXLE', '3_AXLE', 'GRID', 'MULTI_AXLE', 'RAIL'];
+
+export interface BatchResultRow {
+  index: number; // position in the input file (1-based)
+  name: string;
+  type: string;
+  pass: boolean;
+  governingPct: number | null; // highest stress case as % of SMYS, or highest plastic pipe check as % of its limit
+  governingBasis: GoverningBasis | null;
+  governingCheck: string; // e.g. "Hoop at MOP"
+  controllingLocation: string;
+  error?: string; // calculation error (the crossing counts as failing)
+}
+
+export type GoverningBasis = 'SMYS' | 'LIMIT';
+
+export interface BatchSummary {
+  total: number;
+  passed: number;
+  failed: number;
+  errors: number;
+}
+
+const STRESS_CASES = [
+  { label: 'Hoop', key: 'hoop' },
+  { label: 'Longitudinal', key: 'longitudinal' },
+  { label: 'Equivalent', key: 'equivalent' },
+] as const;
+
+const CONDITIONS = [
+  { label: 'at zero pressure', key: 'atZeroPressure' },
+  { label: 'at MOP', key: 'atMOP' },
+] as const;
+
+/**
+ * Parse a JSON batch (an array of crossings, or a single crossing)
+ */
+export function parseBatchJSON(text: string): SurfaceLoadInputs[] {
+  const data = JSON.parse(text);
+  const items: unknown[] = Array.isArray(data) ? data : [data];
+
+  return items.map((item, i) => {
+    const config = item as SurfaceLoadInputs;
+    if (!config || !SURFACE_LOAD_TYPES.includes(config.type) || typeof config.inputs !== 'object') {
+      throw new Error(`Crossing ${i + 1}: expected { type: ${SURFACE_LOAD_TYPES.join(' | ')}, inputs: {...} }`);
+    }
+    return config;
+  });
+}
+
+/**
+ * Split CSV text into rows of cells (quoted cells may contain commas, quotes and line breaks)
+ * Tab-separated text (cells copied from a spreadsheet) is split with delimiter '\t'.
+ */
+export function parseCSV(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += c;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Skip blank lines
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+}
+
+/**
+ * CSV cell to an input value: numbers, booleans, JSON arrays/objects, otherwise text
+ */
+export function parseCell(raw: string): unknown {
+  const value = raw.trim();
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (value.startsWith('[') || value.startsWith('{')) return JSON.parse(value);
+  const number = Number(value);
+  return Number.isFinite(number) ? number : value;
+}
+
+/**
+ * Parse a CSV batch: header row with `type` and input field names
+ * (empty cells are left out so the engine defaults apply)
+ */
+export function parseBatchCSV(text: string): SurfaceLoadInputs[] {
+  const [header, ...rows] = parseCSV(text);
+  if (!header) {
+    throw new Error('CSV batch is empty');
+  }
+  const columns = header.map(h => h.trim());
+  const typeColumn = columns.indexOf('type');
+  if (typeColumn < 0) {
+    throw new Error(`CSV batch needs a "type" column (${SURFACE_LOAD_TYPES.join(', ')})`);
+  }
+
+  return rows.map((row, i) => {
+    const type = row[typeColumn]?.trim() as SurfaceLoadInputs['type'];
+    if (!SURFACE_LOAD_TYPES.includes(type)) {
+      throw new Error(`CSV row ${i + 2}: unknown type "${row[typeColumn] ?? ''}"`);
+    }
+
+    const inputs: Record<string, unknown> = {};
+    columns.forEach((column, j) => {
+      if (j === typeColumn || !column || row[j] === undefined || row[j].trim() === '') return;
+      let value: unknown;
+      try {
+        value = parseCell(row[j]);
+      } catch {
+        throw new Error(`CSV row ${i + 2}, column "${column}": invalid JSON value`);
+      }
+      // Dotted names build nested objects (positionSearch.enabled, userDefinedLimits.hoopLimitPct, ...)
+      const path = column.split('.');
+      let target = inputs;
+      for (const key of path.slice(0, -1)) {
+        target = (target[key] ??= {}) as Record<string, unknown>;
+      }
+      target[path[path.length - 1]] = value;
+    });
+
+    return { type, inputs } as unknown as SurfaceLoadInputs; // field values are left to the engines
+  });
+}
+
+/**
+ * Highest stress case as % of the effective SMYS (stresses and SMYS in the crossing's units)
+ * A cased crossing also counts the carrier rows; a plastic pipe reports its highest
+ * demand / capacity ratio instead.
+ */
+function governingStress(config: SurfaceLoadInputs, result: SurfaceLoadResults): { pct: number; basis: GoverningBasis; check: string } {
+  const { plasticPipeCheck, casedCrossing, material } = result.results;
+
+  if (plasticPipeCheck) {
+    const checks = [
+      { check: 'Plastic ring deflection', ratio: plasticPipeCheck.deflectionPct / plasticPipeCheck.deflectionLimitPct },
+      { check: 'Plastic wall compression', ratio: plasticPipeCheck.wallCompressiveStress / plasticPipeCheck.allowableCompressiveStress },
+      { check: 'Plastic pressure (HDS)', ratio: plasticPipeCheck.pressureHoopStress / plasticPipeCheck.hydrostaticDesignStress },
+      { check: 'Plastic constrained buckling', ratio: plasticPipeCheck.appliedPressure / plasticPipeCheck.bucklingPressure },
+    ];
+    const governing = checks.reduce((max, c) => (c.ratio > max.ratio ? c : max));
+    return { pct: governing.ratio * 100, basis: 'LIMIT', check: governing.check };
+  }
+
+  // The stresses belong to the casing when there is one (carbon steel, no derating)
+  const SMYS = casedCrossing ? casedCrossing.casingSMYS : material?.effectiveSMYS ?? config.inputs.SMYS;
+  const SMYS_user = config.inputs.unitsSystem === 'SI' ? SMYS * 1000 : SMYS; // MPa -> kPa
+
+  let governing = { pct: -Infinity, basis: 'SMYS' as GoverningBasis, check: '' };
+  for (const condition of CONDITIONS) {
+    for (const stress of STRESS_CASES) {
+      const { high, low } = result.results.stresses[condition.key][stress.key];
+      const pct = Math.max(Math.abs(high), Math.abs(low)) / SMYS_user * 100;
+      if (pct > governing.pct) {
+        governing = { pct, basis: 'SMYS', check: casedCrossing ? `Casing ${stress.label.toLowerCase()} ${condition.label}` : `${stress.label} ${condition.label}` };
+      }
+    }
+  }
+
+  if (casedCrossing) {
+    const { carrier } = casedCrossing;
+    for (const [label, pct] of [['hoop', carrier.hoopPctSMYS], ['longitudinal', carrier.longPctSMYS], ['equivalent', carrier.equivPctSMYS]] as const) {
+      if (pct > governing.pct) {
+        governing = { pct, basis: 'SMYS', check: `Carrier ${label}` };
+      }
+    }
+  }
+  return governing;
+}
+
+/**
+ * Run every crossing (errors are reported per crossing instead of stopping the batch)
+ */
+export function runBatch(configs: SurfaceLoadInputs[]): BatchResultRow[] {
+  return configs.map((config, i) => {
+    const base = {
+      index: i + 1,
+      name: config.inputs?.calculationName || `Crossing ${i + 1}`,
+      type: config.type,
+    };
+    try {
+      const result = computeSurfaceLoad(config);
+      const governing = governingStress(config, result);
+      return {
+        ...base,
+        pass: isPassingCalculation(result),
+        governingPct: governing.pct,
+        governingBasis: governing.basis,
+        governingCheck: governing.check,
+        controllingLocation: result.results.locationMaxLoad,
+      };
+    } catch (error) {
+      return {
+        ...base,
+        pass: false,
+        governingPct: null,
+        governingBasis: null,
+        governingCheck: '',
+        controllingLocation: '',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  });
+}
+
+/**
+ * Pass/fail counts
+ */
+export function summarizeBatch(rows: BatchResultRow[]): BatchSummary {
+  return {
+    total: rows.length,
+    passed: rows.filter(r => r.pass).length,
+    failed: rows.filter(r => !r.pass).length,
+    errors: rows.filter(r => r.error !== undefined).length,
+  };
+}
+
+/**
+ * Quote a CSV cell when needed
+ */
+function csvCell(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Export batch results to CSV
+ */
+export function exportBatchToCSV(rows: BatchResultRow[]): string {
+  const headers = [
+    'Index',
+    'Name',
+    'Type',
+    'Pass/Fail',
+    'Governing %',
+    'Governing Basis',
+    'Governing Check',
+    'Controlling Location',
+    'Error',
+  ];
+
+  const lines = rows.map(r => [
+    String(r.index),
+    csvCell(r.name),
+    r.type,
+    r.error !== undefined ? 'ERROR' : r.pass ? 'PASS' : 'FAIL',
+    r.governingPct !== null ? r.governingPct.toFixed(2) : '',
+    r.governingBasis === 'LIMIT' ? 'of limit' : r.governingBasis === 'SMYS' ? 'SMYS' : '',
+    csvCell(r.governingCheck),
+    csvCell(r.controllingLocation),
+    csvCell(r.error ?? ''),
+  ]);
+
+  return [headers.join(','), ...lines.map(line => line.join(','))].join('\n');
+}
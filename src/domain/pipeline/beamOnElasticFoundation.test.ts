@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { calculateBeamProfile, convertBeamProfileToUserUnits } from './beamOnElasticFoundation';
+
+// 36 in x 0.5 in pipe, E' = 1000 psi, Θ = 90: k = 1000 x 36 x 90 / 360 = 9000 psi
+const D_in = 36;
+const t_in = 0.5;
+const Inertia = Math.PI / 4 * (Math.pow(18, 4) - Math.pow(17.5, 4));
+const lambda = Math.pow(9000 / (4 * 29e6 * Inertia), 0.25);
+
+describe('beam on elastic foundation', () => {
+  it('reproduces the Hetényi point load response', () => {
+    // A wheel 0.1 in above the crown loads a single station: P = q(0) x dx
+    const profile = calculateBeamProfile([{ x: 0, y: 0, load_lb: 16000 }], 0.1 / 12, 1, D_in, t_in, 1000, 90, 'BOUSSINESQ_POINT', 29e6);
+    const center = profile.points.findIndex(p => p.x_in === 0);
+    const dx_in = profile.points[1].x_in - profile.points[0].x_in;
+    const P = profile.points[center].load_lbin * dx_in;
+
+    expect(profile.foundationModulus_psi).toBeCloseTo(9000, 10);
+    expect(profile.lambda_perin).toBeCloseTo(lambda, 12);
+    expect(profile.points[center].load_lbin).toBeCloseTo(3 * 16000 / (2 * Math.PI * 0.01) * D_in, 6);
+    // M = P / (4λ), w = P λ / (2k) under the load
+    expect(profile.maxMoment_lbin / (P / (4 * lambda))).toBeCloseTo(1, 4);
+    expect(profile.maxDeflection_in / (P * lambda / (2 * 9000))).toBeCloseTo(1, 4);
+    expect(profile.bendingStress_psi).toBeCloseTo(Math.abs(profile.maxMoment_lbin) * 18 / Inertia, 6);
+  });
+
+  it('converts to SI', () => {
+    const profile = calculateBeamProfile([{ x: 0, y: 0, load_lb: 16000 }], 4, 1.5, D_in, t_in, 1000, 90);
+    const si = convertBeamProfileToUserUnits(profile, 'SI');
+
+    expect(si.characteristicLength).toBeCloseTo(25.4 / profile.lambda_perin, 8);
+    expect(si.maxMoment).toBeCloseTo(profile.maxMoment_lbin * 0.1129848290276167, 8);
+    expect(si.points.length).toBeLessThanOrEqual(202);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Beam on elastic foundation along the pipe axis (Hetényi infinite beam)
+ * The Boussinesq pressure on the pipe crown is evaluated along the pipe (Y = 0),
+ * applied over the pipe diameter as a line load and superposed on the closed-form
+ * response of an infinite beam to a point load P at x0 (r = |x - x0|):
+ *   w(x) = P λ / (2k) * e^(-λr) (cos λr + sin λr)
+ *   M(x) = P / (4λ)   * e^(-λr) (cos λr - sin λr)
+ *   V(x) = ∓ P / 2    * e^(-λr) cos λr            (- for x > x0)
+ * with k = E' D Θ / 360 and λ = (k / 4EI)^(1/4), as in the equivalent-load method.
+ * Deflection is positive downward and sagging moment positive.
+ * All values in ENGLISH units (inches, lb, psi)
+ */
+
+import { BeamProfileSummary, PressureKernel, UnitsSystem } from './types';
+import { PointLoad, MeasurementPoint, calculateBoussinesqFromPoints } from './boussinesqHelpers';
+import { convertPressureToUserUnits } from './sharedCalculations';
+import { CARBON_STEEL } from './materials';
+
+// Stations along the pipe: at least this many, no coarser than a quarter of 1/λ
+const MIN_STATIONS = 400;
+const MAX_STATIONS = 2000;
+
+// Points kept in the summary for plotting
+const PROFILE_OUTPUT_POINTS = 201;
+
+export interface BeamProfilePointEN {
+  x_in: number;
+  load_lbin: number; // line load on the pipe incl. impact factor
+  deflection_in: number;
+  moment_lbin: number;
+  shear_lb: number;
+}
+
+export interface BeamProfileEN {
+  foundationModulus_psi: number; // k (lb/in per in of deflection)
+  lambda_perin: number;
+  points: BeamProfilePointEN[];
+  maxMoment_lbin: number; // largest magnitude
+  maxShear_lb: number;
+  maxDeflection_in: number;
+  bendingStress_psi: number; // maxMoment * (D/2) / I
+}
+
+/**
+ * Compute the load, deflection, moment and shear profiles along the pipe
+ * @param pointLoads - loads on the soil at the analysed vehicle position (inches)
+ * @param depth_ft - depth of the pipe crown below the loads (ft)
+ * @param impactFactor - impact factor applied to the live load
+ * @param D_in - outside diameter (in)
+ * @param t_in - wall thickness (in)
+ * @param ePrime_psi - modulus of soil reaction (psi)
+ * @param Theta - bedding angle term from the bedding table (deg)
+ * @param kernel - vertical stress kernel
+ * @param E_psi - elastic modulus of the pipe (psi, defaults to carbon steel)
+ */
+export function calculateBeamProfile(
+  pointLoads: PointLoad[],
+  depth_ft: number,
+  impactFactor: number,
+  D_in: number,
+  t_in: number,
+  ePrime_psi: number,
+  Theta: number,
+  kernel: PressureKernel = 'BOUSSINESQ_POINT',
+  E_psi: number = CARBON_STEEL.E_psi
+): BeamProfileEN {
+  const Inertia = Math.PI / 4 * (Math.pow(D_in / 2, 4) - Math.pow(D_in / 2 - t_in, 4));
+  const k = ePrime_psi * D_in * Theta / 360;
+  if (!(k > 0) || !(Inertia > 0)) {
+    throw new Error("E', bedding angle and pipe section must be positive for the beam-on-elastic-foundation profile");
+  }
+  const lambda = Math.pow(k / (4 * E_psi * Inertia), 0.25);
+
+  // Span: the loads plus the Boussinesq spread and the beam decay length either side
+  const H_in = depth_ft * 12;
+  const extension_in = Math.max(3 * H_in, 2 * Math.PI / lambda);
+  const minX = Math.min(...pointLoads.map(p => p.x)) - extension_in;
+  const maxX = Math.max(...pointLoads.map(p => p.x)) + extension_in;
+  const span_in = maxX - minX;
+  const nStations = Math.min(MAX_STATIONS, Math.max(MIN_STATIONS, Math.ceil(span_in * 4 * lambda)));
+  const dx_in = span_in / nStations;
+
+  const x_in: number[] = [];
+  for (let i = 0; i <= nStations; i++) {
+    x_in.push(minX + i * dx_in);
+  }
+
+  // Line load from the crown pressure over the pipe diameter
+  const stations: MeasurementPoint[] = x_in.map(x => ({ x, y: 0, label: '' }));
+  const { pressures_psi } = calculateBoussinesqFromPoints(pointLoads, stations, depth_ft, kernel);
+  const load_lbin = pressures_psi.map(p => p * impactFactor * D_in);
+
+  const points: BeamProfilePointEN[] = x_in.map((x, i) => {
+    let deflection = 0;
+    let moment = 0;
+    let shear = 0;
+    x_in.forEach((x0, j) => {
+      const P = load_lbin[j] * dx_in;
+      if (P === 0) return;
+      const lr = lambda * Math.abs(x - x0);
+      const decay = Math.exp(-lr);
+      const cos = Math.cos(lr);
+      const sin = Math.sin(lr);
+      deflection += P * lambda / (2 * k) * decay * (cos + sin);
+      moment += P / (4 * lambda) * decay * (cos - sin);
+      shear += (x > x0 ? -1 : x < x0 ? 1 : 0) * P / 2 * decay * cos;
+    });
+    return { x_in: x, load_lbin: load_lbin[i], deflection_in: deflection, moment_lbin: moment, shear_lb: shear };
+  });
+
+  const maxAbs = (values: number[]) => values.reduce((m, v) => Math.abs(v) > Math.abs(m) ? v : m, 0);
+  const maxMoment_lbin = maxAbs(points.map(p => p.moment_lbin));
+
+  return {
+    foundationModulus_psi: k,
+    lambda_perin: lambda,
+    points,
+    maxMoment_lbin,
+    maxShear_lb: maxAbs(points.map(p => p.shear_lb)),
+    maxDeflection_in: maxAbs(points.map(p => p.deflection_in)),
+    bendingStress_psi: Math.abs(maxMoment_lbin) * D_in / (2 * Inertia),
+  };
+}
+
+/**
+ * Convert the beam profile to user units
+ * (ft or m, lb/in or N/mm, in or mm, lb·in or N·m, lb or N, psi or kPa)
+ */
+export function convertBeamProfileToUserUnits(
+  profile: BeamProfileEN,
+  unitsSystem: UnitsSystem
+): BeamProfileSummary {
+  const isMetric = unitsSystem === 'SI';
+  const position = (in_: number) => isMetric ? in_ / 12 / 3.280839895013 : in_ / 12; // ft or m
+  const length = (in_: number) => isMetric ? in_ * 25.4 : in_; // in or mm
+  const force = (lb: number) => isMetric ? lb * 4.4482216152605 : lb; // lb or N
+  const lineLoad = (lbin: number) => isMetric ? lbin * 4.4482216152605 / 25.4 : lbin; // lb/in or N/mm
+  const moment = (lbin: number) => isMetric ? lbin * 0.1129848290276167 : lbin; // lb·in or N·m
+
+  const stride = Math.max(1, Math.ceil(profile.points.length / PROFILE_OUTPUT_POINTS));
+
+  return {
+    characteristicLength: length(1 / profile.lambda_perin),
+    foundationModulus: convertPressureToUserUnits(profile.foundationModulus_psi, unitsSystem),
+    maxMoment: moment(profile.maxMoment_lbin),
+    maxShear: force(profile.maxShear_lb),
+    maxDeflection: length(profile.maxDeflection_in),
+    bendingStress: convertPressureToUserUnits(profile.bendingStress_psi, unitsSystem),
+    points: profile.points
+      .filter((_, i) => i % stride === 0 || i === profile.points.length - 1)
+      .map(p => ({
+        x: position(p.x_in),
+        load: lineLoad(p.load_lbin),
+        deflection: length(p.deflection_in),
+        moment: moment(p.moment_lbin),
+        shear: force(p.shear_lb),
+      })),
+  };
+}
@@ -3,10 +3,15 @@
  * Extracted from vbaTrackEngine to be reusable across all vehicle types
  */
 
+import { PressureKernel } from './types';
+import { getPressureKernel } from './pressureKernels';
+
 export interface PointLoad {
   x: number; // inches
   y: number; // inches
   load_lb: number;
+  width_in?: number; // tributary rectangle along X (rectangle kernel)
+  length_in?: number; // tributary rectangle along Y
 }
 
 export interface MeasurementPoint {
@@ -15,6 +20,20 @@ export interface MeasurementPoint {
   label: string;
 }
 
+/**
+ * Vertical stress (psi) at a point on the pipe plane from one load
+ * using the selected kernel (see pressureKernels)
+ */
+export function verticalStressFromLoad(
+  pl: PointLoad,
+  x_in: number,
+  y_in: number,
+  H_in: number,
+  kernel: PressureKernel = 'BOUSSINESQ_POINT'
+): number {
+  return getPressureKernel(kernel).stress(pl, x_in - pl.x, y_in - pl.y, H_in);
+}
+
 /**
  * Calculate Boussinesq pressure at measurement points from an array of point loads
  * Ported from VBA logic
@@ -22,7 +41,8 @@ export interface MeasurementPoint {
 export function calculateBoussinesqFromPoints(
   pointLoads: PointLoad[],
   measurementPoints: MeasurementPoint[],
-  H_ft: number
+  H_ft: number,
+  kernel: PressureKernel = 'BOUSSINESQ_POINT'
 ): {
   pressures_psi: number[];
   maxPressure_psi: number;
@@ -49,15 +69,7 @@ export function calculateBoussinesqFromPoints(
     let pressure_psi = 0;
     
     for (const pl of pointLoads) {
-      const dx = mp.x - pl.x;
-      const dy = mp.y - pl.y;
-      const R = Math.sqrt(dx * dx + dy * dy);
-      
-      // Boussinesq formula (ported from VBA)
-      const contrib = (3 * pl.load_lb) / 
-        (2 * Math.PI * H_in * H_in * Math.pow(1 + Math.pow(R / H_in, 2), 2.5));
-      
-      pressure_psi += contrib;
+      pressure_psi += verticalStressFromLoad(pl, mp.x, mp.y, H_in, kernel);
     }
     
     pressures.push(pressure_psi);
@@ -112,6 +124,8 @@ export function generateRectangularGrid(
         x: startX + (iW + 0.5) * (width_in / nW),
         y: startY + (iL + 0.5) * (length_in / nL),
         load_lb: pointLoad_lb,
+        width_in: width_in / nW,
+        length_in: length_in / nL,
       });
     }
   }
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { calculateBucklingCheck } from './bucklingCheck';
+
+describe('AWWA M11 buckling check', () => {
+  it('matches the hand calculation for dry ground', () => {
+    // D = 24 in, t = 0.25 in, H = 10 ft: H/D = 5 -> FS = 2.5
+    // B' = 1 / (1 + 4 e^-0.65) = 0.32381, EI/D³ = 30e6 x 0.25³ / 12 / 24³ = 2.82570 psi
+    // qa = sqrt(32 x 0.32381 x 1000 x 2.82570) / 2.5 = 68.4458 psi
+    const result = calculateBucklingCheck(8, 2, 24, 0.25, 10, 1000, 0, 0, 30e6);
+
+    expect(result.safetyFactor).toBe(2.5);
+    expect(result.waterBuoyancyFactor).toBe(1);
+    expect(result.elasticSupportCoefficient).toBeCloseTo(0.32381, 5);
+    expect(result.allowablePressure).toBeCloseTo(68.4458, 3);
+    expect(result.appliedPressure).toBe(10);
+    expect(result.pass).toBe(true);
+  });
+
+  it('adds the water head and the governing of vacuum and live load', () => {
+    // hw = 5 ft: Rw = 1 - 0.33 x 5 / 10 = 0.835, γw hw = 62.4 x 5 / 144 = 2.16667 psi
+    const result = calculateBucklingCheck(8, 2, 24, 0.25, 10, 1000, 5, 3, 30e6);
+
+    expect(result.waterBuoyancyFactor).toBeCloseTo(0.835, 12);
+    expect(result.allowablePressure).toBeCloseTo(68.4458 * Math.sqrt(0.835), 3);
+    expect(result.appliedWithVacuum).toBeCloseTo(2.16667 + 0.835 * 8 + 3, 4);
+    expect(result.appliedWithLive).toBeCloseTo(2.16667 + 0.835 * 8 + 2, 4);
+    expect(result.appliedPressure).toBe(result.appliedWithVacuum);
+  });
+
+  it('uses FS = 3.0 for shallow cover', () => {
+    // H/D = 36 / 24 = 1.5 < 2
+    expect(calculateBucklingCheck(2, 2, 24, 0.25, 3, 1000).safetyFactor).toBe(3);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Ring buckling check for external pressure - AWWA M11
+ *   qa = (1 / FS) * sqrt(32 * Rw * B' * E' * EI / D³)
+ * Applied pressure combinations (pipe empty / at zero internal pressure):
+ *   with vacuum:    γw * hw + Rw * Wc / D + Pv
+ *   with live load: γw * hw + Rw * Wc / D + WL / D
+ * All values in ENGLISH units (inches, ft, psi)
+ */
+
+import { BucklingCheckSummary, UnitsSystem } from './types';
+import { convertPressureToUserUnits } from './sharedCalculations';
+import { GAMMA_WATER_PCF } from './groundwater';
+import { CARBON_STEEL } from './materials';
+
+/**
+ * Water buoyancy factor Rw = 1 - 0.33 * hw / H (0 <= hw <= H)
+ */
+function calculateWaterBuoyancyFactor(hw_ft: number, H_ft: number): number {
+  if (!(H_ft > 0)) return 1;
+  const hw = Math.min(Math.max(hw_ft, 0), H_ft);
+  return 1 - 0.33 * hw / H_ft;
+}
+
+/**
+ * Empirical coefficient of elastic support B' = 1 / (1 + 4 * e^(-0.065 H)), H in ft
+ */
+function calculateElasticSupportCoefficient(H_ft: number): number {
+  return 1 / (1 + 4 * Math.exp(-0.065 * H_ft));
+}
+
+/**
+ * Compare the external pressure combinations to the allowable buckling pressure
+ * @param soilPressure_psi - soil pressure on the pipe Wc/D (psi)
+ * @param liveLoad_psi - live load pressure on the pipe incl. impact WL/D (psi)
+ * @param D_in - outside diameter (in)
+ * @param t_in - wall thickness (in)
+ * @param H_ft - depth of cover (ft)
+ * @param ePrime_psi - modulus of soil reaction (psi)
+ * @param hw_ft - height of groundwater above the top of pipe (ft)
+ * @param vacuum_psi - internal vacuum (psi, positive value)
+ * @param E_psi - elastic modulus of the pipe (psi, defaults to carbon steel)
+ */
+export function calculateBucklingCheck(
+  soilPressure_psi: number,
+  liveLoad_psi: number,
+  D_in: number,
+  t_in: number,
+  H_ft: number,
+  ePrime_psi: number,
+  hw_ft: number = 0,
+  vacuum_psi: number = 0,
+  E_psi: number = CARBON_STEEL.E_psi
+): BucklingCheckSummary {
+  const safetyFactor = H_ft * 12 / D_in >= 2 ? 2.5 : 3.0;
+  const waterBuoyancyFactor = calculateWaterBuoyancyFactor(hw_ft, H_ft);
+  const elasticSupportCoefficient = calculateElasticSupportCoefficient(H_ft);
+
+  // Wall stiffness per inch of pipe length
+  const EI_D3_psi = E_psi * Math.pow(t_in, 3) / 12 / Math.pow(D_in, 3);
+  const allowablePressure = Math.sqrt(
+    32 * waterBuoyancyFactor * elasticSupportCoefficient * ePrime_psi * EI_D3_psi
+  ) / safetyFactor;
+
+  const water_psi = GAMMA_WATER_PCF * Math.min(Math.max(hw_ft, 0), H_ft) / 144;
+  const sustained_psi = water_psi + waterBuoyancyFactor * soilPressure_psi;
+  const appliedWithVacuum = sustained_psi + Math.abs(vacuum_psi);
+  const appliedWithLive = sustained_psi + liveLoad_psi;
+  const appliedPressure = Math.max(appliedWithVacuum, appliedWithLive);
+
+  return {
+    allowablePressure,
+    appliedPressure,
+    appliedWithVacuum,
+    appliedWithLive,
+    safetyFactor,
+    waterBuoyancyFactor,
+    elasticSupportCoefficient,
+    pass: appliedPressure <= allowablePressure,
+  };
+}
+
+/**
+ * Convert buckling check pressures to user units (psi or kPa)
+ */
+export function convertBucklingCheckToUserUnits(
+  buckling: BucklingCheckSummary,
+  unitsSystem: UnitsSystem
+): BucklingCheckSummary {
+  return {
+    ...buckling,
+    allowablePressure: convertPressureToUserUnits(buckling.allowablePressure, unitsSystem),
+    appliedPressure: convertPressureToUserUnits(buckling.appliedPressure, unitsSystem),
+    appliedWithVacuum: convertPressureToUserUnits(buckling.appliedWithVacuum, unitsSystem),
+    appliedWithLive: convertPressureToUserUnits(buckling.appliedWithLive, unitsSystem),
+  };
+}
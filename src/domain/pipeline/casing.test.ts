@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { calculateTrackVehicleVBA } from './vbaTrackEngine';
+import { calculate2AxleVehicleVBA } from './vba2AxleEngine';
+import { validatePipelineInputs } from './inputValidation';
+import { getMaterialPresetInputs } from './materials';
+import { trackInputs as track, twoAxleInputs } from './testFixtures';
+import { CasingInputs } from './types';
+
+const casing: CasingInputs = { enabled: true, casingOD: 42, casingWT: 0.625, casingSMYS: 35000, spacerSpacing: 10, contentDensity: 0 };
+
+describe('cased crossing', () => {
+  it('applies the surface load to the casing', () => {
+    const cased = calculateTrackVehicleVBA({ ...track, casing });
+    const casingAsPipe = calculateTrackVehicleVBA({ ...track, pipeOD: 42, pipeWT: 0.625, SMYS: 35000, MOP: 0, internalVacuum: 0 });
+
+    expect(cased.stresses).toEqual(casingAsPipe.stresses);
+    expect(cased.deflectionCheck).toEqual(casingAsPipe.deflectionCheck);
+    expect(cased.casedCrossing).toMatchObject({ casingOD: 42, casingWT: 0.625, casingSMYS: 35000, casingPass: casingAsPipe.passFailSummary.overallPass });
+  });
+
+  it('checks the carrier for pressure, thermal and self weight between spacers', () => {
+    const { carrier } = calculateTrackVehicleVBA({ ...track, casing }).casedCrossing;
+
+    // Barlow 1000 psi x 36 in / (2 x 0.5 in)
+    expect(carrier.hoopStress).toBeCloseTo(36000, 6);
+    expect(carrier.hoopPctSMYS).toBeCloseTo(36000 / 52000 * 100, 6);
+    // 490 lb/ft³ steel wall, wL²/10 over 10 ft
+    const w = 490 * Math.PI * (36 * 36 - 35 * 35) / 4 / 1728;
+    const Z = Math.PI * (Math.pow(36, 4) - Math.pow(35, 4)) / (32 * 36);
+    expect(carrier.bendingStress).toBeCloseTo(w * 120 * 120 / 10 / Z, 6);
+    expect(carrier.limitsUsed.code).toBe('B31_4');
+
+    const longSpan = calculateTrackVehicleVBA({ ...track, casing: { ...casing, spacerSpacing: 20, contentDensity: 62.4 } }).casedCrossing.carrier;
+    expect(longSpan.bendingStress).toBeGreaterThan(4 * carrier.bendingStress);
+  });
+
+  it('analyses a carbon steel casing under a stainless carrier', () => {
+    const material = { ...getMaterialPresetInputs('STAINLESS_STEEL', 'EN'), designTemperature: 900 };
+    const steel = calculateTrackVehicleVBA({ ...track, casing });
+    const stainless = calculateTrackVehicleVBA({ ...track, material, casing });
+
+    expect(stainless.stresses).toEqual(steel.stresses);
+    expect(stainless.material).toBeUndefined();
+    expect(stainless.casedCrossing.carrier.hoopPctSMYS).toBeCloseTo(36000 / (52000 * 0.587) * 100, 6);
+    // The carrier warnings are kept with the casing's
+    expect(stainless.warnings.map(w => w.field)).toEqual(['material.designTemperature']);
+  });
+
+  it('applies the axle loads to the casing', () => {
+    const cased = calculate2AxleVehicleVBA({ ...twoAxleInputs, casing });
+    const casingAsPipe = calculate2AxleVehicleVBA({ ...twoAxleInputs, pipeOD: 42, pipeWT: 0.625, SMYS: 35000, MOP: 0, internalVacuum: 0 });
+
+    expect(cased.stresses).toEqual(casingAsPipe.stresses);
+    expect(cased.casedCrossing.casingPass).toBe(casingAsPipe.passFailSummary.overallPass);
+    expect(cased.casedCrossing.carrier.hoopStress).toBeCloseTo(36000, 6);
+    expect(cased.passFailSummary.overallPass).toBe(casingAsPipe.passFailSummary.overallPass && cased.casedCrossing.carrier.pass);
+  });
+
+  it('needs both the casing and the carrier to pass', () => {
+    const cased = calculateTrackVehicleVBA({ ...track, MOP: 1400, casing });
+    expect(cased.casedCrossing.carrier.hoopPass).toBe(false);
+    expect(cased.passFailSummary.overallPass).toBe(false);
+  });
+
+  it('rejects a casing without room for the carrier', () => {
+    const errors = validatePipelineInputs({ ...track, casing: { ...casing, casingOD: 36 } }).errors;
+    expect(errors.map(e => e.code)).toEqual(['CASING_CLEARANCE']);
+    expect(() => calculateTrackVehicleVBA({ ...track, casing: { ...casing, casingOD: 36 } })).toThrow();
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Cased crossings
+ * The surface load acts on the casing, which is analysed by the engine as the pipe
+ * (unpressurized, with its own OD, wall and grade). The carrier inside sees only
+ * internal pressure, thermal stress and its self weight spanning between the
+ * casing spacers, and is checked against the same code limits.
+ * All values in ENGLISH units (psi, in, ft, lb/ft³)
+ */
+
+import { CarrierCheckSummary, CasedCrossingSummary, CodeCheck, EquivStressMethod, PassFailSummary, PipelineTrackInputs, UnitsSystem, ValidationMessage } from './types';
+import { TwoAxleInputs } from './types2Axle';
+import { ThreeAxleInputs } from './types3Axle';
+import { GridLoadInputs } from './typesGrid';
+import { MultiAxleInputs } from './typesMultiAxle';
+import { RailInputs } from './typesRail';
+import { calculateEquivalentStress, convertPressureToUserUnits } from './sharedCalculations';
+import { calculatePassFail, calculateSustainedLongStress, PassFailResult } from './passFailHelpers';
+import { checkPipelineInputs } from './inputValidation';
+import { resolveB318DesignFactors, B318DesignFactors } from './codeProfiles';
+import { resolveZ662DesignFactors, Z662DesignFactors } from './csaZ662';
+import { resolveMaterial, MaterialEN } from './materials';
+import { GAMMA_STEEL_PCF } from './groundwater';
+import { densityConv, depthConv, lengthConv, pressureConv, smysConv } from './unitConversions';
+
+type PipelineInputs = PipelineTrackInputs | TwoAxleInputs | ThreeAxleInputs | GridLoadInputs | MultiAxleInputs | RailInputs;
+
+// Results shared by every engine
+interface CasedPipeResults {
+  passFailSummary: PassFailSummary;
+  casedCrossing?: CasedCrossingSummary;
+  warnings: ValidationMessage[];
+}
+
+export interface CarrierEN {
+  D_in: number;
+  t_in: number;
+  SMYS_psi: number; // derated for the material
+  Pint_psi: number;
+  deltaT_F: number;
+  spacerSpacing_ft: number;
+  contentDensity_pcf: number;
+  material: MaterialEN;
+}
+
+export interface CarrierCheckEN {
+  hoopInt_psi: number;
+  bending_psi: number;
+  long_psi: number;
+  equiv_psi: number;
+  hoopMaxPct: number;
+  longMaxPct: number;
+  equivMaxPct: number;
+  passFail: PassFailResult;
+}
+
+/**
+ * Carrier pipe of a cased crossing in ENGLISH units
+ */
+export function convertCarrierToEN(inputs: PipelineInputs): CarrierEN {
+  const isMetric = inputs.unitsSystem === 'SI';
+  const material = resolveMaterial(inputs.material, inputs.unitsSystem);
+
+  return {
+    D_in: isMetric ? lengthConv.toEN(inputs.pipeOD) : inputs.pipeOD,
+    t_in: isMetric ? lengthConv.toEN(inputs.pipeWT) : inputs.pipeWT,
+    SMYS_psi: (isMetric ? smysConv.toEN(inputs.SMYS) : inputs.SMYS) * material.smysFactor,
+    Pint_psi: isMetric ? pressureConv.toEN(inputs.MOP) : inputs.MOP,
+    deltaT_F: isMetric ? inputs.deltaT * 9 / 5 : inputs.deltaT, // C -> F delta
+    spacerSpacing_ft: isMetric ? depthConv.toEN(inputs.casing.spacerSpacing) : inputs.casing.spacerSpacing,
+    contentDensity_pcf: isMetric ? densityConv.toEN(inputs.casing.contentDensity) : inputs.casing.contentDensity,
+    material,
+  };
+}
+
+/**
+ * Carrier stresses and code check
+ * Hoop: Barlow. Longitudinal: Poisson pressure + restrained thermal ± bending from the
+ * pipe and contents weight, continuous over the spacers (M = wL²/10).
+ */
+export function calculateCarrierCheck(
+  carrier: CarrierEN,
+  codeCheck: CodeCheck,
+  userDefinedLimits: { hoopLimitPct: number; longLimitPct: number; equivLimitPct: number } | undefined,
+  equivStressMethod: EquivStressMethod,
+  b318?: B318DesignFactors,
+  z662?: Z662DesignFactors
+): CarrierCheckEN {
+  const { D_in, t_in, SMYS_psi, material } = carrier;
+  const d_in = D_in - 2 * t_in;
+
+  // Self weight between spacers (lb/in)
+  const wallArea_in2 = Math.PI * (D_in * D_in - d_in * d_in) / 4;
+  const boreArea_in2 = Math.PI * d_in * d_in / 4;
+  const w_lbin = (GAMMA_STEEL_PCF * wallArea_in2 + carrier.contentDensity_pcf * boreArea_in2) / 1728;
+  const span_in = carrier.spacerSpacing_ft * 12;
+  const Z_in3 = Math.PI * (Math.pow(D_in, 4) - Math.pow(d_in, 4)) / (32 * D_in);
+  const bending_psi = w_lbin * span_in * span_in / 10 / Z_in3;
+
+  const hoopInt_psi = carrier.Pint_psi * D_in / (2 * t_in);
+  const longInt_psi = material.poisson * hoopInt_psi;
+  const longTherm_psi = material.E_psi * material.alpha_perF * carrier.deltaT_F;
+
+  const equivZero = calculateEquivalentStress(equivStressMethod, 0, 0, longTherm_psi + bending_psi, longTherm_psi - bending_psi, SMYS_psi);
+  const equivMOP = calculateEquivalentStress(
+    equivStressMethod,
+    hoopInt_psi,
+    hoopInt_psi,
+    longInt_psi + longTherm_psi + bending_psi,
+    longInt_psi + longTherm_psi - bending_psi,
+    SMYS_psi
+  );
+  const sustainedLong_psi = calculateSustainedLongStress(codeCheck, longInt_psi, bending_psi, bending_psi, longTherm_psi);
+
+  const long_psi = Math.max(
+    Math.abs(longTherm_psi) + bending_psi,
+    Math.abs(longInt_psi + longTherm_psi) + bending_psi,
+    sustainedLong_psi
+  );
+  const equiv = equivMOP.high >= equivZero.high ? equivMOP : equivZero;
+
+  const hoopMaxPct = hoopInt_psi / SMYS_psi * 100;
+  const longMaxPct = long_psi / SMYS_psi * 100;
+  const equivMaxPct = equiv.pctSMYS * 100;
+
+  return {
+    hoopInt_psi,
+    bending_psi,
+    long_psi,
+    equiv_psi: equiv.high,
+    hoopMaxPct,
+    longMaxPct,
+    equivMaxPct,
+    passFail: calculatePassFail(codeCheck, userDefinedLimits, hoopMaxPct, longMaxPct, equivMaxPct, SMYS_psi, b318, z662),
+  };
+}
+
+/**
+ * Convert the carrier check to user units
+ */
+export function convertCarrierCheckToUserUnits(check: CarrierCheckEN, unitsSystem: UnitsSystem): CarrierCheckSummary {
+  const stress = (value_psi: number) => convertPressureToUserUnits(value_psi, unitsSystem);
+
+  return {
+    hoopStress: stress(check.hoopInt_psi),
+    bendingStress: stress(check.bending_psi),
+    longitudinalStress: stress(check.long_psi),
+    equivalentStress: stress(check.equiv_psi),
+    hoopPctSMYS: check.hoopMaxPct,
+    longPctSMYS: check.longMaxPct,
+    equivPctSMYS: check.equivMaxPct,
+    limitsUsed: check.passFail.limitsUsed,
+    hoopPass: check.passFail.hoopPass,
+    longPass: check.passFail.longPass,
+    equivPass: check.passFail.equivPass,
+    pass: check.passFail.overallPass,
+  };
+}
+
+/**
+ * Run an engine for a cased crossing: the engine analyses the casing under the
+ * surface load and the carrier is checked on its own. The overall pass needs both.
+ */
+export function calculateCasedCrossing<I extends PipelineInputs, R extends CasedPipeResults>(
+  inputs: I,
+  engine: (inputs: I) => R
+): R {
+  // Carrier and casing inputs are checked before the casing takes the place of the pipe
+  const carrierWarnings = checkPipelineInputs(inputs);
+  const { casing } = inputs;
+
+  // The casing is carbon steel with its own grade; the pipe material belongs to the carrier
+  const casingResults = engine({
+    ...inputs,
+    pipeOD: casing.casingOD,
+    pipeWT: casing.casingWT,
+    SMYS: casing.casingSMYS,
+    MOP: 0,
+    internalVacuum: 0,
+    material: undefined,
+    casing: undefined,
+  });
+
+  const carrier = calculateCarrierCheck(
+    convertCarrierToEN(inputs),
+    inputs.codeCheck,
+    inputs.userDefinedLimits,
+    inputs.equivStressMethod,
+    resolveB318DesignFactors(inputs),
+    resolveZ662DesignFactors(inputs)
+  );
+  const casingPass = casingResults.passFailSummary.overallPass;
+
+  return {
+    ...casingResults,
+    passFailSummary: { ...casingResults.passFailSummary, overallPass: casingPass && carrier.passFail.overallPass },
+    warnings: [
+      ...carrierWarnings,
+      ...casingResults.warnings.filter(w => !carrierWarnings.some(c => c.message === w.message)),
+    ],
+    casedCrossing: {
+      casingOD: casing.casingOD,
+      casingWT: casing.casingWT,
+      casingSMYS: casing.casingSMYS,
+      casingPass,
+      carrier: convertCarrierCheckToUserUnits(carrier, inputs.unitsSystem),
+    },
+  };
+}
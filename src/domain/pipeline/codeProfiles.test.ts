@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { getB318DesignFactor, getB318TemperatureFactor, resolveB318DesignFactors } from './codeProfiles';
+import { calculateTrackVehicleVBA } from './vbaTrackEngine';
+import { calculateGridLoadVBA } from './vbaGridEngine';
+import { validatePipelineInputs } from './inputValidation';
+import { getMaterialPresetInputs } from './materials';
+import { gridInputs, trackInputs } from './testFixtures';
+import { B318DesignInputs, PipelineTrackInputs } from './types';
+
+const gas: PipelineTrackInputs = { ...trackInputs, codeCheck: 'B31_8' };
+const class1: B318DesignInputs = { locationClass: 'CLASS_1_DIV_1', roadCrossing: 'NONE', designTemperature: 70 };
+
+describe('B31.8 location class design factors', () => {
+  it('looks up F by location class and crossing, cased or uncased', () => {
+    expect(getB318DesignFactor('CLASS_1_DIV_1', 'NONE', false)).toBe(0.8);
+    expect(getB318DesignFactor('CLASS_4', 'PRIVATE_ROAD', false)).toBe(0.4);
+    expect(getB318DesignFactor('CLASS_1_DIV_2', 'UNIMPROVED_PUBLIC_ROAD', false)).toBe(0.6);
+    expect(getB318DesignFactor('CLASS_2', 'HARD_SURFACE_ROAD_OR_RAILROAD', false)).toBe(0.5);
+    expect(getB318DesignFactor('CLASS_2', 'HARD_SURFACE_ROAD_OR_RAILROAD', true)).toBe(0.6);
+    expect(getB318DesignFactor('CLASS_1_DIV_1', 'HARD_SURFACE_ROAD_OR_RAILROAD', true)).toBe(0.72);
+  });
+
+  it('derates above 250 °F and takes E from the seam weld', () => {
+    expect(getB318TemperatureFactor(200)).toBe(1);
+    expect(getB318TemperatureFactor(325)).toBeCloseTo(0.95, 9);
+    expect(getB318TemperatureFactor(500)).toBe(0.867);
+
+    const factors = resolveB318DesignFactors({ ...gas, longSeamWeldType: 'FURNACE_BUTT_WELDED', b318Design: { ...class1, designTemperature: 400 } });
+    expect(factors).toMatchObject({ designFactor: 0.8, jointFactor: 0.6, temperatureFactor: 0.9 });
+    // 204.4 °C = 400 °F
+    expect(resolveB318DesignFactors({ ...gas, unitsSystem: 'SI', b318Design: { ...class1, designTemperature: 204.4444 } }).temperatureFactor).toBeCloseTo(0.9, 4);
+    expect(resolveB318DesignFactors({ ...gas, codeCheck: 'B31_4', b318Design: class1 })).toBeUndefined();
+  });
+
+  it('keeps T unless the material SMYS is derated at its own design temperature', () => {
+    const b318Design = { ...class1, designTemperature: 400 };
+    const stainless = getMaterialPresetInputs('STAINLESS_STEEL', 'EN');
+
+    expect(resolveB318DesignFactors({ ...gas, b318Design, material: stainless }).temperatureFactor).toBe(0.9);
+    expect(resolveB318DesignFactors({ ...gas, b318Design, material: { ...stainless, designTemperature: 70 } }).temperatureFactor).toBe(0.9);
+    expect(resolveB318DesignFactors({ ...gas, b318Design, material: { ...stainless, designTemperature: 400 } }).temperatureFactor).toBe(1);
+  });
+
+  it('sets the hoop limit to F × E × T and reports the location class', () => {
+    const class1Result = calculateTrackVehicleVBA({ ...gas, b318Design: class1 });
+    expect(class1Result.limitsUsed).toMatchObject({ hoopLimitPct: 80, longLimitPct: 90, locationClass: 'CLASS_1_DIV_1', designFactor: 0.8 });
+    expect(class1Result.passFailSummary.hoopAtMOP).toBe(true);
+
+    // 36000 psi hoop is 69% SMYS, over the Class 3 limit of 50%
+    const class3Result = calculateTrackVehicleVBA({ ...gas, b318Design: { ...class1, locationClass: 'CLASS_3' } });
+    expect(class3Result.limitsUsed.hoopLimitPct).toBeCloseTo(50, 9);
+    expect(class3Result.passFailSummary.hoopAtMOP).toBe(false);
+
+    expect(calculateTrackVehicleVBA(gas).limitsUsed.locationClass).toBeUndefined();
+  });
+
+  it('applies the location class in the grid engine', () => {
+    const grid = { ...gridInputs, codeCheck: 'B31_8' as const };
+    const class1Result = calculateGridLoadVBA({ ...grid, b318Design: class1 });
+    const class4Result = calculateGridLoadVBA({ ...grid, b318Design: { ...class1, locationClass: 'CLASS_4' } });
+
+    expect(class1Result.limitsUsed).toMatchObject({ hoopLimitPct: 80, locationClass: 'CLASS_1_DIV_1' });
+    expect(class4Result.limitsUsed.hoopLimitPct).toBeCloseTo(40, 9);
+    expect(class4Result.passFailSummary.hoopAtMOP).toBe(false);
+  });
+
+  it('rejects a joint factor above 1', () => {
+    const errors = validatePipelineInputs({ ...gas, b318Design: { ...class1, jointFactor: 1.2 } }).errors;
+    expect(errors.map(e => e.code)).toEqual(['DESIGN_FACTOR']);
+    const warnings = validatePipelineInputs({ ...gas, b318Design: { ...class1, designTemperature: 500 } }).warnings;
+    expect(warnings.map(w => w.code)).toContain('DERATING_RANGE');
+  });
+});
@@ -3,6 +3,10 @@
  * Each profile defines limits and behavior for pass/fail checks
  */
 
+import { LocationClass, LongSeamWeldType, PipelineTrackInputs, RoadCrossing } from './types';
+import { interpolateSmysFactor, isMaterialDerated } from './materials';
+import { tempConv } from './unitConversions';
+
 export type CodeCheckType = 'B31_4' | 'B31_8' | 'CSA_Z662' | 'USER_DEFINED';
 
 export interface CodeProfile {
@@ -17,7 +21,9 @@ export interface CodeProfile {
 
 /**
  * Default code profiles with standard limits
- * Note: For surface-load screening, all codes use 90% SMYS as default limit
+ * Note: For surface-load screening, all codes use 90% SMYS as default limit;
+ * B31.8 with a location class replaces the hoop limit with F × E × T (resolveB318DesignFactors)
+ * and CSA Z662 uses F × L × J × T with the Clause 4.8 restrained limits (csaZ662)
  */
 export const CODE_PROFILES: Record<Exclude<CodeCheckType, 'USER_DEFINED'>, CodeProfile> = {
   B31_4: {
@@ -74,3 +80,115 @@ export function getCodeDescription(codeCheck: CodeCheckType): string {
   const profile = getCodeProfile(codeCheck);
   return profile ? profile.description : 'Custom stress limits';
 }
+
+/**
+ * ASME B31.8 design factors applied to the hoop limit (hoop ≤ F × E × T × SMYS)
+ */
+export interface B318DesignFactors {
+  locationClass: LocationClass;
+  roadCrossing: RoadCrossing;
+  designFactor: number; // F
+  jointFactor: number; // E
+  temperatureFactor: number; // T
+}
+
+export const LOCATION_CLASS_LABELS: Record<LocationClass, string> = {
+  CLASS_1_DIV_1: 'Class 1, Division 1',
+  CLASS_1_DIV_2: 'Class 1, Division 2',
+  CLASS_2: 'Class 2',
+  CLASS_3: 'Class 3',
+  CLASS_4: 'Class 4',
+};
+
+export const ROAD_CROSSING_LABELS: Record<RoadCrossing, string> = {
+  NONE: 'No crossing',
+  PRIVATE_ROAD: 'Private road',
+  UNIMPROVED_PUBLIC_ROAD: 'Unimproved public road',
+  HARD_SURFACE_ROAD_OR_RAILROAD: 'Hard-surface road, highway, street or railroad',
+};
+
+// Table 841.1.6-1 basic design factor F
+const BASE_DESIGN_FACTORS: Record<LocationClass, number> = {
+  CLASS_1_DIV_1: 0.8,
+  CLASS_1_DIV_2: 0.72,
+  CLASS_2: 0.6,
+  CLASS_3: 0.5,
+  CLASS_4: 0.4,
+};
+
+// Table 841.1.6-2 crossing rows, uncased / cased (private roads use the basic factor)
+const CROSSING_DESIGN_FACTORS: Record<Exclude<RoadCrossing, 'NONE' | 'PRIVATE_ROAD'>, { uncased: Record<LocationClass, number>; cased: Record<LocationClass, number> }> = {
+  UNIMPROVED_PUBLIC_ROAD: {
+    uncased: { CLASS_1_DIV_1: 0.6, CLASS_1_DIV_2: 0.6, CLASS_2: 0.6, CLASS_3: 0.5, CLASS_4: 0.4 },
+    cased: { CLASS_1_DIV_1: 0.72, CLASS_1_DIV_2: 0.72, CLASS_2: 0.6, CLASS_3: 0.5, CLASS_4: 0.4 },
+  },
+  HARD_SURFACE_ROAD_OR_RAILROAD: {
+    uncased: { CLASS_1_DIV_1: 0.6, CLASS_1_DIV_2: 0.6, CLASS_2: 0.5, CLASS_3: 0.5, CLASS_4: 0.4 },
+    cased: { CLASS_1_DIV_1: 0.72, CLASS_1_DIV_2: 0.72, CLASS_2: 0.6, CLASS_3: 0.5, CLASS_4: 0.4 },
+  },
+};
+
+// Longitudinal joint factor, B31.8 Table 841.1.7-1 E and Z662 Table 4.3 J
+// (furnace butt welded pipe is the only reduced seam here)
+const JOINT_FACTORS: Record<LongSeamWeldType, number> = {
+  SEAMLESS: 1,
+  ERW: 1,
+  SAW: 1,
+  FLASH_WELDED: 1,
+  FURNACE_BUTT_WELDED: 0.6,
+};
+
+// Table 841.1.8-1 temperature derating factor T (°F), 1.0 at 250 °F and below
+const TEMPERATURE_DERATING = [
+  { temperature: 250, factor: 1 },
+  { temperature: 300, factor: 0.967 },
+  { temperature: 350, factor: 0.933 },
+  { temperature: 400, factor: 0.9 },
+  { temperature: 450, factor: 0.867 },
+];
+
+/**
+ * B31.8 design factor F for a location class and crossing
+ */
+export function getB318DesignFactor(locationClass: LocationClass, roadCrossing: RoadCrossing, cased: boolean): number {
+  if (roadCrossing === 'NONE' || roadCrossing === 'PRIVATE_ROAD') {
+    return BASE_DESIGN_FACTORS[locationClass];
+  }
+  const row = CROSSING_DESIGN_FACTORS[roadCrossing];
+  return (cased ? row.cased : row.uncased)[locationClass];
+}
+
+/**
+ * Longitudinal joint factor for a seam weld (ERW when omitted)
+ */
+export function getJointFactor(longSeamWeldType: LongSeamWeldType | undefined): number {
+  return JOINT_FACTORS[longSeamWeldType ?? 'ERW'];
+}
+
+/**
+ * B31.8 temperature derating factor T at a design temperature (°F)
+ */
+export function getB318TemperatureFactor(designTemperature_F: number): number {
+  return interpolateSmysFactor(TEMPERATURE_DERATING, designTemperature_F);
+}
+
+/**
+ * B31.8 design factors for the inputs, or undefined when the code check is not
+ * B31.8 or no location class is given. T is 1 when the material SMYS is already
+ * derated at its design temperature so the temperature is not counted twice.
+ */
+export function resolveB318DesignFactors(
+  inputs: Pick<PipelineTrackInputs, 'codeCheck' | 'unitsSystem' | 'b318Design' | 'casing' | 'material' | 'longSeamWeldType'>
+): B318DesignFactors | undefined {
+  const { b318Design } = inputs;
+  if (inputs.codeCheck !== 'B31_8' || !b318Design) return undefined;
+
+  const designTemperature_F = inputs.unitsSystem === 'SI' ? tempConv.toEN(b318Design.designTemperature) : b318Design.designTemperature;
+  return {
+    locationClass: b318Design.locationClass,
+    roadCrossing: b318Design.roadCrossing,
+    designFactor: getB318DesignFactor(b318Design.locationClass, b318Design.roadCrossing, !!inputs.casing?.enabled),
+    jointFactor: b318Design.jointFactor ?? getJointFactor(inputs.longSeamWeldType),
+    temperatureFactor: isMaterialDerated(inputs.material) ? 1 : getB318TemperatureFactor(designTemperature_F),
+  };
+}
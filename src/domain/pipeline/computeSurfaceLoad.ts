@@ -7,11 +7,15 @@ import { PipelineTrackInputs, PipelineTrackResults } from './types';
 import { TwoAxleInputs, TwoAxleResults } from './types2Axle';
 import { ThreeAxleInputs, ThreeAxleResults } from './types3Axle';
 import { GridLoadInputs, GridLoadResults } from './typesGrid';
+import { MultiAxleInputs, MultiAxleResults } from './typesMultiAxle';
+import { RailInputs, RailResults } from './typesRail';
 
 import { calculatePipelineTrack } from './calculations';
 import { calculate2AxleVehicleVBA } from './vba2AxleEngine';
 import { calculate3AxleVehicleVBA } from './vba3AxleEngine';
 import { calculateGridLoadVBA } from './vbaGridEngine';
+import { calculateMultiAxleVehicleVBA } from './vbaMultiAxleEngine';
+import { calculateRailLoadVBA } from './vbaRailEngine';
 
 /**
  * Surface load input types - discriminated union
@@ -20,7 +24,9 @@ export type SurfaceLoadInputs =
   | { type: 'TRACK'; inputs: PipelineTrackInputs }
   | { type: '2_AXLE'; inputs: TwoAxleInputs }
   | { type: '3_AXLE'; inputs: ThreeAxleInputs }
-  | { type: 'GRID'; inputs: GridLoadInputs };
+  | { type: 'GRID'; inputs: GridLoadInputs }
+  | { type: 'MULTI_AXLE'; inputs: MultiAxleInputs }
+  | { type: 'RAIL'; inputs: RailInputs };
 
 /**
  * Surface load result types - discriminated union
@@ -29,7 +35,9 @@ export type SurfaceLoadResults =
   | { type: 'TRACK'; results: PipelineTrackResults }
   | { type: '2_AXLE'; results: TwoAxleResults }
   | { type: '3_AXLE'; results: ThreeAxleResults }
-  | { type: 'GRID'; results: GridLoadResults };
+  | { type: 'GRID'; results: GridLoadResults }
+  | { type: 'MULTI_AXLE'; results: MultiAxleResults }
+  | { type: 'RAIL'; results: RailResults };
 
 /**
  * Main calculation dispatcher
@@ -61,6 +69,18 @@ export function computeSurfaceLoad(config: SurfaceLoadInputs): SurfaceLoadResult
         results: calculateGridLoadVBA(config.inputs)
       };
     
+    case 'MULTI_AXLE':
+      return {
+        type: 'MULTI_AXLE',
+        results: calculateMultiAxleVehicleVBA(config.inputs)
+      };
+    
+    case 'RAIL':
+      return {
+        type: 'RAIL',
+        results: calculateRailLoadVBA(config.inputs)
+      };
+    
     default:
       // TypeScript exhaustiveness check
       const _exhaustive: never = config;
@@ -72,16 +92,5 @@ export function computeSurfaceLoad(config: SurfaceLoadInputs): SurfaceLoadResult
  * Helper to determine if results passed code check
  */
 export function isPassingCalculation(results: SurfaceLoadResults): boolean {
-  switch (results.type) {
-    case 'TRACK':
-      return results.results.passFailSummary.overallPass;
-    case '2_AXLE':
-      return results.results.passFailSummary.overallPass;
-    case '3_AXLE':
-      return results.results.passFailSummary.overallPass;
-    case 'GRID':
-      return results.results.passFailSummary.overallPass;
-    default:
-      return false;
-  }
+  return results.results.passFailSummary.overallPass;
 }
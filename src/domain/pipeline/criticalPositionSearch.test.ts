@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { searchCriticalPosition } from './criticalPositionSearch';
+import { calculateBoussinesqFromPoints, PointLoad } from './boussinesqHelpers';
+
+// Single wheel 10 ft off the pipe along its axis
+const wheel: PointLoad[] = [{ x: 120, y: 0, load_lb: 16000 }];
+// Tandem wheels 5 ft apart, centred on the crown
+const tandem: PointLoad[] = [{ x: -30, y: 0, load_lb: 16000 }, { x: 30, y: 0, load_lb: 16000 }];
+
+describe('critical position search', () => {
+  it('finds the offset that puts the load over the crown', () => {
+    const result = searchCriticalPosition(wheel, 4, { alongRange_in: 240, acrossRange_in: 0, step_in: 12 });
+
+    expect(result.governingOffsetAlong_in).toBe(-120);
+    expect(result.stepAlong_in).toBe(12);
+    expect(result.positionsEvaluated).toBe(41);
+  });
+
+  it('puts one wheel over the crown when the centred tandem straddles it', () => {
+    const result = searchCriticalPosition(tandem, 2, { alongRange_in: 60, acrossRange_in: 0, step_in: 6 });
+    const centred = calculateBoussinesqFromPoints(tandem, [{ x: 0, y: 0, label: '' }], 2).maxPressure_psi;
+    const atOffset = (offset_in: number) => result.envelopeAlong.find(p => p.offset_in === offset_in)?.maxPressure_psi;
+
+    expect(Math.abs(result.governingOffsetAlong_in)).toBe(30);
+    expect(atOffset(0)).toBeCloseTo(centred, 10);
+    expect(result.boussinesq.maxPressure_psi).toBeGreaterThan(2 * centred);
+    expect(atOffset(30)).toBeCloseTo(result.boussinesq.maxPressure_psi, 10);
+  });
+
+  it('coarsens the step to cover the whole range', () => {
+    const result = searchCriticalPosition(wheel, 4, { alongRange_in: 1200, acrossRange_in: 24, step_in: 6 });
+
+    expect(result.stepAlong_in).toBe(12);
+    expect(result.stepAcross_in).toBe(6);
+    expect(result.envelopeAlong[0].offset_in).toBe(-1200);
+    expect(result.envelopeAlong[result.envelopeAlong.length - 1].offset_in).toBe(1200);
+    expect(result.positionsEvaluated).toBe(201 * 9);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Critical vehicle position search
+ * Marches the vehicle footprint along the pipe axis (X) and across it (Y),
+ * re-running the Boussinesq superposition at each step to find the position
+ * that governs the pressure on the pipe crown.
+ * All values in ENGLISH units (inches, psi)
+ */
+
+import { UnitsSystem, PositionSearchSummary, PressureKernel } from './types';
+import { PointLoad, MeasurementPoint, calculateBoussinesqFromPoints } from './boussinesqHelpers';
+import { convertPressureToUserUnits } from './sharedCalculations';
+
+// Guard against runaway sweeps (per side of each axis); finer steps are coarsened to cover the range
+const MAX_STEPS_PER_SIDE = 100;
+
+export interface PositionSearchConfigEN {
+  alongRange_in: number;
+  acrossRange_in: number;
+  step_in: number;
+}
+
+export interface PositionEnvelopePointEN {
+  offset_in: number;
+  maxPressure_psi: number;
+}
+
+export interface PositionSearchResultEN {
+  governingOffsetAlong_in: number;
+  governingOffsetAcross_in: number;
+  positionsEvaluated: number;
+  stepAlong_in: number; // step used along the pipe (coarser than requested for long ranges)
+  stepAcross_in: number;
+  envelopeAlong: PositionEnvelopePointEN[];
+  envelopeAcross: PositionEnvelopePointEN[];
+  boussinesq: ReturnType<typeof calculateBoussinesqFromPoints>;
+}
+
+/**
+ * Build symmetric list of offsets -range..+range at the given step
+ * The step is coarsened when the range needs more than MAX_STEPS_PER_SIDE steps
+ */
+function buildOffsets(range_in: number, step_in: number): { offsets: number[]; step_in: number } {
+  if (!(range_in > 0) || !(step_in > 0)) return { offsets: [0], step_in: 0 };
+
+  let n = Math.floor(range_in / step_in);
+  let step = step_in;
+  if (n > MAX_STEPS_PER_SIDE) {
+    n = MAX_STEPS_PER_SIDE;
+    step = range_in / MAX_STEPS_PER_SIDE;
+  }
+  const offsets: number[] = [];
+  for (let i = -n; i <= n; i++) {
+    offsets.push(i * step);
+  }
+  return { offsets, step_in: step };
+}
+
+/**
+ * Shift all point loads by a vehicle offset
+ */
+export function shiftPointLoads(pointLoads: PointLoad[], dx_in: number, dy_in: number): PointLoad[] {
+  return pointLoads.map(p => ({ ...p, x: p.x + dx_in, y: p.y + dy_in }));
+}
+
+/**
+ * Search for the governing vehicle position
+ * The pipe crown at the reference section (X = 0, Y = 0) is evaluated for every
+ * vehicle offset; by translation along the pipe this covers every pipe section.
+ * @param pointLoads - vehicle point loads at the reference position (inches)
+ * @param H_ft - depth of cover (ft)
+ * @param config - sweep ranges and step (inches)
+ * @param kernel - vertical stress kernel
+ */
+export function searchCriticalPosition(
+  pointLoads: PointLoad[],
+  H_ft: number,
+  config: PositionSearchConfigEN,
+  kernel: PressureKernel = 'BOUSSINESQ_POINT'
+): PositionSearchResultEN {
+  const along = buildOffsets(config.alongRange_in, config.step_in);
+  const across = buildOffsets(config.acrossRange_in, config.step_in);
+  const alongOffsets = along.offsets;
+  const acrossOffsets = across.offsets;
+
+  const envelopeAlong = alongOffsets.map(offset_in => ({ offset_in, maxPressure_psi: 0 }));
+  const envelopeAcross = acrossOffsets.map(offset_in => ({ offset_in, maxPressure_psi: 0 }));
+
+  let governingAlong = 0;
+  let governingAcross = 0;
+  let governingPressure = -Infinity;
+
+  alongOffsets.forEach((dx, iX) => {
+    acrossOffsets.forEach((dy, iY) => {
+      // Moving the vehicle by (dx, dy) is equivalent to moving the measurement point by (-dx, -dy)
+      const mp: MeasurementPoint = { x: -dx, y: -dy, label: '' };
+      const p = calculateBoussinesqFromPoints(pointLoads, [mp], H_ft, kernel).maxPressure_psi;
+
+      if (p > envelopeAlong[iX].maxPressure_psi) envelopeAlong[iX].maxPressure_psi = p;
+      if (p > envelopeAcross[iY].maxPressure_psi) envelopeAcross[iY].maxPressure_psi = p;
+
+      if (p > governingPressure) {
+        governingPressure = p;
+        governingAlong = dx;
+        governingAcross = dy;
+      }
+    });
+  });
+
+  // Re-run at the governing position for the reference values (contact pressure, influence factor)
+  const governingLoads = shiftPointLoads(pointLoads, governingAlong, governingAcross);
+  const boussinesq = calculateBoussinesqFromPoints(
+    governingLoads,
+    [{ x: 0, y: 0, label: 'Pipe crown at governing vehicle position' }],
+    H_ft,
+    kernel
+  );
+
+  return {
+    governingOffsetAlong_in: governingAlong,
+    governingOffsetAcross_in: governingAcross,
+    positionsEvaluated: alongOffsets.length * acrossOffsets.length,
+    stepAlong_in: along.step_in,
+    stepAcross_in: across.step_in,
+    envelopeAlong,
+    envelopeAcross,
+    boussinesq,
+  };
+}
+
+/**
+ * Convert search result to user units (ft or m, psi or kPa)
+ */
+export function convertPositionSearchToUserUnits(
+  result: PositionSearchResultEN,
+  unitsSystem: UnitsSystem
+): PositionSearchSummary {
+  const toUserLength = (value_in: number) =>
+    unitsSystem === 'SI' ? value_in / 12 / 3.280839895013 : value_in / 12;
+  const toUserEnvelope = (points: PositionEnvelopePointEN[]) =>
+    points.map(p => ({
+      offset: toUserLength(p.offset_in),
+      maxPressure: convertPressureToUserUnits(p.maxPressure_psi, unitsSystem),
+    }));
+
+  return {
+    governingOffsetAlong: toUserLength(result.governingOffsetAlong_in),
+    governingOffsetAcross: toUserLength(result.governingOffsetAcross_in),
+    governingPressure: convertPressureToUserUnits(result.boussinesq.maxPressure_psi, unitsSystem),
+    positionsEvaluated: result.positionsEvaluated,
+    stepAlong: toUserLength(result.stepAlong_in),
+    stepAcross: toUserLength(result.stepAcross_in),
+    envelopeAlong: toUserEnvelope(result.envelopeAlong),
+    envelopeAcross: toUserEnvelope(result.envelopeAcross),
+  };
+}
+
+/**
+ * Describe the governing position for the results summary
+ */
+export function describeGoverningPosition(summary: PositionSearchSummary, unitsSystem: UnitsSystem): string {
+  const unit = unitsSystem === 'SI' ? 'm' : 'ft';
+  return `Critical position (${summary.governingOffsetAlong.toFixed(2)} ${unit} along, ${summary.governingOffsetAcross.toFixed(2)} ${unit} across pipe)`;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { getFormFieldNames, validateFormFields } from '@/components/formSchemas';
+import { FORM_FIELD_COLUMN, IGNORE_COLUMN, autoMapColumns, parseRegister, readRegisterRow } from './crossingRegister';
+import { runBatch } from './batch';
+
+const REGISTER = [
+  'Crossing\tNPS\tWT (in)\tGrade\tCover (ft)\tVehicle\tgroundwater.enabled\tNotes',
+  'Hwy 12\t36\t0.5\tX52\t4\tAASHTO HS20-44 Truck\tfalse\tpaved',
+  'Farm lane\tNPS 12\t-0.25\tX42\t3\tDOZER_D8\t\t',
+  'Ditch\t37\t0.5\tX99\t3\tSubmarine\t\t',
+].join('\n');
+
+describe('crossing register import', () => {
+  const table = parseRegister(REGISTER);
+  const mapping = autoMapColumns(table.headers, getFormFieldNames('2_AXLE'));
+  const read = (i: number) => readRegisterRow(table.rows[i], i + 2, table.headers, mapping, '2_AXLE');
+
+  it('maps spreadsheet headers to register and form fields', () => {
+    expect(mapping).toEqual(['calculationName', 'NPS', 'pipeWT', 'grade', 'depthCover', 'vehicle', FORM_FIELD_COLUMN, IGNORE_COLUMN]);
+  });
+
+  it('expands NPS, grade and vehicle into form fields and picks the type from the vehicle', () => {
+    const row = read(0);
+    expect(row.issues).toEqual([]);
+    expect(row.type).toBe('3_AXLE');
+    expect(row.fields).toMatchObject({
+      calculationName: 'Hwy 12',
+      pipeOD: 35.984,
+      pipeWT: 0.5,
+      SMYS: 52000,
+      depthCover: 4,
+      axle2Load: 32000,
+      axle1To2Spacing: 14,
+      'groundwater.enabled': false,
+    });
+
+    const { config, issues } = validateFormFields(row.type!, row.fields);
+    expect(issues).toEqual([]);
+    const [result] = runBatch([config!]);
+    expect(result.error).toBeUndefined();
+    expect(result.name).toBe('Hwy 12');
+  });
+
+  it('reports schema issues with the field name', () => {
+    const row = read(1);
+    expect(row.type).toBe('TRACK');
+    expect(row.fields).toMatchObject({ pipeOD: 12.748, trackVehicleWeight: expect.any(Number) });
+
+    const { config, issues } = validateFormFields(row.type!, row.fields);
+    expect(config).toBeNull();
+    expect(issues).toEqual([expect.stringMatching(/^pipeWT: /)]);
+  });
+
+  it('reports unknown lookups per column', () => {
+    expect(read(2).issues).toEqual([
+      'NPS: unknown NPS "37"',
+      'Grade: unknown grade "X99"',
+      'Vehicle: unknown vehicle "Submarine"',
+    ]);
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Crossing register import - spreadsheet rows to calculator form fields
+ * A register has one row per road/track crossing (name, NPS, WT, grade, cover,
+ * vehicle, ...). Each column is mapped to a register field or to a calculator
+ * form field by name; NPS, grade and vehicle are looked up in the pipe and
+ * vehicle libraries and expanded into the form fields they set. Values are in
+ * English units (in, psi, ft, lb), the units of the calculator form defaults.
+ */
+
+import { SURFACE_LOAD_TYPES, parseCSV, parseCell } from './batch';
+import { SurfaceLoadInputs } from './computeSurfaceLoad';
+import { PIPE_SIZES, STEEL_GRADES } from './pipePresets';
+import { VEHICLE_LIBRARY, VehicleFormMode, VehiclePreset, getVehicleFormValues, isVehicleCompatible } from './vehicleLibrary';
+
+export type CrossingType = SurfaceLoadInputs['type'];
+
+export interface RegisterField {
+  key: string;
+  label: string;
+  aliases: string[]; // header names mapped to the field automatically (lower case, units stripped)
+}
+
+export const IGNORE_COLUMN = 'IGNORE';
+export const FORM_FIELD_COLUMN = 'FORM_FIELD'; // header is a form field name (depthCover, groundwater.enabled, ...)
+
+// Register fields; type, NPS, grade and vehicle are lookups, the rest are form fields
+export const REGISTER_FIELDS: RegisterField[] = [
+  { key: 'calculationName', label: 'Crossing name', aliases: ['name', 'crossing', 'crossing name', 'crossing id', 'id', 'location'] },
+  { key: 'type', label: 'Calculation type', aliases: ['type', 'calculation type', 'load type', 'mode'] },
+  { key: 'NPS', label: 'NPS (sets OD)', aliases: ['nps', 'nominal pipe size', 'pipe size', 'size'] },
+  { key: 'pipeOD', label: 'Outside diameter (in)', aliases: ['od', 'pipe od', 'outside diameter', 'diameter'] },
+  { key: 'pipeWT', label: 'Wall thickness (in)', aliases: ['wt', 'pipe wt', 'wall thickness', 'wall', 'thickness'] },
+  { key: 'grade', label: 'Grade (sets SMYS)', aliases: ['grade', 'pipe grade', 'steel grade'] },
+  { key: 'SMYS', label: 'SMYS (psi)', aliases: ['smys'] },
+  { key: 'MOP', label: 'MOP (psig)', aliases: ['mop', 'maop', 'pressure', 'operating pressure'] },
+  { key: 'depthCover', label: 'Depth of cover (ft)', aliases: ['cover', 'depth of cover', 'depth', 'doc'] },
+  { key: 'vehicle', label: 'Vehicle (library name or id)', aliases: ['vehicle', 'vehicle type', 'equipment', 'design vehicle'] },
+  { key: 'soilDensity', label: 'Soil density (lb/ft³)', aliases: ['soil density', 'unit weight', 'soil unit weight'] },
+  { key: 'laneOffset', label: 'Lane offset (ft)', aliases: ['lane offset', 'offset'] },
+];
+
+// Accepted spellings of the calculation types (upper case, spaces and dashes as '_')
+const TYPE_ALIASES: Record<string, CrossingType> = {
+  TRACK: 'TRACK',
+  TRACKED: 'TRACK',
+  PIPELINE_TRACK: 'TRACK',
+  '2_AXLE': '2_AXLE',
+  TWO_AXLE: '2_AXLE',
+  '3_AXLE': '3_AXLE',
+  THREE_AXLE: '3_AXLE',
+  GRID: 'GRID',
+  GRID_LOAD: 'GRID',
+  MULTI_AXLE: 'MULTI_AXLE',
+  MULTI: 'MULTI_AXLE',
+  RAIL: 'RAIL',
+};
+
+export interface RegisterTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface RegisterRow {
+  rowNumber: number; // spreadsheet row (header is row 1)
+  type: CrossingType | null;
+  fields: Record<string, unknown>; // form field values (dotted names for nested fields)
+  issues: string[];
+}
+
+/**
+ * Header to lookup form: lower case, units in brackets and punctuation dropped
+ */
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/\(.*?\)|\[.*?\]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Parse a register exported as CSV or copied from a spreadsheet (tab-separated)
+ */
+export function parseRegister(text: string): RegisterTable {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const [headers, ...rows] = parseCSV(text, firstLine.includes('\t') ? '\t' : ',');
+  if (!headers) {
+    throw new Error('Register is empty');
+  }
+  return { headers: headers.map(h => h.trim()), rows };
+}
+
+/**
+ * Guess the target of each column (register field, form field by name, or ignored)
+ */
+export function autoMapColumns(headers: string[], formFields: string[] = []): string[] {
+  return headers.map(header => {
+    const normalized = normalizeHeader(header);
+    const field = REGISTER_FIELDS.find(f => f.key.toLowerCase() === normalized || f.aliases.includes(normalized));
+    if (field) return field.key;
+    return formFields.includes(header.split('.')[0]) ? FORM_FIELD_COLUMN : IGNORE_COLUMN;
+  });
+}
+
+/**
+ * Calculation type from a register cell
+ */
+export function parseCrossingType(value: string): CrossingType | null {
+  return TYPE_ALIASES[value.trim().toUpperCase().replace(/[\s-]+/g, '_')] ?? null;
+}
+
+/**
+ * NPS from a register cell ("36", "NPS 36", "36\"")
+ */
+function findPipeSize(value: string) {
+  const nps = value.replace(/nps|"|in\b/gi, '').trim();
+  return PIPE_SIZES.find(p => p.nps === nps && p.od_in !== null) ?? null;
+}
+
+/**
+ * Steel grade from a register cell ("X52", "API 5L X52", "Grade B")
+ */
+function findSteelGrade(value: string) {
+  const key = (s: string) => s.toUpperCase().replace(/API\s*5L|GRADE|GR\.|[\s-]/g, '');
+  return STEEL_GRADES.find(g => g.smys_psi !== null && key(g.label) === key(value)) ?? null;
+}
+
+/**
+ * Vehicle from a register cell (library id or label, any case)
+ */
+function findVehicle(value: string, customVehicles: VehiclePreset[]): VehiclePreset | null {
+  const key = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, '');
+  return [...VEHICLE_LIBRARY, ...customVehicles].find(v => key(v.id) === key(value) || key(v.label) === key(value)) ?? null;
+}
+
+/**
+ * Calculation type implied by a vehicle (tracked, 2-axle, 3-axle, otherwise multi-axle)
+ */
+function vehicleCrossingType(vehicle: VehiclePreset): CrossingType {
+  if (vehicle.track) return 'TRACK';
+  if (vehicle.axles?.length === 2) return '2_AXLE';
+  if (vehicle.axles?.length === 3) return '3_AXLE';
+  return 'MULTI_AXLE';
+}
+
+/**
+ * Register cell to a form value (numbers may carry thousands separators)
+ */
+function parseRegisterCell(raw: string): unknown {
+  const value = raw.trim();
+  return /^-?\d{1,3}(,\d{3})+(\.\d+)?$/.test(value) ? Number(value.replace(/,/g, '')) : parseCell(value);
+}
+
+/**
+ * Read one register row into form field values
+ * Lookups (NPS, grade, vehicle) are applied first so explicit OD, SMYS or
+ * vehicle fields in the same row take precedence. The type comes from the type
+ * column, else from the vehicle, else the default type.
+ */
+export function readRegisterRow(
+  cells: string[],
+  rowNumber: number,
+  headers: string[],
+  mapping: string[],
+  defaultType: CrossingType,
+  customVehicles: VehiclePreset[] = []
+): RegisterRow {
+  const issues: string[] = [];
+  const lookups: Record<string, unknown> = {};
+  const fields: Record<string, unknown> = {};
+  let type: CrossingType | null | undefined; // null: unknown type in the type column
+  let vehicle: VehiclePreset | null = null;
+
+  for (let j = 0; j < headers.length; j++) {
+    const header = headers[j];
+    const target = mapping[j] ?? IGNORE_COLUMN;
+    const raw = cells[j]?.trim() ?? '';
+    if (target === IGNORE_COLUMN || raw === '') continue;
+
+    switch (target) {
+      case 'type':
+        type = parseCrossingType(raw);
+        if (!type) issues.push(`${header}: unknown calculation type "${raw}" (${SURFACE_LOAD_TYPES.join(', ')})`);
+        break;
+      case 'NPS': {
+        const pipe = findPipeSize(raw);
+        if (pipe) lookups.pipeOD = pipe.od_in;
+        else issues.push(`${header}: unknown NPS "${raw}"`);
+        break;
+      }
+      case 'grade': {
+        const grade = findSteelGrade(raw);
+        if (grade) lookups.SMYS = grade.smys_psi;
+        else issues.push(`${header}: unknown grade "${raw}"`);
+        break;
+      }
+      case 'vehicle':
+        vehicle = findVehicle(raw, customVehicles);
+        if (!vehicle) issues.push(`${header}: unknown vehicle "${raw}"`);
+        break;
+      default:
+        try {
+          fields[target === FORM_FIELD_COLUMN ? header : target] = parseRegisterCell(raw);
+        } catch {
+          issues.push(`${header}: invalid JSON value`);
+        }
+    }
+  }
+
+  if (type === undefined) {
+    type = vehicle ? vehicleCrossingType(vehicle) : defaultType;
+  }
+
+  if (vehicle && type) {
+    const mode: VehicleFormMode | null = type === 'TRACK' ? 'PIPELINE_TRACK' : type === 'GRID' || type === 'RAIL' ? null : type;
+    if (mode && isVehicleCompatible(vehicle, mode)) {
+      Object.assign(lookups, getVehicleFormValues(vehicle, mode, 'EN'));
+    } else {
+      issues.push(`${vehicle.label} cannot be used for a ${type} crossing`);
+    }
+  }
+
+  return {
+    rowNumber,
+    type,
+    fields: { calculationName: `Row ${rowNumber}`, ...lookups, ...fields },
+    issues,
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { getZ662LocationFactor, getZ662TemperatureFactor, resolveZ662DesignFactors } from './csaZ662';
+import { calculateTrackVehicleVBA } from './vbaTrackEngine';
+import { calculate2AxleVehicleVBA } from './vba2AxleEngine';
+import { validatePipelineInputs } from './inputValidation';
+import { getMaterialPresetInputs } from './materials';
+import { trackInputs, twoAxleInputs } from './testFixtures';
+import { PipelineTrackInputs, Z662DesignInputs } from './types';
+
+const csa: PipelineTrackInputs = { ...trackInputs, codeCheck: 'CSA_Z662' };
+const class1: Z662DesignInputs = { locationClass: 'CLASS_1', crossing: 'NONE', designTemperature: 70 };
+
+describe('CSA Z662 limit states', () => {
+  it('looks up the location and temperature factors', () => {
+    expect(getZ662LocationFactor('CLASS_2', 'NONE', false)).toBe(0.9);
+    expect(getZ662LocationFactor('CLASS_1', 'ROAD', false)).toBe(0.75);
+    expect(getZ662LocationFactor('CLASS_1', 'RAILWAY', false)).toBe(0.625);
+    expect(getZ662LocationFactor('CLASS_1', 'ROAD', true)).toBe(1);
+    expect(getZ662TemperatureFactor(100)).toBe(1);
+    expect(getZ662TemperatureFactor(135)).toBeCloseTo(0.985, 9);
+
+    // 392 °F = 200 °C
+    expect(resolveZ662DesignFactors({ ...csa, z662Design: { ...class1, designTemperature: 392 } }).temperatureFactor).toBeCloseTo(0.91, 9);
+    expect(resolveZ662DesignFactors(csa)).toEqual({
+      locationClass: 'CLASS_1', crossing: 'NONE', designFactor: 0.8, locationFactor: 1, jointFactor: 1, temperatureFactor: 1,
+    });
+    expect(resolveZ662DesignFactors({ ...csa, codeCheck: 'B31_4' })).toBeUndefined();
+  });
+
+  it('keeps T unless the material SMYS is derated at its own design temperature', () => {
+    const z662Design = { ...class1, designTemperature: 392 };
+    const stainless = getMaterialPresetInputs('STAINLESS_STEEL', 'EN');
+
+    expect(resolveZ662DesignFactors({ ...csa, z662Design, material: stainless }).temperatureFactor).toBeCloseTo(0.91, 9);
+    expect(resolveZ662DesignFactors({ ...csa, z662Design, material: { ...stainless, designTemperature: 392 } }).temperatureFactor).toBe(1);
+  });
+
+  it('reports each check with its clause', () => {
+    const result = calculateTrackVehicleVBA({ ...csa, z662Design: class1 });
+    const { checks } = result.csaZ662Check;
+
+    expect(checks.map(c => c.clause)).toEqual(['4.3.5', '4.8', '4.8', 'Annex C']);
+    expect(checks.map(c => c.limitPctSMYS)).toEqual([80, 90, 90, 90]);
+    expect(result.limitsUsed).toMatchObject({ hoopLimitPct: 80, longLimitPct: 90, equivLimitPct: 90 });
+    expect(checks[0].stressPctSMYS).toBeCloseTo(Math.abs(result.stresses.atMOP.hoop.high) / 52000 * 100, 9);
+    // Plane stress Tresca (largest of S_h, S_L and S_h − S_L) bounds the von Mises biaxial stress
+    expect(Math.max(checks[0].stressPctSMYS, checks[1].stressPctSMYS, checks[2].stressPctSMYS)).toBeGreaterThanOrEqual(checks[3].stressPctSMYS);
+
+    expect(calculateTrackVehicleVBA(trackInputs).csaZ662Check).toBeUndefined();
+  });
+
+  it('fails the hoop check in a Class 4 road crossing', () => {
+    const result = calculateTrackVehicleVBA({ ...csa, z662Design: { ...class1, locationClass: 'CLASS_4', crossing: 'ROAD' } });
+
+    expect(result.csaZ662Check.checks[0].limitPctSMYS).toBeCloseTo(40, 9);
+    expect(result.csaZ662Check.checks[0].pass).toBe(false);
+    expect(result.passFailSummary.overallPass).toBe(false);
+  });
+
+  it('checks the axle engine stresses', () => {
+    const result = calculate2AxleVehicleVBA({ ...twoAxleInputs, codeCheck: 'CSA_Z662', z662Design: { ...class1, crossing: 'ROAD' } });
+    const { checks } = result.csaZ662Check;
+
+    expect(checks[0].limitPctSMYS).toBeCloseTo(60, 9);
+    expect(checks[0].stressPctSMYS).toBeCloseTo(Math.abs(result.stresses.atMOP.hoop.high) / 52000 * 100, 9);
+    expect(checks[0].pass).toBe(false);
+    expect(result.passFailSummary.overallPass).toBe(false);
+  });
+
+  it('rejects a joint factor of zero', () => {
+    const errors = validatePipelineInputs({ ...csa, z662Design: { ...class1, jointFactor: 0 } }).errors;
+    expect(errors.map(e => e.code)).toEqual(['DESIGN_FACTOR']);
+  });
+});
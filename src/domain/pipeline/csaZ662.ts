@@ -0,0 +1,180 @@
+/**
+ * CSA Z662 limit states for buried pipe under surface loads
+ * Hoop stress against the design pressure factors (Clause 4.3.5: F × L × J × T),
+ * the restrained pipe longitudinal and combined stress limits (Clause 4.8) and an
+ * Annex C style biaxial (von Mises) yield check. Each check carries its clause.
+ * Stresses in psi, temperatures in °F unless noted
+ */
+
+import { PipelineTrackInputs, Z662CheckSummary, Z662Crossing, Z662LimitStateCheck, Z662LocationClass } from './types';
+import { interpolateSmysFactor, isMaterialDerated } from './materials';
+import { getJointFactor } from './codeProfiles';
+import { tempConv } from './unitConversions';
+
+/**
+ * Z662 factors for the hoop limit (hoop ≤ F × L × J × T × SMYS)
+ */
+export interface Z662DesignFactors {
+  locationClass: Z662LocationClass;
+  crossing: Z662Crossing;
+  designFactor: number; // F
+  locationFactor: number; // L
+  jointFactor: number; // J
+  temperatureFactor: number; // T
+}
+
+// High/low hoop and longitudinal stresses at zero pressure and at MOP (sharedCalculations.combineStressCases)
+export interface Z662StressCases {
+  hoopZeroHigh: number;
+  hoopZeroLow: number;
+  hoopMOPHigh: number;
+  hoopMOPLow: number;
+  longZeroHigh: number;
+  longZeroLow: number;
+  longMOPHigh: number;
+  longMOPLow: number;
+}
+
+export const Z662_LOCATION_CLASS_LABELS: Record<Z662LocationClass, string> = {
+  CLASS_1: 'Class 1',
+  CLASS_2: 'Class 2',
+  CLASS_3: 'Class 3',
+  CLASS_4: 'Class 4',
+};
+
+export const Z662_CROSSING_LABELS: Record<Z662Crossing, string> = {
+  NONE: 'General',
+  ROAD: 'Road crossing',
+  RAILWAY: 'Railway crossing',
+};
+
+// Design factor F of the Clause 4.3.5 design pressure formula
+const Z662_DESIGN_FACTOR = 0.8;
+
+// Clause 4.8 restrained pipe limit (× SMYS × T), also used for the Annex C biaxial check
+const Z662_RESTRAINED_LIMIT = 0.9;
+
+// Table 4.2 location factor L for gas (non-sour) service; cased crossings use the general row
+const Z662_LOCATION_FACTORS: Record<Z662Crossing, Record<Z662LocationClass, number>> = {
+  NONE: { CLASS_1: 1, CLASS_2: 0.9, CLASS_3: 0.7, CLASS_4: 0.55 },
+  ROAD: { CLASS_1: 0.75, CLASS_2: 0.625, CLASS_3: 0.625, CLASS_4: 0.5 },
+  RAILWAY: { CLASS_1: 0.625, CLASS_2: 0.625, CLASS_3: 0.625, CLASS_4: 0.5 },
+};
+
+// Table 4.4 temperature factor T (°C), 1.0 at 120 °C and below
+const Z662_TEMPERATURE_FACTORS = [
+  { temperature: 120, factor: 1 },
+  { temperature: 150, factor: 0.97 },
+  { temperature: 180, factor: 0.93 },
+  { temperature: 200, factor: 0.91 },
+  { temperature: 230, factor: 0.87 },
+];
+
+/**
+ * Z662 location factor L for a class location and crossing
+ */
+export function getZ662LocationFactor(locationClass: Z662LocationClass, crossing: Z662Crossing, cased: boolean): number {
+  return Z662_LOCATION_FACTORS[cased ? 'NONE' : crossing][locationClass];
+}
+
+/**
+ * Z662 temperature factor T at a design temperature (°C)
+ */
+export function getZ662TemperatureFactor(designTemperature_C: number): number {
+  return interpolateSmysFactor(Z662_TEMPERATURE_FACTORS, designTemperature_C);
+}
+
+/**
+ * Z662 design factors for the inputs, or undefined when the code check is not
+ * CSA Z662. Without z662Design the pipe is taken as Class 1, no crossing, T = 1.
+ * T is 1 when the material SMYS is already derated at its design temperature so
+ * the temperature is not counted twice.
+ */
+export function resolveZ662DesignFactors(
+  inputs: Pick<PipelineTrackInputs, 'codeCheck' | 'unitsSystem' | 'z662Design' | 'casing' | 'material' | 'longSeamWeldType'>
+): Z662DesignFactors | undefined {
+  if (inputs.codeCheck !== 'CSA_Z662') return undefined;
+  const { z662Design } = inputs;
+  const locationClass = z662Design?.locationClass ?? 'CLASS_1';
+  const crossing = z662Design?.crossing ?? 'NONE';
+
+  let temperatureFactor = 1;
+  if (z662Design && !isMaterialDerated(inputs.material)) {
+    const designTemperature_C = inputs.unitsSystem === 'SI' ? z662Design.designTemperature : tempConv.toSI(z662Design.designTemperature);
+    temperatureFactor = getZ662TemperatureFactor(designTemperature_C);
+  }
+
+  return {
+    locationClass,
+    crossing,
+    designFactor: Z662_DESIGN_FACTOR,
+    locationFactor: getZ662LocationFactor(locationClass, crossing, !!inputs.casing?.enabled),
+    jointFactor: z662Design?.jointFactor ?? getJointFactor(inputs.longSeamWeldType),
+    temperatureFactor,
+  };
+}
+
+/**
+ * Z662 hoop limit F × L × J × T (% SMYS)
+ */
+export function z662HoopLimitPct(factors: Z662DesignFactors): number {
+  return factors.designFactor * factors.locationFactor * factors.jointFactor * factors.temperatureFactor * 100;
+}
+
+/**
+ * Z662 restrained pipe limit 0.90 × T (% SMYS)
+ */
+export function z662RestrainedLimitPct(factors: Z662DesignFactors): number {
+  return Z662_RESTRAINED_LIMIT * factors.temperatureFactor * 100;
+}
+
+/**
+ * Z662 clause checks of the high/low stress cases at zero pressure and at MOP
+ */
+export function calculateZ662Check(cases: Z662StressCases, SMYS_psi: number, factors: Z662DesignFactors): Z662CheckSummary {
+  const pairs = [
+    [cases.hoopZeroHigh, cases.longZeroHigh],
+    [cases.hoopZeroHigh, cases.longZeroLow],
+    [cases.hoopZeroLow, cases.longZeroHigh],
+    [cases.hoopZeroLow, cases.longZeroLow],
+    [cases.hoopMOPHigh, cases.longMOPHigh],
+    [cases.hoopMOPHigh, cases.longMOPLow],
+    [cases.hoopMOPLow, cases.longMOPHigh],
+    [cases.hoopMOPLow, cases.longMOPLow],
+  ];
+  const pct = (stress_psi: number) => stress_psi / SMYS_psi * 100;
+
+  const hoop_psi = Math.max(...pairs.map(([hoop]) => Math.abs(hoop)));
+  const long_psi = Math.max(...pairs.map(([, long]) => Math.abs(long)));
+  // Restrained pipe: S_h − S_L (+ S_B, in the longitudinal cases)
+  const combined_psi = Math.max(...pairs.map(([hoop, long]) => Math.abs(hoop - long)));
+  const biaxial_psi = Math.max(...pairs.map(([hoop, long]) => Math.sqrt(hoop * hoop - hoop * long + long * long)));
+
+  const hoopLimitPct = z662HoopLimitPct(factors);
+  const restrainedLimitPct = z662RestrainedLimitPct(factors);
+  const check = (clause: string, label: string, stress_psi: number, limitPctSMYS: number): Z662LimitStateCheck => ({
+    clause,
+    label,
+    stressPctSMYS: pct(stress_psi),
+    limitPctSMYS,
+    pass: pct(stress_psi) <= limitPctSMYS,
+  });
+
+  const checks = [
+    check('4.3.5', 'Hoop stress (F × L × J × T)', hoop_psi, hoopLimitPct),
+    check('4.8', 'Longitudinal stress, restrained pipe', long_psi, restrainedLimitPct),
+    check('4.8', 'Combined stress S_h − S_L + S_B, restrained pipe', combined_psi, restrainedLimitPct),
+    check('Annex C', 'Biaxial (von Mises) yield', biaxial_psi, restrainedLimitPct),
+  ];
+
+  return {
+    locationClass: factors.locationClass,
+    crossing: factors.crossing,
+    designFactor: factors.designFactor,
+    locationFactor: factors.locationFactor,
+    jointFactor: factors.jointFactor,
+    temperatureFactor: factors.temperatureFactor,
+    checks,
+    pass: checks.every(c => c.pass),
+  };
+}
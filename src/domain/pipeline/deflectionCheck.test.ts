@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { calculateModifiedIowaDeflection } from './deflectionCheck';
+
+describe('Modified Iowa deflection', () => {
+  it('matches the hand calculation', () => {
+    // D = 24.5 in, t = 0.5 in: r = 12 in, r³ = 1728 in³, EI = 30e6 x 0.5³ / 12 = 312500 lb-in
+    // W = (1.5 x 10 + 5) x 24.5 = 490 lb/in
+    // ΔX = 0.1 x 490 x 1728 / (312500 + 0.061 x 1000 x 1728) = 0.202609 in -> 0.82698 %
+    const result = calculateModifiedIowaDeflection(10, 5, 24.5, 0.5, 0.1, 1000, 1.5, 3, 30e6);
+
+    expect(result.deflectionPct).toBeCloseTo(0.82698, 4);
+    expect(result.pass).toBe(true);
+  });
+
+  it('applies the lag factor to the dead load only', () => {
+    const lagged = calculateModifiedIowaDeflection(10, 5, 24.5, 0.5, 0.1, 1000, 2, 3, 30e6);
+    const deadOnly = calculateModifiedIowaDeflection(10, 0, 24.5, 0.5, 0.1, 1000, 1, 3, 30e6);
+
+    // (2 x 10 + 5) / (1.5 x 10 + 5) = 1.25 and (1 x 10) / 20 = 0.5 of the hand case
+    expect(lagged.deflectionPct).toBeCloseTo(0.82698 * 1.25, 4);
+    expect(deadOnly.deflectionPct).toBeCloseTo(0.82698 * 0.5, 4);
+    expect(calculateModifiedIowaDeflection(10, 5, 24.5, 0.5, 0.1, 1000, 1.5, 0.8, 30e6).pass).toBe(false);
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { calculateFatigueCheck, convertFatigueCheckToUserUnits } from './fatigueCheck';
+
+describe('fatigue check', () => {
+  it('compares the live load stress ranges with F times the endurance limits', () => {
+    // Girth weld: 4320 / (12000 x 0.72) = 0.5; ERW seam: 7560 / (21000 x 0.72) = 0.5
+    const erw = calculateFatigueCheck(7560, -4320);
+
+    expect(erw.girthWeldRatio).toBeCloseTo(0.5, 12);
+    expect(erw.longSeamRatio).toBeCloseTo(0.5, 12);
+    expect(erw.overallPass).toBe(true);
+
+    // Furnace butt welded seam: 7560 / (6000 x 0.72) = 1.75
+    const buttWelded = calculateFatigueCheck(7560, -4320, 'FURNACE_BUTT_WELDED');
+    expect(buttWelded.longSeamEnduranceLimit).toBe(6000);
+    expect(buttWelded.longSeamRatio).toBeCloseTo(1.75, 12);
+    expect(buttWelded).toMatchObject({ girthWeldPass: true, longSeamPass: false, overallPass: false });
+  });
+
+  it('converts the stresses and limits to kPa', () => {
+    const si = convertFatigueCheckToUserUnits(calculateFatigueCheck(1000, 500, 'SAW', 0.5), 'SI');
+
+    expect(si.girthWeldEnduranceLimit).toBeCloseTo(12000 / 0.1450378911491, 6);
+    expect(si.cyclicStresses.hoop).toBeCloseTo(1000 / 0.1450378911491, 6);
+    expect(si.longSeamRatio).toBeCloseTo(1000 / (12000 * 0.5), 12);
+  });
+});
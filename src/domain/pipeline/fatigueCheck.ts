@@ -0,0 +1,92 @@
+/**
+ * API RP 1102 cyclic fatigue check
+ * The live load stress components are the cyclic stress ranges seen by the
+ * welds as traffic passes over the crossing:
+ *   girth weld:        cyclic longitudinal stress <= SFG * F
+ *   longitudinal seam: cyclic hoop stress         <= SFL * F
+ * All values in ENGLISH units (psi)
+ */
+
+import { LongSeamWeldType, FatigueCheckSummary, UnitsSystem } from './types';
+import { convertPressureToUserUnits } from './sharedCalculations';
+
+// Girth weld fatigue endurance limit, all grades (psi)
+export const GIRTH_WELD_ENDURANCE_PSI = 12000;
+
+// Longitudinal seam fatigue endurance limits by weld type (psi)
+export const LONG_SEAM_ENDURANCE_PSI: Record<LongSeamWeldType, number> = {
+  SEAMLESS: 21000,
+  ERW: 21000,
+  SAW: 12000,
+  FLASH_WELDED: 12000,
+  FURNACE_BUTT_WELDED: 6000,
+};
+
+export const LONG_SEAM_WELD_LABELS: Record<LongSeamWeldType, string> = {
+  SEAMLESS: 'Seamless',
+  ERW: 'Electric Resistance Welded (ERW)',
+  SAW: 'Submerged Arc Welded (SAW)',
+  FLASH_WELDED: 'Flash Welded',
+  FURNACE_BUTT_WELDED: 'Furnace Butt Welded',
+};
+
+export const DEFAULT_LONG_SEAM_WELD_TYPE: LongSeamWeldType = 'ERW';
+
+// Design factor F applied to the endurance limits
+export const DEFAULT_FATIGUE_DESIGN_FACTOR = 0.72;
+
+/**
+ * Check the live load stress ranges against the weld endurance limits
+ * @param hoopLive_psi - cyclic circumferential stress from live load (psi)
+ * @param longLive_psi - cyclic longitudinal stress from live load (psi)
+ * @param longSeamWeldType - longitudinal seam type (defaults to ERW)
+ * @param designFactor - design factor F (defaults to 0.72)
+ */
+export function calculateFatigueCheck(
+  hoopLive_psi: number,
+  longLive_psi: number,
+  longSeamWeldType: LongSeamWeldType = DEFAULT_LONG_SEAM_WELD_TYPE,
+  designFactor: number = DEFAULT_FATIGUE_DESIGN_FACTOR
+): FatigueCheckSummary {
+  const SFG = GIRTH_WELD_ENDURANCE_PSI;
+  const SFL = LONG_SEAM_ENDURANCE_PSI[longSeamWeldType];
+
+  const girthWeldRatio = Math.abs(longLive_psi) / (SFG * designFactor);
+  const longSeamRatio = Math.abs(hoopLive_psi) / (SFL * designFactor);
+  const girthWeldPass = girthWeldRatio <= 1;
+  const longSeamPass = longSeamRatio <= 1;
+
+  return {
+    cyclicStresses: {
+      hoop: hoopLive_psi,
+      longitudinal: longLive_psi,
+    },
+    longSeamWeldType,
+    girthWeldEnduranceLimit: SFG,
+    longSeamEnduranceLimit: SFL,
+    designFactor,
+    girthWeldRatio,
+    longSeamRatio,
+    girthWeldPass,
+    longSeamPass,
+    overallPass: girthWeldPass && longSeamPass,
+  };
+}
+
+/**
+ * Convert fatigue check stresses to user units (psi or kPa)
+ */
+export function convertFatigueCheckToUserUnits(
+  fatigue: FatigueCheckSummary,
+  unitsSystem: UnitsSystem
+): FatigueCheckSummary {
+  return {
+    ...fatigue,
+    cyclicStresses: {
+      hoop: convertPressureToUserUnits(fatigue.cyclicStresses.hoop, unitsSystem),
+      longitudinal: convertPressureToUserUnits(fatigue.cyclicStresses.longitudinal, unitsSystem),
+    },
+    girthWeldEnduranceLimit: convertPressureToUserUnits(fatigue.girthWeldEnduranceLimit, unitsSystem),
+    longSeamEnduranceLimit: convertPressureToUserUnits(fatigue.longSeamEnduranceLimit, unitsSystem),
+  };
+}
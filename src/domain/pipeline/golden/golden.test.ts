@@ -0,0 +1,48 @@
+/**
+ * Baseline-regression fixtures (cases/*.json)
+ * Re-record the expected values after an intended change with
+ *   UPDATE_GOLDEN=1 npm test
+ * Only the unified core fixtures are re-recorded; the strict VBA parity fixtures
+ * pin the engines before the unified core and keep failing if the parity path drifts.
+ */
+
+import { writeFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { afterAll, describe, expect, it } from 'vitest';
+import { GoldenSuite, compareGoldenValues, formatDriftReport, runGoldenCase } from './goldenHarness';
+import trackSuite from './cases/track.json';
+import twoAxleSuite from './cases/twoAxle.json';
+import threeAxleSuite from './cases/threeAxle.json';
+import gridSuite from './cases/grid.json';
+
+const UPDATE = process.env.UPDATE_GOLDEN === '1';
+
+const SUITES: { file: string; suite: GoldenSuite }[] = [
+  { file: 'track.json', suite: trackSuite as GoldenSuite },
+  { file: 'twoAxle.json', suite: twoAxleSuite as GoldenSuite },
+  { file: 'threeAxle.json', suite: threeAxleSuite as GoldenSuite },
+  { file: 'grid.json', suite: gridSuite as GoldenSuite },
+];
+
+for (const { file, suite } of SUITES) {
+  describe(`${suite.engine} baseline-regression fixtures (${file})`, () => {
+    for (const goldenCase of suite.cases) {
+      it(goldenCase.name, () => {
+        const actual = runGoldenCase(suite.engine, goldenCase);
+        if (UPDATE && !goldenCase.inputs.strictVbaParity) {
+          goldenCase.expected = actual;
+          return;
+        }
+
+        const drifts = compareGoldenValues(goldenCase.expected, actual, goldenCase.tolerance);
+        expect(drifts, formatDriftReport(goldenCase.name, drifts)).toEqual([]);
+      });
+    }
+
+    afterAll(() => {
+      if (UPDATE) {
+        writeFileSync(fileURLToPath(new URL(`./cases/${file}`, import.meta.url)), JSON.stringify(suite, null, 2) + '\n');
+      }
+    });
+  });
+}
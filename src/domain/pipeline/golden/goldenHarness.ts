@@ -0,0 +1,145 @@
+/**
+ * Baseline-regression harness for the VBA engines
+ * A fixture is a set of engine inputs plus the values the TypeScript engines
+ * returned for them when it was recorded (stresses, Boussinesq sums, E',
+ * deflection and the debug intermediates). The fixtures catch unintended drift;
+ * they are not spreadsheet outputs and do not validate the port against the
+ * Kiefner Surface Loading Calculator. The strict VBA parity fixtures hold the
+ * outputs of the engines before the unified core. Values are compared in the
+ * user units of the fixture with a relative tolerance.
+ */
+
+import { PipelineTrackInputs, PipelineTrackResults } from '../types';
+import { TwoAxleInputs } from '../types2Axle';
+import { ThreeAxleInputs } from '../types3Axle';
+import { GridLoadInputs } from '../typesGrid';
+import { calculateTrackVehicleVBA } from '../vbaTrackEngine';
+import { calculate2AxleVehicleVBA } from '../vba2AxleEngine';
+import { calculate3AxleVehicleVBA } from '../vba3AxleEngine';
+import { calculateGridLoadVBA } from '../vbaGridEngine';
+
+export type GoldenEngine = 'TRACK' | 'TWO_AXLE' | 'THREE_AXLE' | 'GRID';
+
+export interface GoldenTolerance {
+  relative: number; // fraction of the expected value
+  absolute: number; // floor for values near zero (user units)
+}
+
+export const DEFAULT_GOLDEN_TOLERANCE: GoldenTolerance = {
+  relative: 1e-4,
+  absolute: 1e-6,
+};
+
+export interface GoldenCase {
+  name: string;
+  source: string; // which engine version the expected values were recorded from
+  tolerance?: Partial<GoldenTolerance>;
+  inputs: PipelineTrackInputs | TwoAxleInputs | ThreeAxleInputs | GridLoadInputs;
+  expected: Record<string, number>;
+}
+
+export interface GoldenSuite {
+  engine: GoldenEngine;
+  cases: GoldenCase[];
+}
+
+export interface GoldenDrift {
+  key: string;
+  expected: number;
+  actual: number; // NaN when the engine no longer reports the value
+  relativeError: number;
+}
+
+// Result fields shared by the engines under test
+type GoldenResults = Pick<
+  PipelineTrackResults,
+  'maxSurfacePressureOnPipe' | 'stresses' | 'ePrimeUsed' | 'soilLoadOnPipe' | 'deflectionCheck' | 'debug'
+>;
+
+const ENGINES: Record<GoldenEngine, (inputs: GoldenCase['inputs']) => GoldenResults> = {
+  TRACK: inputs => calculateTrackVehicleVBA(inputs as PipelineTrackInputs),
+  TWO_AXLE: inputs => calculate2AxleVehicleVBA(inputs as TwoAxleInputs),
+  THREE_AXLE: inputs => calculate3AxleVehicleVBA(inputs as ThreeAxleInputs),
+  GRID: inputs => calculateGridLoadVBA(inputs as GridLoadInputs),
+};
+
+/**
+ * Flatten the regression values of a result into dotted keys
+ * (stresses.atMOP.hoop.high, debug.bsnqSUM1_psi, ...)
+ */
+export function extractGoldenValues(results: GoldenResults): Record<string, number> {
+  const values: Record<string, number> = {
+    maxSurfacePressureOnPipe: results.maxSurfacePressureOnPipe,
+    ePrimeUsed: results.ePrimeUsed,
+    soilLoadOnPipe: results.soilLoadOnPipe,
+    'deflectionCheck.deflectionPct': results.deflectionCheck.deflectionPct,
+  };
+
+  for (const condition of ['atZeroPressure', 'atMOP'] as const) {
+    for (const component of ['hoop', 'longitudinal', 'equivalent'] as const) {
+      const stress = results.stresses[condition][component];
+      values[`stresses.${condition}.${component}.high`] = stress.high;
+      values[`stresses.${condition}.${component}.low`] = stress.low;
+    }
+  }
+
+  for (const [key, value] of Object.entries(results.debug)) {
+    if (typeof value === 'number') {
+      values[`debug.${key}`] = value;
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Run one fixture through its engine
+ */
+export function runGoldenCase(engine: GoldenEngine, goldenCase: GoldenCase): Record<string, number> {
+  return extractGoldenValues(ENGINES[engine](goldenCase.inputs));
+}
+
+/**
+ * Values outside the tolerance (every expected key is checked)
+ */
+export function compareGoldenValues(
+  expected: Record<string, number>,
+  actual: Record<string, number>,
+  tolerance: Partial<GoldenTolerance> = {}
+): GoldenDrift[] {
+  const { relative, absolute } = { ...DEFAULT_GOLDEN_TOLERANCE, ...tolerance };
+
+  return Object.entries(expected).flatMap(([key, expectedValue]) => {
+    const actualValue = actual[key] ?? NaN;
+    const difference = Math.abs(actualValue - expectedValue);
+    if (difference <= Math.max(relative * Math.abs(expectedValue), absolute)) {
+      return [];
+    }
+    return [{
+      key,
+      expected: expectedValue,
+      actual: actualValue,
+      relativeError: expectedValue !== 0 ? difference / Math.abs(expectedValue) : Infinity,
+    }];
+  });
+}
+
+/**
+ * Human-readable drift report, reported results first and then the debug values
+ */
+export function formatDriftReport(caseName: string, drifts: GoldenDrift[]): string {
+  if (drifts.length === 0) {
+    return `${caseName}: all values within tolerance`;
+  }
+
+  const line = (d: GoldenDrift) =>
+    `  ${d.key}: expected ${d.expected}, got ${d.actual} (${Number.isFinite(d.relativeError) ? (d.relativeError * 100).toFixed(4) + '%' : 'missing'})`;
+  const results = drifts.filter(d => !d.key.startsWith('debug.'));
+  const debug = drifts.filter(d => d.key.startsWith('debug.'));
+
+  return [
+    `${caseName}: ${drifts.length} value(s) drifted`,
+    ...(results.length > 0 ? ['Results:', ...results.map(line)] : []),
+    ...(debug.length > 0 ? ['Debug values:', ...debug.map(line)] : []),
+  ].join('\n');
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { calculateFlotationCheck, splitSoilColumn } from './groundwater';
+
+describe('groundwater', () => {
+  it('splits the soil column at the water table', () => {
+    // 2 ft dry at 120 pcf + 4 ft submerged at 125 - 62.4 = 62.6 pcf over 6 ft of cover
+    const column = splitSoilColumn(120, 6, { waterTableDepth_ft: 2, RhoSat_lbft3: 125 });
+
+    expect(column.RhoEff_lbft3).toBeCloseTo((120 * 2 + 62.6 * 4) / 6, 10);
+    expect(column.hw_ft).toBe(4);
+    expect(column.Pwater_psi).toBeCloseTo(62.4 * 4 / 144, 10);
+  });
+
+  it('matches the hand flotation safety factor with the water table at grade', () => {
+    // 24 in x 0.5 in pipe under 4 ft of cover, fully submerged:
+    // uplift 62.4 x π x 12² / 144 = 196.035 lb/ft
+    // resistance 490 x π (24² - 23²) / 4 / 144 + 62.6 x 4 x 2 = 125.609 + 500.8 lb/ft
+    const result = calculateFlotationCheck(24, 0.5, 4, 120, { waterTableDepth_ft: 0, RhoSat_lbft3: 125 });
+
+    expect(result.buoyancy).toBeCloseTo(196.035, 3);
+    expect(result.resistance).toBeCloseTo(626.409, 3);
+    expect(result.safetyFactor).toBeCloseTo(3.19539, 5);
+    expect(result.hydrostaticPressure).toBeCloseTo(1.73333, 5);
+    expect(result.pass).toBe(true);
+  });
+
+  it('uplifts on the submerged part of the section only', () => {
+    // Water table at the springline: half the displaced water, dry soil above the pipe
+    const halfSubmerged = calculateFlotationCheck(24, 0.5, 4, 120, { waterTableDepth_ft: 5, RhoSat_lbft3: 125 });
+    expect(halfSubmerged.buoyancy).toBeCloseTo(196.035 / 2, 3);
+    expect(halfSubmerged.safetyFactor).toBeCloseTo((125.609 + 960) / 98.0177, 4);
+
+    const dry = calculateFlotationCheck(24, 0.5, 4, 120, { waterTableDepth_ft: 10, RhoSat_lbft3: 125 });
+    expect(dry).toMatchObject({ buoyancy: 0, safetyFactor: null, pass: true });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Groundwater effects on buried pipe
+ * The soil column above the pipe is split at the water table into a dry layer
+ * (dry unit weight) and a submerged layer (saturated - water unit weight).
+ * Hydrostatic pressure at the crown is added to the effective soil pressure,
+ * and an empty pipe below the water table is checked for flotation.
+ * All values in ENGLISH units (inches, ft, lb, psi)
+ */
+
+import { GroundwaterInputs, FlotationCheckSummary, UnitsSystem } from './types';
+import { convertPressureToUserUnits } from './sharedCalculations';
+import { SoilProfileEN, soilWeightToDepth } from './soilProfile';
+
+export const GAMMA_WATER_PCF = 62.4; // lb/ft³
+export const GAMMA_STEEL_PCF = 490; // lb/ft³
+
+// Minimum resistance / uplift ratio for an empty pipe
+export const FLOTATION_REQUIRED_SAFETY_FACTOR = 1.5;
+
+export interface GroundwaterEN {
+  waterTableDepth_ft: number; // depth of water table below grade
+  RhoSat_lbft3: number; // saturated soil unit weight
+}
+
+export interface SoilColumnEN {
+  RhoEff_lbft3: number; // average effective unit weight over the cover depth
+  hw_ft: number; // water above the top of pipe
+  Pwater_psi: number; // hydrostatic pressure at the top of pipe
+}
+
+/**
+ * Convert groundwater inputs to ENGLISH units (undefined when disabled)
+ */
+export function convertGroundwaterToEN(
+  groundwater: GroundwaterInputs | undefined,
+  unitsSystem: UnitsSystem
+): GroundwaterEN | undefined {
+  if (!groundwater?.enabled) return undefined;
+  const isMetric = unitsSystem === 'SI';
+
+  return {
+    waterTableDepth_ft: isMetric ? groundwater.waterTableDepth * 3.280839895013 : groundwater.waterTableDepth, // m -> ft
+    RhoSat_lbft3: isMetric ? groundwater.saturatedSoilDensity * 0.062427960576 : groundwater.saturatedSoilDensity, // kg/m3 -> lb/ft3
+  };
+}
+
+/**
+ * Split the soil column above the pipe into dry and submerged layers
+ * @param Rho_lbft3 - dry soil unit weight
+ * @param H_ft - depth of cover
+ * @param water - groundwater (undefined for dry ground)
+ * @param profile - layered soil profile (replaces the dry unit weight above the water table)
+ */
+export function splitSoilColumn(
+  Rho_lbft3: number,
+  H_ft: number,
+  water?: GroundwaterEN,
+  profile?: SoilProfileEN
+): SoilColumnEN {
+  if (!(H_ft > 0)) {
+    return { RhoEff_lbft3: Rho_lbft3, hw_ft: 0, Pwater_psi: 0 };
+  }
+  const dryWeight_psf = (depth_ft: number) => profile ? soilWeightToDepth(profile, depth_ft) : Rho_lbft3 * depth_ft;
+
+  if (!water) {
+    return { RhoEff_lbft3: dryWeight_psf(H_ft) / H_ft, hw_ft: 0, Pwater_psi: 0 };
+  }
+
+  const hDry_ft = Math.min(Math.max(water.waterTableDepth_ft, 0), H_ft);
+  const hw_ft = H_ft - hDry_ft;
+  const RhoSub_lbft3 = Math.max(water.RhoSat_lbft3 - GAMMA_WATER_PCF, 0);
+
+  return {
+    RhoEff_lbft3: (dryWeight_psf(hDry_ft) + RhoSub_lbft3 * hw_ft) / H_ft,
+    hw_ft,
+    Pwater_psi: GAMMA_WATER_PCF * hw_ft / 144,
+  };
+}
+
+/**
+ * Area of the pipe cross-section below the water table (in²)
+ */
+function submergedArea(D_in: number, h_in: number): number {
+  const r = D_in / 2;
+  const h = Math.min(Math.max(h_in, 0), D_in);
+  if (h === 0) return 0;
+  if (h === D_in) return Math.PI * r * r;
+  return r * r * Math.acos((r - h) / r) - (r - h) * Math.sqrt(2 * r * h - h * h);
+}
+
+/**
+ * Flotation check of an empty pipe
+ * Uplift = displaced water; resistance = pipe self weight + effective soil prism over the pipe
+ * @param D_in - outside diameter
+ * @param t_in - wall thickness
+ * @param H_ft - depth of cover
+ * @param Rho_lbft3 - dry soil unit weight
+ * @param water - groundwater
+ * @param profile - layered soil profile
+ * @param pipeDensity_pcf - pipe wall unit weight (steel unless given)
+ */
+export function calculateFlotationCheck(
+  D_in: number,
+  t_in: number,
+  H_ft: number,
+  Rho_lbft3: number,
+  water: GroundwaterEN,
+  profile?: SoilProfileEN,
+  pipeDensity_pcf: number = GAMMA_STEEL_PCF
+): FlotationCheckSummary {
+  const column = splitSoilColumn(Rho_lbft3, H_ft, water, profile);
+
+  // Water table height above the pipe invert
+  const submergedDepth_in = (H_ft - water.waterTableDepth_ft) * 12 + D_in;
+  const buoyancy = GAMMA_WATER_PCF * submergedArea(D_in, submergedDepth_in) / 144;
+
+  const wallArea_in2 = Math.PI * (Math.pow(D_in, 2) - Math.pow(D_in - 2 * t_in, 2)) / 4;
+  const pipeWeight = pipeDensity_pcf * wallArea_in2 / 144;
+  const soilWeight = column.RhoEff_lbft3 * H_ft * D_in / 12;
+  const resistance = pipeWeight + soilWeight;
+
+  const safetyFactor = buoyancy > 0 ? resistance / buoyancy : null;
+
+  return {
+    waterAbovePipe: column.hw_ft,
+    hydrostaticPressure: column.Pwater_psi,
+    buoyancy,
+    resistance,
+    safetyFactor,
+    requiredSafetyFactor: FLOTATION_REQUIRED_SAFETY_FACTOR,
+    pass: safetyFactor === null || safetyFactor >= FLOTATION_REQUIRED_SAFETY_FACTOR,
+  };
+}
+
+/**
+ * Convert flotation check to user units (ft or m, psi or kPa, lb/ft or kg/m)
+ */
+export function convertFlotationCheckToUserUnits(
+  flotation: FlotationCheckSummary,
+  unitsSystem: UnitsSystem
+): FlotationCheckSummary {
+  if (unitsSystem === 'EN') return flotation;
+  const lbftToKgm = 3.280839895013 / 2.2046226218;
+
+  return {
+    ...flotation,
+    waterAbovePipe: flotation.waterAbovePipe / 3.280839895013,
+    hydrostaticPressure: convertPressureToUserUnits(flotation.hydrostaticPressure, unitsSystem),
+    buoyancy: flotation.buoyancy * lbftToKgm,
+    resistance: flotation.resistance * lbftToKgm,
+  };
+}
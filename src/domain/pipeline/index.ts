@@ -6,11 +6,15 @@ export { calculatePipelineTrack } from './calculations';
 export { calculate2AxleVehicleVBA } from './vba2AxleEngine';
 export { calculate3AxleVehicleVBA } from './vba3AxleEngine';
 export { calculateGridLoadVBA } from './vbaGridEngine';
+export { calculateMultiAxleVehicleVBA } from './vbaMultiAxleEngine';
+export { calculateRailLoadVBA } from './vbaRailEngine';
 
 export type { PipelineTrackInputs, PipelineTrackResults } from './types';
 export type { TwoAxleInputs, TwoAxleResults } from './types2Axle';
 export type { ThreeAxleInputs, ThreeAxleResults } from './types3Axle';
 export type { GridLoadInputs, GridLoadResults } from './typesGrid';
+export type { MultiAxleInputs, MultiAxleResults, AxleDefinition } from './typesMultiAxle';
+export type { RailInputs, RailResults } from './typesRail';
 
 export * from './sensitivity';
 
@@ -25,3 +29,84 @@ export type { EPrimeCoefficients, SoilTypeKey, CompactionLevel } from './ePrimeL
 // Tire contact patch calculations
 export { calculateContactPatch, convertContactPatchToEN } from './tirePatchCalculations';
 export type { TireContactPatch } from './tirePatchCalculations';
+
+// Critical vehicle position search
+export { searchCriticalPosition, convertPositionSearchToUserUnits } from './criticalPositionSearch';
+export type { PositionSearchConfigEN, PositionSearchResultEN } from './criticalPositionSearch';
+
+// Vehicle library
+export { VEHICLE_LIBRARY, VEHICLE_CATEGORY_LABELS, isVehicleCompatible, getVehiclePreset, getVehicleAxles, getVehicleAxleWidth, getVehicleTrack, convertAxle } from './vehicleLibrary';
+export type { VehiclePreset, VehicleCategory, VehicleFormMode, TrackDefinition } from './vehicleLibrary';
+
+// API RP 1102 fatigue check
+export { calculateFatigueCheck, convertFatigueCheckToUserUnits, GIRTH_WELD_ENDURANCE_PSI, LONG_SEAM_ENDURANCE_PSI, LONG_SEAM_WELD_LABELS } from './fatigueCheck';
+
+// Modified Iowa ring deflection
+export { calculateModifiedIowaDeflection, DEFAULT_DEFLECTION_LAG_FACTOR, DEFAULT_DEFLECTION_LIMIT_PCT } from './deflectionCheck';
+
+// AWWA M11 ring buckling
+export { calculateBucklingCheck, convertBucklingCheckToUserUnits } from './bucklingCheck';
+
+// Groundwater and flotation
+export { convertGroundwaterToEN, splitSoilColumn, calculateFlotationCheck, convertFlotationCheckToUserUnits, GAMMA_WATER_PCF, FLOTATION_REQUIRED_SAFETY_FACTOR } from './groundwater';
+export type { GroundwaterEN, SoilColumnEN } from './groundwater';
+
+// Pipe material
+export { resolveMaterial, convertMaterialToUserUnits, getMaterialPreset, getMaterialPresetInputs, interpolateSmysFactor, MATERIAL_PRESETS, CARBON_STEEL } from './materials';
+export type { MaterialEN, MaterialPresetDefinition } from './materials';
+
+// Flexible plastic pipe
+export { convertPlasticPipeToEN, calculatePlasticPipeCheck, convertPlasticPipeCheckToUserUnits, getPlasticPipePreset, getPlasticPipePresetInputs, plasticDeflectionLimitPct, PLASTIC_PIPE_PRESETS } from './plasticPipe';
+export type { PlasticPipeEN, PlasticPipeCheckEN, PlasticPipePreset } from './plasticPipe';
+
+// Cased crossings
+export { calculateCasedCrossing, convertCarrierToEN, calculateCarrierCheck, convertCarrierCheckToUserUnits } from './casing';
+export type { CarrierEN, CarrierCheckEN } from './casing';
+
+// Code profiles and B31.8 location class design factors
+export { CODE_PROFILES, getCodeProfile, getCodeLabel, getCodeDescription, LOCATION_CLASS_LABELS, ROAD_CROSSING_LABELS, getB318DesignFactor, getB318TemperatureFactor, resolveB318DesignFactors } from './codeProfiles';
+export type { CodeProfile, CodeCheckType, B318DesignFactors } from './codeProfiles';
+
+// CSA Z662 limit states
+export { resolveZ662DesignFactors, calculateZ662Check, getZ662LocationFactor, getZ662TemperatureFactor, z662HoopLimitPct, z662RestrainedLimitPct, Z662_LOCATION_CLASS_LABELS, Z662_CROSSING_LABELS } from './csaZ662';
+export type { Z662DesignFactors, Z662StressCases } from './csaZ662';
+
+// Layered soil profile
+export { convertSoilProfileToEN, resolveSoilProfile, soilWeightToDepth, convertSoilProfileToUserUnits } from './soilProfile';
+export type { SoilLayerEN, SoilProfileEN, SoilProfileResultEN } from './soilProfile';
+
+// Pavement load spread
+export { convertPavementToEN, transferThroughPavement, convertPavementToUserUnits, calculateRadiusOfRelativeStiffness, kei } from './pavement';
+export type { PavementEN, PavementTransferEN } from './pavement';
+
+// Pressure contour on the pipe plane
+export { calculatePressureMap, convertPressureMapToUserUnits, exportPressureMapToCSV } from './pressureMap';
+export type { FootprintEN, PressureMapEN } from './pressureMap';
+
+// Beam on elastic foundation along the pipe
+export { calculateBeamProfile, convertBeamProfileToUserUnits } from './beamOnElasticFoundation';
+export type { BeamProfileEN, BeamProfilePointEN } from './beamOnElasticFoundation';
+
+// Rectangle (Newmark) kernel convergence
+export { calculateKernelConvergence, convertKernelConvergenceToUserUnits } from './kernelConvergence';
+export type { KernelConvergenceEN, KernelConvergenceRowEN } from './kernelConvergence';
+
+// Vertical stress kernels
+export { PRESSURE_KERNELS, getPressureKernel, newmarkCornerInfluence } from './pressureKernels';
+export type { PressureKernelProfile } from './pressureKernels';
+
+// Batch calculations
+export { parseBatchJSON, parseBatchCSV, runBatch, summarizeBatch, exportBatchToCSV, SURFACE_LOAD_TYPES } from './batch';
+export type { BatchResultRow, BatchSummary } from './batch';
+
+// Crossing register import
+export { parseRegister, autoMapColumns, readRegisterRow, parseCrossingType, REGISTER_FIELDS, IGNORE_COLUMN, FORM_FIELD_COLUMN } from './crossingRegister';
+export type { CrossingType, RegisterField, RegisterTable, RegisterRow } from './crossingRegister';
+
+// Engine input validation
+export { surfaceLoadInputsSchema, validateSurfaceLoadInputs, formatInputIssues } from './inputSchemas';
+export type { InputIssue } from './inputSchemas';
+
+// Engineering sanity checks (types in ./types)
+export { validatePipelineInputs, checkPipelineInputs, InputValidationError, D_T_RANGE, MIN_COVER_FT } from './inputValidation';
+export type { InputValidation } from './inputValidation';
@@ -0,0 +1,317 @@
+/**
+ * Engine input schemas - runtime validation of SurfaceLoadInputs
+ * Mirrors the *Inputs interfaces (optional fields stay optional, unknown fields
+ * are rejected) plus the cross-field rules the engines rely on, so callers
+ * outside the UI get field-level issues instead of an engine exception.
+ * The calculator form schemas are built from the same sub-schemas.
+ */
+
+import { z } from 'zod';
+import { SurfaceLoadInputs } from './computeSurfaceLoad';
+
+export interface InputIssue {
+  path: string; // dotted path into the request, e.g. inputs.pipeWT
+  message: string;
+}
+
+// Sub-schemas and field groups shared with the calculator form schemas
+// (components/formSchemas), so the API and the forms accept the same values
+
+export const soilTypeSchema = z.enum(['FINE', 'COARSE_WITH_FINES', 'COARSE_NO_FINES']);
+export const compactionSchema = z.union([z.literal(80), z.literal(85), z.literal(90), z.literal(95), z.literal(100)]);
+export const beddingAngleSchema = z.union([z.literal(0), z.literal(30), z.literal(60), z.literal(90), z.literal(120), z.literal(150), z.literal(180)]);
+
+export const positionSearchSchema = z.object({
+  enabled: z.boolean(),
+  alongPipeRange: z.number().min(0),
+  acrossPipeRange: z.number().min(0),
+  stepSize: z.number().positive(),
+}).strict();
+
+export const groundwaterSchema = z.object({
+  enabled: z.boolean(),
+  waterTableDepth: z.number().min(0),
+  saturatedSoilDensity: z.number().positive(),
+}).strict();
+
+export const soilProfileSchema = z.object({
+  enabled: z.boolean(),
+  loadSpread: z.boolean(),
+  layers: z.array(z.object({
+    name: z.string(),
+    thickness: z.number().positive(),
+    unitWeight: z.number().positive(),
+    soilType: soilTypeSchema,
+    compaction: compactionSchema,
+  }).strict()).min(1),
+}).strict();
+
+export const pavementSchema = z.object({
+  enabled: z.boolean(),
+  slabThickness: z.number().min(0),
+  slabModulus: z.number().positive(),
+  subgradeReaction: z.number().positive(),
+  asphaltThickness: z.number().min(0),
+  asphaltModulus: z.number().positive(),
+  baseThickness: z.number().min(0),
+  baseModulus: z.number().positive(),
+  subgradeModulus: z.number().positive(),
+}).strict();
+
+export const materialSchema = z.object({
+  enabled: z.boolean(),
+  preset: z.enum(['CARBON_STEEL', 'STAINLESS_STEEL', 'DUCTILE_IRON', 'CUSTOM']),
+  elasticModulus: z.number().positive(),
+  poissonRatio: z.number().min(0).lt(0.5),
+  thermalExpansion: z.number().positive(),
+  designTemperature: z.number().optional(),
+  smysDerating: z.array(z.object({
+    temperature: z.number(),
+    factor: z.number().positive().max(1),
+  }).strict()).optional(),
+}).strict();
+
+export const plasticPipeSchema = z.object({
+  enabled: z.boolean(),
+  material: z.enum(['PE4710', 'PE3608', 'PE2708', 'PVC1120', 'CUSTOM']),
+  dimensionRatio: z.number().gt(2),
+  shortTermModulus: z.number().positive(),
+  longTermModulus: z.number().positive(),
+  hydrostaticDesignBasis: z.number().positive(),
+  designFactor: z.number().positive().max(1),
+  allowableCompressiveStress: z.number().positive(),
+  density: z.number().positive(),
+}).strict();
+
+export const casingSchema = z.object({
+  enabled: z.boolean(),
+  casingOD: z.number().positive(),
+  casingWT: z.number().positive(),
+  casingSMYS: z.number().positive(),
+  spacerSpacing: z.number().positive(),
+  contentDensity: z.number().min(0),
+}).strict();
+
+export const b318DesignSchema = z.object({
+  locationClass: z.enum(['CLASS_1_DIV_1', 'CLASS_1_DIV_2', 'CLASS_2', 'CLASS_3', 'CLASS_4']),
+  roadCrossing: z.enum(['NONE', 'PRIVATE_ROAD', 'UNIMPROVED_PUBLIC_ROAD', 'HARD_SURFACE_ROAD_OR_RAILROAD']),
+  designTemperature: z.number(),
+  jointFactor: z.number().positive().max(1).optional(),
+}).strict();
+
+export const z662DesignSchema = z.object({
+  locationClass: z.enum(['CLASS_1', 'CLASS_2', 'CLASS_3', 'CLASS_4']),
+  crossing: z.enum(['NONE', 'ROAD', 'RAILWAY']),
+  designTemperature: z.number(),
+  jointFactor: z.number().positive().max(1).optional(),
+}).strict();
+
+export const userDefinedLimitsSchema = z.object({
+  hoopLimitPct: z.number().min(0).max(100),
+  longLimitPct: z.number().min(0).max(100),
+  equivLimitPct: z.number().min(0).max(100),
+}).strict();
+
+// System, pipe, soil and E' fields of every engine
+export const pipeAndSoilFields = {
+  calculationName: z.string().min(1, 'Name is required'),
+  unitsSystem: z.enum(['EN', 'SI']),
+  pipeOD: z.number().positive(),
+  pipeWT: z.number().positive(),
+  MOP: z.number().min(0),
+  SMYS: z.number().positive(),
+  deltaT: z.number(),
+  soilDensity: z.number().positive(),
+  depthCover: z.number().min(0),
+  beddingAngleDeg: beddingAngleSchema,
+  soilLoadMethod: z.enum(['PRISM', 'TRAP_DOOR']),
+  frictionAngleDeg: z.number().min(0).max(90),
+  soilCohesion: z.number().min(0),
+  kr: z.number().positive(),
+  ePrimeMethod: z.enum(['LOOKUP', 'USER_DEFINED']),
+  ePrimeUserDefined: z.number().positive().optional(),
+  soilType: soilTypeSchema.optional(),
+  compaction: compactionSchema.optional(),
+};
+
+// Pavement type and impact factor class of the road vehicle engines
+export const roadVehicleFields = {
+  pavementType: z.enum(['RIGID', 'FLEXIBLE']),
+  vehicleClass: z.enum(['HIGHWAY', 'FARM', 'TRACK', 'RAIL']),
+};
+
+// Analysis parameters; the forms always set them, the engines default all but the first two
+export const analysisFields = {
+  equivStressMethod: z.enum(['TRESCA', 'VON_MISES']),
+  codeCheck: z.enum(['B31_4', 'B31_8', 'CSA_Z662', 'USER_DEFINED']),
+  longSeamWeldType: z.enum(['SEAMLESS', 'ERW', 'SAW', 'FLASH_WELDED', 'FURNACE_BUTT_WELDED']),
+  longitudinalBendingMethod: z.enum(['EQUIVALENT_LOAD', 'BOUSSINESQ_PROFILE']),
+  pressureKernel: z.enum(['BOUSSINESQ_POINT', 'NEWMARK_RECTANGLE', 'WESTERGAARD_POINT', 'LOAD_SPREAD_2_1', 'LOAD_SPREAD_1_1']),
+  deflectionLagFactor: z.number().min(1).max(2),
+  deflectionLimitPct: z.number().positive(),
+  internalVacuum: z.number().min(0),
+};
+
+// Strict VBA parity: only the engines ported from a legacy spreadsheet sheet (track, axle and grid loads)
+export const vbaParityFields = {
+  strictVbaParity: z.boolean(),
+};
+
+// Optional sections of every engine (road vehicles add the pavement)
+export const optionalSectionFields = {
+  groundwater: groundwaterSchema.optional(),
+  material: materialSchema.optional(),
+  plasticPipe: plasticPipeSchema.optional(),
+  casing: casingSchema.optional(),
+  b318Design: b318DesignSchema.optional(),
+  z662Design: z662DesignSchema.optional(),
+  soilProfile: soilProfileSchema.optional(),
+};
+
+const commonInputs = z.object({
+  ...pipeAndSoilFields,
+  ...optionalSectionFields,
+  userDefinedLimits: userDefinedLimitsSchema.optional(),
+}).merge(z.object(analysisFields).partial().required({ equivStressMethod: true, codeCheck: true }));
+
+// Road vehicles: pavement and impact factor class
+const roadInputs = commonInputs.extend({
+  ...roadVehicleFields,
+  pavement: pavementSchema.optional(),
+});
+
+// Road vehicles with a legacy spreadsheet sheet
+const legacySheetInputs = roadInputs.merge(z.object(vbaParityFields).partial());
+
+const axleTire = (n: number) => ({
+  [`axle${n}TireWidth`]: z.number().positive(),
+  [`axle${n}TireLength`]: z.number().positive(),
+  [`axle${n}TirePressure`]: z.number().positive().optional(),
+  [`axle${n}TiresPerAxle`]: z.number().int().positive().optional(),
+});
+
+export const trackInputsSchema = legacySheetInputs.extend({
+  trackSeparation: z.number().positive(),
+  trackLength: z.number().positive(),
+  trackVehicleWeight: z.number().positive(),
+  trackWidth: z.number().positive(),
+}).strict();
+
+export const twoAxleInputsSchema = legacySheetInputs.extend({
+  axleSpacing: z.number().positive(),
+  axle1Load: z.number().positive(),
+  axle2Load: z.number().positive(),
+  contactPatchMode: z.enum(['MANUAL', 'AUTO']),
+  ...axleTire(1),
+  ...axleTire(2),
+  axleWidth: z.number().positive(),
+  laneOffset: z.number(),
+  positionSearch: positionSearchSchema.optional(),
+}).strict();
+
+export const threeAxleInputsSchema = legacySheetInputs.extend({
+  axle1To2Spacing: z.number().positive(),
+  axle2To3Spacing: z.number().positive(),
+  axle1Load: z.number().positive(),
+  axle2Load: z.number().positive(),
+  axle3Load: z.number().positive(),
+  contactPatchMode: z.enum(['MANUAL', 'AUTO']),
+  ...axleTire(1),
+  ...axleTire(2),
+  ...axleTire(3),
+  axleWidth: z.number().positive(),
+  laneOffset: z.number(),
+  positionSearch: positionSearchSchema.optional(),
+}).strict();
+
+export const gridInputsSchema = legacySheetInputs.extend({
+  loadType: z.enum(['TOTAL_LOAD', 'UNIFORM_PRESSURE']),
+  totalLoad: z.number().positive().optional(),
+  uniformPressure: z.number().positive().optional(),
+  gridLength: z.number().positive(),
+  gridWidth: z.number().positive(),
+  gridOffsetX: z.number(),
+  gridOffsetY: z.number(),
+  gridDivisionsX: z.number().int().positive(),
+  gridDivisionsY: z.number().int().positive(),
+}).strict();
+
+export const multiAxleInputsSchema = roadInputs.extend({
+  vehicleName: z.string().optional(),
+  axles: z.array(z.object({
+    spacing: z.number().min(0),
+    load: z.number().positive(),
+    tiresPerAxle: z.number().int().positive(),
+    tireWidth: z.number().positive(),
+    tireLength: z.number().positive().optional(),
+    tirePressure: z.number().positive().optional(),
+    dualSpacing: z.number().positive().optional(),
+  }).strict()).min(1),
+  contactPatchMode: z.enum(['MANUAL', 'AUTO']),
+  axleWidth: z.number().positive(),
+  laneOffset: z.number(),
+  positionSearch: positionSearchSchema.optional(),
+}).strict();
+
+export const railInputsSchema = commonInputs.extend({
+  cooperRating: z.number().positive(),
+  numberOfAxles: z.number().int().positive(),
+  axleSpacing: z.number().positive(),
+  tieLength: z.number().positive(),
+  tieWidth: z.number().positive(),
+  tieSpacing: z.number().positive(),
+  trackOffset: z.number(),
+  positionSearch: positionSearchSchema.optional(),
+}).strict();
+
+/**
+ * SurfaceLoadInputs ({ type, inputs }) with the cross-field rules:
+ * user-defined E' and code limits need their values, grid loads need the
+ * load for the selected load type
+ */
+export const surfaceLoadInputsSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('TRACK'), inputs: trackInputsSchema }).strict(),
+  z.object({ type: z.literal('2_AXLE'), inputs: twoAxleInputsSchema }).strict(),
+  z.object({ type: z.literal('3_AXLE'), inputs: threeAxleInputsSchema }).strict(),
+  z.object({ type: z.literal('GRID'), inputs: gridInputsSchema }).strict(),
+  z.object({ type: z.literal('MULTI_AXLE'), inputs: multiAxleInputsSchema }).strict(),
+  z.object({ type: z.literal('RAIL'), inputs: railInputsSchema }).strict(),
+]).superRefine((config, ctx) => {
+  const { inputs } = config;
+  const missing = (field: string, message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['inputs', field], message });
+
+  if (inputs.ePrimeMethod === 'USER_DEFINED' && inputs.ePrimeUserDefined === undefined) {
+    missing('ePrimeUserDefined', 'Required when ePrimeMethod is USER_DEFINED');
+  }
+  if (inputs.codeCheck === 'USER_DEFINED' && !inputs.userDefinedLimits) {
+    missing('userDefinedLimits', 'Required when codeCheck is USER_DEFINED');
+  }
+  if (config.type === 'GRID') {
+    if (config.inputs.loadType === 'TOTAL_LOAD' && config.inputs.totalLoad === undefined) {
+      missing('totalLoad', 'Required when loadType is TOTAL_LOAD');
+    }
+    if (config.inputs.loadType === 'UNIFORM_PRESSURE' && config.inputs.uniformPressure === undefined) {
+      missing('uniformPressure', 'Required when loadType is UNIFORM_PRESSURE');
+    }
+  }
+});
+
+/**
+ * Validate a { type, inputs } configuration
+ */
+export function validateSurfaceLoadInputs(value: unknown): { config: SurfaceLoadInputs | null; issues: InputIssue[] } {
+  const parsed = surfaceLoadInputsSchema.safeParse(value);
+  return parsed.success
+    ? { config: parsed.data as SurfaceLoadInputs, issues: [] }
+    : { config: null, issues: formatInputIssues(parsed.error) };
+}
+
+/**
+ * Zod issues as dotted-path issues
+ */
+export function formatInputIssues(error: z.ZodError, prefix: (string | number)[] = []): InputIssue[] {
+  return error.issues.map(issue => ({
+    path: [...prefix, ...issue.path].join('.'),
+    message: issue.message,
+  }));
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { InputValidationError, validatePipelineInputs } from './inputValidation';
+import { computeSurfaceLoad } from './computeSurfaceLoad';
+import trackSuite from './golden/cases/track.json';
+import gridSuite from './golden/cases/grid.json';
+import { PipelineTrackInputs } from './types';
+import { GridLoadInputs } from './typesGrid';
+import { MultiAxleInputs } from './typesMultiAxle';
+import { RailInputs } from './typesRail';
+
+const track = trackSuite.cases[0].inputs as PipelineTrackInputs;
+const grid = gridSuite.cases[0].inputs as GridLoadInputs;
+const codes = (messages: { code: string; field?: string }[]) => messages.map(m => `${m.code}:${m.field}`);
+
+describe('validatePipelineInputs', () => {
+  it('accepts the baseline fixture inputs', () => {
+    expect(validatePipelineInputs(track)).toEqual({ errors: [], warnings: [] });
+  });
+
+  it('reports inputs the engines cannot evaluate', () => {
+    const { errors } = validatePipelineInputs({
+      ...track,
+      pipeWT: track.pipeOD / 2,
+      depthCover: 0,
+      trackVehicleWeight: -1000,
+      deltaT: NaN,
+    });
+    expect(codes(errors)).toEqual(['WALL_THICKNESS:pipeWT', 'NOT_A_NUMBER:deltaT', 'NOT_POSITIVE:depthCover', 'NEGATIVE:trackVehicleWeight']);
+  });
+
+  it('needs a friction angle only when the Trap Door soil load applies', () => {
+    const trapDoor = { ...track, soilLoadMethod: 'TRAP_DOOR' as const, frictionAngleDeg: 0 };
+    expect(codes(validatePipelineInputs({ ...trapDoor, depthCover: 20 }).errors)).toEqual(['FRICTION_ANGLE:frictionAngleDeg']);
+
+    const shallow = validatePipelineInputs({ ...trapDoor, depthCover: 1.5 });
+    expect(shallow.errors).toEqual([]);
+    expect(codes(shallow.warnings)).toEqual(['SHALLOW_COVER:depthCover', 'TRAP_DOOR_FALLBACK:soilLoadMethod']);
+  });
+
+  it('warns about D/t and E\' outside the method range', () => {
+    const { warnings } = validatePipelineInputs({ ...track, pipeWT: 0.25, compaction: 75 as never });
+    expect(codes(warnings)).toEqual(['D_T_RANGE:pipeWT', 'E_PRIME_EXTRAPOLATION:compaction']);
+  });
+
+  it('checks grid loads against the load type, in SI too', () => {
+    const { totalLoad: _, ...noLoad } = grid;
+    expect(codes(validatePipelineInputs(noLoad as GridLoadInputs).errors)).toEqual(['MISSING_VALUE:totalLoad']);
+    const si = validatePipelineInputs({ ...grid, unitsSystem: 'SI', pipeOD: 914, pipeWT: 12.7, depthCover: 0.5 });
+    expect(codes(si.warnings)).toEqual(['SHALLOW_COVER:depthCover']);
+  });
+
+  it('rejects pavement thicker than the cover or with a non-positive stiffness', () => {
+    const pavement = { enabled: true, slabThickness: 10, slabModulus: 4000000, subgradeReaction: 200, asphaltThickness: 4, asphaltModulus: 450000, baseThickness: 8, baseModulus: 30000, subgradeModulus: 0 };
+    const rigid = validatePipelineInputs({ ...track, pavementType: 'RIGID', depthCover: 0.75, pavement });
+    expect(codes(rigid.errors)).toEqual(['PAVEMENT_THICKNESS:pavement.slabThickness']);
+    const flexible = validatePipelineInputs({ ...track, pavementType: 'FLEXIBLE', pavement });
+    expect(codes(flexible.errors)).toEqual(['NOT_POSITIVE:pavement.subgradeModulus']);
+  });
+
+  it('needs an entered tire contact length unless AUTO mode derives it', () => {
+    const steer = { spacing: 0, load: 12000, tiresPerAxle: 2, tireWidth: 10, tirePressure: 100 };
+    const drive = { spacing: 14, load: 34000, tiresPerAxle: 4, tireWidth: 10, tireLength: 0 };
+    const multiAxle = { ...track, axles: [steer, drive], contactPatchMode: 'MANUAL', axleWidth: 72, laneOffset: 0 } as MultiAxleInputs;
+    expect(codes(validatePipelineInputs(multiAxle).errors)).toEqual(['MISSING_VALUE:axles.0.tireLength', 'NOT_POSITIVE:axles.1.tireLength']);
+    expect(codes(validatePipelineInputs({ ...multiAxle, contactPatchMode: 'AUTO' }).errors)).toEqual(['NOT_POSITIVE:axles.1.tireLength']);
+  });
+
+  it('needs positive tie dimensions for rail loading', () => {
+    const rail = { ...track, cooperRating: 80, numberOfAxles: 4, axleSpacing: 5, tieLength: 102, tieWidth: 0, tieSpacing: -19.5, trackOffset: 0 } as RailInputs;
+    expect(codes(validatePipelineInputs(rail).errors)).toEqual(['NOT_POSITIVE:tieWidth', 'NOT_POSITIVE:tieSpacing']);
+  });
+});
+
+describe('engine validation', () => {
+  it('throws structured errors and attaches warnings to the results', () => {
+    expect(() => computeSurfaceLoad({ type: 'TRACK', inputs: { ...track, pipeWT: 20 } })).toThrow(InputValidationError);
+    expect(() => computeSurfaceLoad({ type: 'GRID', inputs: { ...grid, totalLoad: 0 } })).toThrow(
+      expect.objectContaining({ errors: [expect.objectContaining({ severity: 'error', field: 'totalLoad', code: 'NOT_POSITIVE' })] })
+    );
+
+    const { results } = computeSurfaceLoad({ type: 'TRACK', inputs: { ...track, depthCover: 1.5 } });
+    expect(codes(results.warnings)).toEqual(['SHALLOW_COVER:depthCover']);
+    expect(Number.isFinite(results.stresses.atMOP.hoop.high)).toBe(true);
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Engine input validation and engineering sanity checks
+ * Errors are inputs the engines cannot evaluate (they would return NaN or
+ * Infinity); warnings are inputs the engines evaluate outside the range of the
+ * method or with a substitution. Values are checked in the user units of the inputs.
+ */
+
+import { PipelineTrackInputs, ValidationCode, ValidationMessage } from './types';
+import { TwoAxleInputs } from './types2Axle';
+import { ThreeAxleInputs } from './types3Axle';
+import { GridLoadInputs } from './typesGrid';
+import { MultiAxleInputs } from './typesMultiAxle';
+import { RailInputs } from './typesRail';
+import { E_PRIME_TABLE } from './ePrimeLookup';
+import { depthConv, lengthConv, tempConv } from './unitConversions';
+
+type PipelineInputs = PipelineTrackInputs | TwoAxleInputs | ThreeAxleInputs | GridLoadInputs | MultiAxleInputs | RailInputs;
+
+export interface InputValidation {
+  errors: ValidationMessage[];
+  warnings: ValidationMessage[];
+}
+
+/**
+ * Thrown by the engines for inputs with validation errors
+ */
+export class InputValidationError extends Error {
+  readonly errors: ValidationMessage[];
+
+  constructor(errors: ValidationMessage[]) {
+    super(errors.map(e => e.message).join('; '));
+    this.name = 'InputValidationError';
+    this.errors = errors;
+  }
+}
+
+// Range of D/t covered by the API RP 1102 design charts (tw/D = 0.01 to 0.08)
+export const D_T_RANGE = { min: 12.5, max: 100 };
+// Minimum cover of the surface load method (ft)
+export const MIN_COVER_FT = 2;
+// Trap Door arching needs H >= 2.5 D (sharedCalculations.calculateSoilLoad)
+const TRAP_DOOR_MIN_H_D = 2.5;
+// Highest temperature of the B31.8 temperature derating table (°F)
+const B318_MAX_TEMPERATURE_F = 450;
+// Highest temperature of the Z662 temperature factor table (°C)
+const Z662_MAX_TEMPERATURE_C = 230;
+
+const E_PRIME_COMPACTIONS = Object.keys(E_PRIME_TABLE.FINE).map(Number);
+
+// Surface load magnitudes by engine (missing fields belong to other engines)
+const LOAD_FIELDS = ['trackVehicleWeight', 'axle1Load', 'axle2Load', 'axle3Load', 'totalLoad', 'uniformPressure', 'cooperRating'];
+
+/**
+ * Check engine inputs for values the engines cannot evaluate and for
+ * conditions outside the range of the methods
+ */
+export function validatePipelineInputs(inputs: PipelineInputs): InputValidation {
+  const errors: ValidationMessage[] = [];
+  const warnings: ValidationMessage[] = [];
+  const error = (code: ValidationCode, field: string, message: string) => errors.push({ severity: 'error', code, field, message });
+  const warning = (code: ValidationCode, field: string, message: string) => warnings.push({ severity: 'warning', code, field, message });
+  const values = inputs as unknown as Record<string, unknown>;
+  const isSI = inputs.unitsSystem === 'SI';
+
+  const requireNumber = (field: string, value: unknown, positive: boolean): boolean => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      error('NOT_A_NUMBER', field, `${field} must be a number`);
+      return false;
+    }
+    if (positive && value <= 0) {
+      error('NOT_POSITIVE', field, `${field} must be greater than zero`);
+      return false;
+    }
+    if (!positive && value < 0) {
+      error('NEGATIVE', field, `${field} must not be negative`);
+      return false;
+    }
+    return true;
+  };
+
+  // Pipe
+  const pipeOK = requireNumber('pipeOD', inputs.pipeOD, true) && requireNumber('pipeWT', inputs.pipeWT, true);
+  if (pipeOK && inputs.pipeWT >= inputs.pipeOD / 2) {
+    error('WALL_THICKNESS', 'pipeWT', `Wall thickness ${inputs.pipeWT} must be less than half the OD (${inputs.pipeOD / 2})`);
+  } else if (pipeOK && !inputs.plasticPipe?.enabled && !inputs.casing?.enabled) {
+    const Dt = inputs.pipeOD / inputs.pipeWT;
+    if (Dt < D_T_RANGE.min || Dt > D_T_RANGE.max) {
+      warning('D_T_RANGE', 'pipeWT', `D/t = ${Dt.toFixed(1)} is outside ${D_T_RANGE.min}–${D_T_RANGE.max}, the range of the API RP 1102 design charts`);
+    }
+  }
+  requireNumber('SMYS', inputs.SMYS, true);
+  requireNumber('MOP', inputs.MOP, false);
+  if (typeof inputs.deltaT !== 'number' || !Number.isFinite(inputs.deltaT)) {
+    error('NOT_A_NUMBER', 'deltaT', 'deltaT must be a number');
+  }
+
+  // Soil
+  requireNumber('soilDensity', inputs.soilDensity, true);
+  const coverOK = requireNumber('depthCover', inputs.depthCover, true);
+  const H_ft = isSI ? depthConv.toEN(inputs.depthCover) : inputs.depthCover;
+  const D_in = isSI ? lengthConv.toEN(inputs.pipeOD) : inputs.pipeOD;
+  if (coverOK && H_ft < MIN_COVER_FT) {
+    const minCover = isSI ? `${depthConv.toSI(MIN_COVER_FT).toFixed(2)} m` : `${MIN_COVER_FT} ft`;
+    warning('SHALLOW_COVER', 'depthCover', `Cover is below ${minCover}; the Boussinesq load spread and impact factors are not intended for such shallow cover`);
+  }
+
+  if (inputs.soilLoadMethod === 'TRAP_DOOR' && coverOK && pipeOK) {
+    if (H_ft * 12 < TRAP_DOOR_MIN_H_D * D_in) {
+      warning('TRAP_DOOR_FALLBACK', 'soilLoadMethod', `Trap Door needs cover of at least ${TRAP_DOOR_MIN_H_D} x OD; the Prism soil load is used`);
+    } else {
+      if (!(inputs.frictionAngleDeg > 0 && inputs.frictionAngleDeg < 90)) {
+        error('FRICTION_ANGLE', 'frictionAngleDeg', 'Friction angle must be between 0° and 90° for the Trap Door soil load');
+      }
+      requireNumber('soilCohesion', inputs.soilCohesion, false);
+    }
+  }
+
+  // E'
+  if (inputs.ePrimeMethod === 'USER_DEFINED') {
+    if (inputs.ePrimeUserDefined === undefined || inputs.ePrimeUserDefined === null) {
+      error('MISSING_VALUE', 'ePrimeUserDefined', "A user-defined E' is required");
+    } else {
+      requireNumber('ePrimeUserDefined', inputs.ePrimeUserDefined, true);
+    }
+  } else if (!inputs.soilProfile?.enabled && inputs.compaction !== undefined
+    && (inputs.compaction < E_PRIME_COMPACTIONS[0] || inputs.compaction > E_PRIME_COMPACTIONS[E_PRIME_COMPACTIONS.length - 1])) {
+    warning('E_PRIME_EXTRAPOLATION', 'compaction', `Compaction ${inputs.compaction}% is outside the E' table (${E_PRIME_COMPACTIONS[0]}–${E_PRIME_COMPACTIONS[E_PRIME_COMPACTIONS.length - 1]}%); E' is extrapolated from the nearest level`);
+  }
+
+  // Pipe material
+  if (inputs.material?.enabled) {
+    const { material } = inputs;
+    requireNumber('material.elasticModulus', material.elasticModulus, true);
+    requireNumber('material.thermalExpansion', material.thermalExpansion, true);
+    if (!(material.poissonRatio >= 0 && material.poissonRatio < 0.5)) {
+      error('POISSON_RATIO', 'material.poissonRatio', "Poisson's ratio must be at least 0 and less than 0.5");
+    }
+    // Below the table the first factor is the room temperature SMYS; above it the derating is unknown
+    const maxTemperature = material.smysDerating?.[material.smysDerating.length - 1]?.temperature;
+    if (maxTemperature !== undefined && material.designTemperature > maxTemperature) {
+      warning('DERATING_RANGE', 'material.designTemperature', `Design temperature ${material.designTemperature}° is above the SMYS derating table (${maxTemperature}°); the last factor is used`);
+    }
+  }
+
+  // Flexible plastic pipe (the wall follows from the dimension ratio)
+  if (inputs.plasticPipe?.enabled) {
+    const { plasticPipe } = inputs;
+    if (requireNumber('plasticPipe.dimensionRatio', plasticPipe.dimensionRatio, true) && plasticPipe.dimensionRatio <= 2) {
+      error('DIMENSION_RATIO', 'plasticPipe.dimensionRatio', `Dimension ratio ${plasticPipe.dimensionRatio} must be greater than 2 (OD / wall thickness)`);
+    }
+    requireNumber('plasticPipe.shortTermModulus', plasticPipe.shortTermModulus, true);
+    requireNumber('plasticPipe.longTermModulus', plasticPipe.longTermModulus, true);
+    requireNumber('plasticPipe.hydrostaticDesignBasis', plasticPipe.hydrostaticDesignBasis, true);
+    requireNumber('plasticPipe.allowableCompressiveStress', plasticPipe.allowableCompressiveStress, true);
+    requireNumber('plasticPipe.density', plasticPipe.density, true);
+    if (!(plasticPipe.designFactor > 0 && plasticPipe.designFactor <= 1)) {
+      error('DESIGN_FACTOR', 'plasticPipe.designFactor', 'Design factor must be greater than 0 and at most 1');
+    }
+  }
+
+  // Casing (the carrier is the pipe above)
+  if (inputs.casing?.enabled) {
+    const { casing } = inputs;
+    const casingOK = requireNumber('casing.casingOD', casing.casingOD, true) && requireNumber('casing.casingWT', casing.casingWT, true);
+    if (casingOK && casing.casingWT >= casing.casingOD / 2) {
+      error('WALL_THICKNESS', 'casing.casingWT', `Casing wall thickness ${casing.casingWT} must be less than half the casing OD (${casing.casingOD / 2})`);
+    } else if (casingOK && pipeOK && casing.casingOD - 2 * casing.casingWT <= inputs.pipeOD) {
+      error('CASING_CLEARANCE', 'casing.casingOD', `Casing bore ${casing.casingOD - 2 * casing.casingWT} must be larger than the carrier OD (${inputs.pipeOD})`);
+    }
+    requireNumber('casing.casingSMYS', casing.casingSMYS, true);
+    requireNumber('casing.spacerSpacing', casing.spacerSpacing, true);
+    requireNumber('casing.contentDensity', casing.contentDensity, false);
+    if (inputs.plasticPipe?.enabled) {
+      error('CASED_PLASTIC_CARRIER', 'casing.enabled', 'Cased crossings are checked for steel carriers only; turn off the plastic pipe mode');
+    }
+  }
+
+  // B31.8 location class
+  if (inputs.codeCheck === 'B31_8' && inputs.b318Design) {
+    const { b318Design } = inputs;
+    const maxTemperature = isSI ? Math.round(tempConv.toSI(B318_MAX_TEMPERATURE_F)) : B318_MAX_TEMPERATURE_F;
+    if (typeof b318Design.designTemperature !== 'number' || !Number.isFinite(b318Design.designTemperature)) {
+      error('NOT_A_NUMBER', 'b318Design.designTemperature', 'b318Design.designTemperature must be a number');
+    } else if (b318Design.designTemperature > maxTemperature) {
+      warning('DERATING_RANGE', 'b318Design.designTemperature', `Design temperature ${b318Design.designTemperature}° is above the B31.8 temperature derating table (${maxTemperature}°); the last factor is used`);
+    }
+    if (b318Design.jointFactor !== undefined && !(b318Design.jointFactor > 0 && b318Design.jointFactor <= 1)) {
+      error('DESIGN_FACTOR', 'b318Design.jointFactor', 'Longitudinal joint factor must be greater than 0 and at most 1');
+    }
+  }
+
+  // CSA Z662 location class
+  if (inputs.codeCheck === 'CSA_Z662' && inputs.z662Design) {
+    const { z662Design } = inputs;
+    const maxTemperature = isSI ? Z662_MAX_TEMPERATURE_C : Math.round(tempConv.toEN(Z662_MAX_TEMPERATURE_C));
+    if (typeof z662Design.designTemperature !== 'number' || !Number.isFinite(z662Design.designTemperature)) {
+      error('NOT_A_NUMBER', 'z662Design.designTemperature', 'z662Design.designTemperature must be a number');
+    } else if (z662Design.designTemperature > maxTemperature) {
+      warning('DERATING_RANGE', 'z662Design.designTemperature', `Design temperature ${z662Design.designTemperature}° is above the Z662 temperature factor table (${maxTemperature}°); the last factor is used`);
+    }
+    if (z662Design.jointFactor !== undefined && !(z662Design.jointFactor > 0 && z662Design.jointFactor <= 1)) {
+      error('DESIGN_FACTOR', 'z662Design.jointFactor', 'Joint factor must be greater than 0 and at most 1');
+    }
+  }
+
+  // Pavement (road vehicles; the pavement layers are part of the cover)
+  if ('pavement' in inputs && inputs.pavement?.enabled) {
+    const { pavement } = inputs;
+    const rigid = inputs.pavementType === 'RIGID';
+    let thicknessOK: boolean;
+    if (rigid) {
+      thicknessOK = requireNumber('pavement.slabThickness', pavement.slabThickness, true);
+      requireNumber('pavement.slabModulus', pavement.slabModulus, true);
+      requireNumber('pavement.subgradeReaction', pavement.subgradeReaction, true);
+    } else {
+      thicknessOK = requireNumber('pavement.asphaltThickness', pavement.asphaltThickness, false)
+        && requireNumber('pavement.baseThickness', pavement.baseThickness, false);
+      requireNumber('pavement.asphaltModulus', pavement.asphaltModulus, false);
+      requireNumber('pavement.baseModulus', pavement.baseModulus, false);
+      requireNumber('pavement.subgradeModulus', pavement.subgradeModulus, true);
+    }
+    const thickness = rigid ? pavement.slabThickness : pavement.asphaltThickness + pavement.baseThickness;
+    const thickness_in = isSI ? lengthConv.toEN(thickness) : thickness;
+    if (thicknessOK && coverOK && thickness_in / 12 >= H_ft) {
+      error('PAVEMENT_THICKNESS', rigid ? 'pavement.slabThickness' : 'pavement.baseThickness', `Pavement thickness ${thickness} ${isSI ? 'mm' : 'in'} must be less than the depth of cover`);
+    }
+  }
+
+  // Surface loads
+  for (const field of LOAD_FIELDS) {
+    if (values[field] !== undefined) requireNumber(field, values[field], false);
+  }
+  if ('loadType' in inputs) {
+    const field = inputs.loadType === 'UNIFORM_PRESSURE' ? 'uniformPressure' : 'totalLoad';
+    if (values[field] === undefined || values[field] === null) {
+      error('MISSING_VALUE', field, `${field} is required for the ${inputs.loadType} load type`);
+    } else if (values[field] === 0) {
+      error('NOT_POSITIVE', field, `${field} must be greater than zero`);
+    }
+  }
+  if ('axles' in inputs) {
+    if (!inputs.axles?.length) {
+      error('MISSING_VALUE', 'axles', 'At least one axle is required');
+    }
+    inputs.axles?.forEach((axle, i) => {
+      requireNumber(`axles.${i}.load`, axle.load, false);
+      // The contact length is derived from the tire pressure in AUTO mode, otherwise entered
+      if (inputs.contactPatchMode === 'AUTO' && axle.tirePressure && axle.tiresPerAxle) return;
+      if (axle.tireLength === undefined || axle.tireLength === null) {
+        error('MISSING_VALUE', `axles.${i}.tireLength`, `Tire contact length is required for axle ${i + 1}`);
+      } else {
+        requireNumber(`axles.${i}.tireLength`, axle.tireLength, true);
+      }
+    });
+  }
+  if ('tieLength' in inputs) {
+    for (const field of ['tieLength', 'tieWidth', 'tieSpacing'] as const) {
+      requireNumber(field, inputs[field], true);
+    }
+  }
+
+  return { errors, warnings };
+}
+
+/**
+ * Validate engine inputs, throwing InputValidationError on errors
+ * @returns the warnings to attach to the results
+ */
+export function checkPipelineInputs(inputs: PipelineInputs): ValidationMessage[] {
+  const { errors, warnings } = validatePipelineInputs(inputs);
+  if (errors.length > 0) {
+    throw new InputValidationError(errors);
+  }
+  return warnings;
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { calculateKernelConvergence, convertKernelConvergenceToUserUnits } from './kernelConvergence';
+import { newmarkCornerInfluence } from './pressureKernels';
+
+// 12 in x 12 in contact area at 100 psi, 12 in above the pipe
+const pad = [{ x: 0, y: 0, load_lb: 14400, width_in: 12, length_in: 12 }];
+const points = [
+  { x: 0, y: 0, label: 'Under the pad' },
+  { x: 24, y: 0, label: 'Beside the pad' },
+];
+
+describe('kernel convergence', () => {
+  it('converges on the exact rectangle pressure as the elements are split', () => {
+    const result = calculateKernelConvergence(pad, points, 1);
+
+    // Exact: four 6 x 6 corners at z = 12 (m = n = 0.5); one lump: 3P / (2π z²)
+    expect(result.location).toBe('Under the pad');
+    expect(result.exactPressure_psi).toBeCloseTo(4 * newmarkCornerInfluence(0.5, 0.5) * 100, 10);
+    expect(result.rows[0].lumpedPressure_psi).toBeCloseTo(3 * 14400 / (2 * Math.PI * 144), 10);
+    expect(result.rows.map(r => r.maxCellSize_in)).toEqual([12, 6, 3, 1.5]);
+
+    const errors = result.rows.map(r => Math.abs(r.errorPct));
+    errors.slice(1).forEach((error, i) => expect(error).toBeLessThan(errors[i]));
+    expect(errors[3]).toBeLessThan(1);
+  });
+
+  it('converts to SI', () => {
+    const result = calculateKernelConvergence(pad, points, 1);
+    const si = convertKernelConvergenceToUserUnits(result, 'SI');
+
+    expect(si.rows[1].maxCellSize).toBeCloseTo(152.4, 10);
+    expect(si.exactPressure).toBeCloseTo(result.exactPressure_psi / 0.1450378911491, 8);
+    expect(si.rows[1].errorPct).toBe(result.rows[1].errorPct);
+  });
+});
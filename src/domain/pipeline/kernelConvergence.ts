@@ -0,0 +1,92 @@
+/**
+ * Convergence of the lumped point-load Boussinesq result against the exact
+ * rectangle (Newmark) integration
+ * Each load element is split into N x N point loads (N = 1 is the engine's own
+ * 6-inch lumping) and compared with the closed-form pressure from the same
+ * uniformly loaded rectangles. The lumping error grows as the depth approaches
+ * the cell size.
+ * All values in ENGLISH units (inches, ft, psi)
+ */
+
+import { KernelConvergenceSummary, UnitsSystem } from './types';
+import { PointLoad, MeasurementPoint, calculateBoussinesqFromPoints, generateRectangularGrid } from './boussinesqHelpers';
+import { convertPressureToUserUnits } from './sharedCalculations';
+
+const SUBDIVISIONS = [1, 2, 4, 8];
+
+export interface KernelConvergenceRowEN {
+  subdivisions: number; // point loads per element side
+  maxCellSize_in: number;
+  lumpedPressure_psi: number;
+  errorPct: number; // (lumped - exact) / exact
+}
+
+export interface KernelConvergenceEN {
+  location: string;
+  exactPressure_psi: number;
+  rows: KernelConvergenceRowEN[];
+}
+
+/**
+ * Split every load element into n x n point loads over its tributary rectangle
+ */
+function subdivideLoads(pointLoads: PointLoad[], n: number): PointLoad[] {
+  return pointLoads.flatMap(p => {
+    if (n === 1 || !p.width_in || !p.length_in) return [p];
+    return generateRectangularGrid(p.x, p.y, p.width_in, p.length_in, p.load_lb, Math.max(p.width_in, p.length_in) / n);
+  });
+}
+
+/**
+ * Compare the lumped point loads with the exact rectangle solution
+ * at the measurement point governed by the exact solution
+ * @param pointLoads - load elements with their tributary rectangles (inches)
+ * @param measurementPoints - candidate points on the pipe
+ * @param H_ft - depth below the loads (ft)
+ */
+export function calculateKernelConvergence(
+  pointLoads: PointLoad[],
+  measurementPoints: MeasurementPoint[],
+  H_ft: number
+): KernelConvergenceEN {
+  const exact = calculateBoussinesqFromPoints(pointLoads, measurementPoints, H_ft, 'NEWMARK_RECTANGLE');
+  const governing = measurementPoints[exact.pressures_psi.indexOf(exact.maxPressure_psi)];
+
+  const rows = SUBDIVISIONS.map(subdivisions => {
+    const loads = subdivideLoads(pointLoads, subdivisions);
+    const lumpedPressure_psi = calculateBoussinesqFromPoints(loads, [governing], H_ft, 'BOUSSINESQ_POINT').maxPressure_psi;
+    return {
+      subdivisions,
+      maxCellSize_in: Math.max(...loads.map(p => Math.max(p.width_in ?? 0, p.length_in ?? 0))),
+      lumpedPressure_psi,
+      errorPct: exact.maxPressure_psi > 0 ? (lumpedPressure_psi - exact.maxPressure_psi) / exact.maxPressure_psi * 100 : 0,
+    };
+  });
+
+  return {
+    location: governing.label,
+    exactPressure_psi: exact.maxPressure_psi,
+    rows,
+  };
+}
+
+/**
+ * Convert the convergence report to user units (in or mm, psi or kPa)
+ */
+export function convertKernelConvergenceToUserUnits(
+  result: KernelConvergenceEN,
+  unitsSystem: UnitsSystem
+): KernelConvergenceSummary {
+  const isMetric = unitsSystem === 'SI';
+
+  return {
+    location: result.location,
+    exactPressure: convertPressureToUserUnits(result.exactPressure_psi, unitsSystem),
+    rows: result.rows.map(row => ({
+      subdivisions: row.subdivisions,
+      maxCellSize: isMetric ? row.maxCellSize_in * 25.4 : row.maxCellSize_in,
+      lumpedPressure: convertPressureToUserUnits(row.lumpedPressure_psi, unitsSystem),
+      errorPct: row.errorPct,
+    })),
+  };
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { CARBON_STEEL, getMaterialPresetInputs, interpolateSmysFactor, resolveMaterial } from './materials';
+import { calculateTrackVehicleVBA } from './vbaTrackEngine';
+import { calculate2AxleVehicleVBA } from './vba2AxleEngine';
+import { calculateGridLoadVBA } from './vbaGridEngine';
+import { validatePipelineInputs } from './inputValidation';
+import { gridInputs, trackInputs as track, twoAxleInputs } from './testFixtures';
+
+describe('pipe material', () => {
+  it('keeps the carbon steel results when the material is carbon steel', () => {
+    const base = calculateTrackVehicleVBA(track);
+    const steel = calculateTrackVehicleVBA({ ...track, material: getMaterialPresetInputs('CARBON_STEEL', 'EN') });
+
+    expect(base.material).toBeUndefined();
+    expect(steel.stresses).toEqual(base.stresses);
+    expect(steel.deflectionCheck).toEqual(base.deflectionCheck);
+    expect(steel.material).toMatchObject({ preset: 'CARBON_STEEL', smysFactor: 1, effectiveSMYS: track.SMYS });
+  });
+
+  it('uses the material properties in the stress, deflection and buckling checks', () => {
+    const base = calculateTrackVehicleVBA(track);
+    const stainless = calculateTrackVehicleVBA({ ...track, material: getMaterialPresetInputs('STAINLESS_STEEL', 'EN') });
+
+    expect(stainless.stresses.atMOP.longitudinal.components.thermal).toBeCloseTo(28.3e6 * 9.6e-6 * track.deltaT, 6);
+    expect(stainless.stresses.atMOP.hoop.high).not.toBeCloseTo(base.stresses.atMOP.hoop.high, 0);
+    expect(stainless.deflectionCheck.deflectionPct).toBeGreaterThan(base.deflectionCheck.deflectionPct);
+    expect(stainless.bucklingCheck.allowablePressure).toBeLessThan(base.bucklingCheck.allowablePressure);
+  });
+
+  it('derates SMYS at the design temperature', () => {
+    const material = { ...getMaterialPresetInputs('STAINLESS_STEEL', 'EN'), designTemperature: 250 };
+    const results = calculateTrackVehicleVBA({ ...track, material });
+
+    expect(results.material.smysFactor).toBeCloseTo(0.79, 6);
+    expect(results.material.effectiveSMYS).toBeCloseTo(track.SMYS * 0.79, 3);
+    expect(interpolateSmysFactor(material.smysDerating, 20)).toBe(1);
+    expect(interpolateSmysFactor(material.smysDerating, 900)).toBe(0.587);
+    expect(validatePipelineInputs({ ...track, material: { ...material, designTemperature: 900 } }).warnings.map(w => w.code)).toEqual(['DERATING_RANGE']);
+  });
+
+  it('applies the material in the axle and grid engines', () => {
+    const stainless = getMaterialPresetInputs('STAINLESS_STEEL', 'EN');
+    const twoAxle = calculate2AxleVehicleVBA(twoAxleInputs);
+    const twoAxleStainless = calculate2AxleVehicleVBA({ ...twoAxleInputs, material: { ...stainless, designTemperature: 250 } });
+
+    expect(twoAxleStainless.material).toMatchObject({ preset: 'STAINLESS_STEEL', effectiveSMYS: twoAxleInputs.SMYS * 0.79 });
+    expect(twoAxleStainless.stresses.atMOP.longitudinal.components.thermal).toBeCloseTo(28.3e6 * 9.6e-6 * twoAxleInputs.deltaT, 6);
+    expect(twoAxleStainless.deflectionCheck.deflectionPct).toBeGreaterThan(twoAxle.deflectionCheck.deflectionPct);
+
+    const grid = calculateGridLoadVBA(gridInputs);
+    const gridSteel = calculateGridLoadVBA({ ...gridInputs, material: getMaterialPresetInputs('CARBON_STEEL', 'EN') });
+    expect(gridSteel.stresses).toEqual(grid.stresses);
+    expect(calculateGridLoadVBA({ ...gridInputs, material: stainless }).bucklingCheck.allowablePressure).toBeLessThan(grid.bucklingCheck.allowablePressure);
+  });
+
+  it('converts metric material inputs to the English properties', () => {
+    const metric = resolveMaterial(getMaterialPresetInputs('STAINLESS_STEEL', 'SI'), 'SI');
+    expect(metric.E_psi / 28.3e6).toBeCloseTo(1, 4);
+    expect(metric.alpha_perF * 1e6).toBeCloseTo(9.6, 2);
+    expect(resolveMaterial(undefined, 'SI')).toBe(CARBON_STEEL);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Pipe material properties
+ * Elastic modulus, Poisson's ratio and thermal expansion used by the stress,
+ * deflection, buckling and beam calculations, and an optional SMYS derating
+ * with metal temperature. Without a material the pipe is the carbon steel of
+ * the VBA spreadsheet.
+ * All values in ENGLISH units (psi, 1/°F, °F)
+ */
+
+import { MaterialDeratingPoint, MaterialInputs, MaterialPreset, MaterialSummary, UnitsSystem } from './types';
+import { expansionConv, smysConv, tempConv } from './unitConversions';
+
+export interface MaterialEN {
+  preset: MaterialPreset;
+  E_psi: number;
+  poisson: number;
+  alpha_perF: number;
+  smysFactor: number; // SMYS derating at the design temperature
+}
+
+export interface MaterialPresetDefinition {
+  preset: MaterialPreset;
+  label: string;
+  elasticModulus_psi: number;
+  poissonRatio: number;
+  thermalExpansion_perF: number; // 10⁻⁶/°F
+  smysDerating?: MaterialDeratingPoint[]; // °F
+}
+
+export const MATERIAL_PRESETS: MaterialPresetDefinition[] = [
+  { preset: 'CARBON_STEEL', label: 'Carbon steel', elasticModulus_psi: 30e6, poissonRatio: 0.3, thermalExpansion_perF: 6.5 },
+  {
+    preset: 'STAINLESS_STEEL',
+    label: 'Austenitic stainless steel (304)',
+    elasticModulus_psi: 28.3e6,
+    poissonRatio: 0.3,
+    thermalExpansion_perF: 9.6,
+    // Yield strength ratios of ASME BPVC II-D Table Y-1 (SA-312 TP304)
+    smysDerating: [
+      { temperature: 100, factor: 1 },
+      { temperature: 200, factor: 0.833 },
+      { temperature: 300, factor: 0.747 },
+      { temperature: 400, factor: 0.69 },
+      { temperature: 500, factor: 0.647 },
+      { temperature: 600, factor: 0.613 },
+      { temperature: 700, factor: 0.587 },
+    ],
+  },
+  { preset: 'DUCTILE_IRON', label: 'Ductile iron', elasticModulus_psi: 24e6, poissonRatio: 0.28, thermalExpansion_perF: 5.8 },
+  { preset: 'CUSTOM', label: 'Custom', elasticModulus_psi: 30e6, poissonRatio: 0.3, thermalExpansion_perF: 6.5 },
+];
+
+// Constants of the VBA spreadsheet
+export const CARBON_STEEL: MaterialEN = {
+  preset: 'CARBON_STEEL',
+  E_psi: 30e6,
+  poisson: 0.3,
+  alpha_perF: 6.5e-6,
+  smysFactor: 1,
+};
+
+export function getMaterialPreset(preset: MaterialPreset): MaterialPresetDefinition {
+  return MATERIAL_PRESETS.find(m => m.preset === preset) ?? MATERIAL_PRESETS[0];
+}
+
+/**
+ * Preset properties as material inputs in the given units
+ */
+export function getMaterialPresetInputs(preset: MaterialPreset, unitsSystem: UnitsSystem): MaterialInputs {
+  const definition = getMaterialPreset(preset);
+  const isMetric = unitsSystem === 'SI';
+
+  return {
+    enabled: true,
+    preset,
+    elasticModulus: isMetric ? Math.round(smysConv.toSI(definition.elasticModulus_psi)) : definition.elasticModulus_psi,
+    poissonRatio: definition.poissonRatio,
+    thermalExpansion: isMetric ? Math.round(expansionConv.toSI(definition.thermalExpansion_perF) * 100) / 100 : definition.thermalExpansion_perF,
+    smysDerating: definition.smysDerating?.map(p => ({
+      temperature: isMetric ? Math.round(tempConv.toSI(p.temperature)) : p.temperature,
+      factor: p.factor,
+    })),
+  };
+}
+
+/**
+ * SMYS factor at a temperature, linear between the derating points and held
+ * at the end points outside them
+ */
+export function interpolateSmysFactor(derating: MaterialDeratingPoint[] | undefined, temperature: number | undefined): number {
+  if (!derating?.length || temperature === undefined) return 1;
+  if (temperature <= derating[0].temperature) return derating[0].factor;
+
+  for (let i = 1; i < derating.length; i++) {
+    const lower = derating[i - 1];
+    const upper = derating[i];
+    if (temperature <= upper.temperature) {
+      return lower.factor + (upper.factor - lower.factor) * (temperature - lower.temperature) / (upper.temperature - lower.temperature);
+    }
+  }
+  return derating[derating.length - 1].factor;
+}
+
+/**
+ * Whether the material SMYS is derated at its design temperature, in which case
+ * the code temperature factors are taken as 1 so the temperature is not counted twice
+ */
+export function isMaterialDerated(material: MaterialInputs | undefined): boolean {
+  return !!material?.enabled && interpolateSmysFactor(material.smysDerating, material.designTemperature) < 1;
+}
+
+/**
+ * Convert material inputs to ENGLISH units (carbon steel when omitted or disabled)
+ */
+export function resolveMaterial(material: MaterialInputs | undefined, unitsSystem: UnitsSystem): MaterialEN {
+  if (!material?.enabled) return CARBON_STEEL;
+  const isMetric = unitsSystem === 'SI';
+
+  return {
+    preset: material.preset,
+    E_psi: isMetric ? smysConv.toEN(material.elasticModulus) : material.elasticModulus, // MPa -> psi
+    poisson: material.poissonRatio,
+    alpha_perF: (isMetric ? expansionConv.toEN(material.thermalExpansion) : material.thermalExpansion) * 1e-6, // 10⁻⁶/°C -> 1/°F
+    smysFactor: interpolateSmysFactor(material.smysDerating, material.designTemperature),
+  };
+}
+
+/**
+ * Material used by the engine in user units (undefined for the default carbon steel)
+ */
+export function convertMaterialToUserUnits(
+  material: MaterialEN,
+  SMYS_psi: number,
+  unitsSystem: UnitsSystem
+): MaterialSummary | undefined {
+  if (material === CARBON_STEEL) return undefined;
+  const isMetric = unitsSystem === 'SI';
+
+  return {
+    preset: material.preset,
+    label: getMaterialPreset(material.preset).label,
+    elasticModulus: isMetric ? smysConv.toSI(material.E_psi) : material.E_psi,
+    poissonRatio: material.poisson,
+    thermalExpansion: (isMetric ? expansionConv.toSI(material.alpha_perF) : material.alpha_perF) * 1e6,
+    smysFactor: material.smysFactor,
+    effectiveSMYS: isMetric ? smysConv.toSI(SMYS_psi) : SMYS_psi,
+  };
+}
@@ -2,7 +2,8 @@
  * Shared pass/fail calculation helper for all pipeline calculation engines
  */
 import { CodeCheck, LimitsUsed } from './types';
-import { getCodeProfile, getCodeLabel } from './codeProfiles';
+import { getCodeProfile, getCodeLabel, B318DesignFactors } from './codeProfiles';
+import { Z662DesignFactors, z662HoopLimitPct, z662RestrainedLimitPct } from './csaZ662';
 
 export interface PassFailResult {
   hoopPass: boolean;
@@ -18,7 +19,10 @@ export function calculatePassFail(
   userDefinedLimits: { hoopLimitPct: number; longLimitPct: number; equivLimitPct: number } | undefined,
   hoopMaxPct: number,
   longMaxPct: number,
-  equivMaxPct: number
+  equivMaxPct: number,
+  SMYS_psi: number,
+  b318?: B318DesignFactors, // B31.8 location class: hoop limit F × E × T
+  z662?: Z662DesignFactors // CSA Z662: hoop limit F × L × J × T, restrained limits 0.90 × T
 ): PassFailResult {
   const profile = codeCheck === 'USER_DEFINED' ? null : getCodeProfile(codeCheck);
   
@@ -30,6 +34,14 @@ export function calculatePassFail(
     hoopLimit = profile.hoopLimitPct;
     longLimit = profile.longLimitPct;
     equivLimit = profile.equivLimitPct;
+    if (codeCheck === 'B31_8' && b318) {
+      hoopLimit = b318.designFactor * b318.jointFactor * b318.temperatureFactor * 100;
+    }
+    if (codeCheck === 'CSA_Z662' && z662) {
+      hoopLimit = z662HoopLimitPct(z662);
+      longLimit = z662RestrainedLimitPct(z662);
+      equivLimit = z662RestrainedLimitPct(z662);
+    }
   } else {
     hoopLimit = userDefinedLimits?.hoopLimitPct || 90;
     longLimit = userDefinedLimits?.longLimitPct || 90;
@@ -48,6 +60,7 @@ export function calculatePassFail(
     longLimitPct: longLimit,
     equivLimitPct: equivLimit,
     usesSustainedLongCheck: profile?.usesSustainedLongCheck || false,
+    ...(codeCheck === 'B31_8' && b318 ? b318 : {}),
   };
   
   return {
@@ -55,7 +68,29 @@ export function calculatePassFail(
     longPass,
     equivPass,
     overallPass,
-    allowableStress_psi: 0, // Placeholder
+    allowableStress_psi: hoopLimit / 100 * SMYS_psi,
     limitsUsed,
   };
 }
+
+/**
+ * B31.4 sustained longitudinal stress |internal + thermal ± earth| (psi)
+ * Zero for codes without the sustained check
+ */
+export function calculateSustainedLongStress(
+  codeCheck: CodeCheck,
+  longInt_MOP_psi: number,
+  longSoil_Zero_psi: number,
+  longSoil_MOP_psi: number,
+  longTherm_psi: number
+): number {
+  if (!getCodeProfile(codeCheck)?.usesSustainedLongCheck) {
+    return 0;
+  }
+  return Math.max(
+    Math.abs(longSoil_Zero_psi + longTherm_psi),
+    Math.abs(-longSoil_Zero_psi + longTherm_psi),
+    Math.abs(longInt_MOP_psi + longSoil_MOP_psi + longTherm_psi),
+    Math.abs(longInt_MOP_psi - longSoil_MOP_psi + longTherm_psi)
+  );
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { calculateRadiusOfRelativeStiffness, convertPavementToEN, kei, PavementEN, transferThroughPavement } from './pavement';
+
+const wheel = [{ x: 0, y: 0, load_lb: 16000 }];
+const layers: PavementEN = {
+  slabThickness_in: 10,
+  slabModulus_psi: 4000000,
+  subgradeReaction_pci: 200,
+  asphaltThickness_in: 4,
+  asphaltModulus_psi: 450000,
+  baseThickness_in: 8,
+  baseModulus_psi: 30000,
+  subgradeModulus_psi: 7500,
+};
+
+describe('pavement load spread', () => {
+  it('evaluates kei against the tabulated values', () => {
+    expect(kei(0)).toBe(-Math.PI / 4);
+    expect(kei(1e-9)).toBeCloseTo(-Math.PI / 4, 12);
+    // Abramowitz & Stegun Table 9.12
+    expect(kei(1)).toBeCloseTo(-0.4949946365, 9);
+    expect(kei(2)).toBeCloseTo(-0.2024000678, 9);
+  });
+
+  it('spreads a wheel through a rigid slab and conserves the load', () => {
+    // ℓ = (4e6 x 10³ / (12 x (1 - 0.15²) x 200))^(1/4) = 36.1354 in
+    expect(calculateRadiusOfRelativeStiffness(10, 4000000, 200)).toBeCloseTo(36.1354, 4);
+
+    const rigid = transferThroughPavement(wheel, 6, 'RIGID', layers);
+    const l_in = 36.13541;
+    expect(rigid.radiusOfRelativeStiffness_in).toBeCloseTo(l_in, 4);
+    expect(rigid.depth_ft).toBeCloseTo(6 - 10 / 12, 12);
+    expect(rigid.pointLoads.reduce((sum, p) => sum + p.load_lb, 0)).toBeCloseTo(16000, 6);
+    // Grid cells are centred off the load, below the q(0) = P / (8 ℓ²) peak
+    expect(rigid.peakSubgradePressure_psi).toBeLessThan(16000 / (8 * l_in * l_in));
+    expect(rigid.peakSubgradePressure_psi).toBeGreaterThan(0.8 * 16000 / (8 * l_in * l_in));
+  });
+
+  it('moves a flexible pavement to its Odemark equivalent depth', () => {
+    // he = 0.9 x (4 x (450000 / 7500)^(1/3) + 8 x (30000 / 7500)^(1/3)) = 25.5228 in
+    const flexible = transferThroughPavement(wheel, 6, 'FLEXIBLE', layers);
+
+    expect(flexible.equivalentThickness_in).toBeCloseTo(25.5228, 4);
+    expect(flexible.depth_ft).toBeCloseTo(6 - 12 / 12 + 25.5228 / 12, 4);
+    expect(flexible.pointLoads).toBe(wheel);
+  });
+
+  it('converts SI layers', () => {
+    const si = convertPavementToEN({
+      enabled: true,
+      slabThickness: 254,
+      slabModulus: 27579,
+      subgradeReaction: 54.29,
+      asphaltThickness: 0,
+      asphaltModulus: 0,
+      baseThickness: 0,
+      baseModulus: 0,
+      subgradeModulus: 50,
+    }, 'SI');
+
+    expect(si?.slabThickness_in).toBeCloseTo(10, 6);
+    expect(si?.slabModulus_psi).toBeCloseTo(4000000, -2);
+    expect(si?.subgradeReaction_pci).toBeCloseTo(200, 0);
+    expect(convertPavementToEN(undefined, 'EN')).toBeUndefined();
+  });
+});
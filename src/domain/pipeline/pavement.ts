@@ -0,0 +1,234 @@
+/**
+ * Pavement load spread
+ * Surface loads are carried through the pavement to the top of subgrade before
+ * the Boussinesq solution is applied below it.
+ *   Rigid (Westergaard slab on a dense liquid subgrade, interior loading):
+ *     ℓ = (E h³ / (12 (1 - μ²) k))^(1/4)
+ *     q(r) = -P / (2π ℓ²) * kei(r / ℓ)        q(0) = P / (8 ℓ²)
+ *   Flexible (Odemark equivalent thickness):
+ *     he = 0.9 * Σ hi * (Ei / Esg)^(1/3)       Boussinesq depth = H - Σ hi + he
+ * All values in ENGLISH units (inches, ft, lb, psi, pci)
+ */
+
+import { PavementInputs, PavementSummary, PavementType, UnitsSystem } from './types';
+import { PointLoad } from './boussinesqHelpers';
+import { convertPressureToUserUnits } from './sharedCalculations';
+import { lengthConv, smysConv, subgradeReactionConv } from './unitConversions';
+
+const CONCRETE_POISSON = 0.15;
+const ODEMARK_CORRECTION = 0.9;
+const EULER_GAMMA = 0.5772156649015329;
+
+// Subgrade pressure is spread out to this many radii of relative stiffness
+// (kei changes sign at r ≈ 3.9 ℓ; beyond it the slab lifts off the subgrade)
+const RIGID_SPREAD_RADII = 4;
+
+export interface PavementEN {
+  slabThickness_in: number;
+  slabModulus_psi: number;
+  subgradeReaction_pci: number;
+  asphaltThickness_in: number;
+  asphaltModulus_psi: number;
+  baseThickness_in: number;
+  baseModulus_psi: number;
+  subgradeModulus_psi: number;
+}
+
+export interface PavementTransferEN {
+  pavementType: PavementType;
+  thickness_in: number;
+  radiusOfRelativeStiffness_in: number | null;
+  equivalentThickness_in: number | null;
+  depth_ft: number; // depth used for Boussinesq below the pavement
+  peakSubgradePressure_psi: number | null; // rigid only
+  pointLoads: PointLoad[]; // loads on the top of subgrade
+}
+
+/**
+ * Convert pavement inputs to ENGLISH units (undefined when disabled)
+ */
+export function convertPavementToEN(
+  pavement: PavementInputs | undefined,
+  unitsSystem: UnitsSystem
+): PavementEN | undefined {
+  if (!pavement?.enabled) return undefined;
+  const isMetric = unitsSystem === 'SI';
+  const inch = (value: number) => isMetric ? lengthConv.toEN(value) : value; // mm -> in
+  const psi = (value: number) => isMetric ? smysConv.toEN(value) : value; // MPa -> psi
+
+  return {
+    slabThickness_in: inch(pavement.slabThickness),
+    slabModulus_psi: psi(pavement.slabModulus),
+    subgradeReaction_pci: isMetric ? subgradeReactionConv.toEN(pavement.subgradeReaction) : pavement.subgradeReaction, // MPa/m -> pci
+    asphaltThickness_in: inch(pavement.asphaltThickness),
+    asphaltModulus_psi: psi(pavement.asphaltModulus),
+    baseThickness_in: inch(pavement.baseThickness),
+    baseModulus_psi: psi(pavement.baseModulus),
+    subgradeModulus_psi: psi(pavement.subgradeModulus),
+  };
+}
+
+/**
+ * Kelvin function kei(x) (power series, accurate for the x <= 4 used here)
+ */
+export function kei(x: number): number {
+  if (x <= 0) return -Math.PI / 4;
+
+  const y = x * x / 4;
+  let ber = 0;
+  let bei = 0;
+  let series = 0;
+  let term = 1; // y^n / (n!)²
+  let digamma = -EULER_GAMMA; // ψ(n + 1)
+
+  for (let n = 0; n < 100; n++) {
+    if (n > 0) {
+      term *= y / (n * n);
+      digamma += 1 / n;
+    }
+    const sign = Math.floor(n / 2) % 2 === 0 ? 1 : -1;
+    if (n % 2 === 0) {
+      ber += sign * term;
+    } else {
+      bei += sign * term;
+      series += sign * digamma * term;
+    }
+    if (n > 2 && term * Math.max(1, Math.abs(digamma)) < 1e-16) break;
+  }
+
+  return -Math.log(x / 2) * bei - Math.PI / 4 * ber + series;
+}
+
+/**
+ * Radius of relative stiffness of a concrete slab on a dense liquid subgrade (in)
+ */
+export function calculateRadiusOfRelativeStiffness(
+  slabThickness_in: number,
+  slabModulus_psi: number,
+  subgradeReaction_pci: number
+): number {
+  const D = slabModulus_psi * Math.pow(slabThickness_in, 3) / (12 * (1 - CONCRETE_POISSON * CONCRETE_POISSON));
+  return Math.pow(D / subgradeReaction_pci, 0.25);
+}
+
+/**
+ * Spread surface point loads through a rigid slab onto a grid of subgrade loads
+ * Each surface load P produces the Westergaard subgrade reaction q(r); the grid is
+ * rescaled so the total load is conserved after truncation at RIGID_SPREAD_RADII * ℓ
+ */
+function spreadThroughRigidSlab(
+  pointLoads: PointLoad[],
+  l_in: number
+): { pointLoads: PointLoad[]; peakPressure_psi: number } {
+  const extent_in = RIGID_SPREAD_RADII * l_in;
+  const spacing_in = Math.max(6, l_in / 4);
+  const cellArea_in2 = spacing_in * spacing_in;
+
+  const minX = Math.min(...pointLoads.map(p => p.x)) - extent_in;
+  const maxX = Math.max(...pointLoads.map(p => p.x)) + extent_in;
+  const minY = Math.min(...pointLoads.map(p => p.y)) - extent_in;
+  const maxY = Math.max(...pointLoads.map(p => p.y)) + extent_in;
+  const nX = Math.ceil((maxX - minX) / spacing_in);
+  const nY = Math.ceil((maxY - minY) / spacing_in);
+
+  const subgradeLoads: PointLoad[] = [];
+  let spreadTotal_lb = 0;
+  let peakPressure_psi = 0;
+
+  for (let iX = 0; iX < nX; iX++) {
+    for (let iY = 0; iY < nY; iY++) {
+      const x = minX + (iX + 0.5) * spacing_in;
+      const y = minY + (iY + 0.5) * spacing_in;
+
+      let q_psi = 0;
+      for (const pl of pointLoads) {
+        const r = Math.sqrt((x - pl.x) * (x - pl.x) + (y - pl.y) * (y - pl.y));
+        if (r > extent_in) continue;
+        q_psi += -pl.load_lb / (2 * Math.PI * l_in * l_in) * kei(r / l_in);
+      }
+
+      if (q_psi > 0) {
+        subgradeLoads.push({ x, y, load_lb: q_psi * cellArea_in2, width_in: spacing_in, length_in: spacing_in });
+        spreadTotal_lb += q_psi * cellArea_in2;
+        peakPressure_psi = Math.max(peakPressure_psi, q_psi);
+      }
+    }
+  }
+
+  const totalLoad_lb = pointLoads.reduce((sum, p) => sum + p.load_lb, 0);
+  const scale = spreadTotal_lb > 0 ? totalLoad_lb / spreadTotal_lb : 1;
+
+  return {
+    pointLoads: subgradeLoads.map(p => ({ ...p, load_lb: p.load_lb * scale })),
+    peakPressure_psi: peakPressure_psi * scale,
+  };
+}
+
+/**
+ * Carry surface loads through the pavement to the top of subgrade
+ * (layer thicknesses and moduli are checked by validatePipelineInputs)
+ * @param pointLoads - surface point loads
+ * @param depth_ft - depth of the pipe crown below grade used for the live load
+ * @param pavementType - rigid or flexible
+ * @param pavement - pavement layers
+ */
+export function transferThroughPavement(
+  pointLoads: PointLoad[],
+  depth_ft: number,
+  pavementType: PavementType,
+  pavement: PavementEN
+): PavementTransferEN {
+  if (pavementType === 'RIGID') {
+    const thickness_in = pavement.slabThickness_in;
+    const l_in = calculateRadiusOfRelativeStiffness(thickness_in, pavement.slabModulus_psi, pavement.subgradeReaction_pci);
+    const spread = spreadThroughRigidSlab(pointLoads, l_in);
+
+    return {
+      pavementType,
+      thickness_in,
+      radiusOfRelativeStiffness_in: l_in,
+      equivalentThickness_in: null,
+      depth_ft: depth_ft - thickness_in / 12,
+      peakSubgradePressure_psi: spread.peakPressure_psi,
+      pointLoads: spread.pointLoads,
+    };
+  }
+
+  const thickness_in = pavement.asphaltThickness_in + pavement.baseThickness_in;
+  const equivalentThickness_in = ODEMARK_CORRECTION * (
+    pavement.asphaltThickness_in * Math.cbrt(pavement.asphaltModulus_psi / pavement.subgradeModulus_psi) +
+    pavement.baseThickness_in * Math.cbrt(pavement.baseModulus_psi / pavement.subgradeModulus_psi)
+  );
+
+  return {
+    pavementType,
+    thickness_in,
+    radiusOfRelativeStiffness_in: null,
+    equivalentThickness_in,
+    depth_ft: depth_ft - thickness_in / 12 + equivalentThickness_in / 12,
+    peakSubgradePressure_psi: null,
+    pointLoads,
+  };
+}
+
+/**
+ * Convert the pavement transfer to user units (in or mm, ft or m, psi or kPa)
+ */
+export function convertPavementToUserUnits(
+  transfer: PavementTransferEN,
+  unitsSystem: UnitsSystem
+): PavementSummary {
+  const isMetric = unitsSystem === 'SI';
+  const length = (in_: number) => isMetric ? in_ * 25.4 : in_;
+
+  return {
+    pavementType: transfer.pavementType,
+    thickness: length(transfer.thickness_in),
+    radiusOfRelativeStiffness: transfer.radiusOfRelativeStiffness_in !== null ? length(transfer.radiusOfRelativeStiffness_in) : null,
+    equivalentThickness: transfer.equivalentThickness_in !== null ? length(transfer.equivalentThickness_in) : null,
+    loadDepth: isMetric ? transfer.depth_ft / 3.280839895013 : transfer.depth_ft,
+    peakSubgradePressure: transfer.peakSubgradePressure_psi !== null
+      ? convertPressureToUserUnits(transfer.peakSubgradePressure_psi, unitsSystem)
+      : null,
+  };
+}
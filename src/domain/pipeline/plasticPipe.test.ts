@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { calculatePlasticPipeCheck, convertPlasticPipeToEN, getPlasticPipePresetInputs, plasticDeflectionLimitPct } from './plasticPipe';
+import { calculateTrackVehicleVBA } from './vbaTrackEngine';
+import { calculate2AxleVehicleVBA } from './vba2AxleEngine';
+import { calculateGridLoadVBA } from './vbaGridEngine';
+import { validatePipelineInputs } from './inputValidation';
+import { gridInputs, trackInputs, twoAxleInputs } from './testFixtures';
+
+const track = { ...trackInputs, MOP: 100 };
+const pe4710 = convertPlasticPipeToEN(getPlasticPipePresetInputs('PE4710', 'EN'), 'EN');
+
+describe('flexible plastic pipe', () => {
+  it('computes deflection, wall compression, pressure and buckling from the dimension ratio', () => {
+    const check = calculatePlasticPipeCheck(pe4710, 5, 2, 100, 0, 12, 6, 0.1, 1000, 1.5);
+
+    expect(check.t_in).toBeCloseTo(12 / 11, 9);
+    expect(check.deflectionPct).toBeCloseTo(1.06905, 4);
+    expect(check.deflectionLimitPct).toBe(4);
+    expect(check.wallCompressive_psi).toBeCloseTo(38.5, 9);
+    expect(check.pressureHoop_psi).toBeCloseTo(500, 9);
+    expect(check.hydrostaticDesignStress_psi).toBeCloseTo(512, 9);
+    expect(check.bucklingPressure_psi).toBeCloseTo(94.2017, 3);
+    expect(check.applied_psi).toBe(7);
+    expect(check.pass).toBe(true);
+
+    expect(calculatePlasticPipeCheck(pe4710, 5, 2, 110, 0, 12, 6, 0.1, 1000).pressurePass).toBe(false);
+    expect(calculatePlasticPipeCheck(pe4710, 5, 2, 100, 100, 12, 6, 0.1, 1000).bucklingPass).toBe(false);
+  });
+
+  it('uses the PPI deflection limits by DR for PE and 5% for PVC', () => {
+    expect(plasticDeflectionLimitPct('PE4710', 7)).toBe(2.5);
+    expect(plasticDeflectionLimitPct('PE4710', 17)).toBe(6);
+    expect(plasticDeflectionLimitPct('PE3608', 32.5)).toBe(7.5);
+    expect(plasticDeflectionLimitPct('PVC1120', 18)).toBe(5);
+  });
+
+  it('replaces the steel checks in the engine results', () => {
+    const steel = calculateTrackVehicleVBA(track);
+    const plastic = calculateTrackVehicleVBA({ ...track, plasticPipe: getPlasticPipePresetInputs('PE4710', 'EN') });
+
+    expect(steel.plasticPipeCheck).toBeUndefined();
+    expect(plastic.plasticPipeCheck).toMatchObject({ material: 'PE4710', dimensionRatio: 11 });
+    expect(plastic.plasticPipeCheck.wallThickness).toBeCloseTo(36 / 11, 9);
+    expect(plastic.passFailSummary.overallPass).toBe(plastic.plasticPipeCheck.pass);
+
+    const metric = convertPlasticPipeToEN(getPlasticPipePresetInputs('PE4710', 'SI'), 'SI');
+    expect(metric.ELong_psi / 29000).toBeCloseTo(1, 3);
+    expect(metric.density_pcf / 59.6).toBeCloseTo(1, 2);
+  });
+
+  it('replaces the steel checks in the axle and grid engines', () => {
+    const plasticPipe = getPlasticPipePresetInputs('PE4710', 'EN');
+    const twoAxle = calculate2AxleVehicleVBA({ ...twoAxleInputs, MOP: 100, plasticPipe });
+    const grid = calculateGridLoadVBA({ ...gridInputs, MOP: 100, plasticPipe });
+
+    for (const result of [twoAxle, grid]) {
+      expect(result.plasticPipeCheck).toMatchObject({ material: 'PE4710', dimensionRatio: 11 });
+      expect(result.plasticPipeCheck.pressureHoopStress).toBeCloseTo(100 * (11 - 1) / 2, 9);
+      expect(result.passFailSummary.overallPass).toBe(result.plasticPipeCheck.pass);
+    }
+    // The 100 kip mat over the crown loads the pipe more than the truck
+    expect(grid.plasticPipeCheck.deflectionPct).toBeGreaterThan(twoAxle.plasticPipeCheck.deflectionPct);
+  });
+
+  it('rejects a dimension ratio that leaves no bore', () => {
+    const plasticPipe = { ...getPlasticPipePresetInputs('PE4710', 'EN'), dimensionRatio: 2, designFactor: 1.2 };
+    expect(validatePipelineInputs({ ...track, plasticPipe }).errors.map(e => e.code)).toEqual(['DIMENSION_RATIO', 'DESIGN_FACTOR']);
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Flexible plastic (PE and PVC) pipe checks
+ * AWWA M55 / PPI Handbook of Polyethylene Pipe ch. 6 and AWWA M23: ring deflection
+ * with the apparent moduli, ring (wall) compression, internal pressure against the
+ * hydrostatic design stress and constrained (Moore-Selig) buckling. The wall is
+ * sized by its dimension ratio, t = OD / DR.
+ * All values in ENGLISH units (psi, in, ft, lb/ft³)
+ */
+
+import { PlasticPipeCheckSummary, PlasticPipeInputs, PlasticPipeMaterial, UnitsSystem } from './types';
+import { convertPressureToUserUnits } from './sharedCalculations';
+import { densityConv, lengthConv, smysConv } from './unitConversions';
+
+export interface PlasticPipeEN {
+  material: PlasticPipeMaterial;
+  DR: number;
+  EShort_psi: number;
+  ELong_psi: number;
+  HDB_psi: number;
+  designFactor: number;
+  allowableCompressive_psi: number;
+  density_pcf: number;
+}
+
+export interface PlasticPipeCheckEN {
+  material: PlasticPipeMaterial;
+  DR: number;
+  t_in: number;
+  deflectionPct: number;
+  deflectionLimitPct: number;
+  deflectionPass: boolean;
+  wallCompressive_psi: number;
+  allowableCompressive_psi: number;
+  wallCompressionPass: boolean;
+  pressureHoop_psi: number;
+  hydrostaticDesignStress_psi: number;
+  pressurePass: boolean;
+  bucklingPressure_psi: number;
+  applied_psi: number;
+  bucklingPass: boolean;
+  pass: boolean;
+}
+
+export interface PlasticPipePreset {
+  material: PlasticPipeMaterial;
+  label: string;
+  dimensionRatio: number;
+  shortTermModulus_psi: number;
+  longTermModulus_psi: number;
+  hydrostaticDesignBasis_psi: number;
+  designFactor: number;
+  allowableCompressiveStress_psi: number;
+  density_pcf: number;
+}
+
+// Typical values at 73°F (PPI Handbook ch. 3 and 6, AWWA C900); the PE design factor is the
+// 49 CFR 192.121 value for gas mains
+export const PLASTIC_PIPE_PRESETS: PlasticPipePreset[] = [
+  { material: 'PE4710', label: 'PE 4710', dimensionRatio: 11, shortTermModulus_psi: 130000, longTermModulus_psi: 29000, hydrostaticDesignBasis_psi: 1600, designFactor: 0.32, allowableCompressiveStress_psi: 1150, density_pcf: 59.6 },
+  { material: 'PE3608', label: 'PE 3608', dimensionRatio: 11, shortTermModulus_psi: 125000, longTermModulus_psi: 28000, hydrostaticDesignBasis_psi: 1600, designFactor: 0.32, allowableCompressiveStress_psi: 1000, density_pcf: 59.3 },
+  { material: 'PE2708', label: 'PE 2708', dimensionRatio: 11, shortTermModulus_psi: 88000, longTermModulus_psi: 19000, hydrostaticDesignBasis_psi: 1250, designFactor: 0.32, allowableCompressiveStress_psi: 800, density_pcf: 58.4 },
+  { material: 'PVC1120', label: 'PVC 1120', dimensionRatio: 18, shortTermModulus_psi: 400000, longTermModulus_psi: 400000, hydrostaticDesignBasis_psi: 4000, designFactor: 0.5, allowableCompressiveStress_psi: 2000, density_pcf: 87.4 },
+  { material: 'CUSTOM', label: 'Custom', dimensionRatio: 11, shortTermModulus_psi: 130000, longTermModulus_psi: 29000, hydrostaticDesignBasis_psi: 1600, designFactor: 0.32, allowableCompressiveStress_psi: 1150, density_pcf: 59.6 },
+];
+
+// PPI design deflection limits for PE by DR (the limit of the next lower listed DR applies)
+const PE_DEFLECTION_LIMITS = [
+  { DR: 7.3, limitPct: 2.5 },
+  { DR: 9, limitPct: 3 },
+  { DR: 11, limitPct: 4 },
+  { DR: 13.5, limitPct: 5 },
+  { DR: 17, limitPct: 6 },
+  { DR: 21, limitPct: 7.5 },
+];
+const PVC_DEFLECTION_LIMIT_PCT = 5;
+
+// Moore-Selig constrained buckling: calibration factor, safety factor and soil Poisson ratio
+const BUCKLING_CALIBRATION_FACTOR = 0.55;
+const BUCKLING_SAFETY_FACTOR = 2;
+const SOIL_POISSON = 0.3;
+
+export function getPlasticPipePreset(material: PlasticPipeMaterial): PlasticPipePreset {
+  return PLASTIC_PIPE_PRESETS.find(p => p.material === material) ?? PLASTIC_PIPE_PRESETS[0];
+}
+
+/**
+ * Preset properties as plastic pipe inputs in the given units
+ */
+export function getPlasticPipePresetInputs(material: PlasticPipeMaterial, unitsSystem: UnitsSystem): PlasticPipeInputs {
+  const preset = getPlasticPipePreset(material);
+  const isMetric = unitsSystem === 'SI';
+  const stress = (psi: number) => isMetric ? Math.round(smysConv.toSI(psi) * 100) / 100 : psi;
+
+  return {
+    enabled: true,
+    material,
+    dimensionRatio: preset.dimensionRatio,
+    shortTermModulus: stress(preset.shortTermModulus_psi),
+    longTermModulus: stress(preset.longTermModulus_psi),
+    hydrostaticDesignBasis: stress(preset.hydrostaticDesignBasis_psi),
+    designFactor: preset.designFactor,
+    allowableCompressiveStress: stress(preset.allowableCompressiveStress_psi),
+    density: isMetric ? Math.round(densityConv.toSI(preset.density_pcf)) : preset.density_pcf,
+  };
+}
+
+/**
+ * Design deflection limit: PPI limits by DR for PE, 5% for PVC
+ */
+export function plasticDeflectionLimitPct(material: PlasticPipeMaterial, DR: number): number {
+  if (material === 'PVC1120') return PVC_DEFLECTION_LIMIT_PCT;
+  const applicable = PE_DEFLECTION_LIMITS.filter(l => l.DR <= DR);
+  return applicable.length ? applicable[applicable.length - 1].limitPct : PE_DEFLECTION_LIMITS[0].limitPct;
+}
+
+/**
+ * Convert plastic pipe inputs to ENGLISH units (undefined when omitted or disabled)
+ */
+export function convertPlasticPipeToEN(plastic: PlasticPipeInputs | undefined, unitsSystem: UnitsSystem): PlasticPipeEN | undefined {
+  if (!plastic?.enabled) return undefined;
+  const isMetric = unitsSystem === 'SI';
+  const psi = (value: number) => isMetric ? smysConv.toEN(value) : value; // MPa -> psi
+
+  return {
+    material: plastic.material,
+    DR: plastic.dimensionRatio,
+    EShort_psi: psi(plastic.shortTermModulus),
+    ELong_psi: psi(plastic.longTermModulus),
+    HDB_psi: psi(plastic.hydrostaticDesignBasis),
+    designFactor: plastic.designFactor,
+    allowableCompressive_psi: psi(plastic.allowableCompressiveStress),
+    density_pcf: isMetric ? densityConv.toEN(plastic.density) : plastic.density,
+  };
+}
+
+/**
+ * Flexible plastic pipe checks
+ * @param plastic - pipe material and dimension ratio
+ * @param earth_psi - soil pressure on the pipe incl. groundwater (psi)
+ * @param live_psi - live load pressure on the pipe incl. impact (psi)
+ * @param internal_psi - operating pressure (psi)
+ * @param vacuum_psi - internal vacuum (psi, positive value)
+ * @param D_in - outside diameter (in)
+ * @param H_ft - depth of cover (ft)
+ * @param beddingConstant - bedding constant K
+ * @param ePrime_psi - modulus of soil reaction (psi)
+ * @param deflectionLagFactor - DL on the earth load deflection
+ */
+export function calculatePlasticPipeCheck(
+  plastic: PlasticPipeEN,
+  earth_psi: number,
+  live_psi: number,
+  internal_psi: number,
+  vacuum_psi: number,
+  D_in: number,
+  H_ft: number,
+  beddingConstant: number,
+  ePrime_psi: number,
+  deflectionLagFactor: number = 1.5
+): PlasticPipeCheckEN {
+  const { DR } = plastic;
+  const t_in = D_in / DR;
+  const Dm_in = D_in - t_in;
+
+  // Ring deflection (Spangler): earth load on the long-term, live load on the short-term modulus
+  const ringStiffness = (E_psi: number) => 2 * E_psi / (3 * Math.pow(DR - 1, 3));
+  const deflectionPct = 100 * beddingConstant * (
+    deflectionLagFactor * earth_psi / (ringStiffness(plastic.ELong_psi) + 0.061 * ePrime_psi) +
+    live_psi / (ringStiffness(plastic.EShort_psi) + 0.061 * ePrime_psi)
+  );
+
+  // Ring compression and internal pressure
+  const wallCompressive_psi = (earth_psi + live_psi) * DR / 2;
+  const pressureHoop_psi = internal_psi * (DR - 1) / 2;
+  const hydrostaticDesignStress_psi = plastic.HDB_psi * plastic.designFactor;
+
+  // Constrained buckling (Moore-Selig) with the long-term modulus
+  const RH = 11.4 / (11 + Dm_in / (H_ft * 12));
+  const soilModulus = ePrime_psi * (1 + SOIL_POISSON) * (1 - 2 * SOIL_POISSON) / Math.pow(1 - SOIL_POISSON, 2);
+  const EI_D3 = plastic.ELong_psi * Math.pow(t_in, 3) / 12 / Math.pow(Dm_in, 3);
+  const bucklingPressure_psi = 2.4 * BUCKLING_CALIBRATION_FACTOR * RH / BUCKLING_SAFETY_FACTOR
+    * Math.cbrt(EI_D3) * Math.pow(soilModulus, 2 / 3);
+  const applied_psi = earth_psi + Math.max(live_psi, Math.abs(vacuum_psi));
+
+  const deflectionLimitPct = plasticDeflectionLimitPct(plastic.material, DR);
+  const deflectionPass = deflectionPct <= deflectionLimitPct;
+  const wallCompressionPass = wallCompressive_psi <= plastic.allowableCompressive_psi;
+  const pressurePass = pressureHoop_psi <= hydrostaticDesignStress_psi;
+  const bucklingPass = applied_psi <= bucklingPressure_psi;
+
+  return {
+    material: plastic.material,
+    DR,
+    t_in,
+    deflectionPct,
+    deflectionLimitPct,
+    deflectionPass,
+    wallCompressive_psi,
+    allowableCompressive_psi: plastic.allowableCompressive_psi,
+    wallCompressionPass,
+    pressureHoop_psi,
+    hydrostaticDesignStress_psi,
+    pressurePass,
+    bucklingPressure_psi,
+    applied_psi,
+    bucklingPass,
+    pass: deflectionPass && wallCompressionPass && pressurePass && bucklingPass,
+  };
+}
+
+/**
+ * Convert the plastic pipe checks to user units
+ */
+export function convertPlasticPipeCheckToUserUnits(check: PlasticPipeCheckEN, unitsSystem: UnitsSystem): PlasticPipeCheckSummary {
+  const pressure = (value_psi: number) => convertPressureToUserUnits(value_psi, unitsSystem);
+
+  return {
+    material: check.material,
+    dimensionRatio: check.DR,
+    wallThickness: unitsSystem === 'SI' ? lengthConv.toSI(check.t_in) : check.t_in,
+    deflectionPct: check.deflectionPct,
+    deflectionLimitPct: check.deflectionLimitPct,
+    deflectionPass: check.deflectionPass,
+    wallCompressiveStress: pressure(check.wallCompressive_psi),
+    allowableCompressiveStress: pressure(check.allowableCompressive_psi),
+    wallCompressionPass: check.wallCompressionPass,
+    pressureHoopStress: pressure(check.pressureHoop_psi),
+    hydrostaticDesignStress: pressure(check.hydrostaticDesignStress_psi),
+    pressurePass: check.pressurePass,
+    bucklingPressure: pressure(check.bucklingPressure_psi),
+    appliedPressure: pressure(check.applied_psi),
+    bucklingPass: check.bucklingPass,
+    pass: check.pass,
+  };
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { getPressureKernel, newmarkCornerInfluence } from './pressureKernels';
+
+// 12 in x 12 in contact area at 100 psi
+const pad = { x: 0, y: 0, load_lb: 14400, width_in: 12, length_in: 12 };
+const q_psi = 14400 / 144;
+
+describe('Newmark rectangle kernel', () => {
+  it('matches the tabulated corner influence factors', () => {
+    // m = n = 1: (2√3/3 + π/3) / 4π = 0.175221
+    expect(newmarkCornerInfluence(1, 1)).toBeCloseTo(0.175221, 6);
+    // m²n² > m² + n² + 1 keeps the angle past π/2 (Newmark chart: m = n = 2 -> 0.2325)
+    expect(newmarkCornerInfluence(2, 2)).toBeCloseTo(0.2325, 4);
+    expect(newmarkCornerInfluence(1e4, 1e4)).toBeCloseTo(0.25, 6);
+  });
+
+  it('superposes the corners inside and outside the rectangle', () => {
+    const { stress } = getPressureKernel('NEWMARK_RECTANGLE');
+
+    // Centre: four 6 x 6 corners at z = 6 (m = n = 1)
+    expect(stress(pad, 0, 0, 6)).toBeCloseTo(4 * 0.175221 * q_psi, 3);
+    // Corner of the pad: one 12 x 12 rectangle at z = 12 (m = n = 1)
+    expect(stress(pad, 6, 6, 12)).toBeCloseTo(0.175221 * q_psi, 3);
+    // Off the pad along X: the 18 x 6 rectangles less the 6 x 6 ones, twice
+    const outside = 2 * (newmarkCornerInfluence(1.5, 0.5) - newmarkCornerInfluence(0.5, 0.5)) * q_psi;
+    expect(stress(pad, 12, 0, 12)).toBeCloseTo(outside, 10);
+  });
+
+  it('falls back to the point load without a tributary area', () => {
+    const point = { x: 0, y: 0, load_lb: 14400 };
+    expect(getPressureKernel('NEWMARK_RECTANGLE').stress(point, 0, 0, 24)).toBeCloseTo(3 * 14400 / (2 * Math.PI * 576), 10);
+  });
+});
+
+describe('Westergaard and load spread kernels', () => {
+  it('gives P / (π z²) on the Westergaard centreline (ν = 0)', () => {
+    const { stress } = getPressureKernel('WESTERGAARD_POINT');
+
+    expect(stress(pad, 0, 0, 24)).toBeCloseTo(14400 / (Math.PI * 576), 10);
+    // r = z: P / (π z²) x (1/2)^1.5 / (3/2)^1.5
+    expect(stress(pad, 24, 0, 24)).toBeCloseTo(14400 / (Math.PI * 576) / Math.pow(3, 1.5), 10);
+  });
+
+  it('spreads the contact area by H / slope on every side', () => {
+    // 2:1 -> (12 + 24) x (12 + 24) in, 1:1 -> (12 + 48) x (12 + 48) in
+    const twoToOne = getPressureKernel('LOAD_SPREAD_2_1').stress;
+    const oneToOne = getPressureKernel('LOAD_SPREAD_1_1').stress;
+
+    expect(twoToOne(pad, 0, 0, 24)).toBeCloseTo(14400 / (36 * 36), 12);
+    expect(twoToOne(pad, 18, 18, 24)).toBeCloseTo(14400 / (36 * 36), 12);
+    expect(twoToOne(pad, 19, 0, 24)).toBe(0);
+    expect(oneToOne(pad, 29, 0, 24)).toBeCloseTo(14400 / (60 * 60), 12);
+    expect(getPressureKernel('LOAD_SPREAD_1_1').gridSpacing_in).toBe(Infinity);
+  });
+});
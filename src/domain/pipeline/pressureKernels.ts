@@ -0,0 +1,136 @@
+/**
+ * Vertical stress kernels - stress at depth from one surface load element
+ * Each kernel maps a load element (point load with optional tributary rectangle)
+ * to the vertical stress at a point on the pipe plane H below it.
+ * All values in ENGLISH units (inches, lb, psi)
+ */
+
+import { PressureKernel } from './types';
+import type { PointLoad } from './boussinesqHelpers';
+
+// VBA lumps contact areas into point loads on a 6-inch grid
+const VBA_GRID_SPACING_IN = 6;
+
+// Westergaard is usually applied with zero Poisson's ratio (thin rigid reinforcing layers)
+const WESTERGAARD_POISSON = 0;
+
+export interface PressureKernelProfile {
+  kernel: PressureKernel;
+  label: string;
+  description: string;
+  usesLoadArea: boolean; // needs the tributary rectangle of each load element
+  gridSpacing_in: number; // contact area subdivision (Infinity = one element per footprint)
+  stress: (pl: PointLoad, dx_in: number, dy_in: number, H_in: number) => number; // dx, dy from the load
+}
+
+/**
+ * Newmark influence factor under the corner of a uniformly loaded rectangle
+ * (closed-form integration of Boussinesq, Holl/Newmark), m = B/z, n = L/z
+ */
+export function newmarkCornerInfluence(m: number, n: number): number {
+  const V = m * m + n * n + 1;
+  const mn = m * n;
+  const term1 = (2 * mn * Math.sqrt(V) / (V + mn * mn)) * ((V + 1) / V);
+  // atan2 keeps the angle in [0, π] when m²n² > m² + n² + 1
+  const term2 = Math.atan2(2 * mn * Math.sqrt(V), V - mn * mn);
+  return (term1 + term2) / (4 * Math.PI);
+}
+
+/**
+ * Boussinesq point load: 3P / (2π H² (1 + (R/H)²)^2.5) (ported from VBA)
+ */
+function boussinesqPointStress(pl: PointLoad, dx_in: number, dy_in: number, H_in: number): number {
+  const R = Math.sqrt(dx_in * dx_in + dy_in * dy_in);
+  return (3 * pl.load_lb) /
+    (2 * Math.PI * H_in * H_in * Math.pow(1 + Math.pow(R / H_in, 2), 2.5));
+}
+
+/**
+ * Uniformly loaded rectangle by corner superposition
+ * (points outside the rectangle subtract the corners they do not cover)
+ * Falls back to the point load when the element has no tributary rectangle
+ */
+function newmarkRectangleStress(pl: PointLoad, dx_in: number, dy_in: number, H_in: number): number {
+  if (!pl.width_in || !pl.length_in) return boussinesqPointStress(pl, dx_in, dy_in, H_in);
+  const q_psi = pl.load_lb / (pl.width_in * pl.length_in);
+  const x1 = -pl.width_in / 2 - dx_in;
+  const x2 = pl.width_in / 2 - dx_in;
+  const y1 = -pl.length_in / 2 - dy_in;
+  const y2 = pl.length_in / 2 - dy_in;
+  const corner = (a: number, b: number) =>
+    Math.sign(a) * Math.sign(b) * newmarkCornerInfluence(Math.abs(a) / H_in, Math.abs(b) / H_in);
+  return q_psi * (corner(x2, y2) - corner(x1, y2) - corner(x2, y1) + corner(x1, y1));
+}
+
+/**
+ * Westergaard point load (laterally restrained elastic medium):
+ * P η / (2π H²) (η² + (R/H)²)^-1.5 with η² = (1 - 2ν) / (2 - 2ν)
+ */
+function westergaardPointStress(pl: PointLoad, dx_in: number, dy_in: number, H_in: number): number {
+  const eta2 = (1 - 2 * WESTERGAARD_POISSON) / (2 - 2 * WESTERGAARD_POISSON);
+  const r2 = (dx_in * dx_in + dy_in * dy_in) / (H_in * H_in);
+  return pl.load_lb * Math.sqrt(eta2) / (2 * Math.PI * H_in * H_in) / Math.pow(eta2 + r2, 1.5);
+}
+
+/**
+ * Load spread: the load is spread uniformly over its contact area grown by
+ * H / slope on every side (2:1 → B + H, 1:1 → B + 2H)
+ */
+function loadSpreadStress(slope: number) {
+  return (pl: PointLoad, dx_in: number, dy_in: number, H_in: number): number => {
+    const width_in = (pl.width_in ?? 0) + 2 * H_in / slope;
+    const length_in = (pl.length_in ?? 0) + 2 * H_in / slope;
+    const inside = Math.abs(dx_in) <= width_in / 2 && Math.abs(dy_in) <= length_in / 2;
+    return inside ? pl.load_lb / (width_in * length_in) : 0;
+  };
+}
+
+export const PRESSURE_KERNELS: Record<PressureKernel, PressureKernelProfile> = {
+  BOUSSINESQ_POINT: {
+    kernel: 'BOUSSINESQ_POINT',
+    label: 'Boussinesq Point Loads (6-in grid, VBA)',
+    description: 'Homogeneous elastic half-space, contact areas lumped on a 6-inch grid',
+    usesLoadArea: false,
+    gridSpacing_in: VBA_GRID_SPACING_IN,
+    stress: boussinesqPointStress,
+  },
+  NEWMARK_RECTANGLE: {
+    kernel: 'NEWMARK_RECTANGLE',
+    label: 'Newmark Rectangle (exact)',
+    description: 'Uniformly loaded rectangles integrated in closed form',
+    usesLoadArea: true,
+    gridSpacing_in: VBA_GRID_SPACING_IN,
+    stress: newmarkRectangleStress,
+  },
+  WESTERGAARD_POINT: {
+    kernel: 'WESTERGAARD_POINT',
+    label: 'Westergaard Point Loads',
+    description: 'Stratified soil with rigid horizontal layers (ν = 0)',
+    usesLoadArea: false,
+    gridSpacing_in: VBA_GRID_SPACING_IN,
+    stress: westergaardPointStress,
+  },
+  LOAD_SPREAD_2_1: {
+    kernel: 'LOAD_SPREAD_2_1',
+    label: '2:1 Load Spread',
+    description: 'Each contact area spread at 2 vertical to 1 horizontal',
+    usesLoadArea: true,
+    gridSpacing_in: Infinity,
+    stress: loadSpreadStress(2),
+  },
+  LOAD_SPREAD_1_1: {
+    kernel: 'LOAD_SPREAD_1_1',
+    label: '1:1 Load Spread',
+    description: 'Each contact area spread at 1 vertical to 1 horizontal',
+    usesLoadArea: true,
+    gridSpacing_in: Infinity,
+    stress: loadSpreadStress(1),
+  },
+};
+
+/**
+ * Get kernel profile (defaults to the VBA Boussinesq point loads)
+ */
+export function getPressureKernel(kernel: PressureKernel = 'BOUSSINESQ_POINT'): PressureKernelProfile {
+  return PRESSURE_KERNELS[kernel];
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { calculatePressureMap, convertPressureMapToUserUnits, exportPressureMapToCSV } from './pressureMap';
+import { PointLoad } from './boussinesqHelpers';
+
+// Single wheel 3 ft along the pipe, 4 ft above the crown
+const wheel: PointLoad[] = [{ x: 36, y: 0, load_lb: 16000 }];
+
+describe('pressure map', () => {
+  it('peaks directly below a point load at 3P / (2π z²)', () => {
+    // Extent 1.5 x 48 in around the load: 144 in square, 40 divisions of 3.6 in
+    const map = calculatePressureMap(wheel, [], 4);
+
+    expect(map.x_in[1] - map.x_in[0]).toBeCloseTo(3.6, 12);
+    expect(map.x_in).toContain(0);
+    expect(map.maxX_in).toBeCloseTo(36, 10);
+    expect(map.maxY_in).toBe(0);
+    expect(map.maxPressure_psi).toBeCloseTo(3 * 16000 / (2 * Math.PI * 48 * 48), 10);
+    expect(map.pressures_psi).toHaveLength(map.y_in.length);
+    expect(map.pressures_psi[0]).toHaveLength(map.x_in.length);
+  });
+
+  it('moves the loads and footprints to the governing position', () => {
+    const footprint = { x_in: 36, y_in: 0, width_in: 16, length_in: 12 };
+    // Footprint plus margins: 160 in along the pipe, 4 in grid
+    const map = calculatePressureMap(wheel, [footprint], 4, -36, 12);
+
+    expect(map.maxX_in).toBeCloseTo(0, 10);
+    expect(map.maxY_in).toBeCloseTo(12, 10);
+    expect(map.footprints).toEqual([{ ...footprint, x_in: 0, y_in: 12 }]);
+  });
+
+  it('converts to SI and exports one CSV row per Y', () => {
+    const si = convertPressureMapToUserUnits(calculatePressureMap(wheel, [], 4), 'SI');
+
+    expect(si.maxX).toBeCloseTo(0.9144, 10);
+    expect(si.maxPressure).toBeCloseTo(3 * 16000 / (2 * Math.PI * 48 * 48) / 0.1450378911491, 8);
+
+    const lines = exportPressureMapToCSV(si, 'SI').split('\n');
+    expect(lines).toHaveLength(si.y.length + 1);
+    expect(lines[0].startsWith('Y across (m) \\ X along (m) - pressure (kPa)')).toBe(true);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Pressure contour map on the pipe plane
+ * Boussinesq pressure is evaluated on a regular grid at pipe crown depth covering
+ * the load footprints, instead of only at the standard measurement points.
+ * The pipe axis is X and the pipe centerline is Y = 0; the grid is aligned so the
+ * centerline and the reference section (X = 0) fall on grid lines.
+ * All values in ENGLISH units (inches, ft, psi)
+ */
+
+import { LoadFootprint, PressureMapSummary, PressureKernel, UnitsSystem } from './types';
+import { PointLoad, MeasurementPoint, calculateBoussinesqFromPoints } from './boussinesqHelpers';
+import { shiftPointLoads } from './criticalPositionSearch';
+import { convertPressureToUserUnits } from './sharedCalculations';
+
+// Grid divisions along the longer side of the map (cells are square)
+const MAP_DIVISIONS = 40;
+
+// Margin around the footprints as a multiple of depth
+// (at R = 1.5 H a point load gives about 5% of the pressure directly below it)
+const MAP_MARGIN_DEPTHS = 1.5;
+
+export interface FootprintEN {
+  x_in: number; // center
+  y_in: number;
+  width_in: number; // along X
+  length_in: number; // along Y
+}
+
+export interface PressureMapEN {
+  depth_ft: number;
+  x_in: number[];
+  y_in: number[];
+  pressures_psi: number[][]; // [iY][iX]
+  maxPressure_psi: number;
+  maxX_in: number;
+  maxY_in: number;
+  footprints: FootprintEN[];
+}
+
+/**
+ * Grid coordinates from min to max on multiples of the spacing (always includes 0)
+ */
+function buildAxis(min_in: number, max_in: number, spacing_in: number): number[] {
+  const start = Math.floor(Math.min(min_in, 0) / spacing_in);
+  const end = Math.ceil(Math.max(max_in, 0) / spacing_in);
+  const axis: number[] = [];
+  for (let i = start; i <= end; i++) {
+    axis.push(i * spacing_in);
+  }
+  return axis;
+}
+
+/**
+ * Evaluate the pressure contour on the pipe plane
+ * @param pointLoads - loads acting on the soil (top of subgrade with pavement)
+ * @param footprints - surface footprints for the plot overlay and the map extent
+ * @param depth_ft - depth of the pipe crown below the loads (ft)
+ * @param offsetAlong_in - vehicle offset along the pipe (governing position)
+ * @param offsetAcross_in - vehicle offset across the pipe
+ * @param kernel - vertical stress kernel
+ */
+export function calculatePressureMap(
+  pointLoads: PointLoad[],
+  footprints: FootprintEN[],
+  depth_ft: number,
+  offsetAlong_in: number = 0,
+  offsetAcross_in: number = 0,
+  kernel: PressureKernel = 'BOUSSINESQ_POINT'
+): PressureMapEN {
+  const loads = shiftPointLoads(pointLoads, offsetAlong_in, offsetAcross_in);
+  const shifted = footprints.map(f => ({ ...f, x_in: f.x_in + offsetAlong_in, y_in: f.y_in + offsetAcross_in }));
+
+  // Extent: footprints (or the loads themselves) plus a margin for the spread with depth
+  const extents = shifted.length > 0
+    ? shifted.map(f => ({
+        minX: f.x_in - f.width_in / 2,
+        maxX: f.x_in + f.width_in / 2,
+        minY: f.y_in - f.length_in / 2,
+        maxY: f.y_in + f.length_in / 2,
+      }))
+    : loads.map(p => ({ minX: p.x, maxX: p.x, minY: p.y, maxY: p.y }));
+  const margin_in = MAP_MARGIN_DEPTHS * depth_ft * 12;
+  const minX = Math.min(...extents.map(e => e.minX)) - margin_in;
+  const maxX = Math.max(...extents.map(e => e.maxX)) + margin_in;
+  const minY = Math.min(...extents.map(e => e.minY)) - margin_in;
+  const maxY = Math.max(...extents.map(e => e.maxY)) + margin_in;
+
+  const spacing_in = Math.max(Math.max(maxX - minX, maxY - minY) / MAP_DIVISIONS, 1);
+  const x_in = buildAxis(minX, maxX, spacing_in);
+  const y_in = buildAxis(minY, maxY, spacing_in);
+
+  const points: MeasurementPoint[] = [];
+  for (const y of y_in) {
+    for (const x of x_in) {
+      points.push({ x, y, label: '' });
+    }
+  }
+  const { pressures_psi: flat } = calculateBoussinesqFromPoints(loads, points, depth_ft, kernel);
+
+  const pressures_psi = y_in.map((_, iY) => flat.slice(iY * x_in.length, (iY + 1) * x_in.length));
+  const maxPressure_psi = Math.max(...flat);
+  const maxIndex = flat.indexOf(maxPressure_psi);
+
+  return {
+    depth_ft,
+    x_in,
+    y_in,
+    pressures_psi,
+    maxPressure_psi,
+    maxX_in: x_in[maxIndex % x_in.length],
+    maxY_in: y_in[Math.floor(maxIndex / x_in.length)],
+    footprints: shifted,
+  };
+}
+
+/**
+ * Convert the pressure map to user units (ft or m, psi or kPa)
+ */
+export function convertPressureMapToUserUnits(
+  map: PressureMapEN,
+  unitsSystem: UnitsSystem
+): PressureMapSummary {
+  const isMetric = unitsSystem === 'SI';
+  const length = (in_: number) => isMetric ? in_ / 12 / 3.280839895013 : in_ / 12;
+
+  const footprints: LoadFootprint[] = map.footprints.map(f => ({
+    x: length(f.x_in),
+    y: length(f.y_in),
+    width: length(f.width_in),
+    length: length(f.length_in),
+  }));
+
+  return {
+    depth: isMetric ? map.depth_ft / 3.280839895013 : map.depth_ft,
+    x: map.x_in.map(length),
+    y: map.y_in.map(length),
+    pressures: map.pressures_psi.map(row => row.map(p => convertPressureToUserUnits(p, unitsSystem))),
+    maxPressure: convertPressureToUserUnits(map.maxPressure_psi, unitsSystem),
+    maxX: length(map.maxX_in),
+    maxY: length(map.maxY_in),
+    footprints,
+  };
+}
+
+/**
+ * Export the pressure map to CSV (one row per Y, one column per X)
+ */
+export function exportPressureMapToCSV(map: PressureMapSummary, unitsSystem: UnitsSystem): string {
+  const lengthUnit = unitsSystem === 'SI' ? 'm' : 'ft';
+  const pressureUnit = unitsSystem === 'SI' ? 'kPa' : 'psi';
+
+  const headers = [
+    `Y across (${lengthUnit}) \\ X along (${lengthUnit}) - pressure (${pressureUnit})`,
+    ...map.x.map(x => x.toFixed(4)),
+  ];
+
+  const rows = map.y.map((y, iY) => [
+    y.toFixed(4),
+    ...map.pressures[iY].map(p => p.toFixed(4)),
+  ]);
+
+  return [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
+}
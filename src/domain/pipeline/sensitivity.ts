@@ -2,14 +2,18 @@ import { PipelineTrackInputs, PipelineTrackResults } from './types';
 import { TwoAxleInputs, TwoAxleResults } from './types2Axle';
 import { ThreeAxleInputs, ThreeAxleResults } from './types3Axle';
 import { GridLoadInputs, GridLoadResults } from './typesGrid';
+import { MultiAxleInputs, MultiAxleResults } from './typesMultiAxle';
+import { RailInputs, RailResults } from './typesRail';
 import { calculatePipelineTrack } from './calculations';
 import { calculate2AxleVehicleVBA } from './vba2AxleEngine';
 import { calculate3AxleVehicleVBA } from './vba3AxleEngine';
 import { calculateGridLoadVBA } from './vbaGridEngine';
+import { calculateMultiAxleVehicleVBA } from './vbaMultiAxleEngine';
+import { calculateRailLoadVBA } from './vbaRailEngine';
 import { CalculationMode } from '@/types/calculation';
 
-type PipelineInputs = PipelineTrackInputs | TwoAxleInputs | ThreeAxleInputs | GridLoadInputs;
-type PipelineResults = PipelineTrackResults | TwoAxleResults | ThreeAxleResults | GridLoadResults;
+type PipelineInputs = PipelineTrackInputs | TwoAxleInputs | ThreeAxleInputs | GridLoadInputs | MultiAxleInputs | RailInputs;
+type PipelineResults = PipelineTrackResults | TwoAxleResults | ThreeAxleResults | GridLoadResults | MultiAxleResults | RailResults;
 
 /**
  * Normalized result structure for sensitivity analysis
@@ -58,6 +62,12 @@ export function runScenario(
     case 'GRID':
       result = calculateGridLoadVBA(inputs as GridLoadInputs);
       break;
+    case 'MULTI_AXLE':
+      result = calculateMultiAxleVehicleVBA(inputs as MultiAxleInputs);
+      break;
+    case 'RAIL':
+      result = calculateRailLoadVBA(inputs as RailInputs);
+      break;
     default:
       throw new Error(`Unsupported mode for sensitivity: ${mode}`);
   }
@@ -95,13 +105,13 @@ export interface SensitivityParameter {
  */
 export const SENSITIVITY_PARAMETERS: SensitivityParameter[] = [
   // Common parameters (all modes)
-  { key: 'depthCover', label: 'Depth of Cover (H)', unit: 'ft', unitSI: 'm', modes: ['PIPELINE_TRACK', '2_AXLE', '3_AXLE', 'GRID'] },
-  { key: 'soilDensity', label: 'Soil Density (ρ)', unit: 'lb/ft³', unitSI: 'kg/m³', modes: ['PIPELINE_TRACK', '2_AXLE', '3_AXLE', 'GRID'] },
-  { key: 'MOP', label: 'Maximum Operating Pressure', unit: 'psi', unitSI: 'kPa', modes: ['PIPELINE_TRACK', '2_AXLE', '3_AXLE', 'GRID'] },
-  { key: 'pipeOD', label: 'Pipe Outer Diameter (D)', unit: 'in', unitSI: 'mm', modes: ['PIPELINE_TRACK', '2_AXLE', '3_AXLE', 'GRID'] },
-  { key: 'pipeWT', label: 'Pipe Wall Thickness (t)', unit: 'in', unitSI: 'mm', modes: ['PIPELINE_TRACK', '2_AXLE', '3_AXLE', 'GRID'] },
-  { key: 'deltaT', label: 'Temperature Differential (ΔT)', unit: '°F', unitSI: '°C', modes: ['PIPELINE_TRACK', '2_AXLE', '3_AXLE', 'GRID'] },
-  { key: 'ePrimeUserDefined', label: "E' (Modulus of Soil Reaction)", unit: 'psi', unitSI: 'kPa', modes: ['PIPELINE_TRACK', '2_AXLE', '3_AXLE', 'GRID'] },
+  { key: 'depthCover', label: 'Depth of Cover (H)', unit: 'ft', unitSI: 'm', modes: ['PIPELINE_TRACK', '2_AXLE', '3_AXLE', 'GRID', 'MULTI_AXLE', 'RAIL'] },
+  { key: 'soilDensity', label: 'Soil Density (ρ)', unit: 'lb/ft³', unitSI: 'kg/m³', modes: ['PIPELINE_TRACK', '2_AXLE', '3_AXLE', 'GRID', 'MULTI_AXLE', 'RAIL'] },
+  { key: 'MOP', label: 'Maximum Operating Pressure', unit: 'psi', unitSI: 'kPa', modes: ['PIPELINE_TRACK', '2_AXLE', '3_AXLE', 'GRID', 'MULTI_AXLE', 'RAIL'] },
+  { key: 'pipeOD', label: 'Pipe Outer Diameter (D)', unit: 'in', unitSI: 'mm', modes: ['PIPELINE_TRACK', '2_AXLE', '3_AXLE', 'GRID', 'MULTI_AXLE', 'RAIL'] },
+  { key: 'pipeWT', label: 'Pipe Wall Thickness (t)', unit: 'in', unitSI: 'mm', modes: ['PIPELINE_TRACK', '2_AXLE', '3_AXLE', 'GRID', 'MULTI_AXLE', 'RAIL'] },
+  { key: 'deltaT', label: 'Temperature Differential (ΔT)', unit: '°F', unitSI: '°C', modes: ['PIPELINE_TRACK', '2_AXLE', '3_AXLE', 'GRID', 'MULTI_AXLE', 'RAIL'] },
+  { key: 'ePrimeUserDefined', label: "E' (Modulus of Soil Reaction)", unit: 'psi', unitSI: 'kPa', modes: ['PIPELINE_TRACK', '2_AXLE', '3_AXLE', 'GRID', 'MULTI_AXLE', 'RAIL'] },
   
   // Track-specific
   { key: 'trackVehicleWeight', label: 'Track Vehicle Weight', unit: 'lb', unitSI: 'kg', modes: ['PIPELINE_TRACK'] },
@@ -110,7 +120,7 @@ export const SENSITIVITY_PARAMETERS: SensitivityParameter[] = [
   { key: 'axleSpacing', label: 'Axle Spacing', unit: 'ft', unitSI: 'm', modes: ['2_AXLE'] },
   { key: 'axle1Load', label: 'Front Axle Load', unit: 'lb', unitSI: 'kg', modes: ['2_AXLE', '3_AXLE'] },
   { key: 'axle2Load', label: 'Rear Axle Load (2-Axle) / Middle Axle (3-Axle)', unit: 'lb', unitSI: 'kg', modes: ['2_AXLE', '3_AXLE'] },
-  { key: 'laneOffset', label: 'Lane Offset from Pipe', unit: 'ft', unitSI: 'm', modes: ['2_AXLE', '3_AXLE'] },
+  { key: 'laneOffset', label: 'Lane Offset from Pipe', unit: 'ft', unitSI: 'm', modes: ['2_AXLE', '3_AXLE', 'MULTI_AXLE'] },
   
   // 3-Axle specific
   { key: 'axle1To2Spacing', label: 'Axle 1 to 2 Spacing', unit: 'ft', unitSI: 'm', modes: ['3_AXLE'] },
@@ -124,6 +134,11 @@ export const SENSITIVITY_PARAMETERS: SensitivityParameter[] = [
   { key: 'gridWidth', label: 'Grid Width', unit: 'ft', unitSI: 'm', modes: ['GRID'] },
   { key: 'gridOffsetX', label: 'Grid Offset X (Lateral)', unit: 'ft', unitSI: 'm', modes: ['GRID'] },
   { key: 'gridOffsetY', label: 'Grid Offset Y (Longitudinal)', unit: 'ft', unitSI: 'm', modes: ['GRID'] },
+  
+  // Rail specific
+  { key: 'cooperRating', label: 'Cooper E Rating', unit: 'E', unitSI: 'E', modes: ['RAIL'] },
+  { key: 'tieSpacing', label: 'Tie Spacing', unit: 'in', unitSI: 'mm', modes: ['RAIL'] },
+  { key: 'trackOffset', label: 'Track Offset from Pipe', unit: 'ft', unitSI: 'm', modes: ['RAIL'] },
 ];
 
 /**
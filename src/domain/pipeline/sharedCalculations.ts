@@ -1,10 +1,48 @@
 /**
  * Shared calculation functions for all vehicle types
- * Simplified implementations based on VBA Track Engine logic
+ * Single calculation core for the Track, 2-axle, 3-axle, Grid, Multi-axle and Rail engines.
+ *
+ * Strict VBA parity reproduces the legacy Kiefner spreadsheet numbers of the engines
+ * ported from a spreadsheet sheet; the Multi-axle and Rail engines have no legacy sheet.
+ * The Track sheet formulas differ from this library (vbaParity = true here):
+ * - E' lookup: Epr1 * Epr2^H * (compaction/100)^2 instead of the E_PRIME_TABLE lookup
+ * - Trap Door: Rankine Ka in the exponent instead of tanφ (Terzaghi, K = 1)
+ * - Low stress cases: soil minus live load instead of live load absent
+ * The axle and grid sheets use the library formulas but apply the impact factor twice
+ * in the equivalent load and take its moment from a non-decaying simplified formula
+ * (vbaSheet = 'AXLE' in runPipelineChecks).
+ *
+ * The engines only build their surface loads and Boussinesq grid; runPipelineChecks
+ * runs every pipe check on the resulting live load pressure.
  */
 
-import { SoilLoadMethod, EPrimeMethod, SoilType, Compaction, CodeCheck, PavementType, VehicleClass, EquivStressMethod } from './types';
+import {
+  SoilLoadMethod,
+  EPrimeMethod,
+  SoilType,
+  Compaction,
+  CodeCheck,
+  PavementType,
+  VehicleClass,
+  EquivStressMethod,
+  PipelineTrackInputs,
+  PipelineTrackResults,
+  DebugValues,
+} from './types';
 import { calculateEPrimeFromLookup } from './ePrimeLookup';
+import { CARBON_STEEL, MaterialEN, convertMaterialToUserUnits } from './materials';
+import { calculatePassFail as calculatePassFailHelper, calculateSustainedLongStress } from './passFailHelpers';
+import { resolveB318DesignFactors } from './codeProfiles';
+import { resolveZ662DesignFactors, calculateZ662Check } from './csaZ662';
+import { calculateFatigueCheck, convertFatigueCheckToUserUnits } from './fatigueCheck';
+import { calculateModifiedIowaDeflection } from './deflectionCheck';
+import { calculateBucklingCheck, convertBucklingCheckToUserUnits } from './bucklingCheck';
+import { splitSoilColumn, calculateFlotationCheck, convertFlotationCheckToUserUnits, GroundwaterEN } from './groundwater';
+import { resolveSoilProfile, convertSoilProfileToUserUnits, SoilProfileEN } from './soilProfile';
+import { calculatePlasticPipeCheck, convertPlasticPipeCheckToUserUnits, PlasticPipeEN } from './plasticPipe';
+import { calculateBeamProfile, convertBeamProfileToUserUnits } from './beamOnElasticFoundation';
+import { getPressureKernel } from './pressureKernels';
+import { PointLoad } from './boussinesqHelpers';
 
 export function calculateBeddingParams(beddingAngleDeg: number): { Kb: number; Kz: number; Theta: number } {
   switch (beddingAngleDeg) {
@@ -24,15 +62,25 @@ export function calculateEPrime(
   userDefined_psi: number | undefined,
   soilType: SoilType | undefined,
   compaction: Compaction | undefined,
-  H_ft: number
+  H_ft: number,
+  vbaParity: boolean = false
 ): { ePrime_psi: number } {
   if (method === 'USER_DEFINED' && userDefined_psi) {
     return { ePrime_psi: userDefined_psi };
   }
   
-  // Use full lookup table
   const soilTypeKey = soilType || 'COARSE_WITH_FINES';
   const compactionValue = compaction || 90;
+  
+  if (vbaParity) {
+    // VBA coefficients: Eprime = Epr1 * (Epr2 ^ H_ft) * (Compact/100) ^ Epr3
+    const Epr1 = soilTypeKey === 'FINE' ? 500 : soilTypeKey === 'COARSE_WITH_FINES' ? 1000 : 1500;
+    const Epr2 = 1;
+    const Epr3 = 2;
+    return { ePrime_psi: Epr1 * Math.pow(Epr2, H_ft) * Math.pow(compactionValue / 100, Epr3) };
+  }
+  
+  // Use full lookup table
   const ePrime_psi = calculateEPrimeFromLookup(soilTypeKey, compactionValue, H_ft);
   
   return { ePrime_psi };
@@ -44,26 +92,33 @@ export function calculateSoilLoad(
   H_ft: number,
   D_in: number,
   frictionAngleDeg: number,
-  cohesion_psi: number
+  cohesion_psi: number,
+  Pwater_psi: number = 0, // hydrostatic pressure at top of pipe (Rho_lbft3 is then the effective unit weight)
+  vbaParity: boolean = false
 ): { Psoil_psi: number } {
   if (method === 'PRISM') {
-    return { Psoil_psi: Rho_lbft3 * H_ft / 144 };
+    return { Psoil_psi: Rho_lbft3 * H_ft / 144 + Pwater_psi };
   }
   
   // Trap Door method
   const H_in = H_ft * 12;
   
   if (H_in < 2.5 * D_in) {
-    return { Psoil_psi: Rho_lbft3 * H_ft / 144 };
+    return { Psoil_psi: Rho_lbft3 * H_ft / 144 + Pwater_psi };
   }
   
   const PhiRad = frictionAngleDeg * Math.PI / 180;
   const DenCoTerm = (Rho_lbft3 / 1728) - (2 * cohesion_psi / 144) / D_in;
   const q = Rho_lbft3 * H_ft / 144;
   
-  const Psoil_psi = DenCoTerm * D_in * (1 - Math.exp(-2 * H_in * Math.tan(PhiRad) / D_in)) / (2 * Math.tan(PhiRad)) + q * Math.exp(-2 * H_in * Math.tan(PhiRad) / D_in);
+  // Arching coefficient: tanφ (K = 1), or the VBA Rankine Ka
+  const K = vbaParity
+    ? (1 - Math.sin(PhiRad)) / (1 + Math.sin(PhiRad))
+    : Math.tan(PhiRad);
+  
+  const Psoil_psi = DenCoTerm * D_in * (1 - Math.exp(-2 * H_in * K / D_in)) / (2 * K) + q * Math.exp(-2 * H_in * K / D_in);
   
-  return { Psoil_psi };
+  return { Psoil_psi: Psoil_psi + Pwater_psi };
 }
 
 export function calculateImpactFactor(
@@ -79,6 +134,10 @@ export function calculateImpactFactor(
     IF = 1.25;
   } else if (vehicleClass === 'TRACK') {
     IF = 1.5;
+  } else if (vehicleClass === 'RAIL') {
+    // API RP 1102 railroad impact factor (Fi = 1.75) is independent of depth;
+    // the depth reduction below is the road vehicle one
+    return { impactFactorDepth: 1.75 };
   }
   
   const H_in = H_ft * 12;
@@ -101,9 +160,9 @@ export function calculateHoopStress(
   Kb: number,
   Kz: number,
   Eprime_psi: number,
-  kr: number
+  kr: number,
+  E: number = CARBON_STEEL.E_psi
 ): { hoopSoil: number; hoopLive: number; hoopInt: number } {
-  const E = 30e6;
   const denominator = 1 + 3 * Kz * (Pint_psi / E) * Math.pow(D_in / t_in, 3) + 0.0915 * (Eprime_psi / E) * Math.pow(D_in / t_in, 3);
   
   const hoopSoil = (3 * Kb * Psoil_psi * Math.pow(D_in / t_in, 2)) / denominator;
@@ -115,16 +174,19 @@ export function calculateHoopStress(
 
 export function calculateLongitudinalLiveStress(
   hoopLive_psi: number,
-  Plive_psi: number,
+  bsnqMax_psi: number, // Boussinesq pressure before the impact factor
   H_ft: number,
   D_in: number,
   t_in: number,
   Eprime_psi: number,
   Theta: number,
-  impactFactor: number
-): { longLive: number; longLiveLocal: number; longLiveBend: number } {
-  const E = 30e6;
-  const Poisson = 0.3;
+  impactFactor: number,
+  bendingMoment_lbin?: number, // from the beam-on-elastic-foundation profile, replaces the equivalent load
+  axleSheet: boolean = false, // legacy axle and grid sheet moment (strict VBA parity only)
+  material: Pick<MaterialEN, 'E_psi' | 'poisson'> = CARBON_STEEL
+): { longLive: number; longLiveLocal: number; longLiveBend: number; momentMax: number } {
+  const E = material.E_psi;
+  const Poisson = material.poisson;
   
   // Local bending
   const Beta = Math.pow(12 * (1 - Poisson * Poisson), 1/8);
@@ -133,13 +195,33 @@ export function calculateLongitudinalLiveStress(
   // Axial bending
   const H_in = H_ft * 12;
   const Inertia = Math.PI / 4 * (Math.pow(D_in / 2, 4) - Math.pow(D_in / 2 - t_in, 4));
+  if (bendingMoment_lbin !== undefined) {
+    const momentMax = Math.abs(bendingMoment_lbin);
+    const longLiveBend = (momentMax * D_in) / (2 * Inertia);
+    return { longLive: longLiveBend + longLiveLocal, longLiveLocal, longLiveBend, momentMax };
+  }
   const Lambda = Math.pow((Eprime_psi * D_in * Theta / 360) / (4 * E * Inertia), 0.25);
   
-  const Wsurf = Plive_psi * 2 * Math.PI * H_in * H_in / 3 * impactFactor;
+  const Wsurf = bsnqMax_psi * 2 * Math.PI * H_in * H_in / 3 * impactFactor;
   const Lload = H_in * Math.tan(29.9 * Math.PI / 180);
   const Ppipe = Wsurf / (Math.PI * Lload * Lload);
   
-  // Simplified moment calculation (avoid huge loops)
+  const momentMax = axleSheet
+    ? axleSheetEquivalentLoadMoment(Ppipe, Lload, Lambda)
+    : equivalentLoadMoment(Ppipe, Lload, Lambda);
+  
+  const longLiveBend = (momentMax * D_in) / (2 * Inertia);
+  const longLive = longLiveBend + longLiveLocal;
+  
+  return { longLive, longLiveLocal, longLiveBend, momentMax };
+}
+
+/**
+ * Simplified moment of the legacy axle and grid sheets
+ * M(x) does not decay away from the load (it tends to Ppipe Lload² / 2λ), so the
+ * moment grows with cover; kept only to reproduce those sheets
+ */
+function axleSheetEquivalentLoadMoment(Ppipe: number, Lload: number, Lambda: number): number {
   const maxIterations = Math.min(500, Math.floor(100 * Lload));
   let momentMAX = 0;
   
@@ -150,10 +232,82 @@ export function calculateLongitudinalLiveStress(
     momentMAX = Math.max(momentMAX, Math.abs(M));
   }
   
-  const longLiveBend = (momentMAX * D_in) / (2 * Inertia);
-  const longLive = longLiveBend + longLiveLocal;
+  return momentMAX;
+}
+
+/**
+ * Moment march along the pipe for the equivalent load (ported from the VBA Track sheet)
+ * Hetényi infinite beam under the equivalent load spread over ±Lload; the moment
+ * decays away from the load. VBA loops from -100*Lload to +100*Lload; the step is
+ * at least 1 inch, or Lload/50
+ */
+function equivalentLoadMoment(Ppipe: number, Lload: number, Lambda: number): number {
+  const maxRange = 100 * Lload;
+  const stepSize = Math.max(1, Lload / 50);
+  const term1 = Ppipe / (4 * Math.pow(Lambda, 3));
+  
+  let Mmax = 0;
+  let Mmin1 = 0;
+  let Mmin2 = 0;
+  
+  for (let x = -maxRange; x <= maxRange; x += stepSize) {
+    const absX = Math.abs(x);
+    let M: number;
+    
+    if (absX <= Lload) {
+      // Within load region
+      const M1 = term1 * Math.exp(-Lambda * absX) * (Math.cos(Lambda * absX) + Math.sin(Lambda * absX));
+      const M2 = -Ppipe * Math.pow(absX, 2) / 2;
+      M = M1 + M2;
+    } else {
+      // Outside load region
+      const M1 = term1 * Math.exp(-Lambda * absX) * (Math.cos(Lambda * absX) + Math.sin(Lambda * absX));
+      const M2 = -term1 * Math.exp(-Lambda * (absX - Lload)) * (Math.cos(Lambda * (absX - Lload)) + Math.sin(Lambda * (absX - Lload)));
+      M = M1 + M2;
+    }
+    
+    if (M > Mmax) Mmax = M;
+    if (absX <= Lload && M < Mmin1) Mmin1 = M;
+    if (absX > Lload && M < Mmin2) Mmin2 = M;
+  }
   
-  return { longLive, longLiveLocal, longLiveBend };
+  return Math.max(Math.abs(Mmax), Math.abs(Mmin1), Math.abs(Mmin2));
+}
+
+/**
+ * High/low hoop and longitudinal stress cases at zero pressure and at MOP
+ * High: soil + live (+ internal) (+ thermal); low: live load absent, or soil minus live (VBA)
+ */
+export function combineStressCases(
+  stressZero: { hoopSoil: number; hoopLive: number },
+  stressMOP: { hoopSoil: number; hoopLive: number; hoopInt: number },
+  longLiveZero_psi: number,
+  longLiveMOP_psi: number,
+  longTherm_psi: number,
+  vbaParity: boolean = false,
+  Poisson: number = CARBON_STEEL.poisson
+): {
+  hoopZeroHigh: number;
+  hoopZeroLow: number;
+  hoopMOPHigh: number;
+  hoopMOPLow: number;
+  longZeroHigh: number;
+  longZeroLow: number;
+  longMOPHigh: number;
+  longMOPLow: number;
+} {
+  const lowLive = vbaParity ? -1 : 0;
+  
+  return {
+    hoopZeroHigh: stressZero.hoopSoil + stressZero.hoopLive,
+    hoopZeroLow: stressZero.hoopSoil + lowLive * stressZero.hoopLive,
+    hoopMOPHigh: stressMOP.hoopSoil + stressMOP.hoopLive + stressMOP.hoopInt,
+    hoopMOPLow: stressMOP.hoopSoil + lowLive * stressMOP.hoopLive + stressMOP.hoopInt,
+    longZeroHigh: Poisson * stressZero.hoopSoil + longLiveZero_psi + longTherm_psi,
+    longZeroLow: Poisson * stressZero.hoopSoil + lowLive * longLiveZero_psi + longTherm_psi,
+    longMOPHigh: Poisson * stressMOP.hoopSoil + longLiveMOP_psi + Poisson * stressMOP.hoopInt + longTherm_psi,
+    longMOPLow: Poisson * stressMOP.hoopSoil + lowLive * longLiveMOP_psi + Poisson * stressMOP.hoopInt + longTherm_psi,
+  };
 }
 
 export function calculateEquivalentStress(
@@ -237,3 +391,272 @@ export function convertPressureToUserUnits(value_psi: number, unitsSystem: 'EN'
   if (unitsSystem === 'EN') return value_psi;
   return value_psi / 0.1450378911491; // psi -> kPa
 }
+
+/**
+ * Pipe and soil inputs of the pipeline checks (ENGLISH units)
+ */
+export interface PipelineInputsEN {
+  D_in: number; // outer diameter
+  t_in: number; // wall thickness
+  Pint_psi: number; // MOP
+  SMYS_psi: number; // SMYS derated for the material temperature
+  deltaT_F: number;
+  Rho_lbft3: number; // soil density
+  H_ft: number; // depth of cover
+  Eprime_psi?: number; // user-defined E'
+  soilCohesion_psi: number;
+  groundwater?: GroundwaterEN;
+  material: MaterialEN;
+  plasticPipe?: PlasticPipeEN;
+  soilProfile?: SoilProfileEN;
+  vacuum_psi: number;
+}
+
+/**
+ * Live load at the pipe from the engine's surface loads (ENGLISH units)
+ */
+export interface LiveLoadPressuresEN {
+  bsnqMax_psi: number; // max vertical pressure at the pipe crown, before the impact factor
+  loads: PointLoad[]; // subgrade point loads at the analysed vehicle position
+  depth_ft: number; // depth of the pipe crown below the subgrade loads
+}
+
+/**
+ * Legacy spreadsheet whose formulas strict VBA parity reproduces (see the header)
+ */
+export type VbaSheet = 'TRACK' | 'AXLE';
+
+export type PipelineCheckOptions = Pick<
+  PipelineTrackInputs,
+  | 'unitsSystem' | 'beddingAngleDeg' | 'soilLoadMethod' | 'frictionAngleDeg' | 'kr'
+  | 'ePrimeMethod' | 'soilType' | 'compaction' | 'pavementType' | 'vehicleClass'
+  | 'equivStressMethod' | 'codeCheck' | 'longSeamWeldType' | 'longitudinalBendingMethod' | 'pressureKernel'
+  | 'deflectionLagFactor' | 'deflectionLimitPct' | 'material' | 'casing' | 'b318Design' | 'z662Design' | 'userDefinedLimits'
+> & {
+  vbaSheet?: VbaSheet; // omit for the library formulas
+};
+
+/**
+ * Results of the pipeline checks (user units); the engines add the live load details
+ */
+export type PipelineCheckResults = Omit<
+  PipelineTrackResults,
+  'locationMaxLoad' | 'warnings' | 'pavement' | 'pressureMap' | 'kernelConvergence' | 'casedCrossing' | 'debug'
+> & {
+  debug: Omit<DebugValues, 'contactPressure_psf' | 'influenceFactor'>;
+};
+
+/**
+ * Stresses and checks of the pipe under the soil and the engine's live load
+ * E', soil load, bedding, hoop, longitudinal and thermal stresses, code checks,
+ * fatigue, deflection, buckling, plastic pipe and flotation; results in user units
+ */
+export function runPipelineChecks(
+  inputsEN: PipelineInputsEN,
+  pressures: LiveLoadPressuresEN,
+  options: PipelineCheckOptions
+): PipelineCheckResults {
+  const { unitsSystem } = options;
+  const trackSheet = options.vbaSheet === 'TRACK';
+  const axleSheet = options.vbaSheet === 'AXLE';
+  const E = inputsEN.material.E_psi;
+  const Poisson = inputsEN.material.poisson;
+  
+  // Layered soil: embedment E' and soil column weight
+  const soilProfile = inputsEN.soilProfile
+    ? resolveSoilProfile(inputsEN.soilProfile, inputsEN.H_ft, inputsEN.D_in)
+    : undefined;
+  
+  const { Kb, Kz, Theta } = calculateBeddingParams(options.beddingAngleDeg);
+  const { ePrime_psi } = calculateEPrime(
+    options.ePrimeMethod,
+    inputsEN.Eprime_psi,
+    soilProfile?.embedmentSoilType ?? options.soilType,
+    soilProfile?.embedmentCompaction ?? options.compaction,
+    inputsEN.H_ft,
+    trackSheet
+  );
+  
+  // Soil load (dry / submerged layers + hydrostatic pressure)
+  const soilColumn = splitSoilColumn(inputsEN.Rho_lbft3, inputsEN.H_ft, inputsEN.groundwater, inputsEN.soilProfile);
+  const { Psoil_psi } = calculateSoilLoad(
+    options.soilLoadMethod,
+    soilColumn.RhoEff_lbft3,
+    inputsEN.H_ft,
+    inputsEN.D_in,
+    options.frictionAngleDeg,
+    inputsEN.soilCohesion_psi,
+    soilColumn.Pwater_psi,
+    trackSheet
+  );
+  
+  const { impactFactorDepth } = calculateImpactFactor(options.vehicleClass, options.pavementType, inputsEN.H_ft);
+  const BsnqIF = pressures.bsnqMax_psi * impactFactorDepth;
+  // The legacy axle and grid sheets apply the impact factor again to the factored pressure;
+  // the default applies it once, a deliberate change from the spreadsheet (see README)
+  const bsnqLong_psi = axleSheet ? BsnqIF : pressures.bsnqMax_psi;
+  
+  const stressZero = calculateHoopStress(Psoil_psi, BsnqIF, 0, inputsEN.D_in, inputsEN.t_in, Kb, Kz, ePrime_psi, options.kr, E);
+  const stressMOP = calculateHoopStress(Psoil_psi, BsnqIF, inputsEN.Pint_psi, inputsEN.D_in, inputsEN.t_in, Kb, Kz, ePrime_psi, options.kr, E);
+  
+  // Axial bending from the pressure profile along the pipe (Boussinesq profile method only)
+  const beamProfile = options.longitudinalBendingMethod === 'BOUSSINESQ_PROFILE'
+    ? calculateBeamProfile(pressures.loads, pressures.depth_ft, impactFactorDepth, inputsEN.D_in, inputsEN.t_in, ePrime_psi, Theta, options.pressureKernel, E)
+    : undefined;
+  
+  // Longitudinal live load stresses (local + axial bending)
+  const longZero = calculateLongitudinalLiveStress(stressZero.hoopLive, bsnqLong_psi, inputsEN.H_ft, inputsEN.D_in, inputsEN.t_in, ePrime_psi, Theta, impactFactorDepth, beamProfile?.maxMoment_lbin, axleSheet, inputsEN.material);
+  const longMOP = calculateLongitudinalLiveStress(stressMOP.hoopLive, bsnqLong_psi, inputsEN.H_ft, inputsEN.D_in, inputsEN.t_in, ePrime_psi, Theta, impactFactorDepth, beamProfile?.maxMoment_lbin, axleSheet, inputsEN.material);
+  
+  const longTherm_psi = E * inputsEN.material.alpha_perF * inputsEN.deltaT_F;
+  const longSoilZero_psi = Poisson * stressZero.hoopSoil;
+  const longSoilMOP_psi = Poisson * stressMOP.hoopSoil;
+  const longIntMOP_psi = Poisson * stressMOP.hoopInt;
+  
+  const stressCases = combineStressCases(stressZero, stressMOP, longZero.longLive, longMOP.longLive, longTherm_psi, trackSheet, Poisson);
+  const { hoopZeroHigh, hoopZeroLow, hoopMOPHigh, hoopMOPLow, longZeroHigh, longZeroLow, longMOPHigh, longMOPLow } = stressCases;
+  
+  const equivZero = calculateEquivalentStress(options.equivStressMethod, hoopZeroHigh, hoopZeroLow, longZeroHigh, longZeroLow, inputsEN.SMYS_psi);
+  const equivMOP = calculateEquivalentStress(options.equivStressMethod, hoopMOPHigh, hoopMOPLow, longMOPHigh, longMOPLow, inputsEN.SMYS_psi);
+  
+  // Pass/Fail with limits info (B31.4 sustained longitudinal check if applicable)
+  const sustainedLong_psi = calculateSustainedLongStress(options.codeCheck, longIntMOP_psi, longSoilZero_psi, longSoilMOP_psi, longTherm_psi);
+  const hoopMaxPct = Math.max(Math.abs(hoopZeroHigh), Math.abs(hoopMOPHigh)) / inputsEN.SMYS_psi * 100;
+  const longMaxPct = Math.max(Math.abs(longZeroHigh), Math.abs(longMOPHigh), sustainedLong_psi) / inputsEN.SMYS_psi * 100;
+  const equivMaxPct = Math.max(equivZero.pctSMYS, equivMOP.pctSMYS) * 100;
+  
+  // CSA Z662 clause checks: hoop F × L × J × T, restrained pipe (4.8) and Annex C biaxial
+  const z662Factors = resolveZ662DesignFactors(options);
+  const passFailResult = calculatePassFailHelper(
+    options.codeCheck,
+    options.userDefinedLimits,
+    hoopMaxPct,
+    longMaxPct,
+    equivMaxPct,
+    inputsEN.SMYS_psi,
+    resolveB318DesignFactors(options),
+    z662Factors
+  );
+  const csaZ662Check = z662Factors && calculateZ662Check(stressCases, inputsEN.SMYS_psi, z662Factors);
+  
+  // API RP 1102 fatigue check of the welds against the live load stress ranges
+  const fatigueCheck = calculateFatigueCheck(stressMOP.hoopLive, longMOP.longLive, options.longSeamWeldType);
+  
+  // Ring deflection (Modified Iowa)
+  const deflectionCheck = calculateModifiedIowaDeflection(
+    Psoil_psi,
+    BsnqIF,
+    inputsEN.D_in,
+    inputsEN.t_in,
+    Kb,
+    ePrime_psi,
+    options.deflectionLagFactor,
+    options.deflectionLimitPct,
+    E
+  );
+  
+  // Ring buckling under external pressure (AWWA M11)
+  const bucklingCheck = calculateBucklingCheck(
+    Psoil_psi - soilColumn.Pwater_psi,
+    BsnqIF,
+    inputsEN.D_in,
+    inputsEN.t_in,
+    inputsEN.H_ft,
+    ePrime_psi,
+    soilColumn.hw_ft,
+    inputsEN.vacuum_psi,
+    E
+  );
+  
+  // Flexible plastic pipe checks (AWWA M55 / PPI) in place of the steel stress checks
+  const plasticPipeCheck = inputsEN.plasticPipe
+    ? calculatePlasticPipeCheck(inputsEN.plasticPipe, Psoil_psi, BsnqIF, inputsEN.Pint_psi, inputsEN.vacuum_psi, inputsEN.D_in, inputsEN.H_ft, Kb, ePrime_psi, options.deflectionLagFactor)
+    : undefined;
+  
+  // Flotation of the empty pipe below the water table
+  const flotationCheck = inputsEN.groundwater
+    ? calculateFlotationCheck(inputsEN.D_in, plasticPipeCheck?.t_in ?? inputsEN.t_in, inputsEN.H_ft, inputsEN.Rho_lbft3, inputsEN.groundwater, inputsEN.soilProfile, inputsEN.plasticPipe?.density_pcf)
+    : undefined;
+  
+  const toUser = (value_psi: number) => convertPressureToUserUnits(value_psi, unitsSystem);
+  
+  return {
+    maxSurfacePressureOnPipe: toUser(BsnqIF),
+    impactFactorUsed: impactFactorDepth,
+    stresses: {
+      atZeroPressure: {
+        hoop: {
+          high: toUser(hoopZeroHigh),
+          low: toUser(hoopZeroLow),
+          components: { pressure: 0, earth: toUser(stressZero.hoopSoil), thermal: 0, total: toUser(hoopZeroHigh) },
+        },
+        longitudinal: {
+          high: toUser(longZeroHigh),
+          low: toUser(longZeroLow),
+          components: { pressure: 0, earth: toUser(longSoilZero_psi), thermal: toUser(longTherm_psi), total: toUser(longZeroHigh) },
+        },
+        equivalent: { high: toUser(equivZero.high), low: toUser(equivZero.low), percentSMYS: equivZero.pctSMYS },
+      },
+      atMOP: {
+        hoop: {
+          high: toUser(hoopMOPHigh),
+          low: toUser(hoopMOPLow),
+          components: { pressure: toUser(stressMOP.hoopInt), earth: toUser(stressMOP.hoopSoil), thermal: 0, total: toUser(hoopMOPHigh) },
+        },
+        longitudinal: {
+          high: toUser(longMOPHigh),
+          low: toUser(longMOPLow),
+          components: { pressure: toUser(longIntMOP_psi), earth: toUser(longSoilMOP_psi), thermal: toUser(longTherm_psi), total: toUser(longMOPHigh) },
+        },
+        equivalent: { high: toUser(equivMOP.high), low: toUser(equivMOP.low), percentSMYS: equivMOP.pctSMYS },
+      },
+    },
+    allowableStress: toUser(passFailResult.allowableStress_psi),
+    passFailSummary: {
+      hoopAtZero: passFailResult.hoopPass,
+      hoopAtMOP: passFailResult.hoopPass,
+      longitudinalAtZero: passFailResult.longPass,
+      longitudinalAtMOP: passFailResult.longPass,
+      equivalentAtZero: passFailResult.equivPass,
+      equivalentAtMOP: passFailResult.equivPass,
+      deflection: deflectionCheck.pass,
+      buckling: bucklingCheck.pass,
+      flotation: flotationCheck?.pass ?? true,
+      fatigue: fatigueCheck.overallPass,
+      overallPass: (plasticPipeCheck ? plasticPipeCheck.pass : passFailResult.overallPass && (csaZ662Check?.pass ?? true) && deflectionCheck.pass && bucklingCheck.pass && fatigueCheck.overallPass) && (flotationCheck?.pass ?? true),
+    },
+    fatigueCheck: convertFatigueCheckToUserUnits(fatigueCheck, unitsSystem),
+    deflectionCheck,
+    bucklingCheck: convertBucklingCheckToUserUnits(bucklingCheck, unitsSystem),
+    flotationCheck: flotationCheck && convertFlotationCheckToUserUnits(flotationCheck, unitsSystem),
+    soilProfile: soilProfile && convertSoilProfileToUserUnits(soilProfile, unitsSystem),
+    beamProfile: beamProfile && convertBeamProfileToUserUnits(beamProfile, unitsSystem),
+    material: convertMaterialToUserUnits(inputsEN.material, inputsEN.SMYS_psi, unitsSystem),
+    plasticPipeCheck: plasticPipeCheck && convertPlasticPipeCheckToUserUnits(plasticPipeCheck, unitsSystem),
+    csaZ662Check: plasticPipeCheck ? undefined : csaZ662Check,
+    limitsUsed: passFailResult.limitsUsed,
+    ePrimeUsed: toUser(ePrime_psi),
+    soilLoadOnPipe: toUser(Psoil_psi),
+    deflectionRatio: deflectionCheck.deflectionPct / 100,
+    debug: {
+      soilPressure_psi: toUser(Psoil_psi),
+      boussinesqMax_psi: toUser(pressures.bsnqMax_psi),
+      impactFactorDepth,
+      Kb,
+      Kz,
+      Theta,
+      ePrime_psi: toUser(ePrime_psi),
+      hoopSoil_psi: toUser(stressMOP.hoopSoil),
+      hoopLive_psi: toUser(stressMOP.hoopLive),
+      hoopInt_psi: toUser(stressMOP.hoopInt),
+      longSoil_psi: toUser(longSoilMOP_psi),
+      longLive_psi: toUser(longMOP.longLive),
+      longInt_psi: toUser(longIntMOP_psi),
+      longTherm_psi: toUser(longTherm_psi),
+      pressureKernel: getPressureKernel(options.pressureKernel).kernel,
+      momentMAX_lbin: longMOP.momentMax,
+      longLiveLocal_psi: toUser(longMOP.longLiveLocal),
+      longLiveBend_psi: toUser(longMOP.longLiveBend),
+    },
+  };
+}
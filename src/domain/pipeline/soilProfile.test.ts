@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { convertSoilProfileToEN, convertSoilProfileToUserUnits, resolveSoilProfile, soilWeightToDepth, SoilProfileEN } from './soilProfile';
+
+// 2 ft of compacted gravel base over fine native fill, which also beds the pipe
+const profile: SoilProfileEN = {
+  layers: [
+    { thickness_ft: 2, Rho_lbft3: 130, soilType: 'COARSE_NO_FINES', compaction: 95 },
+    { thickness_ft: 3, Rho_lbft3: 110, soilType: 'FINE', compaction: 90 },
+  ],
+  loadSpread: true,
+};
+
+describe('soil profile', () => {
+  it('sums the layer weights and extends the last layer below the pipe', () => {
+    expect(soilWeightToDepth(profile, 1)).toBe(130);
+    // 130 x 2 + 110 x 4 = 700 psf at 6 ft, past the 5 ft the last layer was entered with
+    expect(soilWeightToDepth(profile, 6)).toBe(700);
+
+    const result = resolveSoilProfile(profile, 6, 24);
+    expect(result.averageUnitWeight_lbft3).toBeCloseTo(700 / 6, 10);
+    expect(result).toMatchObject({ layerCount: 2, embedmentLayer: 1, embedmentSoilType: 'FINE', embedmentCompaction: 90 });
+  });
+
+  it('converts the cover to the Odemark equivalent depth of the embedment soil', () => {
+    // E' = Epr1 x (compaction / 100)^Epr3: gravel 4500 x 0.95^3.3 = 3799.27 psi, fine 1000 x 0.9^4 = 656.1 psi
+    // He = 2 x (3799.27 / 656.1)^(1/3) + 4 = 7.59148 ft
+    expect(resolveSoilProfile(profile, 6, 24).loadDepth_ft).toBeCloseTo(7.59148, 5);
+    expect(resolveSoilProfile({ ...profile, loadSpread: false }, 6, 24).loadDepth_ft).toBe(6);
+  });
+
+  it('converts SI layers and results', () => {
+    const si = convertSoilProfileToEN({
+      enabled: true,
+      loadSpread: false,
+      layers: [{ name: 'Fill', thickness: 1, unitWeight: 2000, soilType: 'FINE', compaction: 90 }],
+    }, 'SI');
+    expect(si?.layers[0].thickness_ft).toBeCloseTo(3.28084, 5);
+    expect(si?.layers[0].Rho_lbft3).toBeCloseTo(124.856, 3);
+
+    const summary = convertSoilProfileToUserUnits(resolveSoilProfile(profile, 6, 24), 'SI');
+    expect(summary.embedmentLayer).toBe(2);
+    expect(summary.averageUnitWeight).toBeCloseTo(700 / 6 / 0.062427960576, 6);
+    expect(convertSoilProfileToEN({ enabled: false, loadSpread: false, layers: [] }, 'EN')).toBeUndefined();
+  });
+});
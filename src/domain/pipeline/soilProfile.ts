@@ -0,0 +1,154 @@
+/**
+ * Layered soil profile above and around the pipe
+ * Layers are listed from grade down (e.g. base course, native fill, embedment);
+ * the last layer extends below the pipe.
+ *   soil prism weight:  Σ γi * hi over the depth of cover
+ *   embedment E':       lookup for the layer at the pipe springline
+ *   load spread:        Odemark equivalent depth He = Σ hi * (E'i / E'emb)^(1/3)
+ * All values in ENGLISH units (inches, ft, lb/ft³, psi)
+ */
+
+import { SoilProfileInputs, SoilProfileSummary, SoilType, Compaction, UnitsSystem } from './types';
+import { calculateEPrimeFromLookup } from './ePrimeLookup';
+
+export interface SoilLayerEN {
+  thickness_ft: number;
+  Rho_lbft3: number;
+  soilType: SoilType;
+  compaction: Compaction;
+}
+
+export interface SoilProfileEN {
+  layers: SoilLayerEN[];
+  loadSpread: boolean;
+}
+
+export interface SoilProfileResultEN {
+  layerCount: number;
+  averageUnitWeight_lbft3: number; // over the depth of cover
+  embedmentLayer: number; // 0-based index of the layer at the springline
+  embedmentSoilType: SoilType;
+  embedmentCompaction: Compaction;
+  loadSpread: boolean;
+  loadDepth_ft: number; // equivalent depth with load spread, otherwise the depth of cover
+}
+
+/**
+ * Convert the soil profile to ENGLISH units (undefined when disabled or empty)
+ */
+export function convertSoilProfileToEN(
+  profile: SoilProfileInputs | undefined,
+  unitsSystem: UnitsSystem
+): SoilProfileEN | undefined {
+  if (!profile?.enabled || !profile.layers?.length) return undefined;
+  const isMetric = unitsSystem === 'SI';
+
+  return {
+    layers: profile.layers.map(layer => ({
+      thickness_ft: isMetric ? layer.thickness * 3.280839895013 : layer.thickness, // m -> ft
+      Rho_lbft3: isMetric ? layer.unitWeight * 0.062427960576 : layer.unitWeight, // kg/m3 -> lb/ft3
+      soilType: layer.soilType,
+      compaction: layer.compaction,
+    })),
+    loadSpread: profile.loadSpread,
+  };
+}
+
+/**
+ * Top and bottom depth of each layer (ft); the last layer is open-ended
+ */
+function layerBounds(profile: SoilProfileEN): { top_ft: number; bottom_ft: number }[] {
+  let top_ft = 0;
+  return profile.layers.map((layer, i) => {
+    const isLast = i === profile.layers.length - 1;
+    const bottom_ft = isLast ? Infinity : top_ft + Math.max(layer.thickness_ft, 0);
+    const bounds = { top_ft, bottom_ft };
+    top_ft = bottom_ft;
+    return bounds;
+  });
+}
+
+/**
+ * Weight of the soil column from grade down to a depth (lb/ft²)
+ */
+export function soilWeightToDepth(profile: SoilProfileEN, depth_ft: number): number {
+  const bounds = layerBounds(profile);
+  let weight_psf = 0;
+  profile.layers.forEach((layer, i) => {
+    const h_ft = Math.min(bounds[i].bottom_ft, depth_ft) - bounds[i].top_ft;
+    if (h_ft > 0) weight_psf += layer.Rho_lbft3 * h_ft;
+  });
+  return weight_psf;
+}
+
+/**
+ * Index of the layer containing a depth
+ */
+function findLayerAtDepth(profile: SoilProfileEN, depth_ft: number): number {
+  const bounds = layerBounds(profile);
+  const index = bounds.findIndex(b => depth_ft < b.bottom_ft);
+  return index === -1 ? profile.layers.length - 1 : index;
+}
+
+/**
+ * Odemark equivalent depth of the cover: each layer above the pipe is converted to
+ * an equivalent thickness of embedment soil by the cube root of the stiffness ratio
+ */
+function calculateEquivalentDepth(profile: SoilProfileEN, H_ft: number, embedment: SoilLayerEN): number {
+  const ePrimeEmbedment_psi = calculateEPrimeFromLookup(embedment.soilType, embedment.compaction, H_ft);
+  if (!(ePrimeEmbedment_psi > 0)) return H_ft;
+
+  const bounds = layerBounds(profile);
+  let He_ft = 0;
+  profile.layers.forEach((layer, i) => {
+    const bottom_ft = Math.min(bounds[i].bottom_ft, H_ft);
+    const h_ft = bottom_ft - bounds[i].top_ft;
+    if (h_ft <= 0) return;
+    const midDepth_ft = (bounds[i].top_ft + bottom_ft) / 2;
+    const ePrime_psi = calculateEPrimeFromLookup(layer.soilType, layer.compaction, midDepth_ft);
+    He_ft += h_ft * Math.cbrt(Math.max(ePrime_psi, 0) / ePrimeEmbedment_psi);
+  });
+
+  return He_ft > 0 ? He_ft : H_ft;
+}
+
+/**
+ * Resolve the soil profile for a pipe at depth of cover H
+ * @param profile - soil profile in EN units
+ * @param H_ft - depth of cover (ft)
+ * @param D_in - outside diameter (in)
+ */
+export function resolveSoilProfile(profile: SoilProfileEN, H_ft: number, D_in: number): SoilProfileResultEN {
+  const embedmentLayer = findLayerAtDepth(profile, H_ft + D_in / 24);
+  const embedment = profile.layers[embedmentLayer];
+
+  return {
+    layerCount: profile.layers.length,
+    averageUnitWeight_lbft3: H_ft > 0 ? soilWeightToDepth(profile, H_ft) / H_ft : profile.layers[0].Rho_lbft3,
+    embedmentLayer,
+    embedmentSoilType: embedment.soilType,
+    embedmentCompaction: embedment.compaction,
+    loadSpread: profile.loadSpread,
+    loadDepth_ft: profile.loadSpread ? calculateEquivalentDepth(profile, H_ft, embedment) : H_ft,
+  };
+}
+
+/**
+ * Convert the soil profile result to user units (ft or m, lb/ft³ or kg/m³)
+ */
+export function convertSoilProfileToUserUnits(
+  result: SoilProfileResultEN,
+  unitsSystem: UnitsSystem
+): SoilProfileSummary {
+  const isMetric = unitsSystem === 'SI';
+
+  return {
+    layerCount: result.layerCount,
+    averageUnitWeight: isMetric ? result.averageUnitWeight_lbft3 / 0.062427960576 : result.averageUnitWeight_lbft3,
+    embedmentLayer: result.embedmentLayer + 1,
+    embedmentSoilType: result.embedmentSoilType,
+    embedmentCompaction: result.embedmentCompaction,
+    loadSpread: result.loadSpread,
+    loadDepth: isMetric ? result.loadDepth_ft / 3.280839895013 : result.loadDepth_ft,
+  };
+}
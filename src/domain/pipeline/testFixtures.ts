@@ -0,0 +1,101 @@
+/**
+ * Engine inputs for the feature unit tests
+ * A 36 in x 0.5 in X52 line at 1000 psi under 6 ft of cover in the modern
+ * (non-parity) mode, kept separate from the baseline-regression fixtures so re-recording
+ * those does not move the unit tests.
+ */
+
+import { PipelineTrackInputs } from './types';
+import { TwoAxleInputs } from './types2Axle';
+import { GridLoadInputs } from './typesGrid';
+import { MultiAxleInputs } from './typesMultiAxle';
+import { RailInputs } from './typesRail';
+
+const pipeAndSoil = {
+  unitsSystem: 'EN',
+  pipeOD: 36,
+  pipeWT: 0.5,
+  MOP: 1000,
+  SMYS: 52000,
+  deltaT: 40,
+  soilDensity: 120,
+  depthCover: 6,
+  beddingAngleDeg: 90,
+  soilLoadMethod: 'PRISM',
+  frictionAngleDeg: 30,
+  soilCohesion: 0,
+  kr: 1,
+  ePrimeMethod: 'LOOKUP',
+  soilType: 'COARSE_WITH_FINES',
+  compaction: 90,
+  pavementType: 'FLEXIBLE',
+  equivStressMethod: 'VON_MISES',
+  codeCheck: 'B31_4',
+} as const;
+
+export const trackInputs: PipelineTrackInputs = {
+  ...pipeAndSoil,
+  calculationName: 'D8 dozer',
+  vehicleClass: 'TRACK',
+  trackSeparation: 10,
+  trackLength: 12,
+  trackVehicleWeight: 80000,
+  trackWidth: 24,
+};
+
+export const twoAxleInputs: TwoAxleInputs = {
+  ...pipeAndSoil,
+  calculationName: 'HS20 truck',
+  vehicleClass: 'HIGHWAY',
+  axle1Load: 12000,
+  axle2Load: 32000,
+  axleSpacing: 14,
+  axleWidth: 72,
+  laneOffset: 0,
+  contactPatchMode: 'MANUAL',
+  axle1TireWidth: 10,
+  axle1TireLength: 10,
+  axle2TireWidth: 20,
+  axle2TireLength: 10,
+  axle1TiresPerAxle: 2,
+  axle2TiresPerAxle: 4,
+};
+
+export const gridInputs: GridLoadInputs = {
+  ...pipeAndSoil,
+  calculationName: 'Crane outrigger mat',
+  vehicleClass: 'HIGHWAY',
+  loadType: 'TOTAL_LOAD',
+  totalLoad: 100000,
+  gridLength: 10,
+  gridWidth: 8,
+  gridOffsetX: 0,
+  gridOffsetY: 0,
+  gridDivisionsX: 10,
+  gridDivisionsY: 10,
+};
+
+export const multiAxleInputs: MultiAxleInputs = {
+  ...pipeAndSoil,
+  calculationName: 'Tandem dump truck',
+  vehicleClass: 'HIGHWAY',
+  axles: [
+    { spacing: 0, load: 12000, tiresPerAxle: 2, tireWidth: 10, tireLength: 10 },
+    { spacing: 14, load: 34000, tiresPerAxle: 4, tireWidth: 10, tireLength: 10, dualSpacing: 13 },
+  ],
+  contactPatchMode: 'MANUAL',
+  axleWidth: 72,
+  laneOffset: 0,
+};
+
+export const railInputs: RailInputs = {
+  ...pipeAndSoil,
+  calculationName: 'Cooper E80 crossing',
+  cooperRating: 80,
+  numberOfAxles: 4,
+  axleSpacing: 5,
+  tieLength: 102,
+  tieWidth: 9,
+  tieSpacing: 19.5,
+  trackOffset: 0,
+};
@@ -8,7 +8,15 @@ export type CodeCheck = 'B31_4' | 'B31_8' | 'CSA_Z662' | 'USER_DEFINED';
 export type SoilType = 'FINE' | 'COARSE_WITH_FINES' | 'COARSE_NO_FINES';
 export type Compaction = 80 | 85 | 90 | 95 | 100;
 export type PavementType = 'RIGID' | 'FLEXIBLE';
-export type VehicleClass = 'HIGHWAY' | 'FARM' | 'TRACK';
+export type VehicleClass = 'HIGHWAY' | 'FARM' | 'TRACK' | 'RAIL';
+export type LongSeamWeldType = 'SEAMLESS' | 'ERW' | 'SAW' | 'FLASH_WELDED' | 'FURNACE_BUTT_WELDED';
+export type LongitudinalBendingMethod = 'EQUIVALENT_LOAD' | 'BOUSSINESQ_PROFILE';
+export type MaterialPreset = 'CARBON_STEEL' | 'STAINLESS_STEEL' | 'DUCTILE_IRON' | 'CUSTOM';
+export type PressureKernel = 'BOUSSINESQ_POINT' | 'NEWMARK_RECTANGLE' | 'WESTERGAARD_POINT' | 'LOAD_SPREAD_2_1' | 'LOAD_SPREAD_1_1';
+export type LocationClass = 'CLASS_1_DIV_1' | 'CLASS_1_DIV_2' | 'CLASS_2' | 'CLASS_3' | 'CLASS_4';
+export type RoadCrossing = 'NONE' | 'PRIVATE_ROAD' | 'UNIMPROVED_PUBLIC_ROAD' | 'HARD_SURFACE_ROAD_OR_RAILROAD';
+export type Z662LocationClass = 'CLASS_1' | 'CLASS_2' | 'CLASS_3' | 'CLASS_4';
+export type Z662Crossing = 'NONE' | 'ROAD' | 'RAILWAY';
 
 export interface PipelineTrackInputs {
   // System
@@ -48,6 +56,21 @@ export interface PipelineTrackInputs {
   vehicleClass: VehicleClass;
   equivStressMethod: EquivStressMethod;
   codeCheck: CodeCheck;
+  longSeamWeldType?: LongSeamWeldType; // fatigue check, defaults to ERW
+  longitudinalBendingMethod?: LongitudinalBendingMethod; // axial bending, defaults to EQUIVALENT_LOAD (VBA)
+  pressureKernel?: PressureKernel; // vertical stress, defaults to BOUSSINESQ_POINT (VBA 6-inch lumping)
+  strictVbaParity?: boolean; // reproduce the legacy VBA spreadsheet formulas (see sharedCalculations)
+  deflectionLagFactor?: number; // Modified Iowa DL, defaults to 1.5
+  deflectionLimitPct?: number; // allowable ΔY/D (% of OD), defaults to 3
+  groundwater?: GroundwaterInputs; // water table (omit for dry ground)
+  soilProfile?: SoilProfileInputs; // layered soil (omit for a single soil density)
+  pavement?: PavementInputs; // pavement load spread (omit to apply loads at grade)
+  material?: MaterialInputs; // pipe material (omit for carbon steel)
+  plasticPipe?: PlasticPipeInputs; // flexible PE/PVC pipe (omit for steel)
+  casing?: CasingInputs; // cased crossing (omit for an uncased pipe)
+  b318Design?: B318DesignInputs; // location class, joint and temperature factors (B31.8 only)
+  z662Design?: Z662DesignInputs; // location class, joint and temperature factors (CSA Z662 only)
+  internalVacuum?: number; // buckling check (psi or kPa), defaults to 0
   userDefinedLimits?: {
     hoopLimitPct: number; // % SMYS
     longLimitPct: number; // % SMYS
@@ -55,6 +78,255 @@ export interface PipelineTrackInputs {
   }; // if USER_DEFINED
 }
 
+/**
+ * Critical position search settings (user units: ft or m)
+ * The vehicle footprint is marched along the pipe axis (X) and across it (Y)
+ */
+export interface PositionSearchInputs {
+  enabled: boolean;
+  alongPipeRange: number; // half-range of travel along the pipe axis (ft or m)
+  acrossPipeRange: number; // half-range of travel across the pipe axis (ft or m)
+  stepSize: number; // march increment (ft or m)
+}
+
+export interface PositionEnvelopePoint {
+  offset: number; // vehicle offset from the reference position (ft or m)
+  maxPressure: number; // max Boussinesq pressure on the pipe at this offset (psi or kPa)
+}
+
+export interface PositionSearchSummary {
+  governingOffsetAlong: number; // ft or m
+  governingOffsetAcross: number; // ft or m
+  governingPressure: number; // max Boussinesq pressure at the governing position (psi or kPa)
+  positionsEvaluated: number;
+  stepAlong: number; // step used (ft or m), coarsened to cover long ranges in at most 100 steps per side
+  stepAcross: number; // ft or m
+  envelopeAlong: PositionEnvelopePoint[];
+  envelopeAcross: PositionEnvelopePoint[];
+}
+
+/**
+ * Groundwater table (user units: ft or m, lb/ft³ or kg/m³)
+ * Soil below the water table is taken at its submerged unit weight
+ */
+export interface GroundwaterInputs {
+  enabled: boolean;
+  waterTableDepth: number; // depth of water table below grade (ft or m)
+  saturatedSoilDensity: number; // saturated unit weight (lb/ft³ or kg/m³)
+}
+
+/**
+ * Soil layer (user units: ft or m, lb/ft³ or kg/m³)
+ */
+export interface SoilLayerInputs {
+  name: string; // e.g. base course, native fill, embedment
+  thickness: number; // ft or m
+  unitWeight: number; // lb/ft³ or kg/m³
+  soilType: SoilType;
+  compaction: Compaction;
+}
+
+/**
+ * Layered soil profile, listed from grade down; the last layer extends below the pipe
+ * Replaces the single soil density and the E' soil type / compaction when enabled
+ */
+export interface SoilProfileInputs {
+  enabled: boolean;
+  layers: SoilLayerInputs[];
+  loadSpread: boolean; // evaluate live load at the equivalent (Odemark) depth of the layers
+}
+
+export interface SoilProfileSummary {
+  layerCount: number;
+  averageUnitWeight: number; // over the depth of cover (lb/ft³ or kg/m³)
+  embedmentLayer: number; // 1-based index of the layer at the pipe springline
+  embedmentSoilType: SoilType;
+  embedmentCompaction: Compaction;
+  loadSpread: boolean;
+  loadDepth: number; // depth used for the live load (ft or m)
+}
+
+/**
+ * Pavement layers (user units: in or mm, psi or MPa, pci or MPa/m)
+ * The slab is used for RIGID pavement, the asphalt and base layers for FLEXIBLE
+ */
+export interface PavementInputs {
+  enabled: boolean;
+  slabThickness: number; // concrete slab (in or mm)
+  slabModulus: number; // concrete modulus (psi or MPa)
+  subgradeReaction: number; // modulus of subgrade reaction k (pci or MPa/m)
+  asphaltThickness: number; // in or mm
+  asphaltModulus: number; // psi or MPa
+  baseThickness: number; // in or mm
+  baseModulus: number; // psi or MPa
+  subgradeModulus: number; // subgrade resilient modulus (psi or MPa)
+}
+
+export interface PavementSummary {
+  pavementType: PavementType;
+  thickness: number; // total pavement thickness (in or mm)
+  radiusOfRelativeStiffness: number | null; // rigid slab ℓ (in or mm)
+  equivalentThickness: number | null; // flexible Odemark thickness (in or mm)
+  loadDepth: number; // Boussinesq depth below the top of subgrade (ft or m)
+  peakSubgradePressure: number | null; // rigid only (psi or kPa)
+}
+
+/**
+ * SMYS derating point: fraction of the room temperature SMYS at a metal temperature (°F or °C)
+ */
+export interface MaterialDeratingPoint {
+  temperature: number;
+  factor: number;
+}
+
+/**
+ * ASME B31.8 design (user units: °F or °C)
+ * The hoop limit becomes F × E × T (% SMYS) when the code check is B31.8
+ */
+export interface B318DesignInputs {
+  locationClass: LocationClass;
+  roadCrossing: RoadCrossing; // Table 841.1.6-2 row; cased rows apply with a casing
+  designTemperature: number; // for the temperature derating factor T
+  jointFactor?: number; // E, defaults from the long seam weld type
+}
+
+/**
+ * CSA Z662 design (user units: °F or °C)
+ * The hoop limit becomes F × L × J × T (% SMYS) when the code check is CSA Z662
+ * (Class 1, no crossing, T = 1 when omitted)
+ */
+export interface Z662DesignInputs {
+  locationClass: Z662LocationClass;
+  crossing: Z662Crossing; // Table 4.2 row; cased crossings use the general row
+  designTemperature: number; // for the temperature factor T
+  jointFactor?: number; // J, defaults from the long seam weld type
+}
+
+/**
+ * Pipe material (user units: psi or MPa, 10⁻⁶/°F or 10⁻⁶/°C, °F or °C)
+ * Replaces the carbon steel constants (E = 30e6 psi, ν = 0.3, α = 6.5e-6/°F) when enabled
+ */
+export interface MaterialInputs {
+  enabled: boolean;
+  preset: MaterialPreset;
+  elasticModulus: number; // E (psi or MPa)
+  poissonRatio: number; // ν
+  thermalExpansion: number; // α (10⁻⁶/°F or 10⁻⁶/°C)
+  designTemperature?: number; // metal temperature for the SMYS derating (°F or °C)
+  smysDerating?: MaterialDeratingPoint[]; // ascending temperatures, omit for no derating
+}
+
+export interface MaterialSummary {
+  preset: MaterialPreset;
+  label: string;
+  elasticModulus: number; // psi or MPa
+  poissonRatio: number;
+  thermalExpansion: number; // 10⁻⁶/°F or 10⁻⁶/°C
+  smysFactor: number; // derating at the design temperature (1 without derating)
+  effectiveSMYS: number; // SMYS used for the checks (psi or MPa)
+}
+
+/**
+ * Surface load footprint (tire, track, tie or grid) in plan
+ * The pipe axis is X; the pipe centerline is Y = 0
+ */
+export interface LoadFootprint {
+  x: number; // center along the pipe (ft or m)
+  y: number; // center across the pipe (ft or m)
+  width: number; // extent along X (ft or m)
+  length: number; // extent along Y (ft or m)
+}
+
+/**
+ * Boussinesq pressure contour on the plane of the pipe crown
+ */
+export interface PressureMapSummary {
+  depth: number; // depth of the plane below the loads (ft or m)
+  x: number[]; // grid coordinates along the pipe (ft or m)
+  y: number[]; // grid coordinates across the pipe (ft or m)
+  pressures: number[][]; // pressures[iY][iX] (psi or kPa)
+  maxPressure: number; // psi or kPa
+  maxX: number; // location of the max (ft or m)
+  maxY: number;
+  footprints: LoadFootprint[]; // at the analysed vehicle position
+}
+
+/**
+ * Station of the beam-on-elastic-foundation profile along the pipe
+ */
+export interface BeamProfilePoint {
+  x: number; // along the pipe (ft or m)
+  load: number; // line load on the pipe (lb/in or N/mm)
+  deflection: number; // downward (in or mm)
+  moment: number; // sagging positive (lb·in or N·m)
+  shear: number; // lb or N
+}
+
+/**
+ * Longitudinal bending from the Boussinesq pressure profile along the pipe (Hetényi)
+ */
+export interface BeamProfileSummary {
+  characteristicLength: number; // 1/λ (in or mm)
+  foundationModulus: number; // k = E' D Θ / 360 (psi or kPa)
+  maxMoment: number; // largest magnitude, signed (lb·in or N·m)
+  maxShear: number; // lb or N
+  maxDeflection: number; // in or mm
+  bendingStress: number; // psi or kPa
+  points: BeamProfilePoint[];
+}
+
+/**
+ * Lumped point loads against the exact rectangle (Newmark) pressure
+ */
+export interface KernelConvergenceSummary {
+  location: string; // measurement point compared
+  exactPressure: number; // psi or kPa
+  rows: {
+    subdivisions: number; // point loads per element side (1 = engine lumping)
+    maxCellSize: number; // in or mm
+    lumpedPressure: number; // psi or kPa
+    errorPct: number; // relative to the exact pressure
+  }[];
+}
+
+/**
+ * Flotation check of the empty pipe below the water table
+ */
+export interface FlotationCheckSummary {
+  waterAbovePipe: number; // hw (ft or m)
+  hydrostaticPressure: number; // at the top of pipe (psi or kPa)
+  buoyancy: number; // uplift per unit length (lb/ft or kg/m)
+  resistance: number; // pipe + effective soil weight per unit length (lb/ft or kg/m)
+  safetyFactor: number | null; // resistance / buoyancy, null when there is no uplift
+  requiredSafetyFactor: number;
+  pass: boolean;
+}
+
+/**
+ * Cyclic (live load) stress ranges for fatigue screening (psi or kPa)
+ */
+export interface CyclicStresses {
+  hoop: number; // cyclic circumferential stress
+  longitudinal: number; // cyclic longitudinal stress
+}
+
+/**
+ * API RP 1102 fatigue check of the girth and longitudinal seam welds
+ * Stresses and endurance limits in psi or kPa
+ */
+export interface FatigueCheckSummary {
+  cyclicStresses: CyclicStresses;
+  longSeamWeldType: LongSeamWeldType;
+  girthWeldEnduranceLimit: number; // SFG
+  longSeamEnduranceLimit: number; // SFL
+  designFactor: number; // F applied to both endurance limits
+  girthWeldRatio: number; // cyclic longitudinal / (SFG * F)
+  longSeamRatio: number; // cyclic hoop / (SFL * F)
+  girthWeldPass: boolean;
+  longSeamPass: boolean;
+  overallPass: boolean;
+}
+
 export interface StressComponents {
   pressure: number;
   earth: number;
@@ -100,9 +372,147 @@ export interface PassFailSummary {
   longitudinalAtMOP: boolean;
   equivalentAtZero: boolean;
   equivalentAtMOP: boolean;
+  deflection: boolean;
+  buckling: boolean;
+  flotation: boolean;
+  fatigue: boolean; // API 1102 girth and longitudinal weld fatigue, steel pipe only
   overallPass: boolean;
 }
 
+/**
+ * Modified Iowa ring deflection check (dimensionless)
+ */
+export interface DeflectionCheckSummary {
+  deflectionPct: number; // ΔY/D (% of OD)
+  limitPct: number; // allowable ΔY/D (% of OD)
+  deflectionLagFactor: number; // DL
+  beddingConstant: number; // K
+  pass: boolean;
+}
+
+/**
+ * AWWA M11 ring buckling check (psi or kPa)
+ */
+export interface BucklingCheckSummary {
+  allowablePressure: number; // qa
+  appliedPressure: number; // governing combination
+  appliedWithVacuum: number; // water + soil + internal vacuum
+  appliedWithLive: number; // water + soil + live load
+  safetyFactor: number; // FS (2.5 for H/D >= 2, else 3.0)
+  waterBuoyancyFactor: number; // Rw
+  elasticSupportCoefficient: number; // B'
+  pass: boolean;
+}
+
+export type PlasticPipeMaterial = 'PE4710' | 'PE3608' | 'PE2708' | 'PVC1120' | 'CUSTOM';
+
+/**
+ * Flexible plastic (PE or PVC) pipe, AWWA M55 / PPI Handbook ch. 6 and AWWA M23
+ * (user units: psi or MPa, lb/ft³ or kg/m³)
+ * Replaces the steel stress checks; the wall thickness is OD / DR
+ */
+export interface PlasticPipeInputs {
+  enabled: boolean;
+  material: PlasticPipeMaterial;
+  dimensionRatio: number; // DR or SDR = OD / t
+  shortTermModulus: number; // apparent modulus under the live load (psi or MPa)
+  longTermModulus: number; // 50-year apparent modulus under the earth load (psi or MPa)
+  hydrostaticDesignBasis: number; // HDB (or MRS) at 73°F (psi or MPa)
+  designFactor: number; // on the HDB for internal pressure (0.32 for PE gas mains, 49 CFR 192.121)
+  allowableCompressiveStress: number; // ring compression (psi or MPa)
+  density: number; // pipe material for the flotation check (lb/ft³ or kg/m³)
+}
+
+/**
+ * Flexible plastic pipe checks (psi or kPa, in or mm)
+ */
+export interface PlasticPipeCheckSummary {
+  material: PlasticPipeMaterial;
+  dimensionRatio: number;
+  wallThickness: number; // OD / DR
+  deflectionPct: number; // ΔX/D, earth load on the long-term and live load on the short-term modulus
+  deflectionLimitPct: number;
+  deflectionPass: boolean;
+  wallCompressiveStress: number; // (earth + live) · DR / 2
+  allowableCompressiveStress: number;
+  wallCompressionPass: boolean;
+  pressureHoopStress: number; // MOP · (DR - 1) / 2
+  hydrostaticDesignStress: number; // HDB · design factor
+  pressurePass: boolean;
+  bucklingPressure: number; // allowable constrained buckling pressure (Moore-Selig)
+  appliedPressure: number; // earth + groundwater with the live load or the vacuum, whichever is larger
+  bucklingPass: boolean;
+  pass: boolean;
+}
+
+/**
+ * Casing of a cased crossing (user units: in or mm, psi or MPa, ft or m, lb/ft³ or kg/m³)
+ * The surface load acts on the casing; the carrier inside sees internal pressure,
+ * thermal stress and its self weight between the spacers
+ */
+export interface CasingInputs {
+  enabled: boolean;
+  casingOD: number; // in or mm
+  casingWT: number; // in or mm
+  casingSMYS: number; // psi or MPa
+  spacerSpacing: number; // carrier span between casing spacers (ft or m)
+  contentDensity: number; // carrier contents for the self weight (lb/ft³ or kg/m³, 0 for gas)
+}
+
+/**
+ * Carrier pipe inside a casing (psi or kPa)
+ */
+export interface CarrierCheckSummary {
+  hoopStress: number; // internal pressure (Barlow)
+  bendingStress: number; // self weight between spacers
+  longitudinalStress: number; // largest of the zero pressure, MOP and sustained cases
+  equivalentStress: number;
+  hoopPctSMYS: number;
+  longPctSMYS: number;
+  equivPctSMYS: number;
+  limitsUsed: LimitsUsed;
+  hoopPass: boolean;
+  longPass: boolean;
+  equivPass: boolean;
+  pass: boolean;
+}
+
+/**
+ * Cased crossing: the main results are those of the casing
+ */
+export interface CasedCrossingSummary {
+  casingOD: number; // in or mm
+  casingWT: number; // in or mm
+  casingSMYS: number; // psi or MPa
+  casingPass: boolean; // stress, deflection, buckling and flotation checks of the casing
+  carrier: CarrierCheckSummary;
+}
+
+/**
+ * CSA Z662 limit state row with its clause reference (stresses in % SMYS)
+ */
+export interface Z662LimitStateCheck {
+  clause: string;
+  label: string;
+  stressPctSMYS: number;
+  limitPctSMYS: number;
+  pass: boolean;
+}
+
+/**
+ * CSA Z662 clause checks of the pipe under the surface load
+ */
+export interface Z662CheckSummary {
+  locationClass: Z662LocationClass;
+  crossing: Z662Crossing;
+  designFactor: number; // F
+  locationFactor: number; // L
+  jointFactor: number; // J
+  temperatureFactor: number; // T
+  checks: Z662LimitStateCheck[];
+  pass: boolean;
+}
+
 export interface DebugValues {
   soilPressure_psi: number;
   boussinesqMax_psi: number;
@@ -120,6 +530,7 @@ export interface DebugValues {
   longTherm_psi: number;
   contactPressure_psf: number;
   influenceFactor: number;
+  pressureKernel: PressureKernel; // vertical stress kernel used
   bsnqSUM1_psi?: number;
   bsnqSUM2_psi?: number;
   axleLoad_lb?: number;
@@ -138,6 +549,42 @@ export interface LimitsUsed {
   longLimitPct: number;
   equivLimitPct: number;
   usesSustainedLongCheck: boolean;
+  locationClass?: LocationClass; // B31.8 with a location class
+  roadCrossing?: RoadCrossing;
+  designFactor?: number; // F
+  jointFactor?: number; // E
+  temperatureFactor?: number; // T
+}
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export type ValidationCode =
+  | 'NOT_A_NUMBER'
+  | 'NOT_POSITIVE'
+  | 'NEGATIVE'
+  | 'WALL_THICKNESS'
+  | 'FRICTION_ANGLE'
+  | 'MISSING_VALUE'
+  | 'D_T_RANGE'
+  | 'SHALLOW_COVER'
+  | 'TRAP_DOOR_FALLBACK'
+  | 'E_PRIME_EXTRAPOLATION'
+  | 'POISSON_RATIO'
+  | 'DERATING_RANGE'
+  | 'DIMENSION_RATIO'
+  | 'DESIGN_FACTOR'
+  | 'CASING_CLEARANCE'
+  | 'CASED_PLASTIC_CARRIER'
+  | 'PAVEMENT_THICKNESS';
+
+/**
+ * Input validation error or engineering sanity warning (inputValidation)
+ */
+export interface ValidationMessage {
+  severity: ValidationSeverity;
+  code: ValidationCode;
+  field?: string; // input field, e.g. pipeWT or axles.1.load
+  message: string;
 }
 
 export interface PipelineTrackResults {
@@ -147,12 +594,26 @@ export interface PipelineTrackResults {
   stresses: StressResults;
   allowableStress: number;
   passFailSummary: PassFailSummary;
+  fatigueCheck: FatigueCheckSummary;
+  deflectionCheck: DeflectionCheckSummary;
+  bucklingCheck: BucklingCheckSummary;
+  flotationCheck?: FlotationCheckSummary; // only with groundwater
+  soilProfile?: SoilProfileSummary; // only with a layered soil profile
+  pavement?: PavementSummary; // only with pavement load spread
+  pressureMap?: PressureMapSummary; // pressure contour at the pipe crown
+  beamProfile?: BeamProfileSummary; // only with the Boussinesq profile bending method
+  kernelConvergence?: KernelConvergenceSummary; // only with the rectangle kernel
+  material?: MaterialSummary; // only with a material other than the default carbon steel
+  plasticPipeCheck?: PlasticPipeCheckSummary; // only for flexible plastic pipe, replaces the steel stress checks
+  casedCrossing?: CasedCrossingSummary; // only for a cased crossing, the other results are the casing's
+  csaZ662Check?: Z662CheckSummary; // only for the CSA Z662 code check
   limitsUsed: LimitsUsed;
+  warnings: ValidationMessage[]; // engineering sanity warnings on the inputs
   
   // Intermediate values for reference
   ePrimeUsed: number;
   soilLoadOnPipe: number;
-  deflectionRatio: number;
+  deflectionRatio: number; // ΔY/D (Modified Iowa)
   
   // Debug values
   debug: DebugValues;
@@ -1,5 +1,5 @@
-import { UnitsSystem, BeddingAngleDeg, SoilLoadMethod, EPrimeMethod, SoilType, Compaction, EquivStressMethod, CodeCheck, PavementType, VehicleClass } from './types';
-import { StressResults, PassFailSummary, DebugValues, LimitsUsed } from './types';
+import { UnitsSystem, BeddingAngleDeg, SoilLoadMethod, EPrimeMethod, SoilType, Compaction, EquivStressMethod, CodeCheck, PavementType, VehicleClass, LongSeamWeldType, LongitudinalBendingMethod, PressureKernel } from './types';
+import { StressResults, PassFailSummary, DebugValues, LimitsUsed, ValidationMessage, MaterialInputs, MaterialSummary, PlasticPipeInputs, PlasticPipeCheckSummary, CasingInputs, CasedCrossingSummary, B318DesignInputs, Z662DesignInputs, Z662CheckSummary, PositionSearchInputs, PositionSearchSummary, FatigueCheckSummary, DeflectionCheckSummary, BucklingCheckSummary, GroundwaterInputs, FlotationCheckSummary, SoilProfileInputs, SoilProfileSummary, PavementInputs, PavementSummary, PressureMapSummary, BeamProfileSummary, KernelConvergenceSummary } from './types';
 
 export type { UnitsSystem, BeddingAngleDeg, SoilLoadMethod, EPrimeMethod, SoilType, Compaction, EquivStressMethod, CodeCheck, PavementType, VehicleClass };
 
@@ -53,11 +53,29 @@ export interface TwoAxleInputs {
   axleWidth: number; // track width / lateral spacing (in or mm)
   laneOffset: number; // offset from pipe centerline (ft or m)
   
+  // Critical position search (optional)
+  positionSearch?: PositionSearchInputs;
+  
   // Analysis parameters
   pavementType: PavementType;
   vehicleClass: VehicleClass;
   equivStressMethod: EquivStressMethod;
   codeCheck: CodeCheck;
+  longSeamWeldType?: LongSeamWeldType; // fatigue check, defaults to ERW
+  longitudinalBendingMethod?: LongitudinalBendingMethod; // axial bending, defaults to EQUIVALENT_LOAD (VBA)
+  pressureKernel?: PressureKernel; // vertical stress, defaults to BOUSSINESQ_POINT (VBA 6-inch lumping)
+  strictVbaParity?: boolean; // reproduce the legacy VBA spreadsheet formulas (see sharedCalculations)
+  deflectionLagFactor?: number; // Modified Iowa DL, defaults to 1.5
+  deflectionLimitPct?: number; // allowable ΔY/D (% of OD), defaults to 3
+  groundwater?: GroundwaterInputs; // water table (omit for dry ground)
+  soilProfile?: SoilProfileInputs; // layered soil (omit for a single soil density)
+  pavement?: PavementInputs; // pavement load spread (omit to apply loads at grade)
+  material?: MaterialInputs; // pipe material (omit for carbon steel)
+  plasticPipe?: PlasticPipeInputs; // flexible PE/PVC pipe (omit for steel)
+  casing?: CasingInputs; // cased crossing (omit for an uncased pipe)
+  b318Design?: B318DesignInputs; // location class, joint and temperature factors (B31.8 only)
+  z662Design?: Z662DesignInputs; // location class, joint and temperature factors (CSA Z662 only)
+  internalVacuum?: number; // buckling check (psi or kPa), defaults to 0
   userDefinedLimits?: {
     hoopLimitPct: number;
     longLimitPct: number;
@@ -72,9 +90,24 @@ export interface TwoAxleResults {
   stresses: StressResults;
   allowableStress: number;
   passFailSummary: PassFailSummary;
+  fatigueCheck: FatigueCheckSummary;
+  deflectionCheck: DeflectionCheckSummary;
+  bucklingCheck: BucklingCheckSummary;
+  flotationCheck?: FlotationCheckSummary; // only with groundwater
+  soilProfile?: SoilProfileSummary; // only with a layered soil profile
+  pavement?: PavementSummary; // only with pavement load spread
+  pressureMap?: PressureMapSummary; // pressure contour at the pipe crown
+  beamProfile?: BeamProfileSummary; // only with the Boussinesq profile bending method
+  kernelConvergence?: KernelConvergenceSummary; // only with the rectangle kernel
+  material?: MaterialSummary; // only with a material other than the default carbon steel
+  plasticPipeCheck?: PlasticPipeCheckSummary; // only for flexible plastic pipe, replaces the steel stress checks
+  casedCrossing?: CasedCrossingSummary; // only for a cased crossing, the other results are the casing's
+  csaZ662Check?: Z662CheckSummary; // only for the CSA Z662 code check
   limitsUsed: LimitsUsed;
+  warnings: ValidationMessage[]; // engineering sanity warnings on the inputs
   ePrimeUsed: number;
   soilLoadOnPipe: number;
-  deflectionRatio: number;
+  deflectionRatio: number; // ΔY/D (Modified Iowa)
+  positionSearch?: PositionSearchSummary;
   debug: DebugValues;
 }
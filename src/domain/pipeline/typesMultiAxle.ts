@@ -0,0 +1,112 @@
+import { UnitsSystem, BeddingAngleDeg, SoilLoadMethod, EPrimeMethod, SoilType, Compaction, EquivStressMethod, CodeCheck, PavementType, VehicleClass, LongSeamWeldType, LongitudinalBendingMethod, PressureKernel } from './types';
+import { StressResults, PassFailSummary, DebugValues, LimitsUsed, ValidationMessage, MaterialInputs, MaterialSummary, PlasticPipeInputs, PlasticPipeCheckSummary, CasingInputs, CasedCrossingSummary, B318DesignInputs, Z662DesignInputs, Z662CheckSummary, PositionSearchInputs, PositionSearchSummary, FatigueCheckSummary, DeflectionCheckSummary, BucklingCheckSummary, GroundwaterInputs, FlotationCheckSummary, SoilProfileInputs, SoilProfileSummary, PavementInputs, PavementSummary, PressureMapSummary, BeamProfileSummary, KernelConvergenceSummary } from './types';
+
+export type { UnitsSystem, BeddingAngleDeg, SoilLoadMethod, EPrimeMethod, SoilType, Compaction, EquivStressMethod, CodeCheck, PavementType, VehicleClass };
+
+/**
+ * Single axle of a multi-axle vehicle
+ */
+export interface AxleDefinition {
+  spacing: number; // distance from previous axle (ft or m) - ignored for the first axle
+  load: number; // axle load (lb or kg)
+  tiresPerAxle: number; // 2 (single) or 4 (dual), split evenly between left and right wheel lines
+  tireWidth: number; // tire contact width (in or mm)
+  tireLength?: number; // tire contact length (in or mm) - INPUT in MANUAL, CALCULATED in AUTO
+  tirePressure?: number; // tire inflation pressure (psi or kPa) - used in AUTO mode
+  dualSpacing?: number; // center-to-center spacing of dual tires (in or mm)
+}
+
+export interface MultiAxleInputs {
+  // System
+  unitsSystem: UnitsSystem;
+  calculationName: string;
+
+  // Pipe properties
+  pipeOD: number;
+  pipeWT: number;
+  MOP: number;
+  SMYS: number;
+  deltaT: number;
+
+  // Soil properties
+  soilDensity: number;
+  depthCover: number;
+  beddingAngleDeg: BeddingAngleDeg;
+  soilLoadMethod: SoilLoadMethod;
+  frictionAngleDeg: number;
+  soilCohesion: number;
+  kr: number;
+
+  // E'
+  ePrimeMethod: EPrimeMethod;
+  ePrimeUserDefined?: number;
+  soilType?: SoilType;
+  compaction?: Compaction;
+
+  // Multi-axle vehicle properties
+  vehicleName?: string;
+  axles: AxleDefinition[]; // front to rear
+
+  // Contact patch method
+  contactPatchMode: 'MANUAL' | 'AUTO';
+
+  axleWidth: number; // center-to-center distance between left and right wheel lines (in or mm)
+  laneOffset: number; // offset from pipe centerline (ft or m)
+
+  // Critical position search (optional)
+  positionSearch?: PositionSearchInputs;
+
+  // Analysis parameters
+  pavementType: PavementType;
+  vehicleClass: VehicleClass;
+  equivStressMethod: EquivStressMethod;
+  codeCheck: CodeCheck;
+  longSeamWeldType?: LongSeamWeldType; // fatigue check, defaults to ERW
+  longitudinalBendingMethod?: LongitudinalBendingMethod; // axial bending, defaults to EQUIVALENT_LOAD (VBA)
+  pressureKernel?: PressureKernel; // vertical stress, defaults to BOUSSINESQ_POINT (VBA 6-inch lumping)
+  deflectionLagFactor?: number; // Modified Iowa DL, defaults to 1.5
+  deflectionLimitPct?: number; // allowable ΔY/D (% of OD), defaults to 3
+  groundwater?: GroundwaterInputs; // water table (omit for dry ground)
+  soilProfile?: SoilProfileInputs; // layered soil (omit for a single soil density)
+  pavement?: PavementInputs; // pavement load spread (omit to apply loads at grade)
+  material?: MaterialInputs; // pipe material (omit for carbon steel)
+  plasticPipe?: PlasticPipeInputs; // flexible PE/PVC pipe (omit for steel)
+  casing?: CasingInputs; // cased crossing (omit for an uncased pipe)
+  b318Design?: B318DesignInputs; // location class, joint and temperature factors (B31.8 only)
+  z662Design?: Z662DesignInputs; // location class, joint and temperature factors (CSA Z662 only)
+  internalVacuum?: number; // buckling check (psi or kPa), defaults to 0
+  userDefinedLimits?: {
+    hoopLimitPct: number;
+    longLimitPct: number;
+    equivLimitPct: number;
+  };
+}
+
+export interface MultiAxleResults {
+  maxSurfacePressureOnPipe: number;
+  locationMaxLoad: string;
+  impactFactorUsed: number;
+  stresses: StressResults;
+  allowableStress: number;
+  passFailSummary: PassFailSummary;
+  fatigueCheck: FatigueCheckSummary;
+  deflectionCheck: DeflectionCheckSummary;
+  bucklingCheck: BucklingCheckSummary;
+  flotationCheck?: FlotationCheckSummary; // only with groundwater
+  soilProfile?: SoilProfileSummary; // only with a layered soil profile
+  pavement?: PavementSummary; // only with pavement load spread
+  pressureMap?: PressureMapSummary; // pressure contour at the pipe crown
+  beamProfile?: BeamProfileSummary; // only with the Boussinesq profile bending method
+  kernelConvergence?: KernelConvergenceSummary; // only with the rectangle kernel
+  material?: MaterialSummary; // only with a material other than the default carbon steel
+  plasticPipeCheck?: PlasticPipeCheckSummary; // only for flexible plastic pipe, replaces the steel stress checks
+  casedCrossing?: CasedCrossingSummary; // only for a cased crossing, the other results are the casing's
+  csaZ662Check?: Z662CheckSummary; // only for the CSA Z662 code check
+  limitsUsed: LimitsUsed;
+  warnings: ValidationMessage[]; // engineering sanity warnings on the inputs
+  ePrimeUsed: number;
+  soilLoadOnPipe: number;
+  deflectionRatio: number; // ΔY/D (Modified Iowa)
+  positionSearch?: PositionSearchSummary;
+  debug: DebugValues;
+}
@@ -0,0 +1,96 @@
+import { UnitsSystem, BeddingAngleDeg, SoilLoadMethod, EPrimeMethod, SoilType, Compaction, EquivStressMethod, CodeCheck, LongSeamWeldType, LongitudinalBendingMethod, PressureKernel } from './types';
+import { StressResults, PassFailSummary, DebugValues, LimitsUsed, ValidationMessage, MaterialInputs, MaterialSummary, PlasticPipeInputs, PlasticPipeCheckSummary, CasingInputs, CasedCrossingSummary, B318DesignInputs, Z662DesignInputs, Z662CheckSummary, PositionSearchInputs, PositionSearchSummary, FatigueCheckSummary, DeflectionCheckSummary, BucklingCheckSummary, GroundwaterInputs, FlotationCheckSummary, SoilProfileInputs, SoilProfileSummary, PressureMapSummary, BeamProfileSummary, KernelConvergenceSummary } from './types';
+
+export type { UnitsSystem, BeddingAngleDeg, SoilLoadMethod, EPrimeMethod, SoilType, Compaction, EquivStressMethod, CodeCheck };
+
+export interface RailInputs {
+  // System
+  unitsSystem: UnitsSystem;
+  calculationName: string;
+
+  // Pipe properties
+  pipeOD: number;
+  pipeWT: number;
+  MOP: number;
+  SMYS: number;
+  deltaT: number;
+
+  // Soil properties
+  soilDensity: number;
+  depthCover: number; // base of ties to top of pipe
+  beddingAngleDeg: BeddingAngleDeg;
+  soilLoadMethod: SoilLoadMethod;
+  frictionAngleDeg: number;
+  soilCohesion: number;
+  kr: number;
+
+  // E'
+  ePrimeMethod: EPrimeMethod;
+  ePrimeUserDefined?: number;
+  soilType?: SoilType;
+  compaction?: Compaction;
+
+  // Rail loading (Cooper E-series driver axle group)
+  cooperRating: number; // E-number, e.g. 80 for E80 (80 kip driver axles)
+  numberOfAxles: number; // driver axles in the group (Cooper: 4)
+  axleSpacing: number; // driver axle spacing (ft or m)
+  
+  // Track structure - wheel loads are spread through the ties onto the ballast
+  tieLength: number; // (in or mm)
+  tieWidth: number; // (in or mm)
+  tieSpacing: number; // center-to-center (in or mm)
+  trackOffset: number; // track centerline offset from pipe centerline (ft or m)
+  
+  // Critical position search (optional)
+  positionSearch?: PositionSearchInputs;
+
+  // Analysis parameters
+  equivStressMethod: EquivStressMethod;
+  codeCheck: CodeCheck;
+  longSeamWeldType?: LongSeamWeldType; // fatigue check, defaults to ERW
+  longitudinalBendingMethod?: LongitudinalBendingMethod; // axial bending, defaults to EQUIVALENT_LOAD (VBA)
+  pressureKernel?: PressureKernel; // vertical stress, defaults to BOUSSINESQ_POINT (VBA 6-inch lumping)
+  deflectionLagFactor?: number; // Modified Iowa DL, defaults to 1.5
+  deflectionLimitPct?: number; // allowable ΔY/D (% of OD), defaults to 3
+  groundwater?: GroundwaterInputs; // water table (omit for dry ground)
+  soilProfile?: SoilProfileInputs; // layered soil (omit for a single soil density)
+  material?: MaterialInputs; // pipe material (omit for carbon steel)
+  plasticPipe?: PlasticPipeInputs; // flexible PE/PVC pipe (omit for steel)
+  casing?: CasingInputs; // cased crossing (omit for an uncased pipe)
+  b318Design?: B318DesignInputs; // location class, joint and temperature factors (B31.8 only)
+  z662Design?: Z662DesignInputs; // location class, joint and temperature factors (CSA Z662 only)
+  internalVacuum?: number; // buckling check (psi or kPa), defaults to 0
+  userDefinedLimits?: {
+    hoopLimitPct: number;
+    longLimitPct: number;
+    equivLimitPct: number;
+  };
+}
+
+export interface RailResults {
+  maxSurfacePressureOnPipe: number;
+  locationMaxLoad: string;
+  impactFactorUsed: number;
+  stresses: StressResults;
+  allowableStress: number;
+  passFailSummary: PassFailSummary;
+  fatigueCheck: FatigueCheckSummary;
+  deflectionCheck: DeflectionCheckSummary;
+  bucklingCheck: BucklingCheckSummary;
+  flotationCheck?: FlotationCheckSummary; // only with groundwater
+  soilProfile?: SoilProfileSummary; // only with a layered soil profile
+  pressureMap?: PressureMapSummary; // pressure contour at the pipe crown
+  beamProfile?: BeamProfileSummary; // only with the Boussinesq profile bending method
+  kernelConvergence?: KernelConvergenceSummary; // only with the rectangle kernel
+  material?: MaterialSummary; // only with a material other than the default carbon steel
+  plasticPipeCheck?: PlasticPipeCheckSummary; // only for flexible plastic pipe, replaces the steel stress checks
+  casedCrossing?: CasedCrossingSummary; // only for a cased crossing, the other results are the casing's
+  csaZ662Check?: Z662CheckSummary; // only for the CSA Z662 code check
+  limitsUsed: LimitsUsed;
+  warnings: ValidationMessage[]; // engineering sanity warnings on the inputs
+  ePrimeUsed: number;
+  soilLoadOnPipe: number;
+  deflectionRatio: number; // ΔY/D (Modified Iowa)
+  positionSearch?: PositionSearchSummary;
+  debug: DebugValues;
+}
@@ -13,6 +13,8 @@ const LB_TO_KG = 0.453592;
 const KG_TO_LB = 1 / LB_TO_KG;
 const LB_FT3_TO_KG_M3 = 16.0185;
 const KG_M3_TO_LB_FT3 = 1 / LB_FT3_TO_KG_M3;
+const PCI_TO_MPA_M = 0.2714471375;
+const MPA_M_TO_PCI = 1 / PCI_TO_MPA_M;
 
 export interface LengthConversion {
   toEN: (value: number) => number;
@@ -70,19 +72,31 @@ export const densityConv: DensityConversion = {
   toSI: (lbft3: number) => lbft3 * LB_FT3_TO_KG_M3,
 };
 
+// Modulus of subgrade reaction conversions (MPa/m <-> pci)
+export const subgradeReactionConv: PressureConversion = {
+  toEN: (mpam: number) => mpam * MPA_M_TO_PCI,
+  toSI: (pci: number) => pci * PCI_TO_MPA_M,
+};
+
 // Temperature conversions (°C <-> °F)
 export const tempConv = {
   toEN: (celsius: number) => celsius * 9/5 + 32,
   toSI: (fahrenheit: number) => (fahrenheit - 32) * 5/9,
 };
 
+// Thermal expansion coefficient conversions (per °C <-> per °F)
+export const expansionConv = {
+  toEN: (perC: number) => perC * 5/9,
+  toSI: (perF: number) => perF * 9/5,
+};
+
 /**
  * Convert input values from user's unit system to ENGLISH units for calculation
  */
 export function convertInputsToEN(
   value: number,
   fromSystem: UnitsSystem,
-  conversionType: 'length' | 'depth' | 'pressure' | 'smys' | 'force' | 'density' | 'temp' | 'tirePressure'
+  conversionType: 'length' | 'depth' | 'pressure' | 'smys' | 'force' | 'density' | 'temp' | 'tirePressure' | 'subgradeReaction' | 'expansion'
 ): number {
   if (fromSystem === 'EN') return value;
   
@@ -102,6 +116,10 @@ export function convertInputsToEN(
       return densityConv.toEN(value);
     case 'temp':
       return tempConv.toEN(value);
+    case 'subgradeReaction':
+      return subgradeReactionConv.toEN(value);
+    case 'expansion':
+      return expansionConv.toEN(value);
     default:
       return value;
   }
@@ -113,7 +131,7 @@ export function convertInputsToEN(
 export function convertOutputsFromEN(
   value: number,
   toSystem: UnitsSystem,
-  conversionType: 'length' | 'depth' | 'pressure' | 'smys' | 'force' | 'density' | 'temp' | 'tirePressure'
+  conversionType: 'length' | 'depth' | 'pressure' | 'smys' | 'force' | 'density' | 'temp' | 'tirePressure' | 'subgradeReaction' | 'expansion'
 ): number {
   if (toSystem === 'EN') return value;
   
@@ -133,6 +151,10 @@ export function convertOutputsFromEN(
       return densityConv.toSI(value);
     case 'temp':
       return tempConv.toSI(value);
+    case 'subgradeReaction':
+      return subgradeReactionConv.toSI(value);
+    case 'expansion':
+      return expansionConv.toSI(value);
     default:
       return value;
   }
@@ -152,7 +174,7 @@ export function convertFormValue(
   value: number | undefined,
   fromSystem: UnitsSystem,
   toSystem: UnitsSystem,
-  fieldType: 'length' | 'depth' | 'pressure' | 'smys' | 'force' | 'density' | 'temp' | 'tirePressure'
+  fieldType: 'length' | 'depth' | 'pressure' | 'smys' | 'force' | 'density' | 'temp' | 'tirePressure' | 'subgradeReaction' | 'expansion'
 ): number | undefined {
   if (value === undefined || fromSystem === toSystem) return value;
   
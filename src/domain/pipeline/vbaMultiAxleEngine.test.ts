@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { calculateMultiAxleVehicleVBA } from './vbaMultiAxleEngine';
+import { multiAxleInputs } from './testFixtures';
+
+// 2:1 spread under 2 ft of cover: a 10 in x 8 in tire loads (10 + 24) x (8 + 24) in at the crown.
+// The left wheel line is over the crown, the right one 6 ft away is out of reach.
+const spread = { ...multiAxleInputs, depthCover: 2, laneOffset: 3, pressureKernel: 'LOAD_SPREAD_2_1' as const };
+const axle = { spacing: 0, load: 20000, tiresPerAxle: 2, tireWidth: 10, tireLength: 8 };
+const crownPressure = (results: ReturnType<typeof calculateMultiAxleVehicleVBA>) => results.debug.boussinesqMax_psi;
+
+describe('multi-axle engine', () => {
+  it('puts half the axle load on each wheel line', () => {
+    const single = calculateMultiAxleVehicleVBA({ ...spread, axles: [axle] });
+    expect(crownPressure(single)).toBeCloseTo(10000 / (34 * 32), 10);
+
+    // Duals 14 in apart share the wheel load and both reach the crown
+    const duals = calculateMultiAxleVehicleVBA({ ...spread, axles: [{ ...axle, tiresPerAxle: 4, dualSpacing: 14 }] });
+    expect(crownPressure(duals)).toBeCloseTo(10000 / (34 * 32), 10);
+  });
+
+  it('centres the axle group on the pipe', () => {
+    // Axles 2 ft apart sit 12 in either side of the crown, inside the 16 in half spread
+    const tandem = calculateMultiAxleVehicleVBA({ ...spread, axles: [axle, { ...axle, spacing: 2 }] });
+    expect(crownPressure(tandem)).toBeCloseTo(2 * 10000 / (34 * 32), 10);
+
+    const spreadApart = calculateMultiAxleVehicleVBA({ ...spread, axles: [axle, { ...axle, spacing: 3 }] });
+    expect(crownPressure(spreadApart)).toBe(0);
+  });
+
+  it('derives the contact length from the tire pressure in AUTO mode', () => {
+    // 10000 lb / 100 psi / 10 in = 10 in long
+    const auto = calculateMultiAxleVehicleVBA({ ...spread, contactPatchMode: 'AUTO', axles: [{ ...axle, tirePressure: 100 }] });
+    expect(crownPressure(auto)).toBeCloseTo(10000 / (34 * 34), 10);
+  });
+});
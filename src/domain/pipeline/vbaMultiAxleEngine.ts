@@ -0,0 +1,270 @@
+/**
+ * VBA Multi-Axle Vehicle Engine
+ * Calculates stresses from an arbitrary N-axle vehicle (tractor-trailers, heavy haul rigs, crane carriers)
+ * Each tire is discretized with generateRectangularGrid and superposed with Boussinesq
+ */
+
+import { MultiAxleInputs, MultiAxleResults, AxleDefinition } from './typesMultiAxle';
+import { 
+  calculateBoussinesqFromPoints, 
+  generateRectangularGrid, 
+  generateStandardMeasurementPoints,
+  PointLoad 
+} from './boussinesqHelpers';
+import { calculateContactPatch } from './tirePatchCalculations';
+import {
+  searchCriticalPosition,
+  shiftPointLoads,
+  convertPositionSearchToUserUnits,
+  describeGoverningPosition,
+  PositionSearchResultEN,
+} from './criticalPositionSearch';
+import { runPipelineChecks, PipelineInputsEN } from './sharedCalculations';
+import { checkPipelineInputs } from './inputValidation';
+import { resolveMaterial } from './materials';
+import { convertPlasticPipeToEN } from './plasticPipe';
+import { calculateCasedCrossing } from './casing';
+import { convertGroundwaterToEN } from './groundwater';
+import { convertSoilProfileToEN, resolveSoilProfile } from './soilProfile';
+import {
+  convertPavementToEN,
+  transferThroughPavement,
+  convertPavementToUserUnits,
+  PavementEN,
+} from './pavement';
+import { calculatePressureMap, convertPressureMapToUserUnits, FootprintEN } from './pressureMap';
+import { calculateKernelConvergence, convertKernelConvergenceToUserUnits } from './kernelConvergence';
+import { getPressureKernel } from './pressureKernels';
+
+interface AxleEN {
+  spacing_ft: number;
+  load_lb: number;
+  tiresPerAxle: number;
+  tireWidth_in: number;
+  tireLength_in?: number;
+  tirePressure_psi?: number;
+  dualSpacing_in?: number;
+}
+
+interface InputsEN extends PipelineInputsEN {
+  axles: AxleEN[];
+  axleWidth_in: number;
+  laneOffset_ft: number;
+  searchAlongRange_ft: number;
+  searchAcrossRange_ft: number;
+  searchStep_ft: number;
+  pavement?: PavementEN;
+}
+
+/**
+ * Convert multi-axle inputs to English units for calculation
+ */
+function convertInputsToEN(inputs: MultiAxleInputs): InputsEN {
+  const isMetric = inputs.unitsSystem === 'SI';
+  const material = resolveMaterial(inputs.material, inputs.unitsSystem);
+  const ft = isMetric ? 3.280839895013 : 1; // m -> ft
+  const inch = isMetric ? 0.03937007874016 : 1; // mm -> in
+  const lb = isMetric ? 2.2046226218 : 1; // kg -> lb
+  const psi = isMetric ? 0.1450378911491 : 1; // kPa -> psi
+  
+  const convertAxle = (axle: AxleDefinition): AxleEN => ({
+    spacing_ft: (axle.spacing || 0) * ft,
+    load_lb: axle.load * lb,
+    tiresPerAxle: axle.tiresPerAxle,
+    tireWidth_in: axle.tireWidth * inch,
+    tireLength_in: axle.tireLength !== undefined ? axle.tireLength * inch : undefined,
+    tirePressure_psi: axle.tirePressure !== undefined ? axle.tirePressure * psi : undefined,
+    dualSpacing_in: axle.dualSpacing !== undefined ? axle.dualSpacing * inch : undefined,
+  });
+  
+  return {
+    axles: inputs.axles.map(convertAxle),
+    axleWidth_in: inputs.axleWidth * inch,
+    laneOffset_ft: inputs.laneOffset * ft,
+    searchAlongRange_ft: (inputs.positionSearch?.alongPipeRange || 0) * ft,
+    searchAcrossRange_ft: (inputs.positionSearch?.acrossPipeRange || 0) * ft,
+    searchStep_ft: (inputs.positionSearch?.stepSize || 0) * ft,
+    D_in: inputs.pipeOD * inch,
+    t_in: inputs.pipeWT * inch,
+    Pint_psi: inputs.MOP * psi,
+    SMYS_psi: (isMetric ? inputs.SMYS * 145.0378911491 : inputs.SMYS) * material.smysFactor, // MPa -> psi
+    deltaT_F: isMetric ? inputs.deltaT * 9 / 5 : inputs.deltaT, // C -> F delta
+    Rho_lbft3: isMetric ? inputs.soilDensity * 0.062427960576 : inputs.soilDensity, // kg/m3 -> lb/ft3
+    H_ft: inputs.depthCover * ft,
+    Eprime_psi: inputs.ePrimeUserDefined ? inputs.ePrimeUserDefined * psi : undefined,
+    soilCohesion_psi: inputs.soilCohesion * psi,
+    groundwater: convertGroundwaterToEN(inputs.groundwater, inputs.unitsSystem),
+    material,
+    plasticPipe: convertPlasticPipeToEN(inputs.plasticPipe, inputs.unitsSystem),
+    soilProfile: convertSoilProfileToEN(inputs.soilProfile, inputs.unitsSystem),
+    pavement: convertPavementToEN(inputs.pavement, inputs.unitsSystem),
+    vacuum_psi: (inputs.internalVacuum || 0) * psi,
+  };
+}
+
+/**
+ * Resolve tire contact length for an axle (EN units)
+ * AUTO derives it from load and inflation pressure, MANUAL uses the entered value
+ * (required by validatePipelineInputs)
+ */
+function resolveTireLength(axle: AxleEN, contactPatchMode: 'MANUAL' | 'AUTO'): number {
+  if (contactPatchMode === 'AUTO' && axle.tirePressure_psi && axle.tiresPerAxle) {
+    return calculateContactPatch(axle.load_lb, axle.tirePressure_psi, axle.tiresPerAxle, axle.tireWidth_in).contactLength_in;
+  }
+  return axle.tireLength_in ?? 0;
+}
+
+/**
+ * Generate point loads for every tire of every axle
+ * Axles are placed front to rear and centered on the pipe (Y = 0)
+ * Tires are split between two wheel lines at ±axleWidth/2 from the lane offset,
+ * with dual tires spaced dualSpacing apart about each wheel line
+ * Returns the tire footprints alongside the point loads
+ */
+function generateMultiAxlePointLoads(
+  axles: AxleEN[],
+  axleWidth_in: number,
+  laneOffset_in: number,
+  contactPatchMode: 'MANUAL' | 'AUTO',
+  gridSpacing_in: number
+): { pointLoads: PointLoad[]; footprints: FootprintEN[] } {
+  const pointLoads: PointLoad[] = [];
+  const footprints: FootprintEN[] = [];
+  
+  // Cumulative axle positions from the front axle
+  const positions_in: number[] = [];
+  axles.forEach((axle, i) => {
+    positions_in.push(i === 0 ? 0 : positions_in[i - 1] + axle.spacing_ft * 12);
+  });
+  const groupCenter_in = positions_in.length > 0 ? positions_in[positions_in.length - 1] / 2 : 0;
+  
+  axles.forEach((axle, i) => {
+    const axleY = positions_in[i] - groupCenter_in;
+    const tireLength_in = resolveTireLength(axle, contactPatchMode);
+    const tiresPerSide = Math.max(1, Math.round(axle.tiresPerAxle / 2));
+    const tireLoad_lb = axle.load_lb / (2 * tiresPerSide);
+    const dualSpacing_in = axle.dualSpacing_in ?? axle.tireWidth_in;
+    
+    for (const wheelLineX of [laneOffset_in - axleWidth_in / 2, laneOffset_in + axleWidth_in / 2]) {
+      for (let k = 0; k < tiresPerSide; k++) {
+        const tireX = wheelLineX + (k - (tiresPerSide - 1) / 2) * dualSpacing_in;
+        pointLoads.push(...generateRectangularGrid(
+          tireX,
+          axleY,
+          axle.tireWidth_in,
+          tireLength_in,
+          tireLoad_lb,
+          gridSpacing_in
+        ));
+        footprints.push({ x_in: tireX, y_in: axleY, width_in: axle.tireWidth_in, length_in: tireLength_in });
+      }
+    }
+  });
+  
+  return { pointLoads, footprints };
+}
+
+/**
+ * Main multi-axle calculation engine
+ */
+export function calculateMultiAxleVehicleVBA(inputs: MultiAxleInputs): MultiAxleResults {
+  // Cased crossing: the engine analyses the casing, the carrier is checked on its own
+  if (inputs.casing?.enabled) return calculateCasedCrossing(inputs, calculateMultiAxleVehicleVBA);
+  
+  // Reject inputs the engine cannot evaluate; keep the sanity warnings for the results
+  const warnings = checkPipelineInputs(inputs);
+  
+  const inputsEN = convertInputsToEN(inputs);
+  
+  // Layered soil: embedment E', soil column weight and live load depth
+  const soilProfile = inputsEN.soilProfile
+    ? resolveSoilProfile(inputsEN.soilProfile, inputsEN.H_ft, inputsEN.D_in)
+    : undefined;
+  const liveLoadDepth_ft = soilProfile?.loadDepth_ft ?? inputsEN.H_ft;
+  
+  // Vertical stress kernel (load spread kernels act on whole contact areas)
+  const kernel = getPressureKernel(inputs.pressureKernel);
+  
+  const { pointLoads, footprints } = generateMultiAxlePointLoads(
+    inputsEN.axles,
+    inputsEN.axleWidth_in,
+    inputsEN.laneOffset_ft * 12,
+    inputs.contactPatchMode,
+    kernel.gridSpacing_in
+  );
+  
+  // Pavement: carry the surface loads to the top of subgrade
+  const pavement = inputsEN.pavement
+    ? transferThroughPavement(pointLoads, liveLoadDepth_ft, inputs.pavementType, inputsEN.pavement)
+    : undefined;
+  const subgradeLoads = pavement?.pointLoads ?? pointLoads;
+  const boussinesqDepth_ft = pavement?.depth_ft ?? liveLoadDepth_ft;
+  
+  const measurementPoints = generateStandardMeasurementPoints(inputsEN.laneOffset_ft * 12, 0);
+  
+  // Fixed position, or march the vehicle to find the critical position
+  let positionSearch: PositionSearchResultEN | null = null;
+  if (inputs.positionSearch?.enabled) {
+    positionSearch = searchCriticalPosition(subgradeLoads, boussinesqDepth_ft, {
+      alongRange_in: inputsEN.searchAlongRange_ft * 12,
+      acrossRange_in: inputsEN.searchAcrossRange_ft * 12,
+      step_in: inputsEN.searchStep_ft * 12,
+    }, inputs.pressureKernel);
+  }
+  const boussinesq = positionSearch
+    ? positionSearch.boussinesq
+    : calculateBoussinesqFromPoints(subgradeLoads, measurementPoints, boussinesqDepth_ft, inputs.pressureKernel);
+  const positionSearchSummary = positionSearch
+    ? convertPositionSearchToUserUnits(positionSearch, inputs.unitsSystem)
+    : undefined;
+  
+  // Pressure contour on the pipe plane (at the governing position when searched)
+  const pressureMap = calculatePressureMap(
+    subgradeLoads,
+    footprints,
+    boussinesqDepth_ft,
+    positionSearch?.governingOffsetAlong_in,
+    positionSearch?.governingOffsetAcross_in,
+    inputs.pressureKernel
+  );
+
+  const governingLoads = positionSearch
+    ? shiftPointLoads(subgradeLoads, positionSearch.governingOffsetAlong_in, positionSearch.governingOffsetAcross_in)
+    : subgradeLoads;
+
+  // Lumped point loads against the exact rectangle solution (rectangle kernel only)
+  const kernelConvergence = inputs.pressureKernel === 'NEWMARK_RECTANGLE'
+    ? positionSearch
+      ? calculateKernelConvergence(
+          governingLoads,
+          [{ x: 0, y: 0, label: 'Pipe crown at governing vehicle position' }],
+          boussinesqDepth_ft
+        )
+      : calculateKernelConvergence(subgradeLoads, measurementPoints, boussinesqDepth_ft)
+    : undefined;
+  
+  // Pipe stresses and checks under the live load (at the governing position when searched)
+  const checks = runPipelineChecks(
+    inputsEN,
+    { bsnqMax_psi: boussinesq.maxPressure_psi, loads: governingLoads, depth_ft: boussinesqDepth_ft },
+    inputs
+  );
+  
+  return {
+    ...checks,
+    locationMaxLoad: positionSearchSummary
+      ? describeGoverningPosition(positionSearchSummary, inputs.unitsSystem)
+      : boussinesq.maxLocation,
+    warnings,
+    pavement: pavement && convertPavementToUserUnits(pavement, inputs.unitsSystem),
+    pressureMap: convertPressureMapToUserUnits(pressureMap, inputs.unitsSystem),
+    kernelConvergence: kernelConvergence && convertKernelConvergenceToUserUnits(kernelConvergence, inputs.unitsSystem),
+    positionSearch: positionSearchSummary,
+    debug: {
+      ...checks.debug,
+      contactPressure_psf: boussinesq.contactPressure_psf,
+      influenceFactor: boussinesq.influenceFactor,
+      axleLoad_lb: Math.max(...inputsEN.axles.map(a => a.load_lb)),
+    },
+  };
+}
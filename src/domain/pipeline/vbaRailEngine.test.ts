@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { calculateRailLoadVBA } from './vbaRailEngine';
+import { railInputs } from './testFixtures';
+
+// 2:1 spread under 2 ft of cover: a 102 in x 9 in tie loads (102 + 24) x (9 + 24) in at the crown,
+// so the ties 19.5 in either side of the crown tie are out of reach
+const spread = { ...railInputs, depthCover: 2, pressureKernel: 'LOAD_SPREAD_2_1' as const };
+const tieArea_in2 = 126 * 33;
+
+describe('rail engine', () => {
+  it('puts half the axle load on the tie under it', () => {
+    const single = calculateRailLoadVBA({ ...spread, numberOfAxles: 1 });
+    expect(single.debug.boussinesqMax_psi).toBeCloseTo(40000 / tieArea_in2, 10);
+  });
+
+  it('combines the shares of axles on the same tie', () => {
+    // Axles one tie spacing apart: each crown-side tie carries 40000 + 20000 lb
+    const pair = calculateRailLoadVBA({ ...spread, numberOfAxles: 2, axleSpacing: 19.5 / 12 });
+    expect(pair.debug.boussinesqMax_psi).toBeCloseTo(2 * 60000 / tieArea_in2, 10);
+  });
+
+  it('keeps the railroad impact factor at depth', () => {
+    expect(calculateRailLoadVBA(railInputs).impactFactorUsed).toBe(1.75);
+    expect(calculateRailLoadVBA({ ...railInputs, depthCover: 15 }).impactFactorUsed).toBe(1.75);
+  });
+
+  it('lowers the cyclic stresses as the cover increases', () => {
+    // The equivalent load moment decays along the pipe, so deeper cover spreads the train load
+    const [shallow, mid, deep] = [5, 8, 15].map(depthCover => calculateRailLoadVBA({ ...railInputs, depthCover }));
+
+    expect(mid.debug.longLiveBend_psi).toBeLessThan(shallow.debug.longLiveBend_psi!);
+    expect(deep.debug.longLiveBend_psi).toBeLessThan(mid.debug.longLiveBend_psi!);
+    expect(mid.fatigueCheck.cyclicStresses.longitudinal).toBeLessThan(shallow.fatigueCheck.cyclicStresses.longitudinal);
+    expect(deep.fatigueCheck.cyclicStresses.longitudinal).toBeLessThan(mid.fatigueCheck.cyclicStresses.longitudinal);
+    expect(deep.fatigueCheck.cyclicStresses.hoop).toBeLessThan(shallow.fatigueCheck.cyclicStresses.hoop);
+    expect(deep.fatigueCheck.girthWeldRatio).toBeLessThan(shallow.fatigueCheck.girthWeldRatio);
+  });
+
+  it('fails the overall result on girth weld fatigue', () => {
+    // E80 at 6 ft: every static check passes but the girth weld sees 1.6 x its fatigue limit
+    const result = calculateRailLoadVBA(railInputs);
+
+    expect(result.fatigueCheck.girthWeldPass).toBe(false);
+    expect(result.passFailSummary).toMatchObject({ hoopAtMOP: true, longitudinalAtMOP: true, equivalentAtMOP: true, deflection: true, buckling: true });
+    expect(result.passFailSummary.fatigue).toBe(false);
+    expect(result.passFailSummary.overallPass).toBe(false);
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * VBA Rail Engine
+ * Calculates stresses from a Cooper E-series driver axle group at a railroad crossing
+ * Axle loads are shared between ties and applied at the tie base (API RP 1102 style)
+ */
+
+import { RailInputs, RailResults } from './typesRail';
+import { 
+  calculateBoussinesqFromPoints, 
+  generateRectangularGrid, 
+  generateStandardMeasurementPoints,
+  PointLoad 
+} from './boussinesqHelpers';
+import {
+  searchCriticalPosition,
+  shiftPointLoads,
+  convertPositionSearchToUserUnits,
+  describeGoverningPosition,
+  PositionSearchResultEN,
+} from './criticalPositionSearch';
+import { runPipelineChecks, PipelineInputsEN } from './sharedCalculations';
+import { checkPipelineInputs } from './inputValidation';
+import { resolveMaterial } from './materials';
+import { convertPlasticPipeToEN } from './plasticPipe';
+import { calculateCasedCrossing } from './casing';
+import { convertGroundwaterToEN } from './groundwater';
+import { convertSoilProfileToEN, resolveSoilProfile } from './soilProfile';
+import { calculatePressureMap, convertPressureMapToUserUnits, FootprintEN } from './pressureMap';
+import { calculateKernelConvergence, convertKernelConvergenceToUserUnits } from './kernelConvergence';
+import { getPressureKernel } from './pressureKernels';
+
+// Share of an axle load carried by the tie directly under the axle; the remainder
+// is split equally between the two adjacent ties. This is the AREMA Manual for Railway
+// Engineering Ch. 30 distribution factor for 19.5 in tie spacing (about 50%)
+const TIE_DIRECT_SHARE = 0.5;
+
+interface InputsEN extends PipelineInputsEN {
+  axleLoad_lb: number;
+  numberOfAxles: number;
+  axleSpacing_ft: number;
+  tieLength_in: number;
+  tieWidth_in: number;
+  tieSpacing_in: number;
+  trackOffset_ft: number;
+  searchAlongRange_ft: number;
+  searchAcrossRange_ft: number;
+  searchStep_ft: number;
+}
+
+/**
+ * Convert rail inputs to English units for calculation
+ */
+function convertInputsToEN(inputs: RailInputs): InputsEN {
+  const isMetric = inputs.unitsSystem === 'SI';
+  const material = resolveMaterial(inputs.material, inputs.unitsSystem);
+  const ft = isMetric ? 3.280839895013 : 1; // m -> ft
+  const inch = isMetric ? 0.03937007874016 : 1; // mm -> in
+  const psi = isMetric ? 0.1450378911491 : 1; // kPa -> psi
+  
+  return {
+    axleLoad_lb: inputs.cooperRating * 1000, // E80 = 80,000 lb driver axles
+    numberOfAxles: Math.max(1, Math.round(inputs.numberOfAxles)),
+    axleSpacing_ft: inputs.axleSpacing * ft,
+    tieLength_in: inputs.tieLength * inch,
+    tieWidth_in: inputs.tieWidth * inch,
+    tieSpacing_in: inputs.tieSpacing * inch,
+    trackOffset_ft: inputs.trackOffset * ft,
+    searchAlongRange_ft: (inputs.positionSearch?.alongPipeRange || 0) * ft,
+    searchAcrossRange_ft: (inputs.positionSearch?.acrossPipeRange || 0) * ft,
+    searchStep_ft: (inputs.positionSearch?.stepSize || 0) * ft,
+    D_in: inputs.pipeOD * inch,
+    t_in: inputs.pipeWT * inch,
+    Pint_psi: inputs.MOP * psi,
+    SMYS_psi: (isMetric ? inputs.SMYS * 145.0378911491 : inputs.SMYS) * material.smysFactor, // MPa -> psi
+    deltaT_F: isMetric ? inputs.deltaT * 9 / 5 : inputs.deltaT, // C -> F delta
+    Rho_lbft3: isMetric ? inputs.soilDensity * 0.062427960576 : inputs.soilDensity, // kg/m3 -> lb/ft3
+    H_ft: inputs.depthCover * ft,
+    Eprime_psi: inputs.ePrimeUserDefined ? inputs.ePrimeUserDefined * psi : undefined,
+    soilCohesion_psi: inputs.soilCohesion * psi,
+    groundwater: convertGroundwaterToEN(inputs.groundwater, inputs.unitsSystem),
+    material,
+    plasticPipe: convertPlasticPipeToEN(inputs.plasticPipe, inputs.unitsSystem),
+    soilProfile: convertSoilProfileToEN(inputs.soilProfile, inputs.unitsSystem),
+    vacuum_psi: (inputs.internalVacuum || 0) * psi,
+  };
+}
+
+/**
+ * Generate point loads at the tie base for the driver axle group
+ * Axles are centered on the pipe (Y = 0); each axle sits over a tie and shares its load
+ * with the neighbouring ties. Ties span across the track (X) and are loaded over their full footprint,
+ * the uniform tie-to-ballast pressure of the AREMA Ch. 30 average ballast pressure (tie load / tie bearing area).
+ * Returns the tie footprints alongside the point loads
+ */
+function generateTiePointLoads(inputsEN: InputsEN, gridSpacing_in: number): { pointLoads: PointLoad[]; footprints: FootprintEN[] } {
+  const { axleLoad_lb, numberOfAxles, axleSpacing_ft, tieLength_in, tieWidth_in, tieSpacing_in, trackOffset_ft } = inputsEN;
+  
+  // Accumulate load per tie position (ties shared by adjacent axles are combined)
+  const tieLoads = new Map<number, number>();
+  const addTieLoad = (y_in: number, load_lb: number) => {
+    const key = Math.round(y_in * 1000) / 1000;
+    tieLoads.set(key, (tieLoads.get(key) || 0) + load_lb);
+  };
+  
+  const groupLength_in = (numberOfAxles - 1) * axleSpacing_ft * 12;
+  for (let i = 0; i < numberOfAxles; i++) {
+    const axleY = i * axleSpacing_ft * 12 - groupLength_in / 2;
+    addTieLoad(axleY, axleLoad_lb * TIE_DIRECT_SHARE);
+    addTieLoad(axleY - tieSpacing_in, axleLoad_lb * (1 - TIE_DIRECT_SHARE) / 2);
+    addTieLoad(axleY + tieSpacing_in, axleLoad_lb * (1 - TIE_DIRECT_SHARE) / 2);
+  }
+  
+  const pointLoads: PointLoad[] = [];
+  const footprints: FootprintEN[] = [];
+  tieLoads.forEach((load_lb, tieY) => {
+    pointLoads.push(...generateRectangularGrid(
+      trackOffset_ft * 12,
+      tieY,
+      tieLength_in, // across the track
+      tieWidth_in, // along the track
+      load_lb,
+      gridSpacing_in
+    ));
+    footprints.push({ x_in: trackOffset_ft * 12, y_in: tieY, width_in: tieLength_in, length_in: tieWidth_in });
+  });
+  
+  return { pointLoads, footprints };
+}
+
+/**
+ * Main rail calculation engine
+ */
+export function calculateRailLoadVBA(inputs: RailInputs): RailResults {
+  // Cased crossing: the engine analyses the casing, the carrier is checked on its own
+  if (inputs.casing?.enabled) return calculateCasedCrossing(inputs, calculateRailLoadVBA);
+  
+  // Reject inputs the engine cannot evaluate; keep the sanity warnings for the results
+  const warnings = checkPipelineInputs(inputs);
+  
+  const inputsEN = convertInputsToEN(inputs);
+  
+  // Layered soil: embedment E', soil column weight and live load depth
+  const soilProfile = inputsEN.soilProfile
+    ? resolveSoilProfile(inputsEN.soilProfile, inputsEN.H_ft, inputsEN.D_in)
+    : undefined;
+  const liveLoadDepth_ft = soilProfile?.loadDepth_ft ?? inputsEN.H_ft;
+  
+  // Vertical stress kernel (load spread kernels act on whole contact areas)
+  const kernel = getPressureKernel(inputs.pressureKernel);
+  
+  const { pointLoads, footprints } = generateTiePointLoads(inputsEN, kernel.gridSpacing_in);
+  
+  const measurementPoints = generateStandardMeasurementPoints(inputsEN.trackOffset_ft * 12, 0);
+  
+  // Fixed position, or march the vehicle to find the critical position
+  let positionSearch: PositionSearchResultEN | null = null;
+  if (inputs.positionSearch?.enabled) {
+    positionSearch = searchCriticalPosition(pointLoads, liveLoadDepth_ft, {
+      alongRange_in: inputsEN.searchAlongRange_ft * 12,
+      acrossRange_in: inputsEN.searchAcrossRange_ft * 12,
+      step_in: inputsEN.searchStep_ft * 12,
+    }, inputs.pressureKernel);
+  }
+  const boussinesq = positionSearch
+    ? positionSearch.boussinesq
+    : calculateBoussinesqFromPoints(pointLoads, measurementPoints, liveLoadDepth_ft, inputs.pressureKernel);
+  const positionSearchSummary = positionSearch
+    ? convertPositionSearchToUserUnits(positionSearch, inputs.unitsSystem)
+    : undefined;
+  
+  // Pressure contour on the pipe plane (at the governing position when searched)
+  const pressureMap = calculatePressureMap(
+    pointLoads,
+    footprints,
+    liveLoadDepth_ft,
+    positionSearch?.governingOffsetAlong_in,
+    positionSearch?.governingOffsetAcross_in,
+    inputs.pressureKernel
+  );
+
+  const governingLoads = positionSearch
+    ? shiftPointLoads(pointLoads, positionSearch.governingOffsetAlong_in, positionSearch.governingOffsetAcross_in)
+    : pointLoads;
+
+  // Lumped point loads against the exact rectangle solution (rectangle kernel only)
+  const kernelConvergence = inputs.pressureKernel === 'NEWMARK_RECTANGLE'
+    ? positionSearch
+      ? calculateKernelConvergence(
+          governingLoads,
+          [{ x: 0, y: 0, label: 'Pipe crown at governing vehicle position' }],
+          liveLoadDepth_ft
+        )
+      : calculateKernelConvergence(pointLoads, measurementPoints, liveLoadDepth_ft)
+    : undefined;
+  
+  // Pipe stresses and checks under the rail live load (at the governing position when searched)
+  const checks = runPipelineChecks(
+    inputsEN,
+    { bsnqMax_psi: boussinesq.maxPressure_psi, loads: governingLoads, depth_ft: liveLoadDepth_ft },
+    { ...inputs, vehicleClass: 'RAIL', pavementType: 'RIGID' }
+  );
+  
+  return {
+    ...checks,
+    locationMaxLoad: positionSearchSummary
+      ? describeGoverningPosition(positionSearchSummary, inputs.unitsSystem)
+      : boussinesq.maxLocation,
+    warnings,
+    pressureMap: convertPressureMapToUserUnits(pressureMap, inputs.unitsSystem),
+    kernelConvergence: kernelConvergence && convertKernelConvergenceToUserUnits(kernelConvergence, inputs.unitsSystem),
+    positionSearch: positionSearchSummary,
+    debug: {
+      ...checks.debug,
+      contactPressure_psf: boussinesq.contactPressure_psf,
+      influenceFactor: boussinesq.influenceFactor,
+      axleLoad_lb: inputsEN.axleLoad_lb,
+    },
+  };
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { convertAxle, getVehicleFormValues, getVehiclePreset, isVehicleCompatible, VEHICLE_LIBRARY, VehiclePreset } from './vehicleLibrary';
+
+const hs20 = getVehiclePreset('AASHTO_HS20') as VehiclePreset;
+
+describe('vehicle library', () => {
+  it('defines every preset once, with axles or a track', () => {
+    expect(new Set(VEHICLE_LIBRARY.map(v => v.id)).size).toBe(VEHICLE_LIBRARY.length);
+    for (const vehicle of VEHICLE_LIBRARY) {
+      expect(!!vehicle.track !== !!vehicle.axles, vehicle.id).toBe(true);
+      if (vehicle.axles) expect(vehicle.axleWidth_in, vehicle.id).toBeGreaterThan(0);
+    }
+  });
+
+  it('gives contact lengths consistent with the AUTO contact patch', () => {
+    // Length = axle load / tires / inflation pressure / width
+    for (const vehicle of VEHICLE_LIBRARY) {
+      for (const axle of vehicle.axles ?? []) {
+        if (axle.tirePressure === undefined) continue;
+        const length_in = axle.load / axle.tiresPerAxle / axle.tirePressure / axle.tireWidth;
+        expect(Math.abs(length_in / (axle.tireLength as number) - 1), vehicle.id).toBeLessThan(0.01);
+      }
+    }
+  });
+
+  it('loads presets into the forms that fit them', () => {
+    expect(isVehicleCompatible(hs20, '3_AXLE')).toBe(true);
+    expect(isVehicleCompatible(hs20, '2_AXLE')).toBe(false);
+    expect(isVehicleCompatible(hs20, 'PIPELINE_TRACK')).toBe(false);
+    expect(isVehicleCompatible(getVehiclePreset('DOZER_D8') as VehiclePreset, 'PIPELINE_TRACK')).toBe(true);
+
+    expect(getVehicleFormValues(hs20, '3_AXLE', 'EN')).toMatchObject({
+      vehicleClass: 'HIGHWAY',
+      axleWidth: 72,
+      axle1Load: 8000,
+      axle1To2Spacing: 14,
+      axle2To3Spacing: 14,
+      axle3TireWidth: 20,
+      axle3TiresPerAxle: 2,
+    });
+    expect(getVehicleFormValues(hs20, 'MULTI_AXLE', 'EN')).toMatchObject({ vehicleName: hs20.label, axles: hs20.axles });
+  });
+
+  it('converts axles to SI and back', () => {
+    const rear = (hs20.axles ?? [])[1];
+    const si = convertAxle(rear, 'EN', 'SI');
+
+    expect(si.spacing).toBeCloseTo(14 / 3.280839895013, 2);
+    expect(si.tireWidth).toBeCloseTo(508, 3);
+    const back = convertAxle(si, 'SI', 'EN');
+    expect(back.load).toBeCloseTo(rear.load, 0);
+    expect(back.tireLength).toBeCloseTo(rear.tireLength as number, 2);
+    expect(getVehiclePreset('CUSTOM_1', [{ ...hs20, id: 'CUSTOM_1', custom: true }])?.custom).toBe(true);
+  });
+});
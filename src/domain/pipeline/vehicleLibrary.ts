@@ -0,0 +1,326 @@
+import { UnitsSystem, VehicleClass } from './types';
+import { AxleDefinition } from './typesMultiAxle';
+import { convertFormValue } from './unitConversions';
+
+export type VehicleCategory = 'DESIGN_TRUCK' | 'HIGHWAY' | 'RAIL' | 'CONSTRUCTION' | 'CRANE' | 'FARM';
+
+/**
+ * Tracked vehicle definition (ENGLISH units, same basis as the track engine)
+ */
+export interface TrackDefinition {
+  vehicleWeight_lb: number;
+  trackSeparation_ft: number; // center-to-center
+  trackLength_ft: number; // length of track on ground
+  trackWidth_in: number; // shoe width
+}
+
+/**
+ * Vehicle catalogue entry
+ * Wheeled vehicles carry an axle list, tracked vehicles a track definition.
+ * All values are stored in ENGLISH units (ft, lb, in, psi) and converted on selection.
+ */
+export interface VehiclePreset {
+  id: string;
+  label: string;
+  category: VehicleCategory;
+  vehicleClass: VehicleClass; // suggested impact factor class
+  axles?: AxleDefinition[]; // front to rear
+  axleWidth_in?: number; // wheel line center-to-center
+  track?: TrackDefinition;
+  notes?: string;
+  custom?: boolean;
+}
+
+export const VEHICLE_CATEGORY_LABELS: Record<VehicleCategory, string> = {
+  DESIGN_TRUCK: "Design Trucks",
+  HIGHWAY: "Highway Trucks",
+  RAIL: "Rail",
+  CONSTRUCTION: "Construction Equipment",
+  CRANE: "Cranes",
+  FARM: "Farm Equipment",
+};
+
+// Typical tandem axle used by the highway truck presets
+const TANDEM_AXLE = { load: 17000, tiresPerAxle: 4, tireWidth: 8, tireLength: 5.3, tirePressure: 100, dualSpacing: 13 };
+
+// Built-in vehicle catalogue
+// Design vehicles per AASHTO; equipment values are typical for the class - confirm against the spec sheet
+export const VEHICLE_LIBRARY: VehiclePreset[] = [
+  // AASHTO design vehicles (wheel load on a 20 in x 10 in contact area)
+  {
+    id: "AASHTO_HS20",
+    label: "AASHTO HS20-44 Truck",
+    category: "DESIGN_TRUCK",
+    vehicleClass: "HIGHWAY",
+    axles: [
+      { spacing: 0, load: 8000, tiresPerAxle: 2, tireWidth: 10, tireLength: 10, tirePressure: 40 },
+      { spacing: 14, load: 32000, tiresPerAxle: 2, tireWidth: 20, tireLength: 10, tirePressure: 80 },
+      { spacing: 14, load: 32000, tiresPerAxle: 2, tireWidth: 20, tireLength: 10, tirePressure: 80 },
+    ],
+    axleWidth_in: 72,
+    notes: "Rear axle spacing varies 14-30 ft; 14 ft governs",
+  },
+  {
+    id: "AASHTO_HL93_TRUCK",
+    label: "AASHTO HL-93 Design Truck",
+    category: "DESIGN_TRUCK",
+    vehicleClass: "HIGHWAY",
+    axles: [
+      { spacing: 0, load: 8000, tiresPerAxle: 2, tireWidth: 20, tireLength: 10, tirePressure: 20 },
+      { spacing: 14, load: 32000, tiresPerAxle: 2, tireWidth: 20, tireLength: 10, tirePressure: 80 },
+      { spacing: 14, load: 32000, tiresPerAxle: 2, tireWidth: 20, tireLength: 10, tirePressure: 80 },
+    ],
+    axleWidth_in: 72,
+    notes: "Lane load not included",
+  },
+  {
+    id: "AASHTO_HL93_TANDEM",
+    label: "AASHTO HL-93 Design Tandem",
+    category: "DESIGN_TRUCK",
+    vehicleClass: "HIGHWAY",
+    axles: [
+      { spacing: 0, load: 25000, tiresPerAxle: 2, tireWidth: 20, tireLength: 10, tirePressure: 62.5 },
+      { spacing: 4, load: 25000, tiresPerAxle: 2, tireWidth: 20, tireLength: 10, tirePressure: 62.5 },
+    ],
+    axleWidth_in: 72,
+  },
+
+  // Highway trucks
+  {
+    id: "TRI_AXLE_DUMP",
+    label: "Tri-Axle Dump Truck (54,000 lb)",
+    category: "HIGHWAY",
+    vehicleClass: "HIGHWAY",
+    axles: [
+      { spacing: 0, load: 20000, tiresPerAxle: 2, tireWidth: 10, tireLength: 9.1, tirePressure: 110 },
+      { spacing: 14, ...TANDEM_AXLE },
+      { spacing: 4.5, ...TANDEM_AXLE },
+    ],
+    axleWidth_in: 72,
+  },
+  {
+    id: "TRACTOR_TRAILER_5AXLE",
+    label: "5-Axle Tractor-Trailer (80,000 lb)",
+    category: "HIGHWAY",
+    vehicleClass: "HIGHWAY",
+    axles: [
+      { spacing: 0, load: 12000, tiresPerAxle: 2, tireWidth: 8, tireLength: 6.8, tirePressure: 110 },
+      { spacing: 14, ...TANDEM_AXLE },
+      { spacing: 4.5, ...TANDEM_AXLE },
+      { spacing: 30, ...TANDEM_AXLE },
+      { spacing: 4.5, ...TANDEM_AXLE },
+    ],
+    axleWidth_in: 72,
+  },
+
+  // Rail (wheel load spread over ~3 ties)
+  {
+    id: "COOPER_E80",
+    label: "Cooper E80 Driver Axle Group",
+    category: "RAIL",
+    vehicleClass: "RAIL",
+    axles: [
+      { spacing: 0, load: 80000, tiresPerAxle: 2, tireWidth: 12, tireLength: 36 },
+      { spacing: 5, load: 80000, tiresPerAxle: 2, tireWidth: 12, tireLength: 36 },
+      { spacing: 5, load: 80000, tiresPerAxle: 2, tireWidth: 12, tireLength: 36 },
+      { spacing: 5, load: 80000, tiresPerAxle: 2, tireWidth: 12, tireLength: 36 },
+    ],
+    axleWidth_in: 60,
+    notes: "Standard gauge; wheel lines at rail centers",
+  },
+
+  // Construction equipment (tracked)
+  {
+    id: "DOZER_D6",
+    label: "Dozer - D6 Class",
+    category: "CONSTRUCTION",
+    vehicleClass: "TRACK",
+    track: { vehicleWeight_lb: 50000, trackSeparation_ft: 6.5, trackLength_ft: 9, trackWidth_in: 22 },
+  },
+  {
+    id: "DOZER_D8",
+    label: "Dozer - D8 Class",
+    category: "CONSTRUCTION",
+    vehicleClass: "TRACK",
+    track: { vehicleWeight_lb: 84000, trackSeparation_ft: 7.5, trackLength_ft: 10.5, trackWidth_in: 22 },
+  },
+  {
+    id: "DOZER_D10",
+    label: "Dozer - D10 Class",
+    category: "CONSTRUCTION",
+    vehicleClass: "TRACK",
+    track: { vehicleWeight_lb: 150000, trackSeparation_ft: 8.4, trackLength_ft: 12.6, trackWidth_in: 24 },
+  },
+  {
+    id: "EXCAVATOR_35T",
+    label: "Excavator - 35 t Class",
+    category: "CONSTRUCTION",
+    vehicleClass: "TRACK",
+    track: { vehicleWeight_lb: 80000, trackSeparation_ft: 8.5, trackLength_ft: 13.3, trackWidth_in: 31.5 },
+  },
+  {
+    id: "SIDEBOOM_90T",
+    label: "Side-Boom Pipelayer - 90 t Class",
+    category: "CONSTRUCTION",
+    vehicleClass: "TRACK",
+    track: { vehicleWeight_lb: 130000, trackSeparation_ft: 8.2, trackLength_ft: 11.5, trackWidth_in: 30 },
+    notes: "Operating weight only - suspended load and counterweight eccentricity not included",
+  },
+
+  // Cranes
+  {
+    id: "CRAWLER_CRANE_150T",
+    label: "Crawler Crane - 150 t Class",
+    category: "CRANE",
+    vehicleClass: "TRACK",
+    track: { vehicleWeight_lb: 300000, trackSeparation_ft: 18, trackLength_ft: 25, trackWidth_in: 36 },
+    notes: "Travel condition - outrigger/lift loads not included",
+  },
+  {
+    id: "ALL_TERRAIN_CRANE_5AXLE",
+    label: "All-Terrain Crane - 5-Axle, 60 t Class",
+    category: "CRANE",
+    vehicleClass: "HIGHWAY",
+    axles: [
+      { spacing: 0, load: 26500, tiresPerAxle: 2, tireWidth: 20, tireLength: 5.1, tirePressure: 130 },
+      { spacing: 5.4, load: 26500, tiresPerAxle: 2, tireWidth: 20, tireLength: 5.1, tirePressure: 130 },
+      { spacing: 5.4, load: 26500, tiresPerAxle: 2, tireWidth: 20, tireLength: 5.1, tirePressure: 130 },
+      { spacing: 5.4, load: 26500, tiresPerAxle: 2, tireWidth: 20, tireLength: 5.1, tirePressure: 130 },
+      { spacing: 5.4, load: 26500, tiresPerAxle: 2, tireWidth: 20, tireLength: 5.1, tirePressure: 130 },
+    ],
+    axleWidth_in: 90,
+    notes: "Roading configuration",
+  },
+
+  // Farm equipment
+  {
+    id: "COMBINE_LOADED",
+    label: "Combine Harvester (Loaded, Dual Front)",
+    category: "FARM",
+    vehicleClass: "FARM",
+    axles: [
+      { spacing: 0, load: 40000, tiresPerAxle: 4, tireWidth: 28, tireLength: 10.2, tirePressure: 35, dualSpacing: 34 },
+      { spacing: 13, load: 12000, tiresPerAxle: 2, tireWidth: 24, tireLength: 10, tirePressure: 25 },
+    ],
+    axleWidth_in: 120,
+  },
+  {
+    id: "GRAIN_CART_LOADED",
+    label: "Grain Cart (Loaded, Tandem)",
+    category: "FARM",
+    vehicleClass: "FARM",
+    axles: [
+      { spacing: 0, load: 45000, tiresPerAxle: 2, tireWidth: 30, tireLength: 25, tirePressure: 30 },
+      { spacing: 6, load: 45000, tiresPerAxle: 2, tireWidth: 30, tireLength: 25, tirePressure: 30 },
+    ],
+    axleWidth_in: 120,
+  },
+];
+
+export type VehicleFormMode = 'PIPELINE_TRACK' | '2_AXLE' | '3_AXLE' | 'MULTI_AXLE';
+
+// Helper to check whether a vehicle can be loaded into a given form
+export function isVehicleCompatible(vehicle: VehiclePreset, mode: VehicleFormMode): boolean {
+  switch (mode) {
+    case 'PIPELINE_TRACK':
+      return !!vehicle.track;
+    case '2_AXLE':
+      return vehicle.axles?.length === 2;
+    case '3_AXLE':
+      return vehicle.axles?.length === 3;
+    case 'MULTI_AXLE':
+      return !!vehicle.axles && vehicle.axles.length > 0;
+    default:
+      return false;
+  }
+}
+
+// Helper to find a vehicle in the built-in and custom lists
+export function getVehiclePreset(id: string, customVehicles: VehiclePreset[] = []): VehiclePreset | null {
+  return [...VEHICLE_LIBRARY, ...customVehicles].find(v => v.id === id) ?? null;
+}
+
+// Helper to get axles in the form unit system
+export function getVehicleAxles(vehicle: VehiclePreset, unitsSystem: UnitsSystem): AxleDefinition[] {
+  return (vehicle.axles || []).map(axle => convertAxle(axle, 'EN', unitsSystem));
+}
+
+// Helper to get wheel line spacing in the form unit system (in or mm)
+export function getVehicleAxleWidth(vehicle: VehiclePreset, unitsSystem: UnitsSystem): number | null {
+  if (vehicle.axleWidth_in === undefined) return null;
+  return convertFormValue(vehicle.axleWidth_in, 'EN', unitsSystem, 'length') ?? null;
+}
+
+// Helper to get track properties in the form unit system
+export function getVehicleTrack(vehicle: VehiclePreset, unitsSystem: UnitsSystem) {
+  if (!vehicle.track) return null;
+  const t = vehicle.track;
+  return {
+    trackVehicleWeight: convertFormValue(t.vehicleWeight_lb, 'EN', unitsSystem, 'force') ?? t.vehicleWeight_lb,
+    trackSeparation: convertFormValue(t.trackSeparation_ft, 'EN', unitsSystem, 'depth') ?? t.trackSeparation_ft,
+    trackLength: convertFormValue(t.trackLength_ft, 'EN', unitsSystem, 'depth') ?? t.trackLength_ft,
+    trackWidth: convertFormValue(t.trackWidth_in, 'EN', unitsSystem, 'length') ?? t.trackWidth_in,
+  };
+}
+
+// Axle field prefixes used by the fixed-axle forms
+export const AXLE_FIELD_PREFIXES: Record<'2_AXLE' | '3_AXLE', string[]> = {
+  '2_AXLE': ["axle1", "axle2"],
+  '3_AXLE': ["axle1", "axle2", "axle3"],
+};
+
+// Spacing of axle i from the previous axle, as named by each fixed-axle form
+export function getAxleSpacingField(mode: '2_AXLE' | '3_AXLE', i: number): string {
+  return mode === '2_AXLE' ? "axleSpacing" : `axle${i}To${i + 1}Spacing`;
+}
+
+/**
+ * Form field values that load a vehicle into a form (field name -> value, form unit system)
+ */
+export function getVehicleFormValues(vehicle: VehiclePreset, mode: VehicleFormMode, unitsSystem: UnitsSystem): Record<string, unknown> {
+  const values: Record<string, unknown> = { vehicleClass: vehicle.vehicleClass };
+
+  if (mode === 'PIPELINE_TRACK') {
+    return { ...values, ...getVehicleTrack(vehicle, unitsSystem) };
+  }
+
+  const axles = getVehicleAxles(vehicle, unitsSystem);
+  const axleWidth = getVehicleAxleWidth(vehicle, unitsSystem);
+  if (axleWidth !== null) {
+    values.axleWidth = axleWidth;
+  }
+
+  if (mode === 'MULTI_AXLE') {
+    values.vehicleName = vehicle.label;
+    values.axles = axles;
+    return values;
+  }
+
+  AXLE_FIELD_PREFIXES[mode].forEach((prefix, i) => {
+    const axle = axles[i];
+    if (i > 0) {
+      values[getAxleSpacingField(mode, i)] = axle.spacing;
+    }
+    values[`${prefix}Load`] = axle.load;
+    values[`${prefix}TireWidth`] = axle.tireWidth;
+    if (axle.tireLength !== undefined) values[`${prefix}TireLength`] = axle.tireLength;
+    if (axle.tirePressure !== undefined) values[`${prefix}TirePressure`] = axle.tirePressure;
+    values[`${prefix}TiresPerAxle`] = axle.tiresPerAxle;
+  });
+  return values;
+}
+
+/**
+ * Convert one axle between unit systems (spacing ft/m, load lb/kg, tire dims in/mm, pressure psi/kPa)
+ */
+export function convertAxle(axle: AxleDefinition, fromSystem: UnitsSystem, toSystem: UnitsSystem): AxleDefinition {
+  return {
+    spacing: convertFormValue(axle.spacing, fromSystem, toSystem, 'depth') ?? axle.spacing,
+    load: convertFormValue(axle.load, fromSystem, toSystem, 'force') ?? axle.load,
+    tiresPerAxle: axle.tiresPerAxle,
+    tireWidth: convertFormValue(axle.tireWidth, fromSystem, toSystem, 'length') ?? axle.tireWidth,
+    tireLength: convertFormValue(axle.tireLength, fromSystem, toSystem, 'length'),
+    tirePressure: convertFormValue(axle.tirePressure, fromSystem, toSystem, 'tirePressure'),
+    dualSpacing: convertFormValue(axle.dualSpacing, fromSystem, toSystem, 'length'),
+  };
+}
@@ -0,0 +1,383 @@
+import { useState, useMemo } from "react";
+import { Layout } from "@/components/Layout";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Download, Upload, Play, ArrowUpDown, FileSpreadsheet, AlertTriangle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { vehicleStorage } from "@/utils/storage";
+import { cn } from "@/lib/utils";
+import { runBatch, summarizeBatch, exportBatchToCSV, BatchResultRow } from "@/domain/pipeline/batch";
+import {
+  REGISTER_FIELDS,
+  IGNORE_COLUMN,
+  FORM_FIELD_COLUMN,
+  CrossingType,
+  RegisterTable,
+  RegisterRow,
+  parseRegister,
+  autoMapColumns,
+  readRegisterRow,
+} from "@/domain/pipeline/crossingRegister";
+import { SurfaceLoadInputs } from "@/domain/pipeline/computeSurfaceLoad";
+import { getFormFieldNames, validateFormFields } from "@/components/formSchemas";
+
+const TYPE_LABELS: Record<CrossingType, string> = {
+  TRACK: "Pipeline Track",
+  '2_AXLE': "2-Axle Vehicle",
+  '3_AXLE': "3-Axle Vehicle",
+  GRID: "Grid Load",
+  MULTI_AXLE: "Multi-Axle Vehicle",
+  RAIL: "Rail Crossing",
+};
+
+// Result row with the register row number; invalid rows never reach the engines
+interface ImportResultRow extends BatchResultRow {
+  status: 'PASS' | 'FAIL' | 'ERROR' | 'INVALID';
+}
+
+// Register row after validation (config for valid rows, issues otherwise)
+interface CheckedRow {
+  row: RegisterRow;
+  config?: SurfaceLoadInputs;
+  issues?: string[];
+}
+
+type SortKey = 'index' | 'name' | 'type' | 'status' | 'governingPct';
+
+const STATUS_CLASSES: Record<ImportResultRow['status'], string> = {
+  PASS: "text-green-600",
+  FAIL: "text-red-600",
+  ERROR: "text-red-600",
+  INVALID: "text-amber-600",
+};
+
+const Batch = () => {
+  const { toast } = useToast();
+  const [table, setTable] = useState<RegisterTable | null>(null);
+  const [mapping, setMapping] = useState<string[]>([]);
+  const [defaultType, setDefaultType] = useState<CrossingType>('2_AXLE');
+  const [pastedText, setPastedText] = useState("");
+  const [results, setResults] = useState<ImportResultRow[]>([]);
+  const [sort, setSort] = useState<{ key: SortKey; ascending: boolean }>({ key: 'index', ascending: true });
+
+  const loadRegister = (text: string, source: string) => {
+    try {
+      const register = parseRegister(text);
+      setTable(register);
+      setMapping(autoMapColumns(register.headers, getFormFieldNames(defaultType)));
+      setResults([]);
+      toast({
+        title: "Register Loaded",
+        description: `${register.rows.length} crossings from ${source}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "Could not read the register",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => loadRegister(e.target?.result as string, file.name);
+    reader.readAsText(file);
+    event.target.value = "";
+  };
+
+  const setColumnTarget = (column: number, target: string) => {
+    setMapping(current => current.map((t, i) => (i === column ? target : t)));
+  };
+
+  const runImport = () => {
+    if (!table) return;
+
+    const customVehicles = vehicleStorage.getVehicles();
+    const checked = table.rows.map((cells, i): CheckedRow => {
+      const row = readRegisterRow(cells, i + 2, table.headers, mapping, defaultType, customVehicles);
+      if (!row.type || row.issues.length > 0) {
+        return { row, issues: row.issues };
+      }
+      const { config, issues } = validateFormFields(row.type, row.fields);
+      return config ? { row, config } : { row, issues };
+    });
+
+    const valid = checked.filter(c => c.config !== undefined);
+    const calculated = runBatch(valid.map(c => c.config as SurfaceLoadInputs));
+
+    const rows: ImportResultRow[] = checked.map(({ row, config, issues }) => {
+      if (!config) {
+        return {
+          index: row.rowNumber,
+          name: String(row.fields.calculationName),
+          type: row.type ?? "",
+          pass: false,
+          governingPct: null,
+          governingBasis: null,
+          governingCheck: "",
+          controllingLocation: "",
+          error: (issues ?? []).join("; "),
+          status: 'INVALID',
+        };
+      }
+      const result = calculated[valid.findIndex(c => c.row === row)];
+      return {
+        ...result,
+        index: row.rowNumber,
+        status: result.error !== undefined ? 'ERROR' : result.pass ? 'PASS' : 'FAIL',
+      };
+    });
+
+    setResults(rows);
+    const summary = summarizeBatch(rows);
+    toast({
+      title: "Import Complete",
+      description: `${summary.passed}/${summary.total} crossings pass`,
+      variant: summary.failed > 0 ? "destructive" : "default",
+    });
+  };
+
+  const handleExport = () => {
+    const csv = exportBatchToCSV(sortedResults);
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `crossing_register_results_${Date.now()}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+
+    toast({
+      title: "Export Complete",
+      description: "CSV file downloaded",
+    });
+  };
+
+  const toggleSort = (key: SortKey) => {
+    setSort(current => ({ key, ascending: current.key === key ? !current.ascending : true }));
+  };
+
+  const sortedResults = useMemo(() => {
+    const direction = sort.ascending ? 1 : -1;
+    return [...results].sort((a, b) => {
+      const x = a[sort.key];
+      const y = b[sort.key];
+      // Rows without a governing stress always last
+      if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1;
+      return (typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y))) * direction;
+    });
+  }, [results, sort]);
+
+  const counts = useMemo(() => ({
+    pass: results.filter(r => r.status === 'PASS').length,
+    fail: results.filter(r => r.status === 'FAIL' || r.status === 'ERROR').length,
+    invalid: results.filter(r => r.status === 'INVALID').length,
+  }), [results]);
+
+  const sortHeader = (label: string, sortKey: SortKey, className: string) => (
+    <th className={cn("p-2", className)}>
+      <button type="button" className="inline-flex items-center gap-1 hover:text-foreground" onClick={() => toggleSort(sortKey)}>
+        {label}
+        <ArrowUpDown className={cn("w-3 h-3", sort.key === sortKey ? "opacity-100" : "opacity-40")} />
+      </button>
+    </th>
+  );
+
+  return (
+    <Layout>
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-foreground mb-2">Crossing Register Import</h1>
+          <p className="text-muted-foreground">
+            Check a spreadsheet of road and track crossings in one run
+          </p>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          {/* Register Panel */}
+          <div className="lg:col-span-1 space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Register</CardTitle>
+                <CardDescription>One row per crossing, first row holds the column names</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    Values in English units (in, psi, ft, lb). Fields without a column keep the calculator defaults.
+                  </AlertDescription>
+                </Alert>
+
+                <Button variant="outline" className="w-full" asChild>
+                  <label className="cursor-pointer">
+                    <Upload className="w-4 h-4 mr-2" />
+                    Upload CSV
+                    <input type="file" accept=".csv,.tsv,.txt" onChange={handleFile} className="hidden" />
+                  </label>
+                </Button>
+
+                <div className="space-y-2">
+                  <Label htmlFor="pastedRegister">Or paste cells copied from Excel</Label>
+                  <Textarea
+                    id="pastedRegister"
+                    rows={5}
+                    value={pastedText}
+                    onChange={(e) => setPastedText(e.target.value)}
+                    placeholder={"Crossing\tNPS\tWT\tGrade\tCover\tVehicle"}
+                    className="font-mono text-xs"
+                  />
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    disabled={pastedText.trim() === ""}
+                    onClick={() => loadRegister(pastedText, "pasted cells")}
+                  >
+                    <FileSpreadsheet className="w-4 h-4 mr-2" />
+                    Load Pasted Cells
+                  </Button>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Default Calculation Type</Label>
+                  <Select value={defaultType} onValueChange={(v) => setDefaultType(v as CrossingType)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(TYPE_LABELS) as CrossingType[]).map(type => (
+                        <SelectItem key={type} value={type}>{TYPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Used when a row has no type column and no vehicle
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+
+            {table && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Column Mapping</CardTitle>
+                  <CardDescription>{table.rows.length} rows, {table.headers.length} columns</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {table.headers.map((header, i) => (
+                    <div key={i} className="space-y-1">
+                      <Label className="flex justify-between gap-2">
+                        <span className="truncate">{header || `Column ${i + 1}`}</span>
+                        <span className="text-xs text-muted-foreground truncate">{table.rows[0]?.[i]}</span>
+                      </Label>
+                      <Select value={mapping[i]} onValueChange={(v) => setColumnTarget(i, v)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={IGNORE_COLUMN}>Ignore</SelectItem>
+                          {REGISTER_FIELDS.map(field => (
+                            <SelectItem key={field.key} value={field.key}>{field.label}</SelectItem>
+                          ))}
+                          <SelectItem value={FORM_FIELD_COLUMN}>Form field "{header}"</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+
+                  <div className="pt-4 space-y-2">
+                    <Button onClick={runImport} className="w-full">
+                      <Play className="w-4 h-4 mr-2" />
+                      Validate & Run
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          {/* Results Panel */}
+          <div className="lg:col-span-2 space-y-6">
+            {results.length > 0 ? (
+              <Card>
+                <CardHeader>
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <CardTitle>Results</CardTitle>
+                      <CardDescription className="flex gap-2 mt-2">
+                        <Badge variant="secondary">{counts.pass} pass</Badge>
+                        <Badge variant={counts.fail > 0 ? "destructive" : "secondary"}>{counts.fail} fail</Badge>
+                        <Badge variant="outline">{counts.invalid} invalid</Badge>
+                      </CardDescription>
+                    </div>
+                    <Button variant="outline" onClick={handleExport}>
+                      <Download className="w-4 h-4 mr-2" />
+                      Export CSV
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead className="border-b">
+                        <tr>
+                          {sortHeader("Row", "index", "text-left")}
+                          {sortHeader("Crossing", "name", "text-left")}
+                          {sortHeader("Type", "type", "text-left")}
+                          {sortHeader("Status", "status", "text-center")}
+                          {sortHeader("Governing %", "governingPct", "text-right")}
+                          <th className="text-left p-2">Governing Check / Issues</th>
+                          <th className="text-left p-2">Controlling Location</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {sortedResults.map(r => (
+                          <tr
+                            key={r.index}
+                            className={cn("border-b hover:bg-secondary/50", r.status !== 'PASS' && "bg-destructive/10")}
+                          >
+                            <td className="p-2">{r.index}</td>
+                            <td className="p-2">{r.name}</td>
+                            <td className="p-2">{TYPE_LABELS[r.type as CrossingType] ?? r.type}</td>
+                            <td className="text-center p-2">
+                              <span className={cn("font-medium", STATUS_CLASSES[r.status])}>{r.status}</span>
+                            </td>
+                            <td className="text-right p-2">
+                              {r.governingPct !== null ? `${r.governingPct.toFixed(2)}% ${r.governingBasis === 'LIMIT' ? "of limit" : "SMYS"}` : "-"}
+                            </td>
+                            <td className="p-2">{r.error ?? r.governingCheck}</td>
+                            <td className="p-2">{r.controllingLocation}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </CardContent>
+              </Card>
+            ) : (
+              <Card>
+                <CardContent className="flex items-center justify-center h-64">
+                  <div className="text-center text-muted-foreground">
+                    <FileSpreadsheet className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                    <p>Load a register, check the column mapping and run the crossings</p>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default Batch;
@@ -8,7 +8,7 @@ import { Label } from "@/components/ui/label";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { CalculationInput, CalculationMode } from "@/types/calculation";
 import { calculateStress, calculatePipelineTrack } from "@/utils/calculations";
-import { calculate2AxleVehicleVBA, calculate3AxleVehicleVBA, calculateGridLoadVBA } from "@/domain/pipeline";
+import { calculate2AxleVehicleVBA, calculate3AxleVehicleVBA, calculateGridLoadVBA, calculateMultiAxleVehicleVBA, calculateRailLoadVBA } from "@/domain/pipeline";
 import { storage } from "@/utils/storage";
 import { Calculator as CalcIcon } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
@@ -16,10 +16,14 @@ import { PipelineTrackForm } from "@/components/PipelineTrackForm/index";
 import { TwoAxleForm } from "@/components/TwoAxleForm";
 import { ThreeAxleForm } from "@/components/ThreeAxleForm";
 import { GridLoadForm } from "@/components/GridLoadForm";
+import { MultiAxleForm } from "@/components/MultiAxleForm";
+import { RailForm } from "@/components/RailForm";
 import { PipelineTrackInputs } from "@/domain/pipeline/types";
 import { TwoAxleInputs } from "@/domain/pipeline/types2Axle";
 import { ThreeAxleInputs } from "@/domain/pipeline/types3Axle";
 import { GridLoadInputs } from "@/domain/pipeline/typesGrid";
+import { MultiAxleInputs } from "@/domain/pipeline/typesMultiAxle";
+import { RailInputs } from "@/domain/pipeline/typesRail";
 
 const Calculator = () => {
   const navigate = useNavigate();
@@ -188,6 +192,58 @@ const Calculator = () => {
     }
   };
 
+  const handleMultiAxleCalculate = (inputs: MultiAxleInputs) => {
+    try {
+      const result = calculateMultiAxleVehicleVBA(inputs);
+      const run = {
+        id: Date.now().toString(),
+        timestamp: Date.now(),
+        mode: 'MULTI_AXLE' as CalculationMode,
+        input: inputs,
+        result,
+      };
+
+      storage.saveRun(run);
+      toast({
+        title: "Multi-Axle Calculation Complete",
+        description: "Results have been saved",
+      });
+      navigate("/results", { state: { run } });
+    } catch (error) {
+      toast({
+        title: "Calculation Error",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRailCalculate = (inputs: RailInputs) => {
+    try {
+      const result = calculateRailLoadVBA(inputs);
+      const run = {
+        id: Date.now().toString(),
+        timestamp: Date.now(),
+        mode: 'RAIL' as CalculationMode,
+        input: inputs,
+        result,
+      };
+
+      storage.saveRun(run);
+      toast({
+        title: "Rail Calculation Complete",
+        description: "Results have been saved",
+      });
+      navigate("/results", { state: { run } });
+    } catch (error) {
+      toast({
+        title: "Calculation Error",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
   return (
     <Layout>
       <div className="max-w-3xl mx-auto">
@@ -209,11 +265,13 @@ const Calculator = () => {
             
             <div>
               <h3 className="text-sm font-medium text-muted-foreground mb-2 px-1">Pipeline Loading Analysis</h3>
-              <TabsList className="grid w-full grid-cols-4">
+              <TabsList className="grid w-full grid-cols-6">
                 <TabsTrigger value="PIPELINE_TRACK">Track Vehicle</TabsTrigger>
                 <TabsTrigger value="2_AXLE">2-Axle</TabsTrigger>
                 <TabsTrigger value="3_AXLE">3-Axle</TabsTrigger>
                 <TabsTrigger value="GRID">Grid Load</TabsTrigger>
+                <TabsTrigger value="MULTI_AXLE">Multi-Axle</TabsTrigger>
+                <TabsTrigger value="RAIL">Rail</TabsTrigger>
               </TabsList>
             </div>
           </div>
@@ -326,6 +384,14 @@ const Calculator = () => {
           <TabsContent value="GRID">
             <GridLoadForm onCalculate={handleGridCalculate} />
           </TabsContent>
+
+          <TabsContent value="MULTI_AXLE">
+            <MultiAxleForm onCalculate={handleMultiAxleCalculate} />
+          </TabsContent>
+
+          <TabsContent value="RAIL">
+            <RailForm onCalculate={handleRailCalculate} />
+          </TabsContent>
         </Tabs>
       </div>
     </Layout>
@@ -4,12 +4,22 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
-import { ArrowLeft, CheckCircle2, XCircle } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { ArrowLeft, CheckCircle2, XCircle, Download, AlertTriangle } from "lucide-react";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
 import { CalculationRun } from "@/types/calculation";
 import { PipelineTrackResults } from "@/domain/pipeline/types";
 import { TwoAxleResults } from "@/domain/pipeline/types2Axle";
 import { ThreeAxleResults } from "@/domain/pipeline/types3Axle";
+import { MultiAxleResults } from "@/domain/pipeline/typesMultiAxle";
 import { GridLoadResults } from "@/domain/pipeline/typesGrid";
+import { RailResults } from "@/domain/pipeline/typesRail";
+import { LONG_SEAM_WELD_LABELS } from "@/domain/pipeline/fatigueCheck";
+import { LOCATION_CLASS_LABELS, ROAD_CROSSING_LABELS } from "@/domain/pipeline/codeProfiles";
+import { Z662_LOCATION_CLASS_LABELS, Z662_CROSSING_LABELS } from "@/domain/pipeline/csaZ662";
+import { exportPressureMapToCSV } from "@/domain/pipeline/pressureMap";
+import { getPressureKernel } from "@/domain/pipeline/pressureKernels";
+import { PressureContourMap } from "@/components/PressureContourMap";
 
 const Results = () => {
   const location = useLocation();
@@ -27,8 +37,8 @@ const Results = () => {
     );
   }
 
-  const isPipeline = ['PIPELINE_TRACK', '2_AXLE', '3_AXLE', 'GRID'].includes(run.mode);
-  const pipelineResult = isPipeline ? (run.result as PipelineTrackResults | TwoAxleResults | ThreeAxleResults | GridLoadResults) : null;
+  const isPipeline = ['PIPELINE_TRACK', '2_AXLE', '3_AXLE', 'GRID', 'MULTI_AXLE', 'RAIL'].includes(run.mode);
+  const pipelineResult = isPipeline ? (run.result as PipelineTrackResults | TwoAxleResults | ThreeAxleResults | GridLoadResults | MultiAxleResults | RailResults) : null;
   
   const getModeLabel = (mode: string) => {
     switch (mode) {
@@ -36,15 +46,58 @@ const Results = () => {
       case '2_AXLE': return '2-Axle Vehicle';
       case '3_AXLE': return '3-Axle Vehicle';
       case 'GRID': return 'Grid Load';
+      case 'MULTI_AXLE': return 'Multi-Axle Vehicle';
+      case 'RAIL': return 'Rail Crossing';
       default: return 'Simple';
     }
   };
 
+  const positionSearch = (pipelineResult as TwoAxleResults | ThreeAxleResults | MultiAxleResults | RailResults | null)?.positionSearch;
+  const fatigueCheck = pipelineResult?.fatigueCheck;
+  const deflectionCheck = pipelineResult?.deflectionCheck;
+  const bucklingCheck = pipelineResult?.bucklingCheck;
+  const flotationCheck = pipelineResult?.flotationCheck;
+  const soilProfile = pipelineResult?.soilProfile;
+  const material = pipelineResult?.material;
+  const plasticPipeCheck = pipelineResult?.plasticPipeCheck;
+  const casedCrossing = pipelineResult?.casedCrossing;
+  const csaZ662Check = pipelineResult?.csaZ662Check;
+  const pavement = (pipelineResult as PipelineTrackResults | TwoAxleResults | ThreeAxleResults | GridLoadResults | MultiAxleResults | null)?.pavement;
+  const pressureMap = pipelineResult?.pressureMap;
+  const beamProfile = pipelineResult?.beamProfile;
+  const kernelConvergence = pipelineResult?.kernelConvergence;
+  // Runs saved before the kernel was recorded used the VBA point loads
+  const pressureKernel = getPressureKernel(pipelineResult?.debug?.pressureKernel);
+  // Runs saved before input validation have no warnings
+  const inputWarnings = pipelineResult?.warnings ?? [];
+  const lengthUnit = run.input.unitsSystem === 'SI' ? 'm' : 'ft';
+  const pressureUnit = run.input.unitsSystem === 'SI' ? 'kPa' : 'psi';
+  const forcePerLengthUnit = run.input.unitsSystem === 'SI' ? 'kg/m' : 'lb/ft';
+  const densityUnit = run.input.unitsSystem === 'SI' ? 'kg/m³' : 'lb/ft³';
+  const thicknessUnit = run.input.unitsSystem === 'SI' ? 'mm' : 'in';
+  const momentUnit = run.input.unitsSystem === 'SI' ? 'N·m' : 'lb·in';
+  const forceUnit = run.input.unitsSystem === 'SI' ? 'N' : 'lb';
+  const lineLoadUnit = run.input.unitsSystem === 'SI' ? 'N/mm' : 'lb/in';
+  const soilTypeLabels: Record<string, string> = { FINE: 'Fine', COARSE_WITH_FINES: 'Coarse with Fines', COARSE_NO_FINES: 'Coarse no Fines' };
+
   const formatValue = (value: number, decimals = 2) => {
     if (value === undefined || value === null || isNaN(value)) return 'N/A';
     return value.toFixed(decimals);
   };
 
+  const handleExportPressureMap = () => {
+    if (!pressureMap) return;
+
+    const csv = exportPressureMapToCSV(pressureMap, run.input.unitsSystem);
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `pressure_map_${Date.now()}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
   return (
     <Layout>
       <div className="max-w-4xl mx-auto">
@@ -116,6 +169,20 @@ const Results = () => {
           </>
         ) : pipelineResult ? (
           <>
+            {inputWarnings.length > 0 && (
+              <Alert className="mb-6">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Input Warnings</AlertTitle>
+                <AlertDescription>
+                  <ul className="list-disc pl-4 space-y-1">
+                    {inputWarnings.map(warning => (
+                      <li key={`${warning.code}-${warning.field}`}>{warning.message}</li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
             <Card className="mb-6">
               <CardHeader>
                 <CardTitle>Summary</CardTitle>
@@ -140,86 +207,462 @@ const Results = () => {
                       {formatValue(pipelineResult.maxSurfacePressureOnPipe)} {run.input.unitsSystem === 'EN' ? 'psi' : 'kPa'}
                     </p>
                   </div>
+                  {material && (
+                    <div>
+                      <p className="text-sm text-muted-foreground">Pipe Material</p>
+                      <p className="text-lg font-semibold">{material.label}</p>
+                      <p className="text-xs text-muted-foreground">
+                        E = {formatValue(material.elasticModulus, 0)} {run.input.unitsSystem === 'EN' ? 'psi' : 'MPa'}, ν = {material.poissonRatio},
+                        α = {formatValue(material.thermalExpansion)} {run.input.unitsSystem === 'EN' ? '10⁻⁶/°F' : '10⁻⁶/°C'}
+                        {material.smysFactor !== 1 && <>, SMYS × {formatValue(material.smysFactor, 3)} = {formatValue(material.effectiveSMYS, 0)} {run.input.unitsSystem === 'EN' ? 'psi' : 'MPa'}</>}
+                      </p>
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
 
-            <Card className="mb-6">
-              <CardHeader>
-                <CardTitle>Stress Analysis</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-6">
-                <div>
-                  <h3 className="font-semibold mb-3 flex items-center gap-2">
-                    Hoop Stresses
-                  </h3>
+            {positionSearch && (
+              <Card className="mb-6">
+                <CardHeader>
+                  <CardTitle>Critical Position Search</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div className="grid gap-4 md:grid-cols-4">
+                    <div>
+                      <p className="text-sm text-muted-foreground">Offset Along Pipe</p>
+                      <p className="text-lg font-semibold">{formatValue(positionSearch.governingOffsetAlong)} {lengthUnit}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Offset Across Pipe</p>
+                      <p className="text-lg font-semibold">{formatValue(positionSearch.governingOffsetAcross)} {lengthUnit}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Governing Boussinesq Pressure</p>
+                      <p className="text-lg font-semibold">{formatValue(positionSearch.governingPressure)} {pressureUnit}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Positions Evaluated</p>
+                      <p className="text-lg font-semibold">{positionSearch.positionsEvaluated}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Step {formatValue(positionSearch.stepAlong)} along, {formatValue(positionSearch.stepAcross)} across {lengthUnit}
+                      </p>
+                    </div>
+                  </div>
                   <div className="grid gap-4 md:grid-cols-2">
-                    <div className="p-3 bg-muted/50 rounded">
-                      <p className="text-xs text-muted-foreground mb-1">At Zero Pressure</p>
-                      <p className="font-mono">High: {formatValue(pipelineResult.stresses.atZeroPressure.hoop.high)} psi</p>
-                      <p className="font-mono">Low: {formatValue(pipelineResult.stresses.atZeroPressure.hoop.low)} psi</p>
-                      <p className="text-xs text-muted-foreground mt-2">Components:</p>
-                      <p className="text-xs font-mono">Earth: {formatValue(pipelineResult.stresses.atZeroPressure.hoop.components.earth)}</p>
-                      <p className="text-xs font-mono">Thermal: {formatValue(pipelineResult.stresses.atZeroPressure.hoop.components.thermal)}</p>
+                    {[
+                      { title: 'Envelope Along Pipe', data: positionSearch.envelopeAlong },
+                      { title: 'Envelope Across Pipe', data: positionSearch.envelopeAcross },
+                    ].map(({ title, data }) => (
+                      <div key={title}>
+                        <p className="text-sm font-medium mb-2">{title}</p>
+                        <ResponsiveContainer width="100%" height={220}>
+                          <LineChart data={data}>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis dataKey="offset" tickFormatter={(v: number) => v.toFixed(1)} label={{ value: `Offset (${lengthUnit})`, position: 'insideBottom', offset: -5 }} />
+                            <YAxis label={{ value: pressureUnit, angle: -90, position: 'insideLeft' }} />
+                            <Tooltip formatter={(v: number) => v.toFixed(3)} />
+                            <Legend />
+                            <Line type="monotone" dataKey="maxPressure" stroke="hsl(var(--chart-1))" name="Max Boussinesq" dot={false} strokeWidth={2} />
+                          </LineChart>
+                        </ResponsiveContainer>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {pressureMap && (
+              <Card className="mb-6">
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle>Pressure Contour at Pipe Crown</CardTitle>
+                    <Button variant="outline" size="sm" onClick={handleExportPressureMap}>
+                      <Download className="w-4 h-4 mr-2" />
+                      Export CSV
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div className="grid gap-4 md:grid-cols-3">
+                    <div>
+                      <p className="text-sm text-muted-foreground">Max Boussinesq Pressure</p>
+                      <p className="text-lg font-semibold">{formatValue(pressureMap.maxPressure, 3)} {pressureUnit}</p>
                     </div>
-                    <div className="p-3 bg-muted/50 rounded">
-                      <p className="text-xs text-muted-foreground mb-1">At MOP</p>
-                      <p className="font-mono">High: {formatValue(pipelineResult.stresses.atMOP.hoop.high)} psi</p>
-                      <p className="font-mono">Low: {formatValue(pipelineResult.stresses.atMOP.hoop.low)} psi</p>
-                      <p className="text-xs text-muted-foreground mt-2">Components:</p>
-                      <p className="text-xs font-mono">Pressure: {formatValue(pipelineResult.stresses.atMOP.hoop.components.pressure)}</p>
-                      <p className="text-xs font-mono">Earth: {formatValue(pipelineResult.stresses.atMOP.hoop.components.earth)}</p>
-                      <p className="text-xs font-mono">Thermal: {formatValue(pipelineResult.stresses.atMOP.hoop.components.thermal)}</p>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Location of Max (X along, Y across)</p>
+                      <p className="text-lg font-semibold">
+                        {formatValue(pressureMap.maxX)}, {formatValue(pressureMap.maxY)} {lengthUnit}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Plane Depth Below Loads</p>
+                      <p className="text-lg font-semibold">{formatValue(pressureMap.depth)} {lengthUnit}</p>
                     </div>
                   </div>
-                </div>
+                  <PressureContourMap map={pressureMap} lengthUnit={lengthUnit} pressureUnit={pressureUnit} />
+                  <p className="text-xs text-muted-foreground">
+                    {pressureKernel.label} pressure before the impact factor, at the analysed vehicle position{positionSearch ? ' (governing position)' : ''}.
+                    Outlines show the load footprints; the circle marks the maximum on the map.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
 
-                <div className="border-t pt-4">
-                  <h3 className="font-semibold mb-3">Longitudinal Stresses</h3>
+            {kernelConvergence && (
+              <Card className="mb-6">
+                <CardHeader>
+                  <CardTitle>Pressure Kernel Convergence</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
                   <div className="grid gap-4 md:grid-cols-2">
-                    <div className="p-3 bg-muted/50 rounded">
-                      <p className="text-xs text-muted-foreground mb-1">At Zero Pressure</p>
-                      <p className="font-mono">High: {formatValue(pipelineResult.stresses.atZeroPressure.longitudinal.high)} psi</p>
-                      <p className="font-mono">Low: {formatValue(pipelineResult.stresses.atZeroPressure.longitudinal.low)} psi</p>
-                      <p className="text-xs text-muted-foreground mt-2">Components:</p>
-                      <p className="text-xs font-mono">Earth: {formatValue(pipelineResult.stresses.atZeroPressure.longitudinal.components.earth)}</p>
-                      <p className="text-xs font-mono">Thermal: {formatValue(pipelineResult.stresses.atZeroPressure.longitudinal.components.thermal)}</p>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Exact Rectangle Pressure (Newmark)</p>
+                      <p className="text-lg font-semibold">{formatValue(kernelConvergence.exactPressure, 3)} {pressureUnit}</p>
                     </div>
-                    <div className="p-3 bg-muted/50 rounded">
-                      <p className="text-xs text-muted-foreground mb-1">At MOP</p>
-                      <p className="font-mono">High: {formatValue(pipelineResult.stresses.atMOP.longitudinal.high)} psi</p>
-                      <p className="font-mono">Low: {formatValue(pipelineResult.stresses.atMOP.longitudinal.low)} psi</p>
-                      <p className="text-xs text-muted-foreground mt-2">Components:</p>
-                      <p className="text-xs font-mono">Pressure: {formatValue(pipelineResult.stresses.atMOP.longitudinal.components.pressure)}</p>
-                      <p className="text-xs font-mono">Earth: {formatValue(pipelineResult.stresses.atMOP.longitudinal.components.earth)}</p>
-                      <p className="text-xs font-mono">Thermal: {formatValue(pipelineResult.stresses.atMOP.longitudinal.components.thermal)}</p>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Location</p>
+                      <p className="text-lg font-semibold">{kernelConvergence.location}</p>
                     </div>
                   </div>
-                </div>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead className="border-b">
+                        <tr>
+                          <th className="text-left p-2">Point Loads per Cell Side</th>
+                          <th className="text-right p-2">Max Cell Size ({thicknessUnit})</th>
+                          <th className="text-right p-2">Lumped Pressure ({pressureUnit})</th>
+                          <th className="text-right p-2">Error vs Exact</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {kernelConvergence.rows.map(row => (
+                          <tr key={row.subdivisions} className="border-b hover:bg-secondary/50">
+                            <td className="p-2">{row.subdivisions === 1 ? '1 (VBA lumping)' : row.subdivisions}</td>
+                            <td className="text-right p-2">{formatValue(row.maxCellSize, 2)}</td>
+                            <td className="text-right p-2">{formatValue(row.lumpedPressure, 3)}</td>
+                            <td className="text-right p-2">{row.errorPct.toFixed(2)}%</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Each load cell is split into point loads and compared with the closed-form uniformly loaded rectangle.
+                    Lumping error grows as the depth below the loads approaches the cell size.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
 
-                <div className="border-t pt-4">
-                  <h3 className="font-semibold mb-3">Equivalent Stresses ({run.input.equivStressMethod})</h3>
+            {beamProfile && (
+              <Card className="mb-6">
+                <CardHeader>
+                  <CardTitle>Beam on Elastic Foundation (Hetényi)</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div className="grid gap-4 md:grid-cols-3">
+                    <div>
+                      <p className="text-sm text-muted-foreground">Max Bending Moment</p>
+                      <p className="text-lg font-semibold">{formatValue(beamProfile.maxMoment, 0)} {momentUnit}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Longitudinal Bending Stress</p>
+                      <p className="text-lg font-semibold">{formatValue(beamProfile.bendingStress)} {pressureUnit}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Max Shear</p>
+                      <p className="text-lg font-semibold">{formatValue(beamProfile.maxShear, 0)} {forceUnit}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Max Deflection</p>
+                      <p className="text-lg font-semibold">{formatValue(beamProfile.maxDeflection, 4)} {thicknessUnit}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Characteristic Length (1/λ)</p>
+                      <p className="text-lg font-semibold">{formatValue(beamProfile.characteristicLength, 1)} {thicknessUnit}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Foundation Modulus (E' D Θ/360)</p>
+                      <p className="text-lg font-semibold">{formatValue(beamProfile.foundationModulus, 0)} {pressureUnit}</p>
+                    </div>
+                  </div>
                   <div className="grid gap-4 md:grid-cols-2">
-                    <div className="p-3 bg-muted/50 rounded">
-                      <p className="text-xs text-muted-foreground mb-1">At Zero Pressure</p>
-                      <p className="font-mono">High: {formatValue(pipelineResult.stresses.atZeroPressure.equivalent.high)} psi</p>
-                      <p className="font-mono">Low: {formatValue(pipelineResult.stresses.atZeroPressure.equivalent.low)} psi</p>
-                      <p className="text-sm font-semibold mt-2">
-                        {formatValue(pipelineResult.stresses.atZeroPressure.equivalent.percentSMYS)}% SMYS
+                    {[
+                      { title: 'Line Load on Pipe', dataKey: 'load', unit: lineLoadUnit },
+                      { title: 'Deflection', dataKey: 'deflection', unit: thicknessUnit },
+                      { title: 'Bending Moment', dataKey: 'moment', unit: momentUnit },
+                      { title: 'Shear', dataKey: 'shear', unit: forceUnit },
+                    ].map(({ title, dataKey, unit }) => (
+                      <div key={dataKey}>
+                        <p className="text-sm font-medium mb-2">{title}</p>
+                        <ResponsiveContainer width="100%" height={200}>
+                          <LineChart data={beamProfile.points}>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis dataKey="x" type="number" domain={['dataMin', 'dataMax']} tickFormatter={(v: number) => v.toFixed(1)} label={{ value: `Along pipe (${lengthUnit})`, position: 'insideBottom', offset: -5 }} />
+                            <YAxis label={{ value: unit, angle: -90, position: 'insideLeft' }} />
+                            <Tooltip formatter={(v: number) => v.toPrecision(4)} labelFormatter={(v: number) => `${v.toFixed(2)} ${lengthUnit}`} />
+                            <Line type="monotone" dataKey={dataKey} stroke="hsl(var(--chart-1))" name={title} dot={false} strokeWidth={2} />
+                          </LineChart>
+                        </ResponsiveContainer>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Crown pressure along the pipe (with impact factor) applied over the pipe diameter; this moment replaces the equivalent circular load in the longitudinal live load stress.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
+            {soilProfile && (
+              <Card className="mb-6">
+                <CardHeader>
+                  <CardTitle>Layered Soil Profile</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid gap-4 md:grid-cols-4">
+                    <div>
+                      <p className="text-sm text-muted-foreground">Layers</p>
+                      <p className="text-lg font-semibold">{soilProfile.layerCount}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Average Unit Weight Over Cover</p>
+                      <p className="text-lg font-semibold">{formatValue(soilProfile.averageUnitWeight, 1)} {densityUnit}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Embedment (E' Lookup)</p>
+                      <p className="text-lg font-semibold">
+                        Layer {soilProfile.embedmentLayer} · {soilTypeLabels[soilProfile.embedmentSoilType]} {soilProfile.embedmentCompaction}%
                       </p>
                     </div>
-                    <div className="p-3 bg-muted/50 rounded">
-                      <p className="text-xs text-muted-foreground mb-1">At MOP</p>
-                      <p className="font-mono">High: {formatValue(pipelineResult.stresses.atMOP.equivalent.high)} psi</p>
-                      <p className="font-mono">Low: {formatValue(pipelineResult.stresses.atMOP.equivalent.low)} psi</p>
-                      <p className="text-sm font-semibold mt-2">
-                        {formatValue(pipelineResult.stresses.atMOP.equivalent.percentSMYS)}% SMYS
+                    <div>
+                      <p className="text-sm text-muted-foreground">Live Load Depth</p>
+                      <p className="text-lg font-semibold">
+                        {formatValue(soilProfile.loadDepth)} {lengthUnit}{soilProfile.loadSpread ? ' (equivalent)' : ''}
                       </p>
                     </div>
                   </div>
-                </div>
-              </CardContent>
-            </Card>
+                </CardContent>
+              </Card>
+            )}
+
+            {pavement && (
+              <Card className="mb-6">
+                <CardHeader>
+                  <CardTitle>Pavement Load Spread ({pavement.pavementType === 'RIGID' ? 'Rigid' : 'Flexible'})</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid gap-4 md:grid-cols-3">
+                    <div>
+                      <p className="text-sm text-muted-foreground">Pavement Thickness</p>
+                      <p className="text-lg font-semibold">{formatValue(pavement.thickness, 1)} {thicknessUnit}</p>
+                    </div>
+                    {pavement.radiusOfRelativeStiffness !== null && (
+                      <div>
+                        <p className="text-sm text-muted-foreground">Radius of Relative Stiffness</p>
+                        <p className="text-lg font-semibold">{formatValue(pavement.radiusOfRelativeStiffness, 1)} {thicknessUnit}</p>
+                      </div>
+                    )}
+                    {pavement.equivalentThickness !== null && (
+                      <div>
+                        <p className="text-sm text-muted-foreground">Equivalent Subgrade Thickness</p>
+                        <p className="text-lg font-semibold">{formatValue(pavement.equivalentThickness, 1)} {thicknessUnit}</p>
+                      </div>
+                    )}
+                    <div>
+                      <p className="text-sm text-muted-foreground">Boussinesq Depth Below Subgrade</p>
+                      <p className="text-lg font-semibold">{formatValue(pavement.loadDepth)} {lengthUnit}</p>
+                    </div>
+                    {pavement.peakSubgradePressure !== null && (
+                      <div>
+                        <p className="text-sm text-muted-foreground">Peak Subgrade Pressure</p>
+                        <p className="text-lg font-semibold">{formatValue(pavement.peakSubgradePressure)} {pressureUnit}</p>
+                      </div>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {casedCrossing && (
+              <Card className="mb-6">
+                <CardHeader>
+                  <CardTitle>Cased Crossing</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div className="flex items-center justify-between p-3 bg-muted/50 rounded">
+                      <div>
+                        <p>Casing</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatValue(casedCrossing.casingOD)} × {formatValue(casedCrossing.casingWT, 3)} {thicknessUnit}, SMYS {formatValue(casedCrossing.casingSMYS, 0)} {run.input.unitsSystem === 'EN' ? 'psi' : 'MPa'}; stress, deflection, buckling and flotation below
+                        </p>
+                      </div>
+                      {casedCrossing.casingPass ? (
+                        <CheckCircle2 className="h-5 w-5 text-green-600" />
+                      ) : (
+                        <XCircle className="h-5 w-5 text-destructive" />
+                      )}
+                    </div>
+                    <div className="flex items-center justify-between p-3 bg-muted/50 rounded">
+                      <div>
+                        <p>Carrier ({casedCrossing.carrier.limitsUsed.codeLabel})</p>
+                        <p className="text-xs text-muted-foreground">
+                          Limits {formatValue(casedCrossing.carrier.limitsUsed.hoopLimitPct, 1)}% / {formatValue(casedCrossing.carrier.limitsUsed.longLimitPct, 1)}% / {formatValue(casedCrossing.carrier.limitsUsed.equivLimitPct, 1)}% SMYS
+                        </p>
+                      </div>
+                      {casedCrossing.carrier.pass ? (
+                        <CheckCircle2 className="h-5 w-5 text-green-600" />
+                      ) : (
+                        <XCircle className="h-5 w-5 text-destructive" />
+                      )}
+                    </div>
+                  </div>
+                  <div className="grid gap-4 md:grid-cols-4">
+                    <div>
+                      <p className="text-sm text-muted-foreground">Carrier Hoop (Barlow)</p>
+                      <p className="text-lg font-semibold">{formatValue(casedCrossing.carrier.hoopStress)} {pressureUnit}</p>
+                      <p className="text-xs text-muted-foreground">{formatValue(casedCrossing.carrier.hoopPctSMYS, 1)}% SMYS {casedCrossing.carrier.hoopPass ? '✓' : '✗'}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Carrier Longitudinal</p>
+                      <p className="text-lg font-semibold">{formatValue(casedCrossing.carrier.longitudinalStress)} {pressureUnit}</p>
+                      <p className="text-xs text-muted-foreground">{formatValue(casedCrossing.carrier.longPctSMYS, 1)}% SMYS {casedCrossing.carrier.longPass ? '✓' : '✗'}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Carrier Equivalent</p>
+                      <p className="text-lg font-semibold">{formatValue(casedCrossing.carrier.equivalentStress)} {pressureUnit}</p>
+                      <p className="text-xs text-muted-foreground">{formatValue(casedCrossing.carrier.equivPctSMYS, 1)}% SMYS {casedCrossing.carrier.equivPass ? '✓' : '✗'}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Self Weight Bending Between Spacers</p>
+                      <p className="text-lg font-semibold">{formatValue(casedCrossing.carrier.bendingStress)} {pressureUnit}</p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {plasticPipeCheck && (
+              <Card className="mb-6">
+                <CardHeader>
+                  <CardTitle>Flexible Plastic Pipe (AWWA M55 / PPI)</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid gap-4 md:grid-cols-4">
+                    <div>
+                      <p className="text-sm text-muted-foreground">Pipe</p>
+                      <p className="text-lg font-semibold">{plasticPipeCheck.material} DR {formatValue(plasticPipeCheck.dimensionRatio, 1)}</p>
+                      <p className="text-xs text-muted-foreground">t = {formatValue(plasticPipeCheck.wallThickness, 3)} {thicknessUnit}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Ring Deflection</p>
+                      <p className="text-lg font-semibold">{formatValue(plasticPipeCheck.deflectionPct, 2)}%</p>
+                      <p className="text-xs text-muted-foreground">limit {formatValue(plasticPipeCheck.deflectionLimitPct, 1)}% {plasticPipeCheck.deflectionPass ? '✓' : '✗'}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Wall Compression</p>
+                      <p className="text-lg font-semibold">{formatValue(plasticPipeCheck.wallCompressiveStress)} {pressureUnit}</p>
+                      <p className="text-xs text-muted-foreground">allowable {formatValue(plasticPipeCheck.allowableCompressiveStress)} {pressureUnit} {plasticPipeCheck.wallCompressionPass ? '✓' : '✗'}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Pressure Hoop Stress</p>
+                      <p className="text-lg font-semibold">{formatValue(plasticPipeCheck.pressureHoopStress)} {pressureUnit}</p>
+                      <p className="text-xs text-muted-foreground">HDS = HDB × DF = {formatValue(plasticPipeCheck.hydrostaticDesignStress)} {pressureUnit} {plasticPipeCheck.pressurePass ? '✓' : '✗'}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Constrained Buckling (Moore-Selig)</p>
+                      <p className="text-lg font-semibold">{formatValue(plasticPipeCheck.appliedPressure)} {pressureUnit}</p>
+                      <p className="text-xs text-muted-foreground">allowable {formatValue(plasticPipeCheck.bucklingPressure)} {pressureUnit} {plasticPipeCheck.bucklingPass ? '✓' : '✗'}</p>
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-4">
+                    Earth load deflection on the long-term modulus with D<sub>L</sub>, live load on the short-term modulus; the steel stress, %SMYS and fatigue checks do not apply.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
+            {!plasticPipeCheck && (
+              <Card className="mb-6">
+                <CardHeader>
+                  <CardTitle>Stress Analysis{casedCrossing ? ' (Casing)' : ''}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div>
+                    <h3 className="font-semibold mb-3 flex items-center gap-2">
+                      Hoop Stresses
+                    </h3>
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <div className="p-3 bg-muted/50 rounded">
+                        <p className="text-xs text-muted-foreground mb-1">At Zero Pressure</p>
+                        <p className="font-mono">High: {formatValue(pipelineResult.stresses.atZeroPressure.hoop.high)} psi</p>
+                        <p className="font-mono">Low: {formatValue(pipelineResult.stresses.atZeroPressure.hoop.low)} psi</p>
+                        <p className="text-xs text-muted-foreground mt-2">Components:</p>
+                        <p className="text-xs font-mono">Earth: {formatValue(pipelineResult.stresses.atZeroPressure.hoop.components.earth)}</p>
+                        <p className="text-xs font-mono">Thermal: {formatValue(pipelineResult.stresses.atZeroPressure.hoop.components.thermal)}</p>
+                      </div>
+                      <div className="p-3 bg-muted/50 rounded">
+                        <p className="text-xs text-muted-foreground mb-1">At MOP</p>
+                        <p className="font-mono">High: {formatValue(pipelineResult.stresses.atMOP.hoop.high)} psi</p>
+                        <p className="font-mono">Low: {formatValue(pipelineResult.stresses.atMOP.hoop.low)} psi</p>
+                        <p className="text-xs text-muted-foreground mt-2">Components:</p>
+                        <p className="text-xs font-mono">Pressure: {formatValue(pipelineResult.stresses.atMOP.hoop.components.pressure)}</p>
+                        <p className="text-xs font-mono">Earth: {formatValue(pipelineResult.stresses.atMOP.hoop.components.earth)}</p>
+                        <p className="text-xs font-mono">Thermal: {formatValue(pipelineResult.stresses.atMOP.hoop.components.thermal)}</p>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="border-t pt-4">
+                    <h3 className="font-semibold mb-3">Longitudinal Stresses</h3>
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <div className="p-3 bg-muted/50 rounded">
+                        <p className="text-xs text-muted-foreground mb-1">At Zero Pressure</p>
+                        <p className="font-mono">High: {formatValue(pipelineResult.stresses.atZeroPressure.longitudinal.high)} psi</p>
+                        <p className="font-mono">Low: {formatValue(pipelineResult.stresses.atZeroPressure.longitudinal.low)} psi</p>
+                        <p className="text-xs text-muted-foreground mt-2">Components:</p>
+                        <p className="text-xs font-mono">Earth: {formatValue(pipelineResult.stresses.atZeroPressure.longitudinal.components.earth)}</p>
+                        <p className="text-xs font-mono">Thermal: {formatValue(pipelineResult.stresses.atZeroPressure.longitudinal.components.thermal)}</p>
+                      </div>
+                      <div className="p-3 bg-muted/50 rounded">
+                        <p className="text-xs text-muted-foreground mb-1">At MOP</p>
+                        <p className="font-mono">High: {formatValue(pipelineResult.stresses.atMOP.longitudinal.high)} psi</p>
+                        <p className="font-mono">Low: {formatValue(pipelineResult.stresses.atMOP.longitudinal.low)} psi</p>
+                        <p className="text-xs text-muted-foreground mt-2">Components:</p>
+                        <p className="text-xs font-mono">Pressure: {formatValue(pipelineResult.stresses.atMOP.longitudinal.components.pressure)}</p>
+                        <p className="text-xs font-mono">Earth: {formatValue(pipelineResult.stresses.atMOP.longitudinal.components.earth)}</p>
+                        <p className="text-xs font-mono">Thermal: {formatValue(pipelineResult.stresses.atMOP.longitudinal.components.thermal)}</p>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="border-t pt-4">
+                    <h3 className="font-semibold mb-3">Equivalent Stresses ({run.input.equivStressMethod})</h3>
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <div className="p-3 bg-muted/50 rounded">
+                        <p className="text-xs text-muted-foreground mb-1">At Zero Pressure</p>
+                        <p className="font-mono">High: {formatValue(pipelineResult.stresses.atZeroPressure.equivalent.high)} psi</p>
+                        <p className="font-mono">Low: {formatValue(pipelineResult.stresses.atZeroPressure.equivalent.low)} psi</p>
+                        <p className="text-sm font-semibold mt-2">
+                          {formatValue(pipelineResult.stresses.atZeroPressure.equivalent.percentSMYS)}% SMYS
+                        </p>
+                      </div>
+                      <div className="p-3 bg-muted/50 rounded">
+                        <p className="text-xs text-muted-foreground mb-1">At MOP</p>
+                        <p className="font-mono">High: {formatValue(pipelineResult.stresses.atMOP.equivalent.high)} psi</p>
+                        <p className="font-mono">Low: {formatValue(pipelineResult.stresses.atMOP.equivalent.low)} psi</p>
+                        <p className="text-sm font-semibold mt-2">
+                          {formatValue(pipelineResult.stresses.atMOP.equivalent.percentSMYS)}% SMYS
+                        </p>
+                      </div>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
 
             <Card className="mb-6">
               <CardHeader>
@@ -229,7 +672,7 @@ const Results = () => {
                 <div className="space-y-4">
                   {(() => {
                     const trackResult = pipelineResult as PipelineTrackResults;
-                    return trackResult.limitsUsed ? (
+                    return trackResult.limitsUsed && !plasticPipeCheck ? (
                       <div className="space-y-2 p-4 bg-primary/5 rounded-lg border border-primary/20">
                         <div className="flex items-center justify-between">
                           <span className="font-semibold">Code Reference</span>
@@ -253,6 +696,19 @@ const Results = () => {
                               <p className="font-mono font-semibold">{formatValue(trackResult.limitsUsed.equivLimitPct, 1)}%</p>
                             </div>
                           </div>
+                          {trackResult.limitsUsed.locationClass && (
+                            <p className="text-xs text-muted-foreground mt-2">
+                              {LOCATION_CLASS_LABELS[trackResult.limitsUsed.locationClass]}
+                              {trackResult.limitsUsed.roadCrossing !== "NONE" && `, ${ROAD_CROSSING_LABELS[trackResult.limitsUsed.roadCrossing]}`}
+                              : hoop limit F × E × T = {formatValue(trackResult.limitsUsed.designFactor, 2)} × {formatValue(trackResult.limitsUsed.jointFactor, 2)} × {formatValue(trackResult.limitsUsed.temperatureFactor, 3)}
+                            </p>
+                          )}
+                          {csaZ662Check && (
+                            <p className="text-xs text-muted-foreground mt-2">
+                              {Z662_LOCATION_CLASS_LABELS[csaZ662Check.locationClass]}, {Z662_CROSSING_LABELS[csaZ662Check.crossing]}
+                              : hoop limit F × L × J × T = {formatValue(csaZ662Check.designFactor, 2)} × {formatValue(csaZ662Check.locationFactor, 3)} × {formatValue(csaZ662Check.jointFactor, 2)} × {formatValue(csaZ662Check.temperatureFactor, 3)}
+                            </p>
+                          )}
                           {trackResult.limitsUsed.usesSustainedLongCheck && (
                             <p className="text-xs text-amber-600 dark:text-amber-500 mt-2 flex items-start gap-1">
                               <span>⚠️</span>
@@ -265,57 +721,234 @@ const Results = () => {
                   })()}
                   
                   <div className="grid gap-3">
-                    <div className="flex items-center justify-between p-3 bg-muted/50 rounded">
-                      <span>Hoop @ Zero Pressure</span>
-                      {pipelineResult.passFailSummary.hoopAtZero ? (
-                        <CheckCircle2 className="h-5 w-5 text-green-600" />
-                      ) : (
-                        <XCircle className="h-5 w-5 text-destructive" />
-                      )}
-                    </div>
-                    <div className="flex items-center justify-between p-3 bg-muted/50 rounded">
-                      <span>Hoop @ MOP</span>
-                      {pipelineResult.passFailSummary.hoopAtMOP ? (
-                        <CheckCircle2 className="h-5 w-5 text-green-600" />
+                    {!plasticPipeCheck && (
+                      <>
+                        <div className="flex items-center justify-between p-3 bg-muted/50 rounded">
+                          <span>Hoop @ Zero Pressure</span>
+                          {pipelineResult.passFailSummary.hoopAtZero ? (
+                            <CheckCircle2 className="h-5 w-5 text-green-600" />
+                          ) : (
+                            <XCircle className="h-5 w-5 text-destructive" />
+                          )}
+                        </div>
+                        <div className="flex items-center justify-between p-3 bg-muted/50 rounded">
+                          <span>Hoop @ MOP</span>
+                          {pipelineResult.passFailSummary.hoopAtMOP ? (
+                            <CheckCircle2 className="h-5 w-5 text-green-600" />
+                          ) : (
+                            <XCircle className="h-5 w-5 text-destructive" />
+                          )}
+                        </div>
+                        <div className="flex items-center justify-between p-3 bg-muted/50 rounded">
+                          <span>Longitudinal @ Zero Pressure</span>
+                          {pipelineResult.passFailSummary.longitudinalAtZero ? (
+                            <CheckCircle2 className="h-5 w-5 text-green-600" />
+                          ) : (
+                            <XCircle className="h-5 w-5 text-destructive" />
+                          )}
+                        </div>
+                        <div className="flex items-center justify-between p-3 bg-muted/50 rounded">
+                          <span>Longitudinal @ MOP</span>
+                          {pipelineResult.passFailSummary.longitudinalAtMOP ? (
+                            <CheckCircle2 className="h-5 w-5 text-green-600" />
+                          ) : (
+                            <XCircle className="h-5 w-5 text-destructive" />
+                          )}
+                        </div>
+                        <div className="flex items-center justify-between p-3 bg-muted/50 rounded">
+                          <span>Equivalent @ Zero Pressure</span>
+                          {pipelineResult.passFailSummary.equivalentAtZero ? (
+                            <CheckCircle2 className="h-5 w-5 text-green-600" />
+                          ) : (
+                            <XCircle className="h-5 w-5 text-destructive" />
+                          )}
+                        </div>
+                        <div className="flex items-center justify-between p-3 bg-muted/50 rounded">
+                          <span>Equivalent @ MOP</span>
+                          {pipelineResult.passFailSummary.equivalentAtMOP ? (
+                            <CheckCircle2 className="h-5 w-5 text-green-600" />
+                          ) : (
+                            <XCircle className="h-5 w-5 text-destructive" />
+                          )}
+                        </div>
+                        {deflectionCheck && (
+                          <div className="flex items-center justify-between p-3 bg-muted/50 rounded">
+                            <div>
+                              <p>Ring Deflection (Modified Iowa)</p>
+                              <p className="text-xs text-muted-foreground">
+                                ΔY/D = {formatValue(deflectionCheck.deflectionPct, 3)}% (limit {formatValue(deflectionCheck.limitPct, 1)}%), D<sub>L</sub> = {formatValue(deflectionCheck.deflectionLagFactor)}, K = {formatValue(deflectionCheck.beddingConstant, 3)}
+                              </p>
+                            </div>
+                            {pipelineResult.passFailSummary.deflection ? (
+                              <CheckCircle2 className="h-5 w-5 text-green-600" />
+                            ) : (
+                              <XCircle className="h-5 w-5 text-destructive" />
+                            )}
+                          </div>
+                        )}
+                        {bucklingCheck && (
+                          <div className="flex items-center justify-between p-3 bg-muted/50 rounded">
+                            <div>
+                              <p>Ring Buckling (AWWA M11)</p>
+                              <p className="text-xs text-muted-foreground">
+                                Applied {formatValue(bucklingCheck.appliedPressure)} {pressureUnit} vs allowable q<sub>a</sub> = {formatValue(bucklingCheck.allowablePressure)} {pressureUnit} (FS = {formatValue(bucklingCheck.safetyFactor, 1)}, R<sub>w</sub> = {formatValue(bucklingCheck.waterBuoyancyFactor, 3)}, B' = {formatValue(bucklingCheck.elasticSupportCoefficient, 3)})
+                              </p>
+                            </div>
+                            {pipelineResult.passFailSummary.buckling ? (
+                              <CheckCircle2 className="h-5 w-5 text-green-600" />
+                            ) : (
+                              <XCircle className="h-5 w-5 text-destructive" />
+                            )}
+                          </div>
+                        )}
+                        {fatigueCheck && (
+                          <div className="flex items-center justify-between p-3 bg-muted/50 rounded">
+                            <div>
+                              <p>Weld Fatigue (API 1102)</p>
+                              <p className="text-xs text-muted-foreground">
+                                Girth weld ratio {formatValue(fatigueCheck.girthWeldRatio, 3)}, longitudinal seam ratio {formatValue(fatigueCheck.longSeamRatio, 3)} (limit 1.0)
+                              </p>
+                            </div>
+                            {pipelineResult.passFailSummary.fatigue ? (
+                              <CheckCircle2 className="h-5 w-5 text-green-600" />
+                            ) : (
+                              <XCircle className="h-5 w-5 text-destructive" />
+                            )}
+                          </div>
+                        )}
+                      </>
+                    )}
+                    {plasticPipeCheck && (
+                      <div className="flex items-center justify-between p-3 bg-muted/50 rounded">
+                        <div>
+                          <p>Flexible Plastic Pipe (AWWA M55 / PPI)</p>
+                          <p className="text-xs text-muted-foreground">
+                            Deflection, wall compression, pressure (HDB) and constrained buckling
+                          </p>
+                        </div>
+                        {plasticPipeCheck.pass ? (
+                          <CheckCircle2 className="h-5 w-5 text-green-600" />
+                        ) : (
+                          <XCircle className="h-5 w-5 text-destructive" />
+                        )}
+                      </div>
+                    )}
+                    {csaZ662Check?.checks.map((check) => (
+                      <div key={check.label} className="flex items-center justify-between p-3 bg-muted/50 rounded">
+                        <div>
+                          <p>
+                            <Badge variant="outline" className="mr-2">CSA Z662 {check.clause === "Annex C" ? check.clause : `Cl. ${check.clause}`}</Badge>
+                            {check.label}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {formatValue(check.stressPctSMYS, 1)}% SMYS vs limit {formatValue(check.limitPctSMYS, 1)}% SMYS
+                          </p>
+                        </div>
+                        {check.pass ? (
+                          <CheckCircle2 className="h-5 w-5 text-green-600" />
+                        ) : (
+                          <XCircle className="h-5 w-5 text-destructive" />
+                        )}
+                      </div>
+                    ))}
+                    {casedCrossing && (
+                      <div className="flex items-center justify-between p-3 bg-muted/50 rounded">
+                        <div>
+                          <p>Carrier Pipe in Casing</p>
+                          <p className="text-xs text-muted-foreground">
+                            Internal pressure, thermal and self weight between spacers; the rows above are the casing
+                          </p>
+                        </div>
+                        {casedCrossing.carrier.pass ? (
+                          <CheckCircle2 className="h-5 w-5 text-green-600" />
+                        ) : (
+                          <XCircle className="h-5 w-5 text-destructive" />
+                        )}
+                      </div>
+                    )}
+                    {flotationCheck && (
+                      <div className="flex items-center justify-between p-3 bg-muted/50 rounded">
+                        <div>
+                          <p>Flotation (Empty Pipe)</p>
+                          <p className="text-xs text-muted-foreground">
+                            Water above pipe {formatValue(flotationCheck.waterAbovePipe)} {lengthUnit}, hydrostatic {formatValue(flotationCheck.hydrostaticPressure)} {pressureUnit}, uplift {formatValue(flotationCheck.buoyancy, 1)} vs resistance {formatValue(flotationCheck.resistance, 1)} {forcePerLengthUnit}
+                            {flotationCheck.safetyFactor !== null && (
+                              <> (FS = {formatValue(flotationCheck.safetyFactor)}, required {formatValue(flotationCheck.requiredSafetyFactor, 1)})</>
+                            )}
+                          </p>
+                        </div>
+                        {pipelineResult.passFailSummary.flotation ? (
+                          <CheckCircle2 className="h-5 w-5 text-green-600" />
+                        ) : (
+                          <XCircle className="h-5 w-5 text-destructive" />
+                        )}
+                      </div>
+                    )}
+                    <div className="flex items-center justify-between p-4 bg-primary/10 rounded border-2 border-primary/20">
+                      <span className="font-bold text-lg">Overall Result</span>
+                      {pipelineResult.passFailSummary.overallPass ? (
+                        <div className="flex items-center gap-2">
+                          <CheckCircle2 className="h-6 w-6 text-green-600" />
+                          <span className="font-bold text-green-600">PASS</span>
+                        </div>
                       ) : (
-                        <XCircle className="h-5 w-5 text-destructive" />
+                        <div className="flex items-center gap-2">
+                          <XCircle className="h-6 w-6 text-destructive" />
+                          <span className="font-bold text-destructive">FAIL</span>
+                        </div>
                       )}
                     </div>
-                    <div className="flex items-center justify-between p-3 bg-muted/50 rounded">
-                      <span>Longitudinal @ Zero Pressure</span>
-                      {pipelineResult.passFailSummary.longitudinalAtZero ? (
-                        <CheckCircle2 className="h-5 w-5 text-green-600" />
-                      ) : (
-                        <XCircle className="h-5 w-5 text-destructive" />
-                      )}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {fatigueCheck && !plasticPipeCheck && (
+              <Card className="mb-6">
+                <CardHeader>
+                  <CardTitle>Fatigue Check (API RP 1102)</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div className="p-3 bg-muted/50 rounded">
+                      <p className="text-xs text-muted-foreground mb-1">Cyclic Hoop (Live Load at MOP)</p>
+                      <p className="font-mono">{formatValue(fatigueCheck.cyclicStresses.hoop)} {pressureUnit}</p>
                     </div>
-                    <div className="flex items-center justify-between p-3 bg-muted/50 rounded">
-                      <span>Longitudinal @ MOP</span>
-                      {pipelineResult.passFailSummary.longitudinalAtMOP ? (
-                        <CheckCircle2 className="h-5 w-5 text-green-600" />
-                      ) : (
-                        <XCircle className="h-5 w-5 text-destructive" />
-                      )}
+                    <div className="p-3 bg-muted/50 rounded">
+                      <p className="text-xs text-muted-foreground mb-1">Cyclic Longitudinal (Live Load at MOP)</p>
+                      <p className="font-mono">{formatValue(fatigueCheck.cyclicStresses.longitudinal)} {pressureUnit}</p>
                     </div>
+                  </div>
+                  <div className="grid gap-3">
                     <div className="flex items-center justify-between p-3 bg-muted/50 rounded">
-                      <span>Equivalent @ Zero Pressure</span>
-                      {pipelineResult.passFailSummary.equivalentAtZero ? (
+                      <div>
+                        <p>Girth Weld</p>
+                        <p className="text-xs text-muted-foreground">
+                          S<sub>FG</sub> = {formatValue(fatigueCheck.girthWeldEnduranceLimit, 0)} {pressureUnit}, F = {formatValue(fatigueCheck.designFactor)}, ratio {formatValue(fatigueCheck.girthWeldRatio, 3)}
+                        </p>
+                      </div>
+                      {fatigueCheck.girthWeldPass ? (
                         <CheckCircle2 className="h-5 w-5 text-green-600" />
                       ) : (
                         <XCircle className="h-5 w-5 text-destructive" />
                       )}
                     </div>
                     <div className="flex items-center justify-between p-3 bg-muted/50 rounded">
-                      <span>Equivalent @ MOP</span>
-                      {pipelineResult.passFailSummary.equivalentAtMOP ? (
+                      <div>
+                        <p>Longitudinal Seam ({LONG_SEAM_WELD_LABELS[fatigueCheck.longSeamWeldType]})</p>
+                        <p className="text-xs text-muted-foreground">
+                          S<sub>FL</sub> = {formatValue(fatigueCheck.longSeamEnduranceLimit, 0)} {pressureUnit}, F = {formatValue(fatigueCheck.designFactor)}, ratio {formatValue(fatigueCheck.longSeamRatio, 3)}
+                        </p>
+                      </div>
+                      {fatigueCheck.longSeamPass ? (
                         <CheckCircle2 className="h-5 w-5 text-green-600" />
                       ) : (
                         <XCircle className="h-5 w-5 text-destructive" />
                       )}
                     </div>
                     <div className="flex items-center justify-between p-4 bg-primary/10 rounded border-2 border-primary/20">
-                      <span className="font-bold text-lg">Overall Result</span>
-                      {pipelineResult.passFailSummary.overallPass ? (
+                      <span className="font-bold text-lg">Fatigue Result</span>
+                      {fatigueCheck.overallPass ? (
                         <div className="flex items-center gap-2">
                           <CheckCircle2 className="h-6 w-6 text-green-600" />
                           <span className="font-bold text-green-600">PASS</span>
@@ -328,9 +961,9 @@ const Results = () => {
                       )}
                     </div>
                   </div>
-                </div>
-              </CardContent>
-            </Card>
+                </CardContent>
+              </Card>
+            )}
 
             <Card className="mb-6">
               <CardHeader>
@@ -365,6 +998,10 @@ const Results = () => {
                               <span>Influence Factor</span>
                               <span>{formatValue(pipelineResult.debug.influenceFactor, 4)}</span>
                             </div>
+                            <div className="flex justify-between p-2 bg-muted/50 rounded">
+                              <span>Pressure Kernel</span>
+                              <span>{pressureKernel.label}</span>
+                            </div>
                             {pipelineResult.debug.bsnqSUM1_psi && (
                               <div className="flex justify-between p-2 bg-muted/50 rounded">
                                 <span>Boussinesq SUM1</span>
@@ -55,6 +55,8 @@ const Sensitivity = () => {
       case '2_AXLE': return '2-Axle Vehicle';
       case '3_AXLE': return '3-Axle Vehicle';
       case 'GRID': return 'Grid Load';
+      case 'MULTI_AXLE': return 'Multi-Axle Vehicle';
+      case 'RAIL': return 'Rail Crossing';
       default: return mode;
     }
   };
@@ -214,6 +216,8 @@ const Sensitivity = () => {
                       <SelectItem value="2_AXLE">2-Axle Vehicle</SelectItem>
                       <SelectItem value="3_AXLE">3-Axle Vehicle</SelectItem>
                       <SelectItem value="GRID">Grid Load</SelectItem>
+                      <SelectItem value="MULTI_AXLE">Multi-Axle Vehicle</SelectItem>
+                      <SelectItem value="RAIL">Rail Crossing</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
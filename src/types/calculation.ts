@@ -1,4 +1,4 @@
-export type CalculationMode = 'SIMPLE' | 'PIPELINE_TRACK' | '2_AXLE' | '3_AXLE' | 'GRID';
+export type CalculationMode = 'SIMPLE' | 'PIPELINE_TRACK' | '2_AXLE' | '3_AXLE' | 'GRID' | 'MULTI_AXLE' | 'RAIL';
 
 export interface CalculationInput {
   loadMagnitude: number; // kN
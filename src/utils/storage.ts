@@ -1,4 +1,5 @@
 import { CalculationRun } from "@/types/calculation";
+import { VehiclePreset } from "@/domain/pipeline/vehicleLibrary";
 
 const STORAGE_KEY = "surface-loading-calculations";
 
@@ -59,3 +60,36 @@ export const storage = {
     }
   },
 };
+
+const VEHICLES_KEY = "surface-loading-custom-vehicles";
+
+export const vehicleStorage = {
+  getVehicles: (): VehiclePreset[] => {
+    try {
+      const data = localStorage.getItem(VEHICLES_KEY);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error("Error reading vehicles from localStorage:", error);
+      return [];
+    }
+  },
+
+  saveVehicle: (vehicle: VehiclePreset): void => {
+    try {
+      const vehicles = vehicleStorage.getVehicles().filter((v) => v.id !== vehicle.id);
+      vehicles.push({ ...vehicle, custom: true });
+      localStorage.setItem(VEHICLES_KEY, JSON.stringify(vehicles));
+    } catch (error) {
+      console.error("Error saving vehicle to localStorage:", error);
+    }
+  },
+
+  deleteVehicle: (id: string): void => {
+    try {
+      const vehicles = vehicleStorage.getVehicles().filter((v) => v.id !== id);
+      localStorage.setItem(VEHICLES_KEY, JSON.stringify(vehicles));
+    } catch (error) {
+      console.error("Error deleting vehicle from localStorage:", error);
+    }
+  },
+};